@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { useAuth } from "@/hooks/useAuth";
+import { useAlertStream } from "@/hooks/useAlertStream";
 import { AppSidebar } from "@/components/app-sidebar";
 import { Header } from "@/components/header";
 import NotFound from "@/pages/not-found";
@@ -13,6 +14,7 @@ import HomeownerDashboard from "@/pages/homeowner-dashboard";
 import CloudStaffDashboard from "@/pages/cloud-staff-dashboard";
 import IoTTeamDashboard from "@/pages/iot-team-dashboard";
 import AlertsPage from "@/pages/alerts";
+import IncidentsPage from "@/pages/incidents";
 import SurveillancePage from "@/pages/surveillance";
 import DeviceManagement from "@/pages/device-management";
 import UserManagement from "@/pages/user-management";
@@ -20,6 +22,8 @@ import SystemConfiguration from "@/pages/system-configuration";
 import DatabaseManagement from "@/pages/database-management";
 import ProfilePage from "@/pages/profile";
 import AudioDetection from "@/pages/audio-detection";
+import TwoFactorEnrollmentPage from "@/pages/two-factor-enrollment";
+import HouseholdPage from "@/pages/household";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
@@ -44,6 +48,11 @@ function Router() {
     );
   }
 
+  // Platform policy requires this account to enroll in 2FA before anything else
+  if (user?.twoFactorEnrollmentRequired) {
+    return <TwoFactorEnrollmentPage />;
+  }
+
   // Determine dashboard based on role
   const DashboardComponent =
     user?.role === "cloud_staff"
@@ -56,12 +65,14 @@ function Router() {
     <Switch>
       <Route path="/" component={DashboardComponent} />
       <Route path="/alerts" component={AlertsPage} />
+      <Route path="/incidents" component={IncidentsPage} />
       <Route path="/surveillance" component={SurveillancePage} />
       <Route path="/devices" component={DeviceManagement} />
       <Route path="/audio-detection" component={AudioDetection} />
       <Route path="/users" component={UserManagement} />
       <Route path="/configuration" component={SystemConfiguration} />
       <Route path="/database" component={DatabaseManagement} />
+      <Route path="/household" component={HouseholdPage} />
       <Route path="/profile" component={ProfilePage} />
       <Route component={NotFound} />
     </Switch>
@@ -69,14 +80,16 @@ function Router() {
 }
 
 function AuthenticatedApp() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const needsTwoFactorEnrollment = !!user?.twoFactorEnrollmentRequired;
+  useAlertStream(isAuthenticated && !needsTwoFactorEnrollment);
 
   const sidebarStyle = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
-  if (isLoading || !isAuthenticated) {
+  if (isLoading || !isAuthenticated || needsTwoFactorEnrollment) {
     return (
       <>
         <Toaster />
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Download } from "lucide-react";
+import type { Alert, AlertActivityWithActor, AlertEvidence, User } from "@shared/schema";
+
+type Assignee = Pick<User, "id" | "email" | "firstName" | "lastName" | "role">;
+type Person = Pick<User, "email" | "firstName" | "lastName">;
+
+const UNASSIGNED = "unassigned";
+
+const TARGET_LABELS: Record<string, string> = {
+  owners: "owners",
+  residents: "residents",
+  all_members: "all members",
+  cloud_staff: "cloud staff",
+};
+
+function formatName(person: Person | null | undefined): string {
+  if (!person) return "System";
+  const name = [person.firstName, person.lastName].filter(Boolean).join(" ");
+  return name || person.email || "Unknown user";
+}
+
+function describeActivity(activity: AlertActivityWithActor, assignees: Assignee[] | undefined): string {
+  const details = (activity.details || {}) as Record<string, any>;
+  const actor = formatName(activity.actor);
+
+  switch (activity.type) {
+    case "status_changed":
+      return details.reason
+        ? `${actor} marked it ${details.to}: ${details.reason}`
+        : `${actor} changed the status from ${details.from} to ${details.to}`;
+    case "comment":
+      return `${actor} commented`;
+    case "assigned": {
+      if (!details.to) return `${actor} unassigned the alert`;
+      const assignee = assignees?.find((a) => a.id === details.to);
+      return `${actor} assigned it to ${assignee ? formatName(assignee) : "another user"}`;
+    }
+    case "escalated":
+      return `Escalated to ${TARGET_LABELS[details.target] || details.target} (step ${details.step}, ` +
+        `${details.notifiedUserIds?.length ?? 0} notified)`;
+    case "escalation_stopped":
+      return `Escalation stopped after ${details.stepsRun} step(s) when ${actor} marked it ${details.status}`;
+  }
+}
+
+function EvidenceList({ evidence }: { evidence: AlertEvidence }) {
+  if (evidence.recordings.length === 0 && evidence.audioDetections.length === 0) {
+    return <p className="text-sm text-muted-foreground">No camera or audio evidence for this alert</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {evidence.recordings.map((recording) => (
+        <div key={recording.id} className="space-y-1" data-testid={`evidence-recording-${recording.id}`}>
+          <p className="text-xs text-muted-foreground">
+            {recording.deviceName} · {recording.room} · {recording.kind}
+          </p>
+          {recording.status === "available" ? (
+            recording.kind === "clip" ? (
+              <video
+                src={`/api/recordings/${recording.id}/media`}
+                controls
+                preload="metadata"
+                className="w-full rounded-md bg-black"
+              />
+            ) : (
+              <img
+                src={`/api/recordings/${recording.id}/media`}
+                alt={`Snapshot from ${recording.deviceName}`}
+                className="w-full rounded-md"
+              />
+            )
+          ) : (
+            <p className="rounded-md bg-muted p-2 text-sm">
+              {recording.status === "failed"
+                ? `Not available: ${recording.error || "the camera did not deliver it"}`
+                : "Waiting for the camera to upload it"}
+            </p>
+          )}
+        </div>
+      ))}
+      {evidence.audioDetections.map((detection) => (
+        <div key={detection.id} className="text-sm" data-testid={`evidence-audio-${detection.id}`}>
+          <p>
+            Heard <span className="font-medium">{detection.detectedClass}</span> ({Math.round(detection.confidence * 100)}%)
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {detection.fileName}
+            {detection.createdAt && ` · ${new Date(detection.createdAt).toLocaleString()}`}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Side panel for one alert: its details, camera and audio evidence, who it's
+ * assigned to and the full timeline of status changes, comments,
+ * reassignments and escalations.
+ */
+export function AlertDetailSheet({ alert, onClose }: { alert: Alert | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [comment, setComment] = useState("");
+  const isOpen = alert !== null;
+  const isClosed = alert?.status === "resolved" || alert?.status === "dismissed";
+
+  const { data: activity, isLoading } = useQuery<AlertActivityWithActor[]>({
+    queryKey: ["/api/alerts", alert?.id, "activity"],
+    enabled: isOpen,
+  });
+
+  const { data: assignees } = useQuery<Assignee[]>({
+    queryKey: ["/api/alerts", alert?.id, "assignees"],
+    enabled: isOpen,
+  });
+
+  // Polled while the cameras are still uploading
+  const { data: evidence, isLoading: evidenceLoading } = useQuery<AlertEvidence>({
+    queryKey: ["/api/alerts", alert?.id, "evidence"],
+    enabled: isOpen,
+    refetchInterval: (query) =>
+      query.state.data?.recordings.some((r) => r.status === "recording" || r.status === "pending") ? 10_000 : false,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/alerts/${alert!.id}/comments`, { body: comment });
+    },
+    onSuccess: () => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", alert!.id, "activity"] });
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (assigneeId: string | null) => {
+      await apiRequest("POST", `/api/alerts/${alert!.id}/assign`, { assigneeId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+    onError,
+  });
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto" data-testid="sheet-alert-detail">
+        {alert && (
+          <div className="space-y-5">
+            <SheetHeader>
+              <SheetTitle>{alert.title}</SheetTitle>
+              <SheetDescription>{alert.description}</SheetDescription>
+            </SheetHeader>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={alert.severity === "critical" || alert.severity === "high" ? "destructive" : "secondary"}>
+                {alert.severity}
+              </Badge>
+              <Badge variant="outline" className="capitalize">{alert.status}</Badge>
+              <span className="text-sm text-muted-foreground capitalize">{alert.type.replace(/_/g, " ")}</span>
+              {alert.location && <span className="text-sm text-muted-foreground">· {alert.location}</span>}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assignee</Label>
+              <Select
+                value={alert.assigneeId || UNASSIGNED}
+                disabled={isClosed || assignMutation.isPending}
+                onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : value)}
+              >
+                <SelectTrigger data-testid="select-alert-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {alert.assigneeId && !assignees?.some((a) => a.id === alert.assigneeId) && (
+                    <SelectItem value={alert.assigneeId}>Another user</SelectItem>
+                  )}
+                  {assignees?.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {formatName(assignee)}
+                      {(assignee.role === "cloud_staff" || assignee.role === "iot_team") && " (staff)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3" data-testid="alert-evidence">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Evidence</Label>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/alerts/${alert.id}/evidence/bundle`} data-testid="link-download-evidence">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Bundle
+                  </a>
+                </Button>
+              </div>
+              {evidenceLoading || !evidence ? (
+                <Skeleton className="h-24 w-full" />
+              ) : (
+                <EvidenceList evidence={evidence} />
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3" data-testid="alert-timeline">
+              <Label>Timeline</Label>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+              ) : (
+                <ol className="space-y-3 border-l pl-4">
+                  <li className="text-sm">
+                    <p>Alert raised</p>
+                    <p className="text-xs text-muted-foreground">{new Date(alert.createdAt!).toLocaleString()}</p>
+                  </li>
+                  {activity?.map((entry) => (
+                    <li key={entry.id} className="text-sm" data-testid={`alert-activity-${entry.id}`}>
+                      <p>{describeActivity(entry, assignees)}</p>
+                      {entry.type === "comment" && (
+                        <p className="mt-1 rounded-md bg-muted p-2 whitespace-pre-wrap">
+                          {String((entry.details as Record<string, unknown>)?.body ?? "")}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {entry.createdAt && new Date(entry.createdAt).toLocaleString()}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Textarea
+                placeholder="Add a comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                data-testid="input-alert-comment"
+              />
+              <Button
+                size="sm"
+                onClick={() => commentMutation.mutate()}
+                disabled={!comment.trim() || commentMutation.isPending}
+                data-testid="button-add-comment"
+              >
+                {commentMutation.isPending ? "Posting..." : "Comment"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -8,6 +8,8 @@ import {
   LayoutDashboard,
   Smartphone,
   Mic,
+  UsersRound,
+  ShieldAlert,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
@@ -40,12 +42,24 @@ export function AppSidebar() {
       icon: Bell,
       testId: "link-alerts",
     },
+    {
+      title: "Incidents",
+      url: "/incidents",
+      icon: ShieldAlert,
+      testId: "link-incidents",
+    },
     {
       title: "Surveillance",
       url: "/surveillance",
       icon: Video,
       testId: "link-surveillance",
     },
+    {
+      title: "Household",
+      url: "/household",
+      icon: UsersRound,
+      testId: "link-household",
+    },
   ];
 
   const cloudStaffItems = [
@@ -79,6 +93,12 @@ export function AppSidebar() {
       icon: Bell,
       testId: "link-alert-logs",
     },
+    {
+      title: "Incidents",
+      url: "/incidents",
+      icon: ShieldAlert,
+      testId: "link-incidents",
+    },
     {
       title: "System Configuration",
       url: "/configuration",
@@ -124,6 +144,12 @@ export function AppSidebar() {
       icon: Bell,
       testId: "link-alerts",
     },
+    {
+      title: "Incidents",
+      url: "/incidents",
+      icon: ShieldAlert,
+      testId: "link-incidents",
+    },
   ];
 
   let menuItems = homeownerItems;
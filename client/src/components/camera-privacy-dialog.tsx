@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  CameraPrivacyStatus,
+  Device,
+  House,
+  PrivacyAccessLogWithUser,
+  PrivacyMask,
+  PrivacyScheduleWindow,
+  UpdateCameraPrivacy,
+} from "@shared/schema";
+
+const HOUSE_MODES: House["mode"][] = ["home", "away", "vacation", "disarmed"];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MASK_FIELDS: (keyof PrivacyMask)[] = ["x", "y", "width", "height"];
+const MAX_MASKS = 8;
+const MAX_WINDOWS = 14;
+
+const ACTIVE_REASONS: Record<NonNullable<CameraPrivacyStatus["activeReason"]>, string> = {
+  manual: "turned on",
+  schedule: "scheduled",
+  house_mode: "house mode",
+};
+
+type PrivacyForm = Required<UpdateCameraPrivacy>;
+
+/**
+ * Privacy masks and privacy mode of one camera, plus the log of staff who
+ * opened it while privacy mode was on. Only the house's owners can save.
+ */
+export function CameraPrivacyDialog({
+  camera,
+  canEdit,
+  onClose,
+}: {
+  camera: Device | null;
+  canEdit: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PrivacyForm | null>(null);
+
+  const { data: status, isLoading } = useQuery<CameraPrivacyStatus>({
+    queryKey: ["/api/devices", camera?.id, "privacy"],
+    enabled: !!camera,
+  });
+
+  const { data: accessLog } = useQuery<PrivacyAccessLogWithUser[]>({
+    queryKey: ["/api/devices", camera?.id, "privacy", "access-log"],
+    enabled: !!camera,
+  });
+
+  useEffect(() => {
+    if (status) {
+      const { masks, enabled, schedule, houseModes } = status;
+      setForm({ masks, enabled, schedule, houseModes });
+    }
+  }, [status]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (update: PrivacyForm) => {
+      const res = await apiRequest("PATCH", `/api/devices/${camera?.id}/privacy`, update);
+      return (await res.json()) as CameraPrivacyStatus;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices", camera?.id, "privacy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/devices/cameras"] });
+      toast({
+        title: "Privacy Saved",
+        description: saved.active
+          ? `${camera?.name} is in privacy mode`
+          : `${camera?.name} privacy settings updated`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (patch: Partial<PrivacyForm>) => setForm((current) => (current ? { ...current, ...patch } : current));
+
+  const updateWindow = (index: number, patch: Partial<PrivacyScheduleWindow>) =>
+    update({ schedule: form!.schedule.map((window, i) => (i === index ? { ...window, ...patch } : window)) });
+
+  const updateMask = (index: number, field: keyof PrivacyMask, value: number) =>
+    update({ masks: form!.masks.map((mask, i) => (i === index ? { ...mask, [field]: value } : mask)) });
+
+  return (
+    <Dialog open={!!camera} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-camera-privacy">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {camera?.name} Privacy
+            {status && (
+              <Badge variant={status.active ? "destructive" : "secondary"} data-testid="badge-privacy-status">
+                {status.active && status.activeReason
+                  ? `Privacy mode on (${ACTIVE_REASONS[status.activeReason]})`
+                  : "Privacy mode off"}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            In privacy mode the camera's feed, recordings and snapshots are blocked. Masked areas are blanked in
+            everything the camera streams and records.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !form ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="privacy-enabled">Privacy mode</Label>
+                <p className="text-xs text-muted-foreground">Stays on until you turn it off</p>
+              </div>
+              <Switch
+                id="privacy-enabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => update({ enabled })}
+                disabled={!canEdit}
+                data-testid="switch-privacy-enabled"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Turn on while the house is</Label>
+              <div className="flex flex-wrap gap-4">
+                {HOUSE_MODES.map((mode) => (
+                  <div key={mode} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`privacy-mode-${mode}`}
+                      checked={form.houseModes.includes(mode)}
+                      onCheckedChange={(checked) =>
+                        update({
+                          houseModes: checked
+                            ? [...form.houseModes, mode]
+                            : form.houseModes.filter((m) => m !== mode),
+                        })
+                      }
+                      disabled={!canEdit}
+                      data-testid={`checkbox-privacy-mode-${mode}`}
+                    />
+                    <Label htmlFor={`privacy-mode-${mode}`} className="capitalize font-normal">
+                      {mode}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Schedule</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ schedule: [...form.schedule, { start: "22:00", end: "07:00" }] })}
+                  disabled={!canEdit || form.schedule.length >= MAX_WINDOWS}
+                  data-testid="button-add-privacy-window"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Window
+                </Button>
+              </div>
+              {form.schedule.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No scheduled privacy</p>
+              ) : (
+                form.schedule.map((window, i) => (
+                  <div key={i} className="flex flex-wrap items-center gap-2" data-testid={`privacy-window-${i}`}>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={window.start}
+                      onChange={(e) => updateWindow(i, { start: e.target.value })}
+                      disabled={!canEdit}
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={window.end}
+                      onChange={(e) => updateWindow(i, { end: e.target.value })}
+                      disabled={!canEdit}
+                    />
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      value={(window.daysOfWeek ?? []).map(String)}
+                      onValueChange={(days) =>
+                        updateWindow(i, { daysOfWeek: days.length > 0 ? days.map(Number).sort() : undefined })
+                      }
+                      disabled={!canEdit}
+                    >
+                      {WEEKDAYS.map((day, d) => (
+                        <ToggleGroupItem key={day} value={String(d)} className="px-2 text-xs">
+                          {day}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ schedule: form.schedule.filter((_, j) => j !== i) })}
+                      disabled={!canEdit}
+                      data-testid={`button-remove-privacy-window-${i}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <p className="text-xs text-muted-foreground">
+                In the house's timezone, every day unless days are picked. A window ending before it starts runs past
+                midnight.
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Privacy masks</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ masks: [...form.masks, { x: 0, y: 0, width: 25, height: 25 }] })}
+                  disabled={!canEdit || form.masks.length >= MAX_MASKS}
+                  data-testid="button-add-privacy-mask"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Mask
+                </Button>
+              </div>
+              <div className="relative aspect-video w-full rounded-md border bg-muted" data-testid="privacy-mask-preview">
+                {form.masks.map((mask, i) => (
+                  <div
+                    key={i}
+                    className="absolute bg-foreground/80 text-background text-xs flex items-center justify-center"
+                    style={{ left: `${mask.x}%`, top: `${mask.y}%`, width: `${mask.width}%`, height: `${mask.height}%` }}
+                  >
+                    {i + 1}
+                  </div>
+                ))}
+              </div>
+              {form.masks.map((mask, i) => (
+                <div key={i} className="flex items-center gap-2" data-testid={`privacy-mask-${i}`}>
+                  <span className="w-4 text-sm text-muted-foreground">{i + 1}</span>
+                  {MASK_FIELDS.map((field) => (
+                    <div key={field} className="flex-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        aria-label={`Mask ${i + 1} ${field} (%)`}
+                        placeholder={field}
+                        value={mask[field]}
+                        onChange={(e) => updateMask(i, field, Number(e.target.value))}
+                        disabled={!canEdit}
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ masks: form.masks.filter((_, j) => j !== i) })}
+                    disabled={!canEdit}
+                    data-testid={`button-remove-privacy-mask-${i}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Left, top, width and height, in percent of the frame.</p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2" data-testid="privacy-access-log">
+              <Label>Staff access in privacy mode</Label>
+              {accessLog && accessLog.length > 0 ? (
+                accessLog.map((entry) => (
+                  <div key={entry.id} className="text-sm">
+                    <p>
+                      <span className="font-medium">{entry.user.email}</span>: {entry.reason}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()} · privacy mode {ACTIVE_REASONS[entry.activeReason]}
+                    </p>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No one has opened this camera in privacy mode</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {canEdit ? "Cancel" : "Close"}
+          </Button>
+          {canEdit && (
+            <Button
+              onClick={() => form && saveMutation.mutate(form)}
+              disabled={!form || saveMutation.isPending}
+              data-testid="button-save-privacy"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Film, Image as ImageIcon, Play, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Device, Recording } from "@shared/schema";
+
+function getStatusVariant(status: Recording["status"]) {
+  switch (status) {
+    case "recording":
+      return "destructive";
+    case "available":
+      return "default";
+    case "failed":
+      return "outline";
+    default:
+      return "secondary";
+  }
+}
+
+function formatSize(bytes: number | null) {
+  if (bytes === null) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(recording: Recording) {
+  if (recording.kind !== "clip" || !recording.endedAt) return "";
+  const seconds = Math.round((new Date(recording.endedAt).getTime() - new Date(recording.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Plays a clip or shows a snapshot straight from the recording's media route.
+ */
+export function RecordingPlayerDialog({
+  recording,
+  cameraName,
+  onClose,
+}: {
+  recording: Recording | null;
+  cameraName?: string;
+  onClose: () => void;
+}) {
+  return (
+    <Dialog open={!!recording} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-recording-player">
+        <DialogHeader>
+          <DialogTitle>{cameraName ?? "Recording"}</DialogTitle>
+          <DialogDescription>
+            {recording && new Date(recording.startedAt).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+        {recording && (recording.kind === "clip" ? (
+          <video
+            key={recording.id}
+            src={`/api/recordings/${recording.id}/media`}
+            controls
+            autoPlay
+            className="w-full rounded-md bg-black"
+            data-testid="video-recording"
+          />
+        ) : (
+          <img
+            src={`/api/recordings/${recording.id}/media`}
+            alt={`Snapshot from ${cameraName ?? "camera"}`}
+            className="w-full rounded-md"
+            data-testid="img-snapshot"
+          />
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Recent clips and snapshots of the given cameras. Clips and snapshots appear
+ * as soon as they are requested and become playable once the camera uploads them.
+ */
+export function CameraRecordings({
+  cameras,
+  recordings,
+  isLoading,
+  onPlay,
+}: {
+  cameras: Device[];
+  recordings?: Recording[];
+  isLoading: boolean;
+  onPlay: (recording: Recording) => void;
+}) {
+  const { toast } = useToast();
+  const cameraNames = new Map(cameras.map((camera) => [camera.id, camera.name]));
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/recordings/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+      toast({
+        title: "Recording Deleted",
+        description: "The recording has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Recordings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : recordings && recordings.length > 0 ? (
+          <div className="space-y-2">
+            {recordings.map((recording) => (
+              <div
+                key={recording.id}
+                className="flex items-center justify-between gap-4 p-3 border rounded-md"
+                data-testid={`recording-${recording.id}`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {recording.kind === "clip" ? (
+                    <Film className="h-4 w-4 text-muted-foreground shrink-0" />
+                  ) : (
+                    <ImageIcon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {cameraNames.get(recording.deviceId) ?? "Camera"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(recording.startedAt).toLocaleString()}
+                      {formatDuration(recording) && ` • ${formatDuration(recording)}`}
+                      {recording.sizeBytes !== null && ` • ${formatSize(recording.sizeBytes)}`}
+                      {recording.error && ` • ${recording.error}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline" className="capitalize">{recording.trigger}</Badge>
+                  <Badge variant={getStatusVariant(recording.status)} className="capitalize">
+                    {recording.status}
+                  </Badge>
+                  {recording.status === "available" && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onPlay(recording)}
+                        data-testid={`button-play-recording-${recording.id}`}
+                      >
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" asChild>
+                        <a
+                          href={`/api/recordings/${recording.id}/media?download=true`}
+                          data-testid={`link-download-recording-${recording.id}`}
+                        >
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </>
+                  )}
+                  {recording.status !== "recording" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(recording.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-recording-${recording.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Film className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">No recordings yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ClaimDevice, Device, House, HouseMemberRole } from "@shared/schema";
+
+type HouseWithRole = House & { memberRole?: HouseMemberRole };
+
+const EMPTY_CLAIM = { serialNumber: "", claimCode: "", houseId: "", room: "", name: "" };
+
+/**
+ * Add a new device by the serial number and claim code on its label. Only
+ * houses the user owns are offered.
+ */
+export function ClaimDeviceDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [claim, setClaim] = useState(EMPTY_CLAIM);
+
+  const { data: houses } = useQuery<HouseWithRole[]>({
+    queryKey: ["/api/houses"],
+    enabled: open,
+  });
+
+  const ownedHouses = houses?.filter((house) => house.memberRole === "owner") ?? [];
+  const houseId = claim.houseId || ownedHouses[0]?.id || "";
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const body: ClaimDevice = {
+        serialNumber: claim.serialNumber,
+        claimCode: claim.claimCode,
+        houseId,
+        room: claim.room,
+        name: claim.name || undefined,
+      };
+      const res = await apiRequest("POST", "/api/devices/claim", body);
+      return (await res.json()) as Device;
+    },
+    onSuccess: (device) => {
+      onOpenChange(false);
+      setClaim(EMPTY_CLAIM);
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Device Added",
+        description: `${device.name} will come online once it is powered on and connected.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Add Device",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-claim-device">
+        <DialogHeader>
+          <DialogTitle>Add a Device</DialogTitle>
+          <DialogDescription>Enter the serial number and claim code printed on the device's label.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="claim-serial">Serial Number</Label>
+              <Input
+                id="claim-serial"
+                value={claim.serialNumber}
+                onChange={(e) => setClaim({ ...claim, serialNumber: e.target.value })}
+                data-testid="input-claim-serial"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="claim-code">Claim Code</Label>
+              <Input
+                id="claim-code"
+                placeholder="XXXXX-XXXXX"
+                className="font-mono uppercase"
+                value={claim.claimCode}
+                onChange={(e) => setClaim({ ...claim, claimCode: e.target.value })}
+                data-testid="input-claim-code"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>House</Label>
+            <Select value={houseId} onValueChange={(value) => setClaim({ ...claim, houseId: value })}>
+              <SelectTrigger data-testid="select-claim-house">
+                <SelectValue placeholder="Select a house" />
+              </SelectTrigger>
+              <SelectContent>
+                {ownedHouses.map((house) => (
+                  <SelectItem key={house.id} value={house.id}>
+                    {house.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="claim-room">Room</Label>
+              <Input
+                id="claim-room"
+                placeholder="e.g., Living Room"
+                value={claim.room}
+                onChange={(e) => setClaim({ ...claim, room: e.target.value })}
+                data-testid="input-claim-room"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="claim-name">Name (optional)</Label>
+              <Input
+                id="claim-name"
+                placeholder="e.g., Front Door Camera"
+                value={claim.name}
+                onChange={(e) => setClaim({ ...claim, name: e.target.value })}
+                data-testid="input-claim-name"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => claimMutation.mutate()}
+            disabled={!claim.serialNumber || !claim.claimCode || !houseId || !claim.room || claimMutation.isPending}
+            data-testid="button-submit-claim"
+          >
+            Add Device
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Archive, Eye, Play } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { RetentionPolicy, RetentionRun, RetentionTargetResult } from "@shared/schema";
+
+const TARGET_DETAILS: Record<RetentionPolicy["target"], { label: string; description: string }> = {
+  sensor_data: {
+    label: "Sensor readings",
+    description: "Raw readings are rolled up into hourly and daily aggregates before deletion",
+  },
+  sensor_data_hourly: {
+    label: "Hourly sensor aggregates",
+    description: "Daily aggregates are kept indefinitely",
+  },
+  audio_detections: {
+    label: "Audio detections",
+    description: "Audio classification results",
+  },
+  alerts: {
+    label: "Closed alerts",
+    description: "Resolved and dismissed alerts with their timelines; open alerts are never removed",
+  },
+  user_config_logs: {
+    label: "Configuration logs",
+    description: "Audit trail of configuration and settings changes",
+  },
+};
+
+function describeResult(result: RetentionTargetResult, dryRun: boolean): string {
+  const parts = [`${result.rows.toLocaleString()} rows ${dryRun ? "to delete" : "deleted"}`];
+  if (result.hourlyBuckets !== undefined) {
+    parts.push(`${result.hourlyBuckets.toLocaleString()} hourly / ${result.dailyBuckets?.toLocaleString()} daily buckets`);
+  }
+  if (result.incidents) {
+    parts.push(`${result.incidents.toLocaleString()} incidents`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Per-table retention policies and the history of retention runs, with
+ * controls to preview (dry run) or start a run. Only cloud staff can change
+ * policies or start runs.
+ */
+export function DataRetention({ canManage }: { canManage: boolean }) {
+  const { toast } = useToast();
+  const [dayDrafts, setDayDrafts] = useState<Partial<Record<RetentionPolicy["target"], string>>>({});
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const { data: policies, isLoading: policiesLoading } = useQuery<RetentionPolicy[]>({
+    queryKey: ["/api/retention/policies"],
+  });
+
+  const { data: runs, isLoading: runsLoading } = useQuery<RetentionRun[]>({
+    queryKey: ["/api/retention/runs"],
+    // Runs finish in the background; keep polling until the report is in
+    refetchInterval: (query) => (query.state.data?.some((run) => run.status === "running") ? 2000 : false),
+  });
+
+  const isRunning = runs?.some((run) => run.status === "running") ?? false;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const policyMutation = useMutation({
+    mutationFn: async ({ target, ...changes }: { target: RetentionPolicy["target"]; retentionDays?: number; enabled?: boolean }) => {
+      await apiRequest("PATCH", `/api/retention/policies/${target}`, changes);
+    },
+    onSuccess: (_, { target }) => {
+      setDayDrafts(({ [target]: _saved, ...rest }) => rest);
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/policies"] });
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      await apiRequest("POST", "/api/retention/runs", { dryRun });
+    },
+    onSuccess: (_, dryRun) => {
+      setIsConfirmOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/runs"] });
+      toast({
+        title: dryRun ? "Dry Run Started" : "Retention Run Started",
+        description: "The report will appear in the run history when it finishes.",
+      });
+    },
+    onError,
+  });
+
+  const saveDays = (policy: RetentionPolicy) => {
+    const retentionDays = parseInt(dayDrafts[policy.target] ?? "", 10);
+    if (!retentionDays || retentionDays === policy.retentionDays) {
+      setDayDrafts(({ [policy.target]: _unchanged, ...rest }) => rest);
+      return;
+    }
+    policyMutation.mutate({ target: policy.target, retentionDays });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Data Retention</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Scheduled runs follow the "Enable Data Retention Policy" switch in System Configuration
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runMutation.mutate(true)}
+                disabled={isRunning || runMutation.isPending}
+                data-testid="button-retention-dry-run"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Dry Run
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={isRunning || runMutation.isPending}
+                data-testid="button-retention-run"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Run Now
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {policiesLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-14" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {policies?.map((policy) => (
+              <div
+                key={policy.target}
+                className="flex items-center justify-between gap-4 p-3 border rounded-md"
+                data-testid={`retention-policy-${policy.target}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <Label>{TARGET_DETAILS[policy.target].label}</Label>
+                  <p className="text-sm text-muted-foreground">{TARGET_DETAILS[policy.target].description}</p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={3650}
+                      className="w-24"
+                      value={dayDrafts[policy.target] ?? String(policy.retentionDays)}
+                      disabled={!canManage}
+                      onChange={(e) => setDayDrafts({ ...dayDrafts, [policy.target]: e.target.value })}
+                      onBlur={() => saveDays(policy)}
+                      onKeyDown={(e) => e.key === "Enter" && saveDays(policy)}
+                      data-testid={`input-retention-days-${policy.target}`}
+                    />
+                    <span className="text-sm text-muted-foreground">days</span>
+                  </div>
+                  <Switch
+                    checked={policy.enabled}
+                    disabled={!canManage || policyMutation.isPending}
+                    onCheckedChange={(enabled) => policyMutation.mutate({ target: policy.target, enabled })}
+                    data-testid={`switch-retention-${policy.target}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Run History</Label>
+          {runsLoading ? (
+            <Skeleton className="h-16" />
+          ) : runs && runs.length > 0 ? (
+            <div className="space-y-2">
+              {runs.map((run) => (
+                <div key={run.id} className="p-3 border rounded-md space-y-2" data-testid={`retention-run-${run.id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{new Date(run.startedAt).toLocaleString()}</span>
+                      <Badge variant="outline" className="capitalize">{run.trigger}</Badge>
+                      {run.dryRun && <Badge variant="secondary">Dry run</Badge>}
+                    </div>
+                    <Badge variant={run.status === "failed" ? "destructive" : run.status === "running" ? "secondary" : "outline"} className="capitalize">
+                      {run.status}
+                    </Badge>
+                  </div>
+                  {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+                  {run.results.length > 0 && (
+                    <div className="space-y-1">
+                      {run.results.map((result) => (
+                        <div key={result.target} className="flex items-center justify-between gap-4 text-xs">
+                          <span>
+                            {TARGET_DETAILS[result.target].label}
+                            <span className="text-muted-foreground"> · older than {result.retentionDays} days</span>
+                          </span>
+                          <span className="text-muted-foreground">{describeResult(result, run.dryRun)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Archive className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">No retention runs yet</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Run Data Retention</DialogTitle>
+            <DialogDescription>
+              Rows older than each enabled policy allows will be permanently deleted. Use a dry run first to
+              see how many rows each table would lose.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => runMutation.mutate(false)}
+              disabled={runMutation.isPending}
+              data-testid="button-confirm-retention-run"
+            >
+              Delete Old Data
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
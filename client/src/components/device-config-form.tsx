@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { DEVICE_CONFIG_SCHEMAS, type DeviceType } from "@shared/deviceConfig";
+
+type Settings = Record<string, unknown>;
+
+// .default() and .optional() wrap the schema that decides the input
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodDefault) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrap(schema.unwrap());
+  }
+  return schema;
+}
+
+function numberBounds(schema: z.ZodNumber) {
+  return { min: schema.minValue ?? undefined, max: schema.maxValue ?? undefined };
+}
+
+interface FieldProps {
+  id: string;
+  schema: z.ZodTypeAny;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function ConfigField({ id, schema, value, onChange }: FieldProps) {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodBoolean) {
+    return (
+      <Switch id={id} checked={value === true} onCheckedChange={onChange} data-testid={`switch-${id}`} />
+    );
+  }
+
+  if (inner instanceof z.ZodEnum) {
+    return (
+      <Select value={typeof value === "string" ? value : undefined} onValueChange={onChange}>
+        <SelectTrigger id={id} data-testid={`select-${id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(inner.options as string[]).map((option) => (
+            <SelectItem key={option} value={option} className="capitalize">
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    return (
+      <Input
+        id={id}
+        type="number"
+        {...numberBounds(inner)}
+        value={typeof value === "number" && !Number.isNaN(value) ? value : ""}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+        data-testid={`input-${id}`}
+      />
+    );
+  }
+
+  if (inner instanceof z.ZodArray && unwrap(inner.element) instanceof z.ZodObject) {
+    const item = unwrap(inner.element) as z.AnyZodObject;
+    const rows = Array.isArray(value) ? (value as Settings[]) : [];
+    const maxRows = inner._def.maxLength?.value;
+    const emptyRow = Object.fromEntries(Object.keys(item.shape).map((key) => [key, undefined]));
+
+    return (
+      <div className="space-y-2">
+        {rows.map((row, i) => (
+          <div key={i} className="flex items-end gap-2" data-testid={`row-${id}-${i}`}>
+            {Object.entries(item.shape as Record<string, z.ZodTypeAny>).map(([key, field]) => (
+              <div key={key} className="flex-1 space-y-1">
+                <Label htmlFor={`${id}-${i}-${key}`} className="text-xs text-muted-foreground">
+                  {field.description ?? key}
+                </Label>
+                <ConfigField
+                  id={`${id}-${i}-${key}`}
+                  schema={field}
+                  value={row[key]}
+                  onChange={(fieldValue) =>
+                    onChange(rows.map((r, j) => (j === i ? { ...r, [key]: fieldValue } : r)))
+                  }
+                />
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(rows.filter((_, j) => j !== i))}
+              data-testid={`button-remove-${id}-${i}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, emptyRow])}
+          disabled={maxRows !== undefined && rows.length >= maxRows}
+          data-testid={`button-add-${id}`}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      id={id}
+      value={typeof value === "string" ? value : ""}
+      onChange={(e) => onChange(e.target.value)}
+      data-testid={`input-${id}`}
+    />
+  );
+}
+
+/**
+ * Settings inputs for a device type, generated from its schema in
+ * shared/deviceConfig.ts: each field's description is its label.
+ */
+export function DeviceConfigForm({
+  type,
+  value,
+  onChange,
+  idPrefix = "config",
+}: {
+  type: DeviceType;
+  value: Settings;
+  onChange: (value: Settings) => void;
+  idPrefix?: string;
+}) {
+  const fields = Object.entries(DEVICE_CONFIG_SCHEMAS[type].shape as Record<string, z.ZodTypeAny>);
+
+  return (
+    <div className="space-y-4 p-3 border rounded-md" data-testid={`${idPrefix}-form`}>
+      <p className="text-sm font-medium">Settings</p>
+      {fields.map(([key, schema]) => {
+        const id = `${idPrefix}-${key}`;
+        const isSwitch = unwrap(schema) instanceof z.ZodBoolean;
+        return (
+          <div key={key} className={isSwitch ? "flex items-center justify-between gap-4" : "space-y-2"}>
+            <Label htmlFor={id}>{schema.description ?? key}</Label>
+            <ConfigField
+              id={id}
+              schema={schema}
+              value={value[key]}
+              onChange={(fieldValue) => onChange({ ...value, [key]: fieldValue })}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Minus, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Device, DeviceCommandInput } from "@shared/schema";
+
+const DEFAULT_SETPOINT = 68;
+
+// True while the device hasn't reported a state it was asked for
+export function isDeviceSyncing(device: Device): boolean {
+  const desired = device.desiredState || {};
+  const reported = device.config || {};
+  return Object.keys(desired).some((key) => desired[key] !== null && desired[key] !== reported[key]);
+}
+
+/**
+ * Current state and controls for a lock, light or thermostat. Commands are
+ * queued for the device; the card shows "Syncing" until the device reports
+ * the requested state.
+ */
+export function DeviceControls({ device }: { device: Device }) {
+  const { toast } = useToast();
+  const reported = device.config || {};
+  const desired = { ...reported, ...device.desiredState };
+  const isSyncing = isDeviceSyncing(device);
+
+  const commandMutation = useMutation({
+    mutationFn: async (command: DeviceCommandInput) => {
+      await apiRequest("POST", `/api/devices/${device.id}/commands`, command);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Command Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const send = (command: DeviceCommandInput) => commandMutation.mutate(command);
+  const disabled = device.status === "offline" || commandMutation.isPending;
+
+  let summary: string | null = null;
+  let controls: ReactNode = null;
+
+  switch (device.type) {
+    case "lock": {
+      const locked = reported.locked === true;
+      summary = locked ? "Secured" : "Unlocked";
+      controls = (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={disabled}
+          onClick={() => send({ command: desired.locked === true ? "unlock" : "lock" })}
+          data-testid={`button-device-action-${device.id}`}
+        >
+          {desired.locked === true ? "Unlock" : "Lock"}
+        </Button>
+      );
+      break;
+    }
+    case "light": {
+      const brightness = typeof reported.brightness === "number" ? reported.brightness : null;
+      summary = reported.on === true ? `On${brightness !== null ? ` · ${brightness}%` : ""}` : "Off";
+      controls = (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={disabled}
+          onClick={() => send({ command: desired.on === true ? "turn_off" : "turn_on" })}
+          data-testid={`button-device-action-${device.id}`}
+        >
+          {desired.on === true ? "Turn Off" : "Turn On"}
+        </Button>
+      );
+      break;
+    }
+    case "thermostat": {
+      const setpoint = typeof desired.targetTemp === "number" ? desired.targetTemp : DEFAULT_SETPOINT;
+      summary = typeof reported.targetTemp === "number" ? `Set to ${reported.targetTemp}°F` : "No setpoint reported";
+      controls = (
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={disabled || setpoint <= 45}
+            onClick={() => send({ command: "set_temperature", params: { targetTemp: setpoint - 1 } })}
+            data-testid={`button-setpoint-down-${device.id}`}
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium" data-testid={`text-setpoint-${device.id}`}>{setpoint}°F</span>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={disabled || setpoint >= 95}
+            onClick={() => send({ command: "set_temperature", params: { targetTemp: setpoint + 1 } })}
+            data-testid={`button-setpoint-up-${device.id}`}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+      break;
+    }
+  }
+
+  if (!controls) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground" data-testid={`text-device-state-${device.id}`}>{summary}</p>
+        {isSyncing && <Badge variant="outline">Syncing</Badge>}
+      </div>
+      {controls}
+    </div>
+  );
+}
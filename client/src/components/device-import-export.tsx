@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { DeviceImportReport, House } from "@shared/schema";
+
+const ALL_HOUSES = "all";
+const MAX_ERRORS_SHOWN = 50;
+
+/**
+ * Import and Export buttons for Device Management. Imports are validated with
+ * a dry run first; the import itself only runs once every row is valid.
+ */
+export function DeviceImportExport({ houses }: { houses?: House[] }) {
+  const { toast } = useToast();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<DeviceImportReport | null>(null);
+  const [exportHouseId, setExportHouseId] = useState(ALL_HOUSES);
+  const [exportFormat, setExportFormat] = useState<"csv" | "json">("csv");
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      if (!file) {
+        throw new Error("Please choose a file to import");
+      }
+
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("dryRun", String(dryRun));
+
+      const response = await fetch("/api/devices/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to import devices");
+      }
+      return (await response.json()) as DeviceImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (result.imported > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+        toast({
+          title: "Devices Imported",
+          description: `${result.imported} devices were added.`,
+        });
+        closeImport(false);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeImport = (open: boolean) => {
+    setIsImportOpen(open);
+    if (!open) {
+      setFile(null);
+      setReport(null);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const params = new URLSearchParams({ format: exportFormat });
+      if (exportHouseId !== ALL_HOUSES) {
+        params.set("houseId", exportHouseId);
+      }
+      const response = await fetch(`/api/devices/export?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Export failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `devices-${exportHouseId === ALL_HOUSES ? "fleet" : exportHouseId}-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      setIsExportOpen(false);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "Failed to export devices",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The preview is only valid for the file it was run on
+  const canImport = !!report && report.dryRun && report.errors.length === 0;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-devices">
+        <Upload className="h-4 w-4 mr-2" />
+        Import
+      </Button>
+      <Button variant="outline" onClick={() => setIsExportOpen(true)} data-testid="button-export-devices">
+        <Download className="h-4 w-4 mr-2" />
+        Export
+      </Button>
+
+      <Dialog open={isImportOpen} onOpenChange={closeImport}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-import-devices">
+          <DialogHeader>
+            <DialogTitle>Import Devices</DialogTitle>
+            <DialogDescription>
+              Upload a CSV with a header row (houseId, name, type, room, serialNumber, …) or a JSON array of
+              devices. An export file can be edited and imported.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setReport(null);
+                }}
+                data-testid="input-import-file"
+              />
+            </div>
+            {report && (
+              <div className="space-y-3 p-3 border rounded-md" data-testid="import-report">
+                <div className="flex items-center gap-2 text-sm">
+                  <span>{report.total} rows</span>
+                  <Badge variant="outline">{report.valid} valid</Badge>
+                  {report.errors.length > 0 && (
+                    <Badge variant="destructive">{report.total - report.valid} with errors</Badge>
+                  )}
+                </div>
+                {report.errors.length > 0 ? (
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {report.errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => (
+                      <p key={i} className="text-xs" data-testid={`import-error-${i}`}>
+                        <span className="font-medium">Row {error.row}</span>
+                        {error.field && <span className="text-muted-foreground"> · {error.field}</span>}: {error.message}
+                      </p>
+                    ))}
+                    {report.errors.length > MAX_ERRORS_SHOWN && (
+                      <p className="text-xs text-muted-foreground">
+                        …and {report.errors.length - MAX_ERRORS_SHOWN} more. Fix these and validate again.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Every row is valid and ready to import.</p>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => closeImport(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!file || importMutation.isPending}
+              data-testid="button-validate-import"
+            >
+              Validate
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(false)}
+              disabled={!canImport || importMutation.isPending}
+              data-testid="button-confirm-import"
+            >
+              Import {canImport ? `${report.valid} Devices` : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isExportOpen} onOpenChange={setIsExportOpen}>
+        <DialogContent data-testid="dialog-export-devices">
+          <DialogHeader>
+            <DialogTitle>Export Devices</DialogTitle>
+            <DialogDescription>Download devices in the same format the import accepts.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>House</Label>
+              <Select value={exportHouseId} onValueChange={setExportHouseId}>
+                <SelectTrigger data-testid="select-export-house">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_HOUSES}>All houses</SelectItem>
+                  {houses?.map((house) => (
+                    <SelectItem key={house.id} value={house.id}>
+                      {house.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as "csv" | "json")}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsExportOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} data-testid="button-confirm-export">
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, PackagePlus, QrCode, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Device, DeviceRegistration, InsertDeviceRegistration } from "@shared/schema";
+
+type Registration = Omit<DeviceRegistration, "claimCodeHash">;
+type RegisteredUnit = Registration & { claimCode: string };
+
+const DEVICE_TYPES: Device["type"][] = ["camera", "microphone", "motion_sensor", "thermostat", "lock", "light", "smoke_detector", "keypad"];
+
+const EMPTY_REGISTRATION: InsertDeviceRegistration = { serialNumber: "", type: "camera", model: "", firmwareVersion: "" };
+
+function getStatusVariant(status: Registration["status"]) {
+  switch (status) {
+    case "provisioned":
+      return "default";
+    case "claimed":
+      return "outline";
+    default:
+      return "secondary";
+  }
+}
+
+/**
+ * Hardware pre-registered for homeowner claiming: register units (showing the
+ * claim code once), follow them from unclaimed to provisioned, and remove
+ * registrations that aren't attached to a device.
+ */
+export function DeviceProvisioning() {
+  const { toast } = useToast();
+  const [isRegisterOpen, setIsRegisterOpen] = useState(false);
+  const [draft, setDraft] = useState<InsertDeviceRegistration>(EMPTY_REGISTRATION);
+  const [registered, setRegistered] = useState<RegisteredUnit | null>(null);
+
+  const { data: registrations, isLoading } = useQuery<Registration[]>({
+    queryKey: ["/api/provisioning/registrations"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/provisioning/registrations", {
+        ...draft,
+        model: draft.model || null,
+        firmwareVersion: draft.firmwareVersion || null,
+      });
+      return (await res.json()) as RegisteredUnit;
+    },
+    onSuccess: (unit) => {
+      setRegistered(unit);
+      setDraft(EMPTY_REGISTRATION);
+      queryClient.invalidateQueries({ queryKey: ["/api/provisioning/registrations"] });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/provisioning/registrations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/provisioning/registrations"] });
+    },
+    onError,
+  });
+
+  const closeRegister = (open: boolean) => {
+    setIsRegisterOpen(open);
+    if (!open) {
+      setRegistered(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Provisioning</CardTitle>
+            <CardDescription>Units homeowners can claim with the code on their label</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setIsRegisterOpen(true)} data-testid="button-register-unit">
+            <PackagePlus className="h-4 w-4 mr-2" />
+            Register Unit
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : registrations && registrations.length > 0 ? (
+          <div className="space-y-2">
+            {registrations.map((registration) => (
+              <div
+                key={registration.id}
+                className="flex items-center justify-between gap-4 p-3 border rounded-md"
+                data-testid={`registration-${registration.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-mono">{registration.serialNumber}</p>
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {registration.type.replace(/_/g, " ")}
+                    {registration.model && ` • ${registration.model}`}
+                    {registration.claimedAt && ` • claimed ${new Date(registration.claimedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={getStatusVariant(registration.status)} className="capitalize">
+                    {registration.status}
+                  </Badge>
+                  {!registration.deviceId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMutation.mutate(registration.id)}
+                      disabled={removeMutation.isPending}
+                      data-testid={`button-remove-registration-${registration.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <QrCode className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">No units registered for claiming</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isRegisterOpen} onOpenChange={closeRegister}>
+        <DialogContent data-testid="dialog-register-unit">
+          <DialogHeader>
+            <DialogTitle>Register Unit</DialogTitle>
+            <DialogDescription>
+              Generates a one-time claim code for the unit's label and firmware.
+            </DialogDescription>
+          </DialogHeader>
+          {registered ? (
+            <div className="space-y-2 p-3 border rounded-md" data-testid="registered-claim-code">
+              <Label>Claim Code for {registered.serialNumber}</Label>
+              <p className="text-xs text-muted-foreground">Copy this code now. It will not be shown again.</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-lg tracking-widest">{registered.claimCode}</code>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => navigator.clipboard.writeText(registered.claimCode)}
+                  data-testid="button-copy-claim-code"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="registration-serial">Serial Number</Label>
+                  <Input
+                    id="registration-serial"
+                    value={draft.serialNumber}
+                    onChange={(e) => setDraft({ ...draft, serialNumber: e.target.value })}
+                    data-testid="input-registration-serial"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(type) => setDraft({ ...draft, type: type as Device["type"] })}
+                  >
+                    <SelectTrigger data-testid="select-registration-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEVICE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type} className="capitalize">
+                          {type.replace(/_/g, " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-model">Model</Label>
+                  <Input
+                    id="registration-model"
+                    value={draft.model ?? ""}
+                    onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                    data-testid="input-registration-model"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="registration-firmware">Firmware Version</Label>
+                  <Input
+                    id="registration-firmware"
+                    value={draft.firmwareVersion ?? ""}
+                    onChange={(e) => setDraft({ ...draft, firmwareVersion: e.target.value })}
+                    data-testid="input-registration-firmware"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {registered ? (
+              <Button onClick={() => closeRegister(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => closeRegister(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => registerMutation.mutate()}
+                  disabled={!draft.serialNumber || registerMutation.isPending}
+                  data-testid="button-submit-registration"
+                >
+                  Register
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Trash2, X } from "lucide-react";
+import type { EscalationPolicy, EscalationStep } from "@shared/schema";
+
+const SEVERITIES: EscalationPolicy["severities"] = ["low", "medium", "high", "critical"];
+
+const TARGET_LABELS: Record<EscalationStep["target"], string> = {
+  owners: "Owners",
+  residents: "Residents",
+  all_members: "All members",
+  cloud_staff: "Cloud staff",
+};
+
+type StepDraft = { afterMinutes: string; target: EscalationStep["target"] };
+
+const EMPTY_STEPS: StepDraft[] = [
+  { afterMinutes: "0", target: "owners" },
+  { afterMinutes: "15", target: "all_members" },
+];
+
+function describeStep(step: EscalationStep): string {
+  const when = step.afterMinutes === 0 ? "Immediately" : `After ${step.afterMinutes} min`;
+  return `${when} → ${TARGET_LABELS[step.target]}`;
+}
+
+/**
+ * Escalation policies for one house, or the global policies when houseId is
+ * null. Global policies are listed read-only on a house since only cloud staff
+ * can change them.
+ */
+export function EscalationPolicies({ houseId, canManage }: { houseId: string | null; canManage: boolean }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [severities, setSeverities] = useState<EscalationPolicy["severities"]>(["critical"]);
+  const [steps, setSteps] = useState<StepDraft[]>(EMPTY_STEPS);
+
+  const { data: allPolicies, isLoading } = useQuery<EscalationPolicy[]>({
+    queryKey: ["/api/escalation-policies"],
+  });
+
+  const policies = (allPolicies || []).filter((policy) =>
+    houseId ? policy.houseId === houseId || policy.houseId === null : policy.houseId === null,
+  );
+
+  const invalidatePolicies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/escalation-policies"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/escalation-policies", {
+        houseId,
+        name,
+        severities,
+        steps: steps.map((step) => ({ afterMinutes: parseInt(step.afterMinutes, 10) || 0, target: step.target })),
+      });
+    },
+    onSuccess: () => {
+      setName("");
+      setSeverities(["critical"]);
+      setSteps(EMPTY_STEPS);
+      invalidatePolicies();
+      toast({
+        title: "Policy Created",
+        description: "Matching alerts will now escalate until acknowledged.",
+      });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: EscalationPolicy["status"] }) => {
+      await apiRequest("PATCH", `/api/escalation-policies/${id}`, { status });
+    },
+    onSuccess: invalidatePolicies,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/escalation-policies/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePolicies();
+      toast({
+        title: "Policy Deleted",
+        description: "The escalation policy has been removed.",
+      });
+    },
+    onError,
+  });
+
+  const toggleSeverity = (severity: EscalationPolicy["severities"][number]) => {
+    setSeverities(
+      severities.includes(severity) ? severities.filter((s) => s !== severity) : [...severities, severity],
+    );
+  };
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading escalation policies...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {policies.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No escalation policies. Alerts notify members once when they are raised.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {policies.map((policy) => {
+            const editable = canManage && (houseId ? policy.houseId === houseId : true);
+            return (
+              <div
+                key={policy.id}
+                className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+                data-testid={`escalation-policy-${policy.id}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium">{policy.name}</p>
+                    {houseId && policy.houseId === null && <Badge variant="outline">Global</Badge>}
+                    {policy.severities.map((severity) => (
+                      <Badge key={severity} variant="secondary" className="capitalize">
+                        {severity}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{policy.steps.map(describeStep).join(" · ")}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={policy.status === "active"}
+                    disabled={!editable || statusMutation.isPending}
+                    onCheckedChange={(checked) =>
+                      statusMutation.mutate({ id: policy.id, status: checked ? "active" : "inactive" })
+                    }
+                    data-testid={`switch-escalation-policy-${policy.id}`}
+                  />
+                  {editable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete policy"
+                      onClick={() => deleteMutation.mutate(policy.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-escalation-policy-${policy.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="space-y-3">
+          <Separator />
+          <Label>New Policy</Label>
+          <Input
+            placeholder="Policy name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-escalation-policy-name"
+          />
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm text-muted-foreground">Applies to</span>
+            {SEVERITIES.map((severity) => (
+              <Button
+                key={severity}
+                type="button"
+                size="sm"
+                variant={severities.includes(severity) ? "default" : "outline"}
+                className="capitalize"
+                onClick={() => toggleSeverity(severity)}
+                data-testid={`button-escalation-severity-${severity}`}
+              >
+                {severity}
+              </Button>
+            ))}
+          </div>
+
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground w-14">Step {index + 1}</span>
+              <Input
+                type="number"
+                min={0}
+                className="w-24"
+                value={step.afterMinutes}
+                onChange={(e) => updateStep(index, { afterMinutes: e.target.value })}
+                data-testid={`input-escalation-step-minutes-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">min →</span>
+              <Select
+                value={step.target}
+                onValueChange={(target) => updateStep(index, { target: target as EscalationStep["target"] })}
+              >
+                <SelectTrigger className="w-40" data-testid={`select-escalation-step-target-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TARGET_LABELS).map(([target, label]) => (
+                    <SelectItem key={target} value={target}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {steps.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove step"
+                  onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-escalation-step-${index}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setSteps([...steps, { afterMinutes: "", target: "cloud_staff" }])}
+              disabled={steps.length >= 10}
+              data-testid="button-add-escalation-step"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Step
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || severities.length === 0 || createMutation.isPending}
+              data-testid="button-create-escalation-policy"
+            >
+              {createMutation.isPending ? "Creating..." : "Create Policy"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
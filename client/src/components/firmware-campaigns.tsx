@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Cpu, Pause, Play, Plus, Rocket, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  Device,
+  FirmwareCampaign,
+  FirmwareCampaignWithProgress,
+  FirmwareRelease,
+  FirmwareUpdateCounts,
+} from "@shared/schema";
+
+const DEVICE_TYPES: Device["type"][] = ["camera", "microphone", "motion_sensor", "thermostat", "lock", "light", "smoke_detector", "keypad"];
+
+const EMPTY_RELEASE = { deviceType: "camera" as Device["type"], version: "", checksum: "", url: "", notes: "" };
+const EMPTY_CAMPAIGN = {
+  releaseId: "",
+  name: "",
+  stages: "5, 25, 100",
+  fromVersions: "",
+  stageSoakMinutes: "60",
+  failureThresholdPercent: "10",
+  autoRollback: true,
+};
+
+function getStatusVariant(status: FirmwareCampaign["status"]) {
+  switch (status) {
+    case "halted":
+      return "destructive";
+    case "active":
+      return "default";
+    default:
+      return "secondary";
+  }
+}
+
+function formatType(type: string) {
+  return type.replace(/_/g, " ");
+}
+
+function summarize(counts: FirmwareUpdateCounts) {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0) - counts.cancelled;
+  return {
+    total,
+    succeeded: counts.succeeded,
+    inProgress: counts.pending + counts.downloading + counts.installing,
+    failed: counts.failed + counts.rolling_back + counts.rolled_back,
+    rolledBack: counts.rolled_back,
+  };
+}
+
+/**
+ * Firmware releases and their rollout campaigns: per-campaign progress,
+ * current stage and failures, with controls to create releases and campaigns
+ * and to pause, resume or cancel a rollout.
+ */
+export function FirmwareCampaigns() {
+  const { toast } = useToast();
+  const [isReleaseOpen, setIsReleaseOpen] = useState(false);
+  const [isCampaignOpen, setIsCampaignOpen] = useState(false);
+  const [release, setRelease] = useState(EMPTY_RELEASE);
+  const [campaign, setCampaign] = useState(EMPTY_CAMPAIGN);
+
+  const { data: releases } = useQuery<FirmwareRelease[]>({
+    queryKey: ["/api/firmware/releases"],
+  });
+
+  const { data: campaigns, isLoading } = useQuery<FirmwareCampaignWithProgress[]>({
+    queryKey: ["/api/firmware/campaigns"],
+    // Devices report progress on their own; refresh while anything is rolling out
+    refetchInterval: (query) => (query.state.data?.some((c) => c.status === "active") ? 10000 : false),
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createReleaseMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/firmware/releases", {
+        ...release,
+        notes: release.notes || null,
+      });
+    },
+    onSuccess: () => {
+      setIsReleaseOpen(false);
+      setRelease(EMPTY_RELEASE);
+      queryClient.invalidateQueries({ queryKey: ["/api/firmware/releases"] });
+      toast({ title: "Release Added", description: `Version ${release.version} is ready to roll out.` });
+    },
+    onError,
+  });
+
+  const createCampaignMutation = useMutation({
+    mutationFn: async () => {
+      const list = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+      await apiRequest("POST", "/api/firmware/campaigns", {
+        releaseId: campaign.releaseId,
+        name: campaign.name,
+        stages: list(campaign.stages).map(Number),
+        target: campaign.fromVersions ? { fromVersions: list(campaign.fromVersions) } : {},
+        stageSoakMinutes: parseInt(campaign.stageSoakMinutes, 10),
+        failureThresholdPercent: parseInt(campaign.failureThresholdPercent, 10),
+        autoRollback: campaign.autoRollback,
+      });
+    },
+    onSuccess: () => {
+      setIsCampaignOpen(false);
+      setCampaign(EMPTY_CAMPAIGN);
+      queryClient.invalidateQueries({ queryKey: ["/api/firmware/campaigns"] });
+      toast({ title: "Campaign Started", description: "The first stage is being offered to devices." });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "pause" | "resume" | "cancel" }) => {
+      await apiRequest("POST", `/api/firmware/campaigns/${id}/${action}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/firmware/campaigns"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Firmware Rollouts</CardTitle>
+            <CardDescription>Staged OTA campaigns and their device progress</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsReleaseOpen(true)} data-testid="button-new-release">
+              <Plus className="h-4 w-4 mr-2" />
+              New Release
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setIsCampaignOpen(true)}
+              disabled={!releases?.length}
+              data-testid="button-new-campaign"
+            >
+              <Rocket className="h-4 w-4 mr-2" />
+              New Campaign
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+        ) : campaigns && campaigns.length > 0 ? (
+          <div className="space-y-3">
+            {campaigns.map((c) => {
+              const progress = summarize(c.counts);
+              const isOpen = c.status !== "completed" && c.status !== "cancelled";
+              return (
+                <div key={c.id} className="p-3 border rounded-md space-y-3" data-testid={`firmware-campaign-${c.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{c.name}</p>
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {formatType(c.release.deviceType)} • v{c.release.version} • stage {c.currentStage + 1} of{" "}
+                        {c.stages.length} ({c.stages[c.currentStage]}%)
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={getStatusVariant(c.status)} className="capitalize">
+                        {c.status}
+                      </Badge>
+                      {c.status === "active" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => actionMutation.mutate({ id: c.id, action: "pause" })}
+                          disabled={actionMutation.isPending}
+                          data-testid={`button-pause-campaign-${c.id}`}
+                        >
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(c.status === "paused" || c.status === "halted") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => actionMutation.mutate({ id: c.id, action: "resume" })}
+                          disabled={actionMutation.isPending}
+                          data-testid={`button-resume-campaign-${c.id}`}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isOpen && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => actionMutation.mutate({ id: c.id, action: "cancel" })}
+                          disabled={actionMutation.isPending}
+                          data-testid={`button-cancel-campaign-${c.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <Progress value={progress.total ? (progress.succeeded / progress.total) * 100 : 0} />
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    <span>{progress.succeeded} of {progress.total} updated</span>
+                    <span>{progress.inProgress} in progress</span>
+                    <span className={progress.failed > 0 ? "text-destructive" : undefined}>
+                      {progress.failed} failed{progress.rolledBack > 0 && ` (${progress.rolledBack} rolled back)`}
+                    </span>
+                    <span>{c.counts.scheduled} waiting for later stages</span>
+                  </div>
+                  {c.haltReason && <p className="text-sm text-destructive">{c.haltReason}</p>}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <Cpu className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-sm text-muted-foreground">No firmware campaigns yet</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isReleaseOpen} onOpenChange={setIsReleaseOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Firmware Release</DialogTitle>
+            <DialogDescription>Register a firmware image devices can download and verify.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Device Type</Label>
+                <Select
+                  value={release.deviceType}
+                  onValueChange={(deviceType) => setRelease({ ...release, deviceType: deviceType as Device["type"] })}
+                >
+                  <SelectTrigger data-testid="select-release-device-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEVICE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">
+                        {formatType(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="release-version">Version</Label>
+                <Input
+                  id="release-version"
+                  placeholder="2.4.1"
+                  value={release.version}
+                  onChange={(e) => setRelease({ ...release, version: e.target.value })}
+                  data-testid="input-release-version"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="release-url">Image URL</Label>
+              <Input
+                id="release-url"
+                placeholder="https://"
+                value={release.url}
+                onChange={(e) => setRelease({ ...release, url: e.target.value })}
+                data-testid="input-release-url"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="release-checksum">SHA-256 Checksum</Label>
+              <Input
+                id="release-checksum"
+                className="font-mono text-xs"
+                value={release.checksum}
+                onChange={(e) => setRelease({ ...release, checksum: e.target.value.trim() })}
+                data-testid="input-release-checksum"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="release-notes">Release Notes</Label>
+              <Textarea
+                id="release-notes"
+                value={release.notes}
+                onChange={(e) => setRelease({ ...release, notes: e.target.value })}
+                data-testid="input-release-notes"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReleaseOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createReleaseMutation.mutate()}
+              disabled={!release.version || !release.url || !release.checksum || createReleaseMutation.isPending}
+              data-testid="button-submit-release"
+            >
+              Add Release
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCampaignOpen} onOpenChange={setIsCampaignOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Rollout Campaign</DialogTitle>
+            <DialogDescription>
+              Devices of the release's type are offered the update in stages. The campaign halts when failures
+              exceed the threshold.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Release</Label>
+              <Select value={campaign.releaseId} onValueChange={(releaseId) => setCampaign({ ...campaign, releaseId })}>
+                <SelectTrigger data-testid="select-campaign-release">
+                  <SelectValue placeholder="Select a release" />
+                </SelectTrigger>
+                <SelectContent>
+                  {releases?.map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      <span className="capitalize">{formatType(r.deviceType)}</span> v{r.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-name">Name</Label>
+              <Input
+                id="campaign-name"
+                value={campaign.name}
+                onChange={(e) => setCampaign({ ...campaign, name: e.target.value })}
+                data-testid="input-campaign-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-stages">Stages (%)</Label>
+                <Input
+                  id="campaign-stages"
+                  value={campaign.stages}
+                  onChange={(e) => setCampaign({ ...campaign, stages: e.target.value })}
+                  data-testid="input-campaign-stages"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-from-versions">Only From Versions</Label>
+                <Input
+                  id="campaign-from-versions"
+                  placeholder="Any version"
+                  value={campaign.fromVersions}
+                  onChange={(e) => setCampaign({ ...campaign, fromVersions: e.target.value })}
+                  data-testid="input-campaign-from-versions"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-soak">Soak Time (minutes)</Label>
+                <Input
+                  id="campaign-soak"
+                  type="number"
+                  min={0}
+                  value={campaign.stageSoakMinutes}
+                  onChange={(e) => setCampaign({ ...campaign, stageSoakMinutes: e.target.value })}
+                  data-testid="input-campaign-soak"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-threshold">Failure Threshold (%)</Label>
+                <Input
+                  id="campaign-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={campaign.failureThresholdPercent}
+                  onChange={(e) => setCampaign({ ...campaign, failureThresholdPercent: e.target.value })}
+                  data-testid="input-campaign-threshold"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label>Automatic Rollback</Label>
+                <p className="text-sm text-muted-foreground">Failed devices reinstall their previous release</p>
+              </div>
+              <Switch
+                checked={campaign.autoRollback}
+                onCheckedChange={(autoRollback) => setCampaign({ ...campaign, autoRollback })}
+                data-testid="switch-campaign-rollback"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCampaignOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createCampaignMutation.mutate()}
+              disabled={!campaign.releaseId || !campaign.name || createCampaignMutation.isPending}
+              data-testid="button-submit-campaign"
+            >
+              Start Campaign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,419 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ImageUp, MapPin, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FloorPlanCanvas } from "@/components/floor-plan-view";
+import type { House, HouseFloorPlan } from "@shared/schema";
+
+const NO_FLOOR = "none";
+
+/**
+ * Floors, rooms and floor plans of a house: add floors and upload their plan
+ * images, sort rooms onto floors, and place devices by picking one and
+ * clicking where it is on the plan.
+ */
+export function FloorPlanEditor({
+  houses,
+  open,
+  onOpenChange,
+}: {
+  houses: Pick<House, "id" | "name">[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [houseId, setHouseId] = useState<string>();
+  const [floorId, setFloorId] = useState<string>();
+  const [newFloorName, setNewFloorName] = useState("");
+  const [newRoomName, setNewRoomName] = useState("");
+  const [placingDeviceId, setPlacingDeviceId] = useState<string>();
+
+  const house = houses.find((h) => h.id === houseId) ?? houses[0];
+
+  const { data: plan, isLoading } = useQuery<HouseFloorPlan>({
+    queryKey: ["/api/houses", house?.id, "floor-plan"],
+    enabled: open && !!house,
+  });
+
+  const floor = plan?.floors.find((f) => f.id === floorId) ?? plan?.floors[0];
+
+  useEffect(() => {
+    if (!open) {
+      setPlacingDeviceId(undefined);
+      setNewFloorName("");
+      setNewRoomName("");
+    }
+  }, [open]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/houses", house?.id, "floor-plan"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addFloorMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/houses/${house?.id}/floors`, {
+        name,
+        level: plan?.floors.length ?? 0,
+      });
+      return (await res.json()) as HouseFloorPlan["floors"][number];
+    },
+    onSuccess: (created) => {
+      invalidate();
+      setFloorId(created.id);
+      setNewFloorName("");
+    },
+    onError,
+  });
+
+  const deleteFloorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/floors/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setFloorId(undefined);
+    },
+    onError,
+  });
+
+  const uploadPlanMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("plan", file);
+
+      const response = await fetch(`/api/floors/${floor?.id}/plan`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to upload floor plan");
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Floor Plan Uploaded",
+        description: `Click a device, then its spot on the plan, to place it on ${floor?.name}.`,
+      });
+    },
+    onError,
+  });
+
+  const addRoomMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", `/api/houses/${house?.id}/rooms`, { name, floorId: floor?.id ?? null });
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewRoomName("");
+    },
+    onError,
+  });
+
+  const updateRoomMutation = useMutation({
+    mutationFn: async ({ id, floorId }: { id: string; floorId: string | null }) => {
+      await apiRequest("PATCH", `/api/rooms/${id}`, { floorId });
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteRoomMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/rooms/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const placeMutation = useMutation({
+    mutationFn: async ({ deviceId, x, y }: { deviceId: string; x: number; y: number }) => {
+      await apiRequest("PUT", `/api/devices/${deviceId}/placement`, { floorId: floor?.id, x, y });
+    },
+    onSuccess: () => {
+      invalidate();
+      setPlacingDeviceId(undefined);
+    },
+    onError,
+  });
+
+  const unplaceMutation = useMutation({
+    mutationFn: async (deviceId: string) => {
+      await apiRequest("DELETE", `/api/devices/${deviceId}/placement`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const placementOf = (deviceId: string) => plan?.placements.find((placement) => placement.deviceId === deviceId);
+  const floorName = (id: string | null | undefined) => plan?.floors.find((f) => f.id === id)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto" data-testid="dialog-floor-plan-editor">
+        <DialogHeader>
+          <DialogTitle>Floor Plan</DialogTitle>
+          <DialogDescription>
+            Upload a plan for each floor, sort rooms onto floors and mark where devices are. Alerts are shown where
+            their device is.
+          </DialogDescription>
+        </DialogHeader>
+
+        {houses.length > 1 && (
+          <Select
+            value={house?.id}
+            onValueChange={(id) => {
+              setHouseId(id);
+              setFloorId(undefined);
+              setPlacingDeviceId(undefined);
+            }}
+          >
+            <SelectTrigger className="w-64" data-testid="select-floor-plan-house">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {houses.map((h) => (
+                <SelectItem key={h.id} value={h.id}>
+                  {h.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {isLoading || !plan ? (
+          <Skeleton className="h-96 w-full" />
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[1fr_18rem]">
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {plan.floors.map((f) => (
+                  <Button
+                    key={f.id}
+                    variant={f.id === floor?.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setFloorId(f.id)}
+                    data-testid={`button-floor-${f.id}`}
+                  >
+                    {f.name}
+                  </Button>
+                ))}
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="h-8 w-36"
+                    placeholder="New floor"
+                    value={newFloorName}
+                    onChange={(e) => setNewFloorName(e.target.value)}
+                    data-testid="input-new-floor"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => addFloorMutation.mutate(newFloorName.trim())}
+                    disabled={!newFloorName.trim() || addFloorMutation.isPending}
+                    data-testid="button-add-floor"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {floor ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="outline" size="sm" asChild disabled={uploadPlanMutation.isPending}>
+                      <label className="cursor-pointer" data-testid="button-upload-floor-plan">
+                        <ImageUp className="h-4 w-4 mr-2" />
+                        {uploadPlanMutation.isPending ? "Uploading..." : floor.hasPlan ? "Replace Plan" : "Upload Plan"}
+                        <input
+                          type="file"
+                          accept="image/png,image/jpeg,image/webp"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              uploadPlanMutation.mutate(file);
+                            }
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteFloorMutation.mutate(floor.id)}
+                      disabled={deleteFloorMutation.isPending}
+                      data-testid="button-delete-floor"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete {floor.name}
+                    </Button>
+                    {placingDeviceId && (
+                      <Badge variant="secondary" className="gap-1">
+                        Click the plan to place {plan.devices.find((d) => d.id === placingDeviceId)?.name}
+                        <button onClick={() => setPlacingDeviceId(undefined)} aria-label="Cancel placing">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    )}
+                  </div>
+                  <FloorPlanCanvas
+                    plan={plan}
+                    floor={floor}
+                    selectedDeviceId={placingDeviceId}
+                    onPlace={
+                      placingDeviceId && floor.hasPlan
+                        ? (position) => placeMutation.mutate({ deviceId: placingDeviceId, ...position })
+                        : undefined
+                    }
+                  />
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-12">
+                  Add a floor to upload its plan and place devices on it
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Rooms</Label>
+                {plan.rooms.map((room) => (
+                  <div key={room.id} className="flex items-center gap-2" data-testid={`room-${room.id}`}>
+                    <span className="flex-1 truncate text-sm">{room.name}</span>
+                    <Select
+                      value={room.floorId ?? NO_FLOOR}
+                      onValueChange={(value) =>
+                        updateRoomMutation.mutate({ id: room.id, floorId: value === NO_FLOOR ? null : value })
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-28 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_FLOOR}>No floor</SelectItem>
+                        {plan.floors.map((f) => (
+                          <SelectItem key={f.id} value={f.id}>
+                            {f.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteRoomMutation.mutate(room.id)}
+                      disabled={plan.devices.some((d) => d.roomId === room.id)}
+                      title={plan.devices.some((d) => d.roomId === room.id) ? "Move its devices out first" : "Delete room"}
+                      data-testid={`button-delete-room-${room.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center gap-1">
+                  <Input
+                    className="h-8"
+                    placeholder="New room"
+                    value={newRoomName}
+                    onChange={(e) => setNewRoomName(e.target.value)}
+                    data-testid="input-new-room"
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => addRoomMutation.mutate(newRoomName.trim())}
+                    disabled={!newRoomName.trim() || addRoomMutation.isPending}
+                    data-testid="button-add-room"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Devices</Label>
+                {plan.devices.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No devices in this house</p>
+                ) : (
+                  plan.devices.map((device) => {
+                    const placement = placementOf(device.id);
+                    return (
+                      <div key={device.id} className="flex items-center gap-2" data-testid={`placement-device-${device.id}`}>
+                        <button
+                          className={`flex-1 min-w-0 rounded-md px-2 py-1 text-left text-sm hover-elevate ${
+                            device.id === placingDeviceId ? "bg-accent" : ""
+                          }`}
+                          onClick={() => setPlacingDeviceId(device.id === placingDeviceId ? undefined : device.id)}
+                          disabled={!floor?.hasPlan}
+                        >
+                          <p className="truncate font-medium">{device.name}</p>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {device.room}
+                            {placement ? ` · on ${floorName(placement.floorId)}` : " · not placed"}
+                          </p>
+                        </button>
+                        {placement ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => unplaceMutation.mutate(device.id)}
+                            title="Remove from plan"
+                            data-testid={`button-unplace-${device.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <MapPin className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
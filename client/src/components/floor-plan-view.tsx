@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { Alert, HouseFloorPlan } from "@shared/schema";
+
+type PlanFloor = HouseFloorPlan["floors"][number];
+
+const STATUS_COLORS: Record<HouseFloorPlan["devices"][number]["status"], string> = {
+  online: "bg-primary",
+  warning: "bg-yellow-500",
+  offline: "bg-muted-foreground",
+};
+
+const sameRoom = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Where an alert goes on a floor: at the device it was raised for, or else in
+ * the middle of the devices placed in the room it names.
+ */
+function alertPosition(alert: Alert, plan: HouseFloorPlan, floorId: string): { x: number; y: number } | undefined {
+  const onFloor = plan.placements.filter((placement) => placement.floorId === floorId);
+  const atDevice = onFloor.find((placement) => placement.deviceId === alert.deviceId);
+  if (atDevice) {
+    return atDevice;
+  }
+
+  const source = plan.devices.find((device) => device.id === alert.deviceId);
+  const room = source?.room ?? alert.location;
+  const inRoom = onFloor.filter((placement) =>
+    sameRoom(plan.devices.find((device) => device.id === placement.deviceId)?.room, room),
+  );
+  if (inRoom.length === 0) {
+    return undefined;
+  }
+  return {
+    x: inRoom.reduce((sum, placement) => sum + placement.x, 0) / inRoom.length,
+    y: inRoom.reduce((sum, placement) => sum + placement.y, 0) / inRoom.length,
+  };
+}
+
+/**
+ * One floor's plan image with its devices and, when given, alerts drawn on it.
+ * With onPlace, clicking the plan reports where, in percent of the image.
+ */
+export function FloorPlanCanvas({
+  plan,
+  floor,
+  alerts = [],
+  selectedDeviceId,
+  onPlace,
+}: {
+  plan: HouseFloorPlan;
+  floor: PlanFloor;
+  alerts?: Alert[];
+  selectedDeviceId?: string;
+  onPlace?: (position: { x: number; y: number }) => void;
+}) {
+  if (!floor.hasPlan) {
+    return (
+      <div className="flex aspect-video w-full items-center justify-center rounded-md border border-dashed bg-muted/30 text-sm text-muted-foreground">
+        No floor plan uploaded for {floor.name}
+      </div>
+    );
+  }
+
+  const placements = plan.placements.filter((placement) => placement.floorId === floor.id);
+  const placedAlerts = alerts.flatMap((alert) => {
+    const position = alertPosition(alert, plan, floor.id);
+    return position ? [{ alert, position }] : [];
+  });
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPlace) {
+      return;
+    }
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+    onPlace({
+      x: clamp(((e.clientX - bounds.left) / bounds.width) * 100),
+      y: clamp(((e.clientY - bounds.top) / bounds.height) * 100),
+    });
+  };
+
+  return (
+    <div
+      className={`relative w-full overflow-hidden rounded-md border ${onPlace ? "cursor-crosshair" : ""}`}
+      onClick={handleClick}
+      data-testid={`floor-plan-${floor.id}`}
+    >
+      <img
+        src={`/api/floors/${floor.id}/plan?v=${floor.planUpdatedAt ? new Date(floor.planUpdatedAt).getTime() : 0}`}
+        alt={`${floor.name} floor plan`}
+        className="block w-full select-none"
+        draggable={false}
+      />
+      {placements.map((placement) => {
+        const device = plan.devices.find((d) => d.id === placement.deviceId);
+        if (!device) {
+          return null;
+        }
+        return (
+          <div
+            key={placement.deviceId}
+            className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background ${STATUS_COLORS[device.status]} ${
+              placement.deviceId === selectedDeviceId ? "ring-2 ring-primary ring-offset-1" : ""
+            }`}
+            style={{ left: `${placement.x}%`, top: `${placement.y}%` }}
+            title={`${device.name} (${device.room}) · ${device.status}`}
+            data-testid={`floor-plan-device-${device.id}`}
+          />
+        );
+      })}
+      {placedAlerts.map(({ alert, position }) => (
+        <div
+          key={alert.id}
+          className="absolute -translate-x-1/2 -translate-y-1/2"
+          style={{ left: `${position.x}%`, top: `${position.y}%` }}
+          title={`${alert.title} · ${alert.severity}`}
+          data-testid={`floor-plan-alert-${alert.id}`}
+        >
+          <span className="absolute inline-flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 animate-ping rounded-full bg-destructive/60" />
+          <span className="absolute inline-flex h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background bg-destructive" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * A house's floor plans, one floor at a time, with the given alerts drawn
+ * where they happened.
+ */
+export function FloorPlanView({ houseId, alerts = [] }: { houseId: string; alerts?: Alert[] }) {
+  const [floorId, setFloorId] = useState<string>();
+
+  const { data: plan, isLoading } = useQuery<HouseFloorPlan>({
+    queryKey: ["/api/houses", houseId, "floor-plan"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="aspect-video w-full" />;
+  }
+  if (!plan || plan.floors.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No floor plan set up for this house</p>;
+  }
+
+  const floor = plan.floors.find((f) => f.id === floorId) ?? plan.floors[0];
+  const unplaced = alerts.filter((alert) => !plan.floors.some((f) => alertPosition(alert, plan, f.id)));
+
+  return (
+    <div className="space-y-2">
+      {plan.floors.length > 1 && (
+        <Tabs value={floor.id} onValueChange={setFloorId}>
+          <TabsList>
+            {plan.floors.map((f) => {
+              const count = alerts.filter((alert) => alertPosition(alert, plan, f.id)).length;
+              return (
+                <TabsTrigger key={f.id} value={f.id} data-testid={`tab-floor-${f.id}`}>
+                  {f.name}
+                  {count > 0 && (
+                    <Badge variant="destructive" className="ml-2 px-1.5">
+                      {count}
+                    </Badge>
+                  )}
+                </TabsTrigger>
+              );
+            })}
+          </TabsList>
+        </Tabs>
+      )}
+      <FloorPlanCanvas plan={plan} floor={floor} alerts={alerts} />
+      {unplaced.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not on the plan: {unplaced.map((alert) => `${alert.title}${alert.location ? ` (${alert.location})` : ""}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,3 @@
-import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -11,22 +10,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { SidebarTrigger } from "@/components/ui/sidebar";
-import { Bell, LogOut, User, Settings } from "lucide-react";
+import { LogOut, User, Settings } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { Link, useLocation } from "wouter";
-import type { Alert } from "@shared/schema";
+import { Link } from "wouter";
+import { NotificationBell } from "@/components/notification-bell";
 
 export function Header() {
   const { user } = useAuth();
-  const [, setLocation] = useLocation();
-
-  // Fetch ALL alerts to get accurate pending count
-  const { data: alerts } = useQuery<Alert[]>({
-    queryKey: ["/api/alerts"],
-  });
-
-  // Count alerts where status is "new" (pending action)
-  const pendingCount = alerts?.filter((a) => a.status === "new").length || 0;
 
   return (
     <header className="sticky top-0 z-50 flex h-14 items-center gap-4 border-b bg-background px-6">
@@ -34,20 +24,7 @@ export function Header() {
       
       <div className="flex-1" />
 
-      <Button 
-        variant="ghost" 
-        size="icon" 
-        className="relative" 
-        data-testid="button-notifications"
-        onClick={() => setLocation("/alerts")}
-      >
-        <Bell className="h-5 w-5" />
-        {pendingCount > 0 && (
-          <Badge className="absolute -top-1 -right-1 h-5 w-5 p-0 flex items-center justify-center text-xs">
-            {pendingCount}
-          </Badge>
-        )}
-      </Button>
+      <NotificationBell />
 
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Home, Plane, Settings, ShieldCheck, ShieldOff, type LucideIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { House, HouseMemberRole, HouseModeChangeWithUser, HouseSecurityStatus } from "@shared/schema";
+
+const MODES: { mode: House["mode"]; label: string; description: string; icon: LucideIcon }[] = [
+  { mode: "disarmed", label: "Disarmed", description: "Motion is logged as low priority", icon: ShieldOff },
+  { mode: "home", label: "Home", description: "Motion is ignored", icon: Home },
+  { mode: "away", label: "Away", description: "Motion is an intrusion after the entry delay", icon: ShieldCheck },
+  { mode: "vacation", label: "Vacation", description: "As away, with intrusions raised as critical", icon: Plane },
+];
+
+const modeLabel = (mode: House["mode"]) => MODES.find((m) => m.mode === mode)?.label ?? mode;
+
+const formatTime = (date: Date | string) => new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+function SecuritySettingsDialog({
+  houseId,
+  status,
+  open,
+  onOpenChange,
+}: {
+  houseId: string;
+  status: HouseSecurityStatus;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [exitDelaySeconds, setExitDelaySeconds] = useState(status.exitDelaySeconds);
+  const [entryDelaySeconds, setEntryDelaySeconds] = useState(status.entryDelaySeconds);
+  const [pin, setPin] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setExitDelaySeconds(status.exitDelaySeconds);
+      setEntryDelaySeconds(status.entryDelaySeconds);
+      setPin("");
+    }
+  }, [open, status]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (update: { exitDelaySeconds?: number; entryDelaySeconds?: number; pin?: string | null }) => {
+      await apiRequest("PATCH", `/api/houses/${houseId}/security`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/houses", houseId, "security"] });
+      toast({
+        title: "Security Settings Saved",
+        description: "Arming delays and PIN have been updated.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-security-settings">
+        <DialogHeader>
+          <DialogTitle>Security Settings</DialogTitle>
+          <DialogDescription>
+            Delays give you time to leave after arming and to disarm after coming in. The PIN disarms the house from a
+            keypad.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exit-delay">Exit delay (seconds)</Label>
+              <Input
+                id="exit-delay"
+                type="number"
+                min={0}
+                max={300}
+                value={exitDelaySeconds}
+                onChange={(e) => setExitDelaySeconds(Number(e.target.value))}
+                data-testid="input-exit-delay"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-delay">Entry delay (seconds)</Label>
+              <Input
+                id="entry-delay"
+                type="number"
+                min={0}
+                max={300}
+                value={entryDelaySeconds}
+                onChange={(e) => setEntryDelaySeconds(Number(e.target.value))}
+                data-testid="input-entry-delay"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="disarm-pin">{status.hasPin ? "New keypad PIN" : "Keypad PIN"}</Label>
+            <Input
+              id="disarm-pin"
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              placeholder={status.hasPin ? "Leave blank to keep the current PIN" : "4 to 8 digits"}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              data-testid="input-disarm-pin"
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {status.hasPin && (
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate({ pin: null })}
+              disabled={saveMutation.isPending}
+              data-testid="button-remove-pin"
+            >
+              Remove PIN
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate({ exitDelaySeconds, entryDelaySeconds, ...(pin ? { pin } : {}) })}
+            disabled={saveMutation.isPending || (pin.length > 0 && pin.length < 4)}
+            data-testid="button-save-security"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Security mode switcher for the user's houses: the current mode, arming and
+ * entry delays in progress, and who changed the mode recently.
+ */
+export function HouseSecurityMode() {
+  const { toast } = useToast();
+  const [selectedHouseId, setSelectedHouseId] = useState<string>();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const { data: houses, isLoading: housesLoading } = useQuery<(House & { memberRole?: HouseMemberRole })[]>({
+    queryKey: ["/api/houses"],
+  });
+  const house = houses?.find((h) => h.id === selectedHouseId) ?? houses?.[0];
+
+  // Polled while a delay is running so the panel shows when it ends
+  const { data: status, isLoading: statusLoading } = useQuery<HouseSecurityStatus>({
+    queryKey: ["/api/houses", house?.id, "security"],
+    enabled: !!house,
+    refetchInterval: (query) => (query.state.data?.armingUntil || query.state.data?.entryDeadline ? 5000 : false),
+  });
+
+  const { data: history } = useQuery<HouseModeChangeWithUser[]>({
+    queryKey: ["/api/houses", house?.id, "mode-history"],
+    enabled: !!house,
+  });
+
+  const modeMutation = useMutation({
+    mutationFn: async (mode: House["mode"]) => {
+      const res = await apiRequest("POST", `/api/houses/${house?.id}/mode`, { mode });
+      return (await res.json()) as HouseSecurityStatus;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/houses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/devices/cameras"] });
+      toast({
+        title: `${modeLabel(updated.mode)} Mode`,
+        description: updated.armingUntil
+          ? `Arming: the house is armed at ${formatTime(updated.armingUntil)}`
+          : `${house?.name} is now set to ${modeLabel(updated.mode).toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Mode Change Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!housesLoading && (!houses || houses.length === 0)) {
+    return null;
+  }
+
+  const canManage = house?.memberRole === "owner";
+  const canControl = house?.memberRole !== "guest";
+
+  return (
+    <Card data-testid="card-security-mode">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 pb-3">
+        <CardTitle>Security Mode</CardTitle>
+        <div className="flex items-center gap-2">
+          {houses && houses.length > 1 && (
+            <Select value={house?.id} onValueChange={setSelectedHouseId}>
+              <SelectTrigger className="w-48" data-testid="select-security-house">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {houses.map((h) => (
+                  <SelectItem key={h.id} value={h.id}>
+                    {h.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canManage && status && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsSettingsOpen(true)}
+              data-testid="button-security-settings"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {housesLoading || statusLoading || !status ? (
+          <Skeleton className="h-24" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {MODES.map(({ mode, label, description, icon: Icon }) => (
+                <Button
+                  key={mode}
+                  variant={status.mode === mode ? "default" : "outline"}
+                  className="h-auto flex-col items-start gap-1 p-3 text-left whitespace-normal"
+                  onClick={() => modeMutation.mutate(mode)}
+                  disabled={!canControl || modeMutation.isPending || status.mode === mode}
+                  data-testid={`button-mode-${mode}`}
+                >
+                  <span className="flex items-center gap-2 font-medium">
+                    <Icon className="h-4 w-4" />
+                    {label}
+                  </span>
+                  <span className="text-xs font-normal opacity-80">{description}</span>
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-security-state">
+              {status.entryDeadline ? (
+                <Badge variant="destructive">Entry delay: disarm before {formatTime(status.entryDeadline)}</Badge>
+              ) : status.armingUntil ? (
+                <Badge variant="secondary">Arming: armed at {formatTime(status.armingUntil)}</Badge>
+              ) : status.armed ? (
+                <Badge variant="destructive">Armed</Badge>
+              ) : (
+                <Badge variant="outline">Not armed</Badge>
+              )}
+              <span className="text-muted-foreground">
+                Exit delay {status.exitDelaySeconds}s · entry delay {status.entryDelaySeconds}s ·{" "}
+                {status.hasPin ? "keypad PIN set" : "no keypad PIN"}
+              </span>
+            </div>
+
+            {history && history.length > 0 && (
+              <div className="space-y-1" data-testid="list-mode-history">
+                <p className="text-sm font-medium">Recent changes</p>
+                {history.slice(0, 5).map((change) => (
+                  <p key={change.id} className="text-xs text-muted-foreground">
+                    {new Date(change.createdAt).toLocaleString()}: {modeLabel(change.fromMode)} → {modeLabel(change.toMode)}
+                    {change.source === "keypad" ? " from a keypad" : change.user ? ` by ${change.user.firstName || change.user.email}` : ""}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+      {house && status && (
+        <SecuritySettingsDialog
+          houseId={house.id}
+          status={status}
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+        />
+      )}
+    </Card>
+  );
+}
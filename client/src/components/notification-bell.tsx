@@ -0,0 +1,130 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+const severityColors: Record<Notification["severity"], string> = {
+  critical: "bg-destructive",
+  high: "bg-orange-500",
+  medium: "bg-yellow-500",
+  low: "bg-muted-foreground",
+};
+
+function invalidateNotifications() {
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+}
+
+// Header inbox for in-app notifications; new ones arrive over the alert stream
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications", "unread-count"],
+    refetchInterval: 60_000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: invalidateNotifications,
+  });
+
+  const unreadCount = unread?.count || 0;
+  const recent = notifications?.slice(0, 10) || [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 px-1 flex items-center justify-center text-xs">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={(e) => {
+                e.preventDefault();
+                markAllReadMutation.mutate();
+              }}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {recent.length === 0 ? (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {recent.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start gap-2 py-2"
+                onClick={() => {
+                  if (!notification.readAt) {
+                    markReadMutation.mutate(notification.id);
+                  }
+                  if (notification.alertId) {
+                    setLocation("/alerts");
+                  }
+                }}
+                data-testid={`notification-${notification.id}`}
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                    notification.readAt ? "bg-transparent" : severityColors[notification.severity]
+                  }`}
+                />
+                <div className="min-w-0 space-y-0.5">
+                  <p className={`text-sm truncate ${notification.readAt ? "" : "font-medium"}`}>{notification.title}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</p>
+                  )}
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => setLocation("/alerts")} data-testid="link-view-alerts">
+          View all alerts
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
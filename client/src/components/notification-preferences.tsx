@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Send } from "lucide-react";
+import type { NotificationChannel, NotificationDelivery, NotificationSeverity } from "@shared/schema";
+
+const SEVERITIES: NotificationSeverity[] = ["low", "medium", "high", "critical"];
+
+type ChannelSettings = {
+  enabled: boolean;
+  minSeverity: NotificationSeverity;
+  target: string | null;
+  hasSecret: boolean;
+};
+
+type PreferencesResponse = {
+  emailAvailable: boolean;
+  channels: Record<NotificationChannel, ChannelSettings>;
+};
+
+const CHANNEL_INFO: Record<NotificationChannel, { label: string; description: string }> = {
+  in_app: { label: "In-App", description: "Notification inbox in the header bell" },
+  email: { label: "Email", description: "Sent to your account email unless you set another address" },
+  webhook: { label: "Webhook", description: "JSON POST to your own endpoint, e.g. a chat integration" },
+};
+
+function SeveritySelect({
+  value,
+  onChange,
+  testId,
+}: {
+  value: NotificationSeverity;
+  onChange: (value: NotificationSeverity) => void;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as NotificationSeverity)}>
+      <SelectTrigger className="w-36" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SEVERITIES.map((severity) => (
+          <SelectItem key={severity} value={severity} className="capitalize">
+            {severity} and above
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function NotificationPreferences() {
+  const { toast } = useToast();
+  const [channels, setChannels] = useState<PreferencesResponse["channels"] | null>(null);
+  const [webhookSecret, setWebhookSecret] = useState("");
+
+  const { data, isLoading } = useQuery<PreferencesResponse>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const { data: deliveries } = useQuery<NotificationDelivery[]>({
+    queryKey: ["/api/notifications", "deliveries"],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setChannels(data.channels);
+    }
+  }, [data]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!channels) return;
+      await apiRequest("PUT", "/api/notifications/preferences", {
+        in_app: { enabled: channels.in_app.enabled, minSeverity: channels.in_app.minSeverity },
+        email: {
+          enabled: channels.email.enabled,
+          minSeverity: channels.email.minSeverity,
+          target: channels.email.target || null,
+        },
+        webhook: {
+          enabled: channels.webhook.enabled,
+          minSeverity: channels.webhook.minSeverity,
+          target: channels.webhook.target || null,
+          // Leaving the secret blank keeps the current one
+          ...(webhookSecret ? { secret: webhookSecret } : {}),
+        },
+      });
+    },
+    onSuccess: () => {
+      setWebhookSecret("");
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/preferences"] });
+      toast({
+        title: "Preferences Saved",
+        description: "Your notification preferences have been updated.",
+      });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/test");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      // Email and webhook sends are queued; give the worker a moment before refreshing the log
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications", "deliveries"] });
+      }, 2000);
+      toast({
+        title: "Test Sent",
+        description: "A test notification was sent to each enabled channel.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading || !data || !channels) {
+    return <p className="text-sm text-muted-foreground">Loading notification preferences...</p>;
+  }
+
+  const update = (channel: NotificationChannel, changes: Partial<ChannelSettings>) => {
+    setChannels({ ...channels, [channel]: { ...channels[channel], ...changes } });
+  };
+
+  return (
+    <div className="space-y-4">
+      {(["in_app", "email", "webhook"] as const).map((channel, index) => (
+        <div key={channel} className="space-y-3">
+          {index > 0 && <Separator />}
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label>{CHANNEL_INFO[channel].label}</Label>
+              <p className="text-sm text-muted-foreground">
+                {channel === "email" && !data.emailAvailable
+                  ? "Email delivery is not configured on this server"
+                  : CHANNEL_INFO[channel].description}
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <SeveritySelect
+                value={channels[channel].minSeverity}
+                onChange={(minSeverity) => update(channel, { minSeverity })}
+                testId={`select-severity-${channel}`}
+              />
+              <Switch
+                checked={channels[channel].enabled}
+                disabled={channel === "email" && !data.emailAvailable}
+                onCheckedChange={(enabled) => update(channel, { enabled })}
+                data-testid={`switch-${channel}`}
+              />
+            </div>
+          </div>
+
+          {channel === "email" && data.emailAvailable && (
+            <Input
+              type="email"
+              placeholder="Account email"
+              value={channels.email.target || ""}
+              onChange={(e) => update("email", { target: e.target.value })}
+              data-testid="input-email-target"
+            />
+          )}
+
+          {channel === "webhook" && (
+            <div className="grid gap-2 md:grid-cols-2">
+              <Input
+                type="url"
+                placeholder="https://example.com/hooks/smarthome"
+                value={channels.webhook.target || ""}
+                onChange={(e) => update("webhook", { target: e.target.value })}
+                data-testid="input-webhook-url"
+              />
+              <Input
+                type="password"
+                placeholder={channels.webhook.hasSecret ? "Signing secret set (enter to replace)" : "Signing secret (optional)"}
+                value={webhookSecret}
+                onChange={(e) => setWebhookSecret(e.target.value)}
+                data-testid="input-webhook-secret"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-notifications">
+          {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => testMutation.mutate()}
+          disabled={testMutation.isPending}
+          data-testid="button-test-notification"
+        >
+          <Send className="h-4 w-4 mr-2" />
+          Send Test
+        </Button>
+      </div>
+
+      {deliveries && deliveries.length > 0 && (
+        <div className="space-y-2" data-testid="notification-delivery-log">
+          <Separator />
+          <Label>Recent Deliveries</Label>
+          {deliveries.slice(0, 8).map((delivery) => (
+            <div key={delivery.id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{delivery.payload.title}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {CHANNEL_INFO[delivery.channel].label}
+                  {delivery.createdAt && ` · ${new Date(delivery.createdAt).toLocaleString()}`}
+                  {delivery.lastError && ` · ${delivery.lastError}`}
+                </p>
+              </div>
+              <Badge
+                variant={delivery.status === "sent" ? "default" : delivery.status === "failed" ? "destructive" : "secondary"}
+                className="capitalize shrink-0"
+              >
+                {delivery.status}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
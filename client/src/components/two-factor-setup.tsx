@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldCheck, Copy } from "lucide-react";
+
+type TwoFactorStatus = {
+  available: boolean;
+  enabled: boolean;
+  required: boolean;
+  policyEnabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type SetupResponse = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }).map((_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function TwoFactorSetup({ onEnabled }: { onEnabled?: () => void }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<SetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa/status"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return (await res.json()) as SetupResponse;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({
+        title: "2FA Enabled",
+        description: "Save your recovery codes somewhere safe.",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({
+        title: "2FA Disabled",
+        description: "Two-factor authentication has been turned off.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-muted-foreground">Loading two-factor settings...</p>;
+  }
+
+  if (!status.available) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Two-factor authentication is managed by your sign-in provider.
+      </p>
+    );
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-3" data-testid="two-factor-recovery-codes">
+        <Label>Recovery Codes</Label>
+        <p className="text-sm text-muted-foreground">
+          Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm p-3 border rounded-md">
+          {recoveryCodes.map((c) => (
+            <span key={c}>{c}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+            data-testid="button-copy-recovery-codes"
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              setRecoveryCodes(null);
+              onEnabled?.();
+            }}
+            data-testid="button-recovery-codes-done"
+          >
+            I've saved them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status.enabled) {
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-green-500" />
+          <span className="text-sm">Two-factor authentication is on</span>
+          <Badge variant="secondary" data-testid="badge-recovery-remaining">
+            {status.recoveryCodesRemaining} recovery codes left
+          </Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">Enter a current code to manage two-factor settings.</p>
+        <CodeInput value={code} onChange={setCode} testId="input-manage-2fa-code" />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={code.length !== 6 || regenerateMutation.isPending}
+            onClick={() => regenerateMutation.mutate()}
+            data-testid="button-regenerate-recovery-codes"
+          >
+            New Recovery Codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={code.length !== 6 || disableMutation.isPending}
+              onClick={() => disableMutation.mutate()}
+              data-testid="button-disable-2fa"
+            >
+              Disable 2FA
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-3" data-testid="two-factor-enrollment">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+        </p>
+        <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="h-40 w-40 border rounded-md" />
+        <div className="space-y-1">
+          <Label>Or enter this key manually</Label>
+          <p className="font-mono text-xs break-all" data-testid="text-2fa-secret">{setup.secret}</p>
+        </div>
+        <CodeInput value={code} onChange={setCode} testId="input-enable-2fa-code" />
+        <Button
+          size="sm"
+          disabled={code.length !== 6 || enableMutation.isPending}
+          onClick={() => enableMutation.mutate()}
+          data-testid="button-enable-2fa"
+        >
+          {enableMutation.isPending ? "Verifying..." : "Verify & Enable"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {status.required
+          ? "Your role requires two-factor authentication. Set it up to continue."
+          : "Add a second step to sign-in using an authenticator app."}
+      </p>
+      <Button
+        size="sm"
+        onClick={() => setupMutation.mutate()}
+        disabled={setupMutation.isPending}
+        data-testid="button-setup-2fa"
+      >
+        Set Up Two-Factor Authentication
+      </Button>
+    </div>
+  );
+}
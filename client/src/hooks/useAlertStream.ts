@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import type { InfiniteData } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { Alert, AlertPage } from "@shared/schema";
+
+type AlertEvent = {
+  type: "created" | "acknowledged" | "resolved" | "dismissed" | "escalated" | "assigned" | "commented" | "repeated";
+  alert: Alert;
+};
+
+// Insert or replace an alert in a cached list, keeping newest-first order
+function upsertAlert(alerts: Alert[] | undefined, alert: Alert, limit?: number): Alert[] | undefined {
+  if (!alerts) return alerts;
+
+  const next = alerts.some((a) => a.id === alert.id)
+    ? alerts.map((a) => (a.id === alert.id ? alert : a))
+    : [alert, ...alerts];
+
+  return limit !== undefined ? next.slice(0, limit) : next;
+}
+
+// Subscribes to server-pushed alert events and keeps the alert and notification queries current
+export function useAlertStream(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource("/api/alerts/stream", { withCredentials: true });
+
+    source.addEventListener("alert", (message) => {
+      const { type, alert } = JSON.parse((message as MessageEvent).data) as AlertEvent;
+
+      // Alerts already listed are patched in place; a new alert needs the server to apply each list's filters
+      queryClient.setQueriesData<InfiniteData<AlertPage>>({ queryKey: ["/api/alerts", "list"] }, (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map((page) => ({
+            ...page,
+            alerts: page.alerts.map((a) => (a.id === alert.id ? alert : a)),
+          })),
+        },
+      );
+      if (type === "created") {
+        queryClient.invalidateQueries({ queryKey: ["/api/alerts", "list"] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", "summary"] });
+      queryClient.setQueryData<Alert[]>(["/api/alerts/recent"], (alerts) =>
+        upsertAlert(alerts, alert, alerts?.length),
+      );
+      // Every event after creation adds to the alert's timeline
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts", alert.id, "activity"] });
+      if (alert.incidentId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      }
+
+      // Watchdog alerts mean a device's status just changed
+      if (alert.type === "device_offline" || alert.type === "low_battery") {
+        queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      }
+    });
+
+    source.addEventListener("notification", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    });
+
+    return () => source.close();
+  }, [enabled]);
+}
@@ -1,8 +1,12 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
 
+export type AuthUser = User & {
+  twoFactorEnrollmentRequired?: boolean;
+};
+
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SensorBucket, SensorData, SensorSeries } from "@shared/schema";
+
+const BUCKET_MS = {
+  "1m": 60_000,
+  "1h": 3_600_000,
+  "1d": 86_400_000,
+};
+
+type SeriesOptions = {
+  bucket: keyof typeof BUCKET_MS;
+  buckets: number; // How many buckets back from now, including the current one
+  houseId?: string;
+  deviceId?: string;
+  dataType?: SensorData["dataType"];
+};
+
+export type FilledBucket = {
+  start: Date;
+  point: SensorBucket | undefined; // Undefined when nothing was reported in the bucket
+};
+
+// Aggregated readings for the most recent buckets, with empty buckets filled in.
+// Buckets are aligned to UTC like the server's date_trunc.
+export function useSensorSeries({ bucket, buckets, houseId, deviceId, dataType }: SeriesOptions) {
+  const size = BUCKET_MS[bucket];
+  // Fixed for the life of the component so the query key stays stable
+  const [from] = useState(() => new Date(Math.floor(Date.now() / size) * size - (buckets - 1) * size));
+
+  const params = new URLSearchParams({ bucket, from: from.toISOString() });
+  if (houseId) params.set("houseId", houseId);
+  if (deviceId) params.set("deviceId", deviceId);
+  if (dataType) params.set("dataType", dataType);
+
+  const query = useQuery<SensorSeries>({
+    queryKey: [`/api/sensor-data?${params}`],
+  });
+
+  const points = (query.data?.points || []) as SensorBucket[];
+  const filled: FilledBucket[] = Array.from({ length: buckets }, (_, i) => {
+    const start = new Date(from.getTime() + i * size);
+    return {
+      start,
+      point: points.find((p) => new Date(p.bucket).getTime() === start.getTime()),
+    };
+  });
+
+  return { ...query, buckets: filled };
+}
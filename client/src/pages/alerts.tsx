@@ -1,4 +1,4 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -21,22 +21,76 @@ import {
   Search,
   X,
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Alert } from "@shared/schema";
+import { AlertDetailSheet } from "@/components/alert-detail-sheet";
+import type { AlertPage, AlertSummary } from "@shared/schema";
+
+const PAGE_SIZE = 50;
 
 export default function AlertsPage() {
   const { toast } = useToast();
   const [severityFilter, setSeverityFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  const { data: alerts, isLoading } = useQuery<Alert[]>({
-    queryKey: ["/api/alerts"],
+  const filters: Record<string, string> = {};
+  if (severityFilter !== "all") filters.severity = severityFilter;
+  if (typeFilter !== "all") filters.type = typeFilter;
+  if (statusFilter !== "all") filters.status = statusFilter;
+  if (searchQuery) filters.q = searchQuery;
+  if (fromDate) filters.from = new Date(`${fromDate}T00:00:00`).toISOString();
+  if (toDate) filters.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/alerts", "list", filters],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ ...filters, limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/alerts?${params}`);
+      return (await res.json()) as AlertPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  const { data: summary } = useQuery<AlertSummary>({
+    queryKey: ["/api/alerts", "summary"],
+  });
+
+  const alerts = data?.pages.flatMap((page) => page.alerts);
+
+  // Read from the list so live updates reach the open drawer
+  const selectedAlert = alerts?.find((a) => a.id === selectedAlertId) ?? null;
+
+  // e.g. the alert was already resolved by someone else
+  const onStatusError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    toast({
+      title: "Could not update alert",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
   const acknowledgeMutation = useMutation({
     mutationFn: async (alertId: string) => {
       await apiRequest("POST", `/api/alerts/${alertId}/acknowledge`, {});
@@ -48,6 +102,7 @@ export default function AlertsPage() {
         description: "The alert has been acknowledged successfully.",
       });
     },
+    onError: onStatusError,
   });
 
   const resolveMutation = useMutation({
@@ -61,6 +116,7 @@ export default function AlertsPage() {
         description: "The alert has been marked as resolved.",
       });
     },
+    onError: onStatusError,
   });
 
   const dismissMutation = useMutation({
@@ -74,25 +130,12 @@ export default function AlertsPage() {
         description: "The alert has been dismissed.",
       });
     },
+    onError: onStatusError,
   });
 
-  const filteredAlerts = alerts?.filter((alert) => {
-    if (severityFilter !== "all" && alert.severity !== severityFilter) return false;
-    if (typeFilter !== "all" && alert.type !== typeFilter) return false;
-    if (statusFilter !== "all" && alert.status !== statusFilter) return false;
-    if (
-      searchQuery &&
-      !alert.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-      !alert.description.toLowerCase().includes(searchQuery.toLowerCase())
-    ) {
-      return false;
-    }
-    return true;
-  });
-
-  const totalActive = alerts?.filter((a) => a.status === "new").length || 0;
-  const highSeverity = alerts?.filter((a) => a.severity === "high" || a.severity === "critical").length || 0;
-  const resolvedLast24h = alerts?.filter((a) => a.status === "resolved").length || 0;
+  const totalActive = summary?.active || 0;
+  const highSeverity = summary?.highSeverity || 0;
+  const resolvedLast24h = summary?.resolvedLast24h || 0;
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -216,6 +259,11 @@ export default function AlertsPage() {
                   <SelectItem value="sound_detected">Sound</SelectItem>
                   <SelectItem value="device_offline">Device Offline</SelectItem>
                   <SelectItem value="temperature_anomaly">Temperature</SelectItem>
+                  <SelectItem value="glass_break">Glass Break</SelectItem>
+                  <SelectItem value="intrusion">Intrusion</SelectItem>
+                  <SelectItem value="fall_detected">Fall</SelectItem>
+                  <SelectItem value="scream_detected">Scream</SelectItem>
+                  <SelectItem value="low_battery">Low Battery</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -228,6 +276,7 @@ export default function AlertsPage() {
                   <SelectItem value="new">New</SelectItem>
                   <SelectItem value="acknowledged">Acknowledged</SelectItem>
                   <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="dismissed">Dismissed</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -242,6 +291,51 @@ export default function AlertsPage() {
             </div>
           </div>
         </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search title, description or location"
+                className="pl-8"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                data-testid="input-search-alerts"
+              />
+            </div>
+            <Input
+              type="date"
+              className="sm:w-40"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              title="From"
+              data-testid="input-alerts-from"
+            />
+            <Input
+              type="date"
+              className="sm:w-40"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              title="To"
+              data-testid="input-alerts-to"
+            />
+            {(searchInput || fromDate || toDate) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Clear search and dates"
+                onClick={() => {
+                  setSearchInput("");
+                  setFromDate("");
+                  setToDate("");
+                }}
+                data-testid="button-clear-search"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
       </Card>
 
       {/* Alerts Table */}
@@ -256,7 +350,7 @@ export default function AlertsPage() {
                 <Skeleton key={i} className="h-24" />
               ))}
             </div>
-          ) : filteredAlerts && filteredAlerts.length > 0 ? (
+          ) : alerts && alerts.length > 0 ? (
             <div className="space-y-2">
               {/* Table Header */}
               <div className="grid grid-cols-12 gap-2 text-xs font-medium text-muted-foreground pb-2 border-b">
@@ -271,10 +365,11 @@ export default function AlertsPage() {
               </div>
 
               {/* Table Rows */}
-              {filteredAlerts.map((alert) => (
+              {alerts.map((alert) => (
                 <div
                   key={alert.id}
-                  className="grid grid-cols-12 gap-2 text-sm items-center py-3 border-b last:border-0 hover-elevate rounded-md px-2"
+                  className="grid grid-cols-12 gap-2 text-sm items-center py-3 border-b last:border-0 hover-elevate rounded-md px-2 cursor-pointer"
+                  onClick={() => setSelectedAlertId(alert.id)}
                   data-testid={`alert-row-${alert.id}`}
                 >
                   <div className="col-span-2 text-xs">
@@ -285,8 +380,18 @@ export default function AlertsPage() {
                       {alert.severity}
                     </Badge>
                   </div>
-                  <div className="col-span-2 capitalize">
+                  <div className="col-span-2 capitalize flex items-center gap-1 flex-wrap">
                     {alert.type.replace(/_/g, " ")}
+                    {alert.occurrenceCount > 1 && (
+                      <Badge variant="secondary" className="text-xs" data-testid={`badge-occurrences-${alert.id}`}>
+                        ×{alert.occurrenceCount}
+                      </Badge>
+                    )}
+                    {alert.incidentId && (
+                      <Badge variant="outline" className="text-xs normal-case" data-testid={`badge-incident-${alert.id}`}>
+                        Incident
+                      </Badge>
+                    )}
                   </div>
                   <div className="col-span-1 font-mono text-xs">
                     {alert.deviceId ? alert.deviceId.slice(0, 8) : "-"}
@@ -297,12 +402,17 @@ export default function AlertsPage() {
                       ? JSON.stringify(alert.aiDetails).slice(0, 30) + "..."
                       : alert.description.slice(0, 40)}
                   </div>
-                  <div className="col-span-1">
+                  <div className="col-span-1 flex flex-col items-start gap-1">
                     <Badge variant={getStatusColor(alert.status) as any} className="capitalize">
                       {alert.status}
                     </Badge>
+                    {alert.escalationStep > 0 && (
+                      <Badge variant="outline" className="text-xs" data-testid={`badge-escalated-${alert.id}`}>
+                        Escalated · {alert.escalationStep}
+                      </Badge>
+                    )}
                   </div>
-                  <div className="col-span-1 flex gap-1 justify-end">
+                  <div className="col-span-1 flex gap-1 justify-end" onClick={(e) => e.stopPropagation()}>
                     {alert.status === "new" && (
                       <>
                         <Button
@@ -336,6 +446,19 @@ export default function AlertsPage() {
                   </div>
                 </div>
               ))}
+
+              {hasNextPage && (
+                <div className="flex justify-center pt-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more-alerts"
+                  >
+                    {isFetchingNextPage ? "Loading..." : "Load More"}
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
@@ -348,6 +471,8 @@ export default function AlertsPage() {
           )}
         </CardContent>
       </Card>
+
+      <AlertDetailSheet alert={selectedAlert} onClose={() => setSelectedAlertId(null)} />
     </div>
   );
 }
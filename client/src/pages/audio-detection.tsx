@@ -20,7 +20,15 @@ interface Device {
 interface AudioPrediction {
   label: string;
   confidence: number;
-  model: 'yamnet' | 'hubert';
+  model: string;
+}
+
+interface AudioClassifierOption {
+  id: string;
+  name: string;
+  description: string;
+  supportedMimeTypes: string[];
+  isDefault: boolean;
 }
 
 interface AudioAnalysisResult {
@@ -34,6 +42,7 @@ interface AudioAnalysisResult {
   alertSeverity?: string;
   alertType?: string;
   alertMessage?: string;
+  durationSeconds?: number;
 }
 
 interface AudioDetection {
@@ -51,12 +60,20 @@ export default function AudioDetection() {
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedDevice, setSelectedDevice] = useState<string>("");
+  const [selectedModel, setSelectedModel] = useState<string>("");
   const [analysisResult, setAnalysisResult] = useState<AudioAnalysisResult | null>(null);
 
   const { data: devices = [] } = useQuery<Device[]>({
     queryKey: ['/api/devices'],
   });
 
+  const { data: classifiers = [] } = useQuery<AudioClassifierOption[]>({
+    queryKey: ['/api/audio/classifiers'],
+  });
+
+  const modelUsed = selectedModel || classifiers.find(c => c.isDefault)?.id || "";
+  const selectedClassifier = classifiers.find(c => c.id === modelUsed);
+
   const { data: detectionHistory = [] } = useQuery<AudioDetection[]>({
     queryKey: ['/api/audio/detections'],
     refetchInterval: 10000,
@@ -71,6 +88,9 @@ export default function AudioDetection() {
       const formData = new FormData();
       formData.append('audio', selectedFile);
       formData.append('deviceId', selectedDevice);
+      if (modelUsed) {
+        formData.append('modelUsed', modelUsed);
+      }
 
       const response = await fetch('/api/audio/analyze', {
         method: 'POST',
@@ -127,7 +147,7 @@ export default function AudioDetection() {
       <div>
         <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">Audio Detection System</h1>
         <p className="text-muted-foreground">
-          Test AI-powered audio recognition using YAMNet and HuBERT models
+          Test audio recognition with local signal analysis or simulated YAMNet and HuBERT models
         </p>
       </div>
 
@@ -165,6 +185,34 @@ export default function AudioDetection() {
               </Select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Classifier
+              </label>
+              <Select 
+                value={modelUsed} 
+                onValueChange={setSelectedModel}
+                data-testid="select-classifier"
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose classifier..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {classifiers.map((classifier) => (
+                    <SelectItem key={classifier.id} value={classifier.id}>
+                      {classifier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedClassifier && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  {selectedClassifier.description}
+                  {selectedClassifier.supportedMimeTypes.length > 0 && " (WAV files only)"}
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium mb-2">
                 Audio File
@@ -208,7 +256,7 @@ export default function AudioDetection() {
           <CardHeader>
             <CardTitle>Analysis Results</CardTitle>
             <CardDescription>
-              AI model predictions and alert generation
+              Classifier predictions and alert generation
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -229,6 +277,8 @@ export default function AudioDetection() {
                         </p>
                         <p className="text-sm text-muted-foreground">
                           Model: {analysisResult.primaryDetection.model.toUpperCase()}
+                          {analysisResult.durationSeconds !== undefined &&
+                            ` · ${analysisResult.durationSeconds.toFixed(1)}s analyzed`}
                         </p>
                       </div>
                       <Badge variant="default">
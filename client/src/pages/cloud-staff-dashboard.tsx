@@ -51,6 +51,7 @@ import {
   Trash2,
   Calendar,
   Mic,
+  Map as MapIcon,
 } from "lucide-react";
 import {
   LineChart,
@@ -64,8 +65,11 @@ import {
   Area,
 } from "recharts";
 import { useToast } from "@/hooks/use-toast";
+import { useSensorSeries } from "@/hooks/useSensorSeries";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Alert, User, House, Device, MaintenanceRecord, AudioDetection } from "@shared/schema";
+import { FloorPlanView } from "@/components/floor-plan-view";
+import { FloorPlanEditor } from "@/components/floor-plan-editor";
+import type { Alert, AlertPage, User, House, Device, MaintenanceRecord, AudioDetection } from "@shared/schema";
 
 const maintenanceFormSchema = z.object({
   task: z.string().min(1, "Task is required"),
@@ -86,6 +90,7 @@ export default function CloudStaffDashboard() {
   const [selectedHouse, setSelectedHouse] = useState<House | null>(null);
   const [isHouseDialogOpen, setIsHouseDialogOpen] = useState(false);
   const [isMaintenanceDialogOpen, setIsMaintenanceDialogOpen] = useState(false);
+  const [isFloorPlanEditorOpen, setIsFloorPlanEditorOpen] = useState(false);
   
   const { data: alerts, isLoading: alertsLoading } = useQuery<Alert[]>({
     queryKey: ["/api/alerts/recent"],
@@ -107,6 +112,18 @@ export default function CloudStaffDashboard() {
     queryKey: ["/api/maintenance"],
   });
 
+  // Open alerts of the house shown in the house dialog, drawn on its floor plan
+  const { data: houseAlerts } = useQuery<AlertPage>({
+    queryKey: ["/api/alerts", "house", selectedHouse?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams({ houseId: selectedHouse!.id, status: "new,acknowledged", limit: "50" });
+      const res = await apiRequest("GET", `/api/alerts?${params}`);
+      return (await res.json()) as AlertPage;
+    },
+    enabled: isHouseDialogOpen && !!selectedHouse,
+    refetchInterval: 10000,
+  });
+
   const { data: audioDetections, isLoading: audioDetectionsLoading } = useQuery<AudioDetection[]>({
     queryKey: ["/api/audio/detections"],
     refetchInterval: 10000,
@@ -168,15 +185,14 @@ export default function CloudStaffDashboard() {
     },
   });
 
-  const devicePerformanceData = [
-    { time: "00:00", active: 280, uptime: 95 },
-    { time: "04:00", active: 320, uptime: 96 },
-    { time: "08:00", active: 380, uptime: 97 },
-    { time: "12:00", active: 450, uptime: 98 },
-    { time: "16:00", active: 420, uptime: 97 },
-    { time: "20:00", active: 350, uptime: 96 },
-    { time: "23:59", active: 290, uptime: 98 },
-  ];
+  // Devices sending telemetry each hour, and that as a share of the fleet
+  const { buckets: activity, isError: activityUnavailable } = useSensorSeries({ bucket: "1h", buckets: 24 });
+  const totalDevices = devices?.length || 0;
+  const devicePerformanceData = activity.map(({ start, point }) => ({
+    time: start.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" }),
+    active: point?.devices || 0,
+    uptime: totalDevices > 0 ? Math.round(((point?.devices || 0) / totalDevices) * 100) : 0,
+  }));
 
   const criticalAlerts = alerts?.filter((a) => a.severity === "critical").length || 0;
   const totalActive = alerts?.filter((a) => a.status === "new").length || 0;
@@ -336,14 +352,14 @@ export default function CloudStaffDashboard() {
 
       {/* House Detail Dialog */}
       <Dialog open={isHouseDialogOpen} onOpenChange={setIsHouseDialogOpen}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <MapPin className="h-5 w-5 text-primary" />
               {selectedHouse?.address}
             </DialogTitle>
             <DialogDescription>
-              View cameras and devices for this facility
+              View the floor plan, cameras and devices for this facility
             </DialogDescription>
           </DialogHeader>
           
@@ -365,6 +381,18 @@ export default function CloudStaffDashboard() {
                 </div>
               </div>
 
+              {/* Floor Plan with open alerts */}
+              <div>
+                <h4 className="font-medium mb-3 flex items-center gap-2">
+                  <MapIcon className="h-4 w-4" />
+                  Floor Plan
+                  {houseAlerts && houseAlerts.alerts.length > 0 && (
+                    <Badge variant="destructive">{houseAlerts.alerts.length} open alerts</Badge>
+                  )}
+                </h4>
+                <FloorPlanView houseId={selectedHouse.id} alerts={houseAlerts?.alerts} />
+              </div>
+
               {/* Cameras List */}
               <div>
                 <h4 className="font-medium mb-3 flex items-center gap-2">
@@ -423,11 +451,26 @@ export default function CloudStaffDashboard() {
                 >
                   Manage Devices
                 </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setIsFloorPlanEditorOpen(true)}
+                  data-testid="button-edit-house-floor-plan"
+                >
+                  Edit Floor Plan
+                </Button>
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+      {selectedHouse && (
+        <FloorPlanEditor
+          houses={[selectedHouse]}
+          open={isFloorPlanEditorOpen}
+          onOpenChange={setIsFloorPlanEditorOpen}
+        />
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* System Health Metrics */}
@@ -682,7 +725,11 @@ export default function CloudStaffDashboard() {
       <Card>
         <CardHeader className="pb-2">
           <CardTitle>Device Performance</CardTitle>
-          <p className="text-sm text-muted-foreground">Metrics over the last 24 hours</p>
+          <p className="text-sm text-muted-foreground">
+            {activityUnavailable
+              ? "Turn on cross-tenant analytics in System Configuration to see fleet metrics"
+              : "Metrics over the last 24 hours"}
+          </p>
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={250}>
@@ -21,6 +21,8 @@ import {
 import { Database, Download, Search } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { DataRetention } from "@/components/data-retention";
 import type { UserConfigLog } from "@shared/schema";
 
 interface DatabaseStats {
@@ -43,6 +45,7 @@ export default function DatabaseManagement() {
   const [selectedLog, setSelectedLog] = useState<UserConfigLog | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const { data: configLogs, isLoading } = useQuery<UserConfigLog[]>({
     queryKey: ["/api/database/config-logs"],
@@ -267,6 +270,8 @@ export default function DatabaseManagement() {
         </CardContent>
       </Card>
 
+      <DataRetention canManage={user?.role === "cloud_staff"} />
+
       {/* Database Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
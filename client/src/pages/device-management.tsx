@@ -30,11 +30,19 @@ import {
   RefreshCw,
   Trash2,
   Settings as SettingsIcon,
+  KeyRound,
+  Copy,
 } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Device, InsertDevice, House } from "@shared/schema";
+import { DeviceProvisioning } from "@/components/device-provisioning";
+import { DeviceImportExport } from "@/components/device-import-export";
+import { DeviceConfigForm } from "@/components/device-config-form";
+import { defaultDeviceSettings, pickDeviceSettings } from "@shared/deviceConfig";
+import type { Device, InsertDevice, House, DeviceCredential } from "@shared/schema";
+
+type IssuedCredential = Omit<DeviceCredential, "keyHash"> & { apiKey: string; serialNumber: string };
 
 export default function DeviceManagement() {
   const { toast } = useToast();
@@ -42,12 +50,16 @@ export default function DeviceManagement() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
+  const [credentialsDevice, setCredentialsDevice] = useState<Device | null>(null);
+  const [issuedCredential, setIssuedCredential] = useState<IssuedCredential | null>(null);
+  const [editSettings, setEditSettings] = useState<Record<string, unknown>>({});
   const [newDevice, setNewDevice] = useState<Partial<InsertDevice>>({
     name: "",
     type: "camera",
     room: "",
     status: "offline",
     houseId: "",
+    config: defaultDeviceSettings("camera"),
   });
 
   const { data: devices, isLoading } = useQuery<Device[]>({
@@ -65,12 +77,19 @@ export default function DeviceManagement() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
       setIsAddDialogOpen(false);
-      setNewDevice({ name: "", type: "camera", room: "", status: "offline", houseId: "" });
+      setNewDevice({ name: "", type: "camera", room: "", status: "offline", houseId: "", config: defaultDeviceSettings("camera") });
       toast({
         title: "Device Added",
         description: "The device has been successfully registered.",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const updateDeviceMutation = useMutation({
@@ -86,6 +105,13 @@ export default function DeviceManagement() {
         description: "The device has been successfully updated.",
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const deleteDeviceMutation = useMutation({
@@ -101,6 +127,43 @@ export default function DeviceManagement() {
     },
   });
 
+  const { data: credentials, isLoading: credentialsLoading } = useQuery<Omit<DeviceCredential, "keyHash">[]>({
+    queryKey: ["/api/devices", credentialsDevice?.id, "credentials"],
+    enabled: !!credentialsDevice,
+  });
+
+  const issueCredentialMutation = useMutation({
+    mutationFn: async (deviceId: string) => {
+      const res = await apiRequest("POST", `/api/devices/${deviceId}/credentials`);
+      return (await res.json()) as IssuedCredential;
+    },
+    onSuccess: (credential) => {
+      setIssuedCredential(credential);
+      queryClient.invalidateQueries({ queryKey: ["/api/devices", credential.deviceId, "credentials"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeCredentialMutation = useMutation({
+    mutationFn: async ({ deviceId, credentialId }: { deviceId: string; credentialId: string }) => {
+      await apiRequest("DELETE", `/api/devices/${deviceId}/credentials/${credentialId}`);
+      return deviceId;
+    },
+    onSuccess: (deviceId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices", deviceId, "credentials"] });
+      toast({
+        title: "Key Revoked",
+        description: "The device can no longer authenticate with this key.",
+      });
+    },
+  });
+
   const filteredDevices = devices?.filter((device) =>
     device.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     device.room.toLowerCase().includes(searchQuery.toLowerCase())
@@ -130,108 +193,122 @@ export default function DeviceManagement() {
             Add, update, and control IoT devices across all locations
           </p>
         </div>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-device">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Device
-            </Button>
-          </DialogTrigger>
-          <DialogContent data-testid="dialog-add-device">
-            <DialogHeader>
-              <DialogTitle>Register New Device</DialogTitle>
-              <DialogDescription>
-                Add a new IoT device to your smart home network
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="device-name">Device Name</Label>
-                <Input
-                  id="device-name"
-                  placeholder="e.g., Front Door Camera"
-                  value={newDevice.name}
-                  onChange={(e) => setNewDevice({ ...newDevice, name: e.target.value })}
-                  data-testid="input-device-name"
-                />
+        <div className="flex items-center gap-2">
+          <DeviceImportExport houses={houses} />
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-device">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Device
+              </Button>
+            </DialogTrigger>
+            <DialogContent data-testid="dialog-add-device">
+              <DialogHeader>
+                <DialogTitle>Register New Device</DialogTitle>
+                <DialogDescription>
+                  Add a new IoT device to your smart home network
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="device-name">Device Name</Label>
+                  <Input
+                    id="device-name"
+                    placeholder="e.g., Front Door Camera"
+                    value={newDevice.name}
+                    onChange={(e) => setNewDevice({ ...newDevice, name: e.target.value })}
+                    data-testid="input-device-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="device-type">Device Type</Label>
+                  <Select
+                    value={newDevice.type}
+                    onValueChange={(value) =>
+                      setNewDevice({ ...newDevice, type: value as Device["type"], config: defaultDeviceSettings(value as Device["type"]) })
+                    }
+                  >
+                    <SelectTrigger id="device-type" data-testid="select-device-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="camera">Camera</SelectItem>
+                      <SelectItem value="microphone">Microphone</SelectItem>
+                      <SelectItem value="motion_sensor">Motion Sensor</SelectItem>
+                      <SelectItem value="thermostat">Thermostat</SelectItem>
+                      <SelectItem value="lock">Lock</SelectItem>
+                      <SelectItem value="light">Light</SelectItem>
+                      <SelectItem value="smoke_detector">Smoke Detector</SelectItem>
+                      <SelectItem value="keypad">Keypad</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="device-house">House</Label>
+                  <Select
+                    value={newDevice.houseId}
+                    onValueChange={(value) => setNewDevice({ ...newDevice, houseId: value })}
+                  >
+                    <SelectTrigger id="device-house" data-testid="select-device-house">
+                      <SelectValue placeholder="Select a house" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {houses?.map((house) => (
+                        <SelectItem key={house.id} value={house.id}>
+                          {house.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="device-room">Room/Location</Label>
+                  <Input
+                    id="device-room"
+                    placeholder="e.g., Living Room"
+                    value={newDevice.room}
+                    onChange={(e) => setNewDevice({ ...newDevice, room: e.target.value })}
+                    data-testid="input-device-room"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="serial-number">Serial Number (Optional)</Label>
+                  <Input
+                    id="serial-number"
+                    placeholder="e.g., SN123456789"
+                    value={newDevice.serialNumber || ""}
+                    onChange={(e) => setNewDevice({ ...newDevice, serialNumber: e.target.value })}
+                    data-testid="input-serial-number"
+                  />
+                </div>
+                {newDevice.type && (
+                  <DeviceConfigForm
+                    type={newDevice.type}
+                    value={newDevice.config ?? {}}
+                    onChange={(config) => setNewDevice({ ...newDevice, config })}
+                    idPrefix="device-config"
+                  />
+                )}
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="device-type">Device Type</Label>
-                <Select
-                  value={newDevice.type}
-                  onValueChange={(value) => setNewDevice({ ...newDevice, type: value as any })}
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsAddDialogOpen(false)}
+                  data-testid="button-cancel-add"
                 >
-                  <SelectTrigger id="device-type" data-testid="select-device-type">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="camera">Camera</SelectItem>
-                    <SelectItem value="microphone">Microphone</SelectItem>
-                    <SelectItem value="motion_sensor">Motion Sensor</SelectItem>
-                    <SelectItem value="thermostat">Thermostat</SelectItem>
-                    <SelectItem value="lock">Lock</SelectItem>
-                    <SelectItem value="light">Light</SelectItem>
-                    <SelectItem value="smoke_detector">Smoke Detector</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="device-house">House</Label>
-                <Select
-                  value={newDevice.houseId}
-                  onValueChange={(value) => setNewDevice({ ...newDevice, houseId: value })}
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => addDeviceMutation.mutate(newDevice)}
+                  disabled={!newDevice.name || !newDevice.room || !newDevice.houseId || addDeviceMutation.isPending}
+                  data-testid="button-save-device"
                 >
-                  <SelectTrigger id="device-house" data-testid="select-device-house">
-                    <SelectValue placeholder="Select a house" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {houses?.map((house) => (
-                      <SelectItem key={house.id} value={house.id}>
-                        {house.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="device-room">Room/Location</Label>
-                <Input
-                  id="device-room"
-                  placeholder="e.g., Living Room"
-                  value={newDevice.room}
-                  onChange={(e) => setNewDevice({ ...newDevice, room: e.target.value })}
-                  data-testid="input-device-room"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="serial-number">Serial Number (Optional)</Label>
-                <Input
-                  id="serial-number"
-                  placeholder="e.g., SN123456789"
-                  value={newDevice.serialNumber || ""}
-                  onChange={(e) => setNewDevice({ ...newDevice, serialNumber: e.target.value })}
-                  data-testid="input-serial-number"
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button
-                variant="outline"
-                onClick={() => setIsAddDialogOpen(false)}
-                data-testid="button-cancel-add"
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={() => addDeviceMutation.mutate(newDevice)}
-                disabled={!newDevice.name || !newDevice.room || !newDevice.houseId || addDeviceMutation.isPending}
-                data-testid="button-save-device"
-              >
-                {addDeviceMutation.isPending ? "Adding..." : "Add Device"}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+                  {addDeviceMutation.isPending ? "Adding..." : "Add Device"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Edit Device Dialog */}
@@ -258,7 +335,10 @@ export default function DeviceManagement() {
                 <Label htmlFor="edit-device-type">Device Type</Label>
                 <Select
                   value={selectedDevice.type}
-                  onValueChange={(value) => setSelectedDevice({ ...selectedDevice, type: value as any })}
+                  onValueChange={(value) => {
+                    setSelectedDevice({ ...selectedDevice, type: value as Device["type"] });
+                    setEditSettings(defaultDeviceSettings(value as Device["type"]));
+                  }}
                 >
                   <SelectTrigger id="edit-device-type" data-testid="select-edit-device-type">
                     <SelectValue />
@@ -271,6 +351,7 @@ export default function DeviceManagement() {
                     <SelectItem value="lock">Lock</SelectItem>
                     <SelectItem value="light">Light</SelectItem>
                     <SelectItem value="smoke_detector">Smoke Detector</SelectItem>
+                    <SelectItem value="keypad">Keypad</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -326,6 +407,12 @@ export default function DeviceManagement() {
                   data-testid="input-edit-serial-number"
                 />
               </div>
+              <DeviceConfigForm
+                type={selectedDevice.type}
+                value={editSettings}
+                onChange={setEditSettings}
+                idPrefix="edit-device-config"
+              />
             </div>
           )}
           <DialogFooter>
@@ -351,6 +438,7 @@ export default function DeviceManagement() {
                       room: selectedDevice.room,
                       status: selectedDevice.status,
                       serialNumber: selectedDevice.serialNumber,
+                      config: editSettings,
                     },
                   });
                 }
@@ -364,6 +452,95 @@ export default function DeviceManagement() {
         </DialogContent>
       </Dialog>
 
+      {/* Device Credentials Dialog */}
+      <Dialog
+        open={!!credentialsDevice}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCredentialsDevice(null);
+            setIssuedCredential(null);
+          }
+        }}
+      >
+        <DialogContent data-testid="dialog-device-credentials">
+          <DialogHeader>
+            <DialogTitle>Device API Keys</DialogTitle>
+            <DialogDescription>
+              {credentialsDevice?.serialNumber
+                ? `Keys for ${credentialsDevice.name} (serial ${credentialsDevice.serialNumber}) to post telemetry`
+                : "Set a serial number on this device before issuing keys"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {issuedCredential && (
+              <div className="space-y-2 p-3 border rounded-md" data-testid="issued-device-key">
+                <Label>New API Key</Label>
+                <p className="text-xs text-muted-foreground">
+                  Copy this key now. It will not be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs break-all">{issuedCredential.apiKey}</code>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => navigator.clipboard.writeText(issuedCredential.apiKey)}
+                    data-testid="button-copy-device-key"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+            {credentialsLoading ? (
+              <Skeleton className="h-16" />
+            ) : credentials && credentials.length > 0 ? (
+              <div className="space-y-2">
+                {credentials.map((credential) => (
+                  <div
+                    key={credential.id}
+                    className="flex items-center justify-between text-sm border-b last:border-0 py-2"
+                    data-testid={`credential-row-${credential.id}`}
+                  >
+                    <div>
+                      <p className="font-mono text-xs">{credential.keyPrefix}…</p>
+                      <p className="text-xs text-muted-foreground">
+                        Last used: {credential.lastUsedAt ? new Date(credential.lastUsedAt).toLocaleString() : "Never"}
+                      </p>
+                    </div>
+                    {credential.revokedAt ? (
+                      <Badge variant="secondary">Revoked</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          revokeCredentialMutation.mutate({ deviceId: credential.deviceId, credentialId: credential.id })
+                        }
+                        data-testid={`button-revoke-${credential.id}`}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No API keys issued yet.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => credentialsDevice && issueCredentialMutation.mutate(credentialsDevice.id)}
+              disabled={!credentialsDevice?.serialNumber || issueCredentialMutation.isPending}
+              data-testid="button-issue-device-key"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              {credentials?.some((c) => !c.revokedAt) ? "Rotate Key" : "Issue Key"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Search and Filters */}
       <Card>
         <CardContent className="p-4">
@@ -451,12 +628,25 @@ export default function DeviceManagement() {
                       className="h-8 w-8"
                       onClick={() => {
                         setSelectedDevice(device);
+                        setEditSettings({
+                          ...defaultDeviceSettings(device.type),
+                          ...pickDeviceSettings(device.type, device.config),
+                        });
                         setIsEditDialogOpen(true);
                       }}
                       data-testid={`button-configure-${device.id}`}
                     >
                       <SettingsIcon className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setCredentialsDevice(device)}
+                      data-testid={`button-credentials-${device.id}`}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="icon"
@@ -485,6 +675,9 @@ export default function DeviceManagement() {
           )}
         </CardContent>
       </Card>
+
+      {/* Claimable Hardware */}
+      <DeviceProvisioning />
     </div>
   );
 }
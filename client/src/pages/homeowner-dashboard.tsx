@@ -1,8 +1,10 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import {
   Lightbulb,
   Thermometer,
@@ -12,32 +14,84 @@ import {
   Zap,
   Eye,
   ChevronRight,
+  Plus,
+  Map as MapIcon,
 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { Link } from "wouter";
-import type { Device, Alert } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useSensorSeries } from "@/hooks/useSensorSeries";
+import { DeviceControls, isDeviceSyncing } from "@/components/device-controls";
+import { ClaimDeviceDialog } from "@/components/claim-device-dialog";
+import { HouseSecurityMode } from "@/components/house-security-mode";
+import { FloorPlanEditor } from "@/components/floor-plan-editor";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Device, Alert, AutomationRule, House, HouseMemberRole } from "@shared/schema";
+
+const describeTrigger = (trigger: AutomationRule["trigger"]) => {
+  switch (trigger.type) {
+    case "sensor_threshold":
+      return `When ${trigger.dataType} ${trigger.operator} ${trigger.value}`;
+    case "alert":
+      return `On ${trigger.alertType.replace(/_/g, " ")} alert`;
+    case "device_status":
+      return `When a device goes ${trigger.status}`;
+    case "schedule":
+      return `Every day at ${trigger.time}`;
+  }
+};
 
 export default function HomeownerDashboard() {
   const { data: devices, isLoading: devicesLoading } = useQuery<Device[]>({
     queryKey: ["/api/devices"],
+    // Pick up reported state while commands are on their way to devices
+    refetchInterval: (query) => (query.state.data?.some(isDeviceSyncing) ? 5000 : false),
   });
 
   const { data: alerts, isLoading: alertsLoading } = useQuery<Alert[]>({
     queryKey: ["/api/alerts/recent"],
   });
 
+  const { data: rules, isLoading: rulesLoading } = useQuery<AutomationRule[]>({
+    queryKey: ["/api/automation-rules"],
+  });
+
+  const { data: houses } = useQuery<(House & { memberRole?: HouseMemberRole })[]>({
+    queryKey: ["/api/houses"],
+  });
+  const ownedHouses = houses?.filter((house) => house.memberRole === "owner") ?? [];
+
+  const { toast } = useToast();
+  const [isClaimOpen, setIsClaimOpen] = useState(false);
+  const [isFloorPlanOpen, setIsFloorPlanOpen] = useState(false);
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      await apiRequest("PATCH", `/api/automation-rules/${id}`, { status: active ? "active" : "inactive" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automation-rules"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Could not update the automation rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onlineDevices = devices?.filter((d) => d.status === "online").length || 0;
   const totalDevices = devices?.length || 0;
   const activeAlerts = alerts?.filter((a) => a.status === "new").length || 0;
 
-  const deviceHealthData = [
-    { month: "Jan", online: 28, offline: 4 },
-    { month: "Feb", online: 30, offline: 2 },
-    { month: "Mar", online: 29, offline: 3 },
-    { month: "Apr", online: 31, offline: 1 },
-    { month: "May", online: 30, offline: 2 },
-    { month: "Jun", online: 32, offline: 0 },
-  ];
+  // Devices that sent telemetry each day this week; the rest of the household's devices were silent
+  const { buckets: activity } = useSensorSeries({ bucket: "1d", buckets: 7 });
+  const deviceHealthData = activity.map(({ start, point }) => ({
+    day: start.toLocaleDateString(undefined, { weekday: "short" }),
+    online: point?.devices || 0,
+    offline: Math.max(totalDevices - (point?.devices || 0), 0),
+  }));
 
   const getDeviceIcon = (type: string) => {
     switch (type) {
@@ -71,12 +125,30 @@ export default function HomeownerDashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-semibold text-foreground" data-testid="text-dashboard-title">
-          Homeowner Dashboard
-        </h1>
-        <p className="text-muted-foreground">Monitor and control your smart home devices</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground" data-testid="text-dashboard-title">
+            Homeowner Dashboard
+          </h1>
+          <p className="text-muted-foreground">Monitor and control your smart home devices</p>
+        </div>
+        <div className="flex gap-2">
+          {ownedHouses.length > 0 && (
+            <Button variant="outline" onClick={() => setIsFloorPlanOpen(true)} data-testid="button-floor-plan">
+              <MapIcon className="h-4 w-4 mr-2" />
+              Floor Plan
+            </Button>
+          )}
+          <Button onClick={() => setIsClaimOpen(true)} data-testid="button-add-device">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Device
+          </Button>
+        </div>
       </div>
+      <ClaimDeviceDialog open={isClaimOpen} onOpenChange={setIsClaimOpen} />
+      <FloorPlanEditor houses={ownedHouses} open={isFloorPlanOpen} onOpenChange={setIsFloorPlanOpen} />
+
+      <HouseSecurityMode />
 
       {/* Device Control Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -108,37 +180,12 @@ export default function HomeownerDashboard() {
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-2">
-                  {device.type === "light" && (
-                    <p className="text-sm text-muted-foreground">
-                      Brightness: {device.config?.brightness || 75}%
-                    </p>
-                  )}
-                  {device.type === "thermostat" && (
-                    <p className="text-sm text-muted-foreground">
-                      Heating to {device.config?.temperature || 24}°C
-                    </p>
-                  )}
-                  {device.type === "lock" && (
-                    <p className="text-sm text-muted-foreground">
-                      {device.config?.locked ? "Secured" : "Unlocked"}
-                    </p>
-                  )}
+                  <DeviceControls device={device} />
                   {device.type === "motion_sensor" && (
                     <p className="text-sm text-muted-foreground">
                       Last detected: {device.lastSeen ? "5 mins ago" : "Never"}
                     </p>
                   )}
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="w-full mt-2"
-                    data-testid={`button-device-action-${device.id}`}
-                  >
-                    {device.type === "light" && "Turn Off"}
-                    {device.type === "thermostat" && "Adjust"}
-                    {device.type === "lock" && "Unlock"}
-                    {device.type === "motion_sensor" && "View Activity"}
-                  </Button>
                 </CardContent>
               </Card>
             );
@@ -201,17 +248,17 @@ export default function HomeownerDashboard() {
         <Card>
           <CardHeader className="pb-2">
             <CardTitle>Device Health Overview</CardTitle>
-            <p className="text-sm text-muted-foreground">Monthly device online/offline status</p>
+            <p className="text-sm text-muted-foreground">Devices reporting each day over the past week</p>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={200}>
               <BarChart data={deviceHealthData}>
                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                <XAxis dataKey="month" className="text-xs" />
+                <XAxis dataKey="day" className="text-xs" />
                 <YAxis className="text-xs" />
                 <Tooltip />
-                <Bar dataKey="online" fill="hsl(var(--chart-1))" name="Online Devices" />
-                <Bar dataKey="offline" fill="hsl(var(--chart-2))" name="Offline Devices" />
+                <Bar dataKey="online" fill="hsl(var(--chart-1))" name="Reporting Devices" />
+                <Bar dataKey="offline" fill="hsl(var(--chart-2))" name="Silent Devices" />
               </BarChart>
             </ResponsiveContainer>
           </CardContent>
@@ -262,22 +309,30 @@ export default function HomeownerDashboard() {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {[
-              { name: "Motion in Yard: Turn on Light", status: "active" },
-              { name: "Night: Lock All Doors", status: "active" },
-              { name: "Away Mode: Adjust Thermostat", status: "inactive" },
-            ].map((rule, i) => (
-              <div
-                key={i}
-                className="flex items-center justify-between p-3 rounded-md border"
-                data-testid={`automation-rule-${i}`}
-              >
-                <span className="text-sm font-medium">{rule.name}</span>
-                <Badge variant={rule.status === "active" ? "default" : "secondary"}>
-                  {rule.status}
-                </Badge>
-              </div>
-            ))}
+            {rulesLoading ? (
+              Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+            ) : rules && rules.length > 0 ? (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between p-3 rounded-md border"
+                  data-testid={`automation-rule-${rule.id}`}
+                >
+                  <div>
+                    <p className="text-sm font-medium">{rule.name}</p>
+                    <p className="text-xs text-muted-foreground">{describeTrigger(rule.trigger)}</p>
+                  </div>
+                  <Switch
+                    checked={rule.status === "active"}
+                    disabled={toggleRuleMutation.isPending}
+                    onCheckedChange={(active) => toggleRuleMutation.mutate({ id: rule.id, active })}
+                    data-testid={`switch-automation-rule-${rule.id}`}
+                  />
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No automation rules configured</p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,474 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Home, Mail, UserPlus, UserMinus, X, Check } from "lucide-react";
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { EscalationPolicies } from "@/components/escalation-policies";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  House,
+  HouseInvitation,
+  HouseInvitationWithHouse,
+  HouseMemberRole,
+  HouseMemberWithUser,
+  User,
+} from "@shared/schema";
+
+const HOUSE_MEMBER_ROLES = ["owner", "resident", "guest"] as const;
+
+type HouseWithRole = House & { memberRole?: HouseMemberRole };
+
+interface HouseMembersResponse {
+  owner: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+  members: HouseMemberWithUser[];
+}
+
+const inviteFormSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(HOUSE_MEMBER_ROLES),
+  accessExpiresAt: z.string().optional(),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
+const roleDescriptions: Record<HouseMemberRole, string> = {
+  owner: "Full access, including managing members",
+  resident: "Can view the house and handle alerts and automations",
+  guest: "Can view devices, cameras and alerts",
+};
+
+const formatName = (user: Pick<User, "email" | "firstName" | "lastName">) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+
+export default function HouseholdPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedHouseId, setSelectedHouseId] = useState<string>("");
+
+  const { data: houses, isLoading: housesLoading } = useQuery<HouseWithRole[]>({
+    queryKey: ["/api/houses"],
+  });
+
+  const { data: myInvitations } = useQuery<HouseInvitationWithHouse[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const houseId = selectedHouseId || houses?.[0]?.id || "";
+  const house = houses?.find((h) => h.id === houseId);
+  const isStaff = user?.role === "cloud_staff" || user?.role === "iot_team";
+  // Only owners can manage members
+  const canManage = isStaff || house?.memberRole === "owner";
+
+  const { data: membership, isLoading: membersLoading } = useQuery<HouseMembersResponse>({
+    queryKey: ["/api/houses", houseId, "members"],
+    enabled: !!houseId,
+  });
+
+  const { data: invitations } = useQuery<HouseInvitation[]>({
+    queryKey: ["/api/houses", houseId, "invitations"],
+    enabled: !!houseId && canManage,
+  });
+
+  const inviteForm = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: {
+      email: "",
+      role: "resident",
+      accessExpiresAt: "",
+    },
+  });
+
+  const onMutationError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InviteFormValues) => {
+      return await apiRequest("POST", `/api/houses/${houseId}/invitations`, {
+        email: data.email,
+        role: data.role,
+        accessExpiresAt: data.accessExpiresAt ? new Date(`${data.accessExpiresAt}T23:59:59`).toISOString() : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/houses", houseId, "invitations"] });
+      inviteForm.reset();
+      toast({
+        title: "Invitation Sent",
+        description: "They can accept it from the Household page after signing in with that email",
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest("DELETE", `/api/houses/${houseId}/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/houses", houseId, "invitations"] });
+    },
+    onError: onMutationError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: HouseMemberRole }) => {
+      return await apiRequest("PATCH", `/api/houses/${houseId}/members/${memberId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/houses", houseId, "members"] });
+    },
+    onError: onMutationError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (member: HouseMemberWithUser) => {
+      await apiRequest("DELETE", `/api/houses/${houseId}/members/${member.id}`);
+      return member;
+    },
+    onSuccess: (member) => {
+      if (member.userId === user?.id) {
+        // Leaving a house removes its devices and alerts from every view
+        setSelectedHouseId("");
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/houses", houseId, "members"] });
+      }
+    },
+    onError: onMutationError,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ invitationId, response }: { invitationId: string; response: "accept" | "decline" }) => {
+      await apiRequest("POST", `/api/invitations/${invitationId}/${response}`);
+      return response;
+    },
+    onSuccess: (response) => {
+      if (response === "accept") {
+        // A new house brings its devices, alerts and rules into every view
+        queryClient.invalidateQueries();
+        toast({
+          title: "Invitation Accepted",
+          description: "The house has been added to your account",
+        });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      }
+    },
+    onError: onMutationError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="text-page-title">Household</h1>
+        <p className="text-muted-foreground">Share your home with family, caregivers and guests</p>
+      </div>
+
+      {myInvitations && myInvitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Invitations for You
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {myInvitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-3 rounded-md border"
+                data-testid={`invitation-${invitation.id}`}
+              >
+                <div>
+                  <p className="text-sm font-medium">{invitation.houseName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Join as {invitation.role}
+                    {invitation.accessExpiresAt &&
+                      ` until ${new Date(invitation.accessExpiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => respondMutation.mutate({ invitationId: invitation.id, response: "accept" })}
+                    disabled={respondMutation.isPending}
+                    data-testid={`button-accept-invitation-${invitation.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respondMutation.mutate({ invitationId: invitation.id, response: "decline" })}
+                    disabled={respondMutation.isPending}
+                    data-testid={`button-decline-invitation-${invitation.id}`}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {housesLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : !houses || houses.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Home className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>You are not a member of any house yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {houses.length > 1 && (
+            <Select value={houseId} onValueChange={setSelectedHouseId}>
+              <SelectTrigger className="w-72" data-testid="select-house">
+                <SelectValue placeholder="Select a house" />
+              </SelectTrigger>
+              <SelectContent>
+                {houses.map((h) => (
+                  <SelectItem key={h.id} value={h.id}>
+                    {h.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Members</CardTitle>
+                <CardDescription>{house?.name}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {membersLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+                ) : (
+                  <>
+                    {membership?.owner && (
+                      <div className="flex items-center justify-between p-3 rounded-md border">
+                        <div>
+                          <p className="text-sm font-medium">{formatName(membership.owner)}</p>
+                          <p className="text-xs text-muted-foreground">{membership.owner.email}</p>
+                        </div>
+                        <Badge>Primary owner</Badge>
+                      </div>
+                    )}
+                    {membership?.members.map((member) => {
+                      const expired = member.expiresAt && new Date(member.expiresAt) < new Date();
+                      const isSelf = member.userId === user?.id;
+                      return (
+                        <div
+                          key={member.id}
+                          className="flex items-center justify-between gap-3 p-3 rounded-md border"
+                          data-testid={`member-${member.id}`}
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{formatName(member.user)}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {member.user.email}
+                              {member.expiresAt &&
+                                ` · ${expired ? "expired" : "until"} ${new Date(member.expiresAt).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {canManage ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(role) =>
+                                  updateMemberMutation.mutate({ memberId: member.id, role: role as HouseMemberRole })
+                                }
+                              >
+                                <SelectTrigger className="w-28" data-testid={`select-member-role-${member.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {HOUSE_MEMBER_ROLES.map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {role}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant="secondary">{member.role}</Badge>
+                            )}
+                            {(canManage || isSelf) && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title={isSelf ? "Leave house" : "Remove member"}
+                                onClick={() => removeMemberMutation.mutate(member)}
+                                disabled={removeMemberMutation.isPending}
+                                data-testid={`button-remove-member-${member.id}`}
+                              >
+                                <UserMinus className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {membership?.members.length === 0 && (
+                      <p className="text-sm text-muted-foreground text-center py-2">
+                        Nobody else has access to this house yet
+                      </p>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {canManage && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UserPlus className="h-5 w-5" />
+                    Invite Someone
+                  </CardTitle>
+                  <CardDescription>Invitations expire after 7 days</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <Form {...inviteForm}>
+                    <form onSubmit={inviteForm.handleSubmit((data) => inviteMutation.mutate(data))} className="space-y-4">
+                      <FormField
+                        control={inviteForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="caregiver@example.com" {...field} data-testid="input-invite-email" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={inviteForm.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Role</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-invite-role">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {HOUSE_MEMBER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {role}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>{roleDescriptions[field.value]}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={inviteForm.control}
+                        name="accessExpiresAt"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Access Until (optional)</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} data-testid="input-invite-expiry" />
+                            </FormControl>
+                            <FormDescription>Leave empty for permanent access</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-send-invitation">
+                        Send Invitation
+                      </Button>
+                    </form>
+                  </Form>
+
+                  {invitations && invitations.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-semibold">Pending Invitations</h3>
+                      {invitations.map((invitation) => (
+                        <div
+                          key={invitation.id}
+                          className="flex items-center justify-between p-2 rounded-md bg-muted/50 text-sm"
+                          data-testid={`pending-invitation-${invitation.id}`}
+                        >
+                          <span>
+                            {invitation.email} <span className="text-muted-foreground">({invitation.role})</span>
+                          </span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Revoke invitation"
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                            disabled={revokeInvitationMutation.isPending}
+                            data-testid={`button-revoke-invitation-${invitation.id}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {houseId && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Alert Escalation</CardTitle>
+                <CardDescription>
+                  Who gets notified, and when, if an alert in {house?.name} is not acknowledged
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EscalationPolicies houseId={houseId} canManage={canManage} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronDown, ChevronRight, ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Incident, IncidentWithAlerts } from "@shared/schema";
+
+function IncidentAlerts({ incidentId }: { incidentId: string }) {
+  const { data: incident, isLoading } = useQuery<IncidentWithAlerts>({
+    queryKey: ["/api/incidents", incidentId],
+  });
+
+  if (isLoading || !incident) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2 border-l pl-4" data-testid={`incident-alerts-${incidentId}`}>
+      {incident.alerts.map((alert) => (
+        <div key={alert.id} className="flex items-center justify-between gap-4 text-sm">
+          <div className="min-w-0">
+            <p className="truncate">{alert.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(alert.createdAt!).toLocaleString()}
+              {alert.location && ` · ${alert.location}`}
+              {alert.occurrenceCount > 1 && ` · ${alert.occurrenceCount} occurrences`}
+            </p>
+          </div>
+          <Badge variant="outline" className="capitalize shrink-0">
+            {alert.status}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function IncidentsPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<Incident["status"]>("open");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data: allIncidents, isLoading } = useQuery<Incident[]>({
+    queryKey: ["/api/incidents"],
+  });
+
+  const incidents = allIncidents?.filter((incident) => incident.status === status);
+
+  const resolveMutation = useMutation({
+    mutationFn: async (incidentId: string) => {
+      await apiRequest("POST", `/api/incidents/${incidentId}/resolve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      toast({
+        title: "Incident Resolved",
+        description: "The incident and its open alerts have been resolved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold text-foreground" data-testid="text-incidents-title">
+          Incidents
+        </h1>
+        <p className="text-muted-foreground">Related alerts raised close together in the same house</p>
+      </div>
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as Incident["status"])}>
+        <TabsList>
+          <TabsTrigger value="open" data-testid="tab-incidents-open">Open</TabsTrigger>
+          <TabsTrigger value="resolved" data-testid="tab-incidents-resolved">Resolved</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{status === "open" ? "Open Incidents" : "Resolved Incidents"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-16" />
+              ))}
+            </div>
+          ) : incidents && incidents.length > 0 ? (
+            <div className="space-y-3">
+              {incidents.map((incident) => {
+                const expanded = expandedId === incident.id;
+                return (
+                  <div key={incident.id} className="space-y-3 p-3 border rounded-md" data-testid={`incident-${incident.id}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <button
+                        type="button"
+                        className="flex items-start gap-2 min-w-0 text-left"
+                        onClick={() => setExpandedId(expanded ? null : incident.id)}
+                        data-testid={`button-expand-incident-${incident.id}`}
+                      >
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{incident.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {incident.alertCount} alerts · started {new Date(incident.createdAt!).toLocaleString()}
+                            {incident.resolvedAt && ` · resolved ${new Date(incident.resolvedAt).toLocaleString()}`}
+                          </p>
+                        </div>
+                      </button>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge
+                          variant={incident.severity === "critical" || incident.severity === "high" ? "destructive" : "secondary"}
+                        >
+                          {incident.severity}
+                        </Badge>
+                        {incident.status === "open" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resolveMutation.mutate(incident.id)}
+                            disabled={resolveMutation.isPending}
+                            data-testid={`button-resolve-incident-${incident.id}`}
+                          >
+                            Resolve
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {expanded && <IncidentAlerts incidentId={incident.id} />}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-lg font-medium">No {status} incidents</p>
+              <p className="text-sm text-muted-foreground">Related alerts will be grouped here as they arrive</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,8 +16,10 @@ import {
   Mic,
 } from "lucide-react";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { useSensorSeries } from "@/hooks/useSensorSeries";
+import { FirmwareCampaigns } from "@/components/firmware-campaigns";
 import { Link } from "wouter";
-import type { Device, Alert } from "@shared/schema";
+import type { Device, Alert, AlertSummary } from "@shared/schema";
 
 export default function IoTTeamDashboard() {
   const { data: devices, isLoading: devicesLoading } = useQuery<Device[]>({
@@ -25,13 +27,17 @@ export default function IoTTeamDashboard() {
   });
 
   const { data: alerts, isLoading: alertsLoading } = useQuery<Alert[]>({
-    queryKey: ["/api/alerts"],
+    queryKey: ["/api/alerts/recent"],
+  });
+
+  const { data: alertSummary } = useQuery<AlertSummary>({
+    queryKey: ["/api/alerts", "summary"],
   });
 
   const onlineDevices = devices?.filter((d) => d.status === "online").length || 0;
   const offlineDevices = devices?.filter((d) => d.status === "offline").length || 0;
   const totalDevices = devices?.length || 0;
-  const activeAlerts = alerts?.filter((a) => a.status === "new").length || 0;
+  const activeAlerts = alertSummary?.active || 0;
   const cameras = devices?.filter((d) => d.type === "camera").length || 0;
 
   const deviceTypeBreakdown = [
@@ -43,16 +49,13 @@ export default function IoTTeamDashboard() {
     { name: "Other", count: devices?.filter((d) => !["camera", "motion_sensor", "thermostat", "lock", "light"].includes(d.type)).length || 0 },
   ].filter((item) => item.count > 0);
 
-  // Use current device counts for the trend (simplified view showing current state)
-  const deviceHealthData = [
-    { date: "Mon", online: onlineDevices, offline: offlineDevices },
-    { date: "Tue", online: onlineDevices, offline: offlineDevices },
-    { date: "Wed", online: onlineDevices, offline: offlineDevices },
-    { date: "Thu", online: onlineDevices, offline: offlineDevices },
-    { date: "Fri", online: onlineDevices, offline: offlineDevices },
-    { date: "Sat", online: onlineDevices, offline: offlineDevices },
-    { date: "Sun", online: onlineDevices, offline: offlineDevices },
-  ];
+  // A device counts as online on a day it sent any telemetry
+  const { buckets: activity, isError: activityUnavailable } = useSensorSeries({ bucket: "1d", buckets: 7 });
+  const deviceHealthData = activity.map(({ start, point }) => ({
+    date: start.toLocaleDateString(undefined, { weekday: "short" }),
+    online: point?.devices || 0,
+    offline: Math.max(totalDevices - (point?.devices || 0), 0),
+  }));
 
   const getStatusColor = (status: string) => {
     return status === "online" ? "default" : "secondary";
@@ -141,7 +144,11 @@ export default function IoTTeamDashboard() {
         <Card>
           <CardHeader>
             <CardTitle>Device Health Trend</CardTitle>
-            <CardDescription>7-day online/offline status</CardDescription>
+            <CardDescription>
+              {activityUnavailable
+                ? "Cross-tenant analytics are turned off in System Configuration"
+                : "7-day online/offline status"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={250}>
@@ -309,6 +316,9 @@ export default function IoTTeamDashboard() {
         </Card>
       </div>
 
+      {/* Firmware Rollouts */}
+      <FirmwareCampaigns />
+
       {/* Offline Devices List */}
       {offlineDevices > 0 && (
         <Card>
@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { FaGoogle, FaGithub, FaApple } from "react-icons/fa";
 import { FaXTwitter } from "react-icons/fa6";
 
@@ -29,6 +30,10 @@ export default function LoginPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
 
   const loginForm = useForm({
     resolver: zodResolver(loginSchema),
@@ -64,6 +69,11 @@ export default function LoginPage() {
         throw new Error(result.message || "Login failed");
       }
 
+      if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
+        return;
+      }
+
       toast({
         title: "Success",
         description: "Logged in successfully",
@@ -82,6 +92,44 @@ export default function LoginPage() {
     }
   };
 
+  const handleTwoFactorVerify = async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/2fa/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(useRecoveryCode ? { recoveryCode } : { code: twoFactorCode }),
+        credentials: "include",
+      });
+
+      const result = await res.json();
+
+      if (!res.ok) {
+        setTwoFactorCode("");
+        if (res.status === 401 && result.message?.includes("sign in again")) {
+          setTwoFactorStep(false);
+        }
+        throw new Error(result.message || "Verification failed");
+      }
+
+      toast({
+        title: "Success",
+        description: "Logged in successfully",
+      });
+
+      setLocation("/");
+      window.location.reload(); // Reload to refresh auth state
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Verification failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRegister = async (data: z.infer<typeof registerSchema>) => {
     setIsLoading(true);
     try {
@@ -145,51 +193,98 @@ export default function LoginPage() {
               </TabsList>
 
               <TabsContent value="login">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                    <FormField
-                      control={loginForm.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="email"
-                              placeholder="Enter your email"
-                              data-testid="input-login-email"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                {twoFactorStep ? (
+                  <div className="space-y-4" data-testid="form-two-factor">
+                    <p className="text-sm text-muted-foreground">
+                      {useRecoveryCode
+                        ? "Enter one of your recovery codes."
+                        : "Enter the 6-digit code from your authenticator app."}
+                    </p>
+                    {useRecoveryCode ? (
+                      <Input
+                        value={recoveryCode}
+                        onChange={(e) => setRecoveryCode(e.target.value)}
+                        placeholder="xxxxx-xxxxx"
+                        data-testid="input-recovery-code"
+                      />
+                    ) : (
+                      <InputOTP
+                        maxLength={6}
+                        value={twoFactorCode}
+                        onChange={setTwoFactorCode}
+                        data-testid="input-two-factor-code"
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }).map((_, i) => (
+                            <InputOTPSlot key={i} index={i} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    )}
+                    <Button
+                      className="w-full"
+                      onClick={handleTwoFactorVerify}
+                      disabled={isLoading || (useRecoveryCode ? !recoveryCode : twoFactorCode.length !== 6)}
+                      data-testid="button-two-factor-submit"
+                    >
+                      {isLoading ? "Verifying..." : "Verify"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="w-full"
+                      onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                      data-testid="button-toggle-recovery-code"
+                    >
+                      {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                    </Button>
+                  </div>
+                ) : (
+                  <Form {...loginForm}>
+                    <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                      <FormField
+                        control={loginForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="email"
+                                placeholder="Enter your email"
+                                data-testid="input-login-email"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="password"
-                              placeholder="Enter your password"
-                              data-testid="input-login-password"
-                              {...field}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                      <FormField
+                        control={loginForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="password"
+                                placeholder="Enter your password"
+                                data-testid="input-login-password"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
 
-                    <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-login-submit">
-                      {isLoading ? "Logging in..." : "Log In"}
-                    </Button>
-                  </form>
-                </Form>
+                      <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-login-submit">
+                        {isLoading ? "Logging in..." : "Log In"}
+                      </Button>
+                    </form>
+                  </Form>
+                )}
               </TabsContent>
 
               <TabsContent value="register">
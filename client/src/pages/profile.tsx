@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { NotificationPreferences } from "@/components/notification-preferences";
 import { User, Mail, Shield, Calendar, Bell, Key } from "lucide-react";
 
 export default function ProfilePage() {
@@ -118,6 +120,11 @@ export default function ProfilePage() {
               </div>
             </div>
             <Separator />
+            <div className="space-y-2" data-testid="section-two-factor">
+              <Label>Two-Factor Authentication</Label>
+              <TwoFactorSetup />
+            </div>
+            <Separator />
             <div className="space-y-2">
               <Label>Session Status</Label>
               <div className="flex items-center gap-2">
@@ -143,38 +150,10 @@ export default function ProfilePage() {
               <Bell className="h-5 w-5" />
               Notification Preferences
             </CardTitle>
-            <CardDescription>Configure how you receive alerts</CardDescription>
+            <CardDescription>Choose where alerts reach you and how severe they must be</CardDescription>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Critical Alerts</Label>
-                <p className="text-sm text-muted-foreground">
-                  Emergency and high-priority notifications
-                </p>
-              </div>
-              <Badge variant="default" data-testid="badge-critical-alerts">Enabled</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>Device Status</Label>
-                <p className="text-sm text-muted-foreground">
-                  IoT device online/offline notifications
-                </p>
-              </div>
-              <Badge variant="default" data-testid="badge-device-alerts">Enabled</Badge>
-            </div>
-            <Separator />
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label>System Updates</Label>
-                <p className="text-sm text-muted-foreground">
-                  Platform maintenance and updates
-                </p>
-              </div>
-              <Badge variant="secondary" data-testid="badge-system-alerts">Enabled</Badge>
-            </div>
+          <CardContent>
+            <NotificationPreferences />
           </CardContent>
         </Card>
 
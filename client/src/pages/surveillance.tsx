@@ -6,7 +6,18 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   Video,
@@ -19,50 +30,198 @@ import {
   Download,
   ArrowLeft,
   VolumeX,
+  EyeOff,
+  Shield,
 } from "lucide-react";
 import { useState } from "react";
-import type { Device } from "@shared/schema";
+import { CameraRecordings, RecordingPlayerDialog } from "@/components/camera-recordings";
+import { CameraPrivacyDialog } from "@/components/camera-privacy-dialog";
+import type { Device, PrivacyMask, Recording } from "@shared/schema";
+
+// The camera's privacy as last pushed to it (see the privacy routes)
+const inPrivacyMode = (camera: Device) => camera.desiredState?.privacyMode === true;
+const privacyMasks = (camera: Device) => (camera.desiredState?.privacyMasks as PrivacyMask[] | undefined) ?? [];
 
 export default function SurveillancePage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [selectedCameras, setSelectedCameras] = useState<string[]>([]);
   const [volume, setVolume] = useState([70]);
-  const [isRecording, setIsRecording] = useState(false);
   const [playingCameras, setPlayingCameras] = useState<Set<string>>(new Set());
   const [mutedCameras, setMutedCameras] = useState<Set<string>>(new Set());
-  const [recordingCameras, setRecordingCameras] = useState<Set<string>>(new Set());
+  const [playingRecording, setPlayingRecording] = useState<Recording | null>(null);
+  const [privacyCamera, setPrivacyCamera] = useState<Device | null>(null);
+  const [breakGlassCamera, setBreakGlassCamera] = useState<Device | null>(null);
+  const [breakGlassReason, setBreakGlassReason] = useState("");
+  const { user } = useAuth();
+  const isStaff = user?.role === "cloud_staff" || user?.role === "iot_team";
 
   const { data: cameras, isLoading } = useQuery<Device[]>({
     queryKey: ["/api/devices/cameras"],
   });
 
+  // Polled so clips show up once cameras upload them
+  const { data: recordings, isLoading: recordingsLoading } = useQuery<Recording[]>({
+    queryKey: ["/api/recordings"],
+    refetchInterval: 10_000,
+  });
+
   const cameraDevices = cameras?.filter((d) => d.type === "camera") || [];
 
+  // The clip each camera is recording right now
+  const activeRecordings = new Map(
+    (recordings || []).filter((r) => r.status === "recording").map((r) => [r.deviceId, r]),
+  );
+  const selectedRecordings = selectedCameras
+    .map((id) => activeRecordings.get(id))
+    .filter((r): r is Recording => !!r);
+  const isRecording = selectedRecordings.length > 0;
+
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+  const onRecordingsChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recordings"] });
+  };
+
+  const startRecordingMutation = useMutation({
+    mutationFn: async (cameraIds: string[]) => {
+      const results = await Promise.allSettled(
+        cameraIds.map((id) => apiRequest("POST", `/api/devices/${id}/recordings`, {})),
+      );
+      return results.filter((r) => r.status === "fulfilled").length;
+    },
+    onSuccess: (started, cameraIds) => {
+      onRecordingsChanged();
+      toast({
+        title: started > 0 ? "Recording Started" : "Recording Failed",
+        description: started === cameraIds.length
+          ? `Now recording ${plural(started, "camera")}`
+          : `Started recording on ${started} of ${plural(cameraIds.length, "camera")}`,
+        variant: started > 0 ? "default" : "destructive",
+      });
+    },
+  });
+
+  const stopRecordingMutation = useMutation({
+    mutationFn: async (recordingIds: string[]) => {
+      const results = await Promise.allSettled(
+        recordingIds.map((id) => apiRequest("POST", `/api/recordings/${id}/stop`)),
+      );
+      return results.filter((r) => r.status === "fulfilled").length;
+    },
+    onSuccess: (stopped) => {
+      onRecordingsChanged();
+      toast({
+        title: "Recording Stopped",
+        description: `Stopped recording on ${plural(stopped, "camera")}. Clips appear below once uploaded.`,
+      });
+    },
+  });
+
+  const snapshotMutation = useMutation({
+    mutationFn: async (cameraIds: string[]) => {
+      const results = await Promise.allSettled(
+        cameraIds.map((id) => apiRequest("POST", `/api/devices/${id}/snapshots`)),
+      );
+      return results.filter((r) => r.status === "fulfilled").length;
+    },
+    onSuccess: (requested) => {
+      onRecordingsChanged();
+      toast({
+        title: requested > 0 ? "Snapshots Requested" : "Snapshots Failed",
+        description: requested > 0
+          ? `Requested snapshots from ${plural(requested, "camera")}. They appear below once uploaded.`
+          : "None of the selected cameras accepted the request.",
+        variant: requested > 0 ? "default" : "destructive",
+      });
+    },
+  });
+
   const handleCameraToggle = (cameraId: string) => {
     setSelectedCameras((prev) =>
       prev.includes(cameraId) ? prev.filter((id) => id !== cameraId) : [...prev, cameraId]
     );
   };
 
-  const handlePlayPause = (cameraId: string, cameraName: string) => {
-    setPlayingCameras((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(cameraId)) {
-        newSet.delete(cameraId);
-        toast({
-          title: "Feed Paused",
-          description: `${cameraName} feed paused`,
-        });
+  const startFeed = (camera: Device) => {
+    setPlayingCameras((prev) => new Set(prev).add(camera.id));
+    toast({
+      title: "Feed Playing",
+      description: `${camera.name} feed resumed`,
+    });
+  };
+
+  // The server refuses feeds in privacy mode; staff may break the glass with a reason
+  const openFeedMutation = useMutation({
+    mutationFn: async (camera: Device) => {
+      const res = await fetch(`/api/devices/${camera.id}/feed`, { credentials: "include" });
+      const body = await res.json();
+      if (res.status === 403 && body.privacyMode) {
+        return { camera, blocked: true, breakGlass: body.breakGlass === true };
+      }
+      if (!res.ok) {
+        throw new Error(body.message || res.statusText);
+      }
+      return { camera, blocked: false, breakGlass: false };
+    },
+    onSuccess: ({ camera, blocked, breakGlass }) => {
+      if (!blocked) {
+        startFeed(camera);
+      } else if (breakGlass) {
+        setBreakGlassReason("");
+        setBreakGlassCamera(camera);
       } else {
-        newSet.add(cameraId);
         toast({
-          title: "Feed Playing",
-          description: `${cameraName} feed resumed`,
+          title: "Privacy Mode",
+          description: `${camera.name} is in privacy mode. Turn it off in the camera's privacy settings to watch.`,
         });
       }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Feed Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const breakGlassMutation = useMutation({
+    mutationFn: async ({ camera, reason }: { camera: Device; reason: string }) => {
+      await apiRequest("POST", `/api/devices/${camera.id}/feed/break-glass`, { reason });
+      return camera;
+    },
+    onSuccess: (camera) => {
+      setBreakGlassCamera(null);
+      startFeed(camera);
+      toast({
+        title: "Access Logged",
+        description: `Your access to ${camera.name} was logged and the household notified.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePlayPause = (camera: Device) => {
+    if (!playingCameras.has(camera.id)) {
+      openFeedMutation.mutate(camera);
+      return;
+    }
+    setPlayingCameras((prev) => {
+      const newSet = new Set(prev);
+      newSet.delete(camera.id);
       return newSet;
     });
+    toast({
+      title: "Feed Paused",
+      description: `${camera.name} feed paused`,
+    });
   };
 
   const handleMuteToggle = (cameraId: string, cameraName: string) => {
@@ -85,31 +244,26 @@ export default function SurveillancePage() {
     });
   };
 
-  const handleReplay = (cameraName: string) => {
-    toast({
-      title: "Replaying Last 30 Seconds",
-      description: `Rewinding ${cameraName} feed`,
-    });
+  // Plays the camera's latest uploaded clip
+  const handleReplay = (cameraId: string, cameraName: string) => {
+    const latest = recordings?.find((r) => r.deviceId === cameraId && r.kind === "clip" && r.status === "available");
+    if (!latest) {
+      toast({
+        title: "No Recordings",
+        description: `${cameraName} has no recorded clips yet`,
+      });
+      return;
+    }
+    setPlayingRecording(latest);
   };
 
-  const handleCameraRecord = (cameraId: string, cameraName: string) => {
-    setRecordingCameras((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(cameraId)) {
-        newSet.delete(cameraId);
-        toast({
-          title: "Recording Stopped",
-          description: `Stopped recording ${cameraName}`,
-        });
-      } else {
-        newSet.add(cameraId);
-        toast({
-          title: "Recording Started",
-          description: `Now recording ${cameraName}`,
-        });
-      }
-      return newSet;
-    });
+  const handleCameraRecord = (cameraId: string) => {
+    const active = activeRecordings.get(cameraId);
+    if (active) {
+      stopRecordingMutation.mutate([active.id]);
+    } else {
+      startRecordingMutation.mutate([cameraId]);
+    }
   };
 
   const handleSnapshotAll = () => {
@@ -122,10 +276,7 @@ export default function SurveillancePage() {
       return;
     }
 
-    toast({
-      title: "Snapshots Captured",
-      description: `Downloaded snapshots from ${selectedCameras.length} selected camera${selectedCameras.length > 1 ? 's' : ''}`,
-    });
+    snapshotMutation.mutate(selectedCameras);
   };
 
   const handleStartStopRecording = () => {
@@ -138,13 +289,11 @@ export default function SurveillancePage() {
       return;
     }
 
-    setIsRecording(!isRecording);
-    toast({
-      title: isRecording ? "Recording Stopped" : "Recording Started",
-      description: isRecording 
-        ? `Stopped recording on ${selectedCameras.length} camera${selectedCameras.length > 1 ? 's' : ''}` 
-        : `Now recording ${selectedCameras.length} selected camera${selectedCameras.length > 1 ? 's' : ''}`,
-    });
+    if (isRecording) {
+      stopRecordingMutation.mutate(selectedRecordings.map((r) => r.id));
+    } else {
+      startRecordingMutation.mutate(selectedCameras);
+    }
   };
 
   const createEmergencyAlert = useMutation({
@@ -249,22 +398,50 @@ export default function SurveillancePage() {
                   <div className="relative aspect-video bg-gradient-to-br from-muted/50 to-muted">
                     <div className="absolute inset-0 flex items-center justify-center">
                       <div className="text-center space-y-2">
-                        <Camera className="h-12 w-12 text-muted-foreground mx-auto" />
+                        {inPrivacyMode(camera) ? (
+                          <EyeOff className="h-12 w-12 text-muted-foreground mx-auto" />
+                        ) : (
+                          <Camera className="h-12 w-12 text-muted-foreground mx-auto" />
+                        )}
                         <p className="text-sm font-medium">{camera.name}</p>
                         <p className="text-xs text-muted-foreground">{camera.room}</p>
                       </div>
                     </div>
-                    <Badge className="absolute top-3 left-3 gap-1" variant={camera.status === "online" ? "destructive" : "secondary"}>
-                      <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
-                      {camera.status === "online" ? "LIVE" : "OFFLINE"}
-                    </Badge>
+                    {privacyMasks(camera).map((mask, m) => (
+                      <div
+                        key={m}
+                        className="absolute bg-foreground/70"
+                        style={{ left: `${mask.x}%`, top: `${mask.y}%`, width: `${mask.width}%`, height: `${mask.height}%` }}
+                      />
+                    ))}
+                    {inPrivacyMode(camera) ? (
+                      <Badge className="absolute top-3 left-3 gap-1" variant="secondary" data-testid={`badge-privacy-${i}`}>
+                        <EyeOff className="h-3 w-3" />
+                        PRIVACY
+                      </Badge>
+                    ) : (
+                      <Badge className="absolute top-3 left-3 gap-1" variant={camera.status === "online" ? "destructive" : "secondary"}>
+                        <span className="h-2 w-2 rounded-full bg-white animate-pulse" />
+                        {camera.status === "online" ? "LIVE" : "OFFLINE"}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute top-3 right-3 h-8 w-8 bg-background/80 backdrop-blur"
+                      data-testid={`button-privacy-${i}`}
+                      onClick={() => setPrivacyCamera(camera)}
+                    >
+                      <Shield className="h-4 w-4" />
+                    </Button>
                     <div className="absolute bottom-3 left-3 right-3 flex gap-2">
                       <Button
                         variant="secondary"
                         size="icon"
                         className="h-8 w-8 bg-background/80 backdrop-blur"
                         data-testid={`button-play-${i}`}
-                        onClick={() => handlePlayPause(camera.id, camera.name)}
+                        onClick={() => handlePlayPause(camera)}
+                        disabled={openFeedMutation.isPending}
                       >
                         {playingCameras.has(camera.id) ? (
                           <Pause className="h-4 w-4" />
@@ -290,16 +467,21 @@ export default function SurveillancePage() {
                         size="icon"
                         className="h-8 w-8 bg-background/80 backdrop-blur"
                         data-testid={`button-replay-${i}`}
-                        onClick={() => handleReplay(camera.name)}
+                        onClick={() => handleReplay(camera.id, camera.name)}
                       >
                         <RotateCcw className="h-4 w-4" />
                       </Button>
                       <Button
-                        variant={recordingCameras.has(camera.id) ? "destructive" : "secondary"}
+                        variant={activeRecordings.has(camera.id) ? "destructive" : "secondary"}
                         size="icon"
                         className="h-8 w-8 bg-background/80 backdrop-blur ml-auto"
                         data-testid={`button-record-${i}`}
-                        onClick={() => handleCameraRecord(camera.id, camera.name)}
+                        onClick={() => handleCameraRecord(camera.id)}
+                        disabled={
+                          startRecordingMutation.isPending ||
+                          stopRecordingMutation.isPending ||
+                          (inPrivacyMode(camera) && !activeRecordings.has(camera.id))
+                        }
                       >
                         <Video className="h-4 w-4" />
                       </Button>
@@ -314,6 +496,13 @@ export default function SurveillancePage() {
               </div>
             )}
           </div>
+
+          <CameraRecordings
+            cameras={cameraDevices}
+            recordings={recordings}
+            isLoading={recordingsLoading}
+            onPlay={setPlayingRecording}
+          />
         </div>
 
         {/* Sidebar Controls */}
@@ -369,17 +558,17 @@ export default function SurveillancePage() {
                 className="w-full"
                 onClick={handleStartStopRecording}
                 data-testid="button-start-recording"
-                disabled={!isRecording && selectedCameras.length === 0}
+                disabled={selectedCameras.length === 0 || startRecordingMutation.isPending || stopRecordingMutation.isPending}
               >
                 <Video className="h-4 w-4 mr-2" />
-                {isRecording ? `Stop Recording (${selectedCameras.length})` : "Start Recording Selected"}
+                {isRecording ? `Stop Recording (${selectedRecordings.length})` : "Start Recording Selected"}
               </Button>
               <Button 
                 variant="outline" 
                 className="w-full" 
                 data-testid="button-snapshot"
                 onClick={handleSnapshotAll}
-                disabled={selectedCameras.length === 0}
+                disabled={selectedCameras.length === 0 || snapshotMutation.isPending}
               >
                 <Download className="h-4 w-4 mr-2" />
                 Snapshot Selected ({selectedCameras.length})
@@ -423,6 +612,55 @@ export default function SurveillancePage() {
           </Card>
         </div>
       </div>
+
+      <RecordingPlayerDialog
+        recording={playingRecording}
+        cameraName={cameraDevices.find((c) => c.id === playingRecording?.deviceId)?.name}
+        onClose={() => setPlayingRecording(null)}
+      />
+
+      <CameraPrivacyDialog
+        camera={privacyCamera}
+        canEdit={!isStaff}
+        onClose={() => setPrivacyCamera(null)}
+      />
+
+      <Dialog open={!!breakGlassCamera} onOpenChange={(open) => !open && setBreakGlassCamera(null)}>
+        <DialogContent data-testid="dialog-break-glass">
+          <DialogHeader>
+            <DialogTitle>{breakGlassCamera?.name} is in privacy mode</DialogTitle>
+            <DialogDescription>
+              Opening this feed overrides the household's privacy. Your access and reason are logged and the
+              household is notified.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="break-glass-reason">Reason</Label>
+            <Textarea
+              id="break-glass-reason"
+              value={breakGlassReason}
+              onChange={(e) => setBreakGlassReason(e.target.value)}
+              placeholder="e.g. Verifying a critical intrusion alert reported by the homeowner"
+              data-testid="input-break-glass-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBreakGlassCamera(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                breakGlassCamera && breakGlassMutation.mutate({ camera: breakGlassCamera, reason: breakGlassReason.trim() })
+              }
+              disabled={breakGlassReason.trim().length < 10 || breakGlassMutation.isPending}
+              data-testid="button-break-glass"
+            >
+              Open Feed
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
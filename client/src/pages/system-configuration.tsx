@@ -11,35 +11,110 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings, Shield, Users, Building2 } from "lucide-react";
-import { useState } from "react";
+import { Settings, Shield, Users, Building2, BellRing } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
+import { EscalationPolicies } from "@/components/escalation-policies";
+import type { PlatformSettings } from "@shared/schema";
+
+type PlatformForm = Pick<
+  PlatformSettings,
+  "platformName" | "defaultTimezone" | "defaultLocale" | "dataRetentionEnabled"
+> & {
+  sessionTimeoutMinutes: string;
+};
+
+function toPlatformForm(settings: PlatformSettings): PlatformForm {
+  return {
+    platformName: settings.platformName,
+    defaultTimezone: settings.defaultTimezone,
+    defaultLocale: settings.defaultLocale,
+    dataRetentionEnabled: settings.dataRetentionEnabled,
+    sessionTimeoutMinutes: String(settings.sessionTimeoutMinutes),
+  };
+}
 
 export default function SystemConfiguration() {
   const { toast } = useToast();
-  const [platformName, setPlatformName] = useState("SmartHomeCloud");
-  const [timezone, setTimezone] = useState("UTC-05:00");
-  const [locale, setLocale] = useState("en-US");
-  const [sessionTimeout, setSessionTimeout] = useState("60");
-  const [dataRetention, setDataRetention] = useState(true);
-  
-  // Security controls state
-  const [twoFactorAuth, setTwoFactorAuth] = useState(false);
-  const [rateLimiting, setRateLimiting] = useState(true);
-  const [auditLogging, setAuditLogging] = useState(true);
-  
-  // Multi-tenancy state
-  const [crossTenantAnalytics, setCrossTenantAnalytics] = useState(false);
-  const [storageQuota, setStorageQuota] = useState("100GB");
+
+  const { data: settings, isLoading } = useQuery<PlatformSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Platform tab edits are drafted locally until saved; other tabs save per control
+  const [platformForm, setPlatformForm] = useState<PlatformForm | null>(null);
+  const [rateLimitPerMinute, setRateLimitPerMinute] = useState("");
+  const [storageQuota, setStorageQuota] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setPlatformForm(toPlatformForm(settings));
+      setRateLimitPerMinute(String(settings.rateLimitPerMinute));
+      setStorageQuota(String(settings.storageQuotaGb));
+    }
+  }, [settings]);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ changes }: { changes: Partial<PlatformSettings>; message: string }) => {
+      const res = await apiRequest("PATCH", "/api/settings", changes);
+      return (await res.json()) as PlatformSettings;
+    },
+    onSuccess: (updated, { message }) => {
+      queryClient.setQueryData(["/api/settings"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({
+        title: "Settings Saved",
+        description: message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      // Put controls back to the stored values
+      if (settings) {
+        setPlatformForm(toPlatformForm(settings));
+        setRateLimitPerMinute(String(settings.rateLimitPerMinute));
+        setStorageQuota(String(settings.storageQuotaGb));
+      }
+    },
+  });
+
+  const saveSettings = (changes: Partial<PlatformSettings>, message: string) => {
+    updateMutation.mutate({ changes, message });
+  };
 
   const handleSave = () => {
-    toast({
-      title: "Settings Saved",
-      description: "Platform configuration has been updated successfully.",
-    });
+    if (!platformForm) return;
+    saveSettings(
+      {
+        platformName: platformForm.platformName,
+        defaultTimezone: platformForm.defaultTimezone,
+        defaultLocale: platformForm.defaultLocale,
+        dataRetentionEnabled: platformForm.dataRetentionEnabled,
+        sessionTimeoutMinutes: parseInt(platformForm.sessionTimeoutMinutes, 10),
+      },
+      "Platform configuration has been updated successfully.",
+    );
   };
 
+  const updatePlatformForm = (changes: Partial<PlatformForm>) => {
+    setPlatformForm((form) => (form ? { ...form, ...changes } : form));
+  };
+
+  if (isLoading || !settings || !platformForm) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <p className="text-muted-foreground">Loading configuration...</p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -69,6 +144,10 @@ export default function SystemConfiguration() {
             <Building2 className="h-4 w-4 mr-2" />
             Tenancy Management
           </TabsTrigger>
+          <TabsTrigger value="escalation" data-testid="tab-escalation-policies">
+            <BellRing className="h-4 w-4 mr-2" />
+            Alert Escalation
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="platform" className="space-y-4">
@@ -85,15 +164,21 @@ export default function SystemConfiguration() {
                   <Label htmlFor="platform-name">Platform Name</Label>
                   <Input
                     id="platform-name"
-                    value={platformName}
-                    onChange={(e) => setPlatformName(e.target.value)}
+                    value={platformForm.platformName}
+                    onChange={(e) => updatePlatformForm({ platformName: e.target.value })}
                     data-testid="input-platform-name"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Display only. Not yet used across the platform.
+                  </p>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="default-locale">Default Locale</Label>
-                  <Select value={locale} onValueChange={setLocale}>
+                  <Select
+                    value={platformForm.defaultLocale}
+                    onValueChange={(value) => updatePlatformForm({ defaultLocale: value as PlatformForm["defaultLocale"] })}
+                  >
                     <SelectTrigger id="default-locale" data-testid="select-locale">
                       <SelectValue />
                     </SelectTrigger>
@@ -104,11 +189,17 @@ export default function SystemConfiguration() {
                       <SelectItem value="fr-FR">French (France)</SelectItem>
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Display only. Not yet used across the platform.
+                  </p>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="default-timezone">Default Timezone</Label>
-                  <Select value={timezone} onValueChange={setTimezone}>
+                  <Select
+                    value={platformForm.defaultTimezone}
+                    onValueChange={(value) => updatePlatformForm({ defaultTimezone: value })}
+                  >
                     <SelectTrigger id="default-timezone" data-testid="select-timezone">
                       <SelectValue />
                     </SelectTrigger>
@@ -117,6 +208,9 @@ export default function SystemConfiguration() {
                       <SelectItem value="UTC-06:00">UTC-06:00 (Central Time)</SelectItem>
                       <SelectItem value="UTC-07:00">UTC-07:00 (Mountain Time)</SelectItem>
                       <SelectItem value="UTC-08:00">UTC-08:00 (Pacific Time)</SelectItem>
+                      {!["UTC-05:00", "UTC-06:00", "UTC-07:00", "UTC-08:00"].includes(platformForm.defaultTimezone) && (
+                        <SelectItem value={platformForm.defaultTimezone}>{platformForm.defaultTimezone}</SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
                 </div>
@@ -126,10 +220,15 @@ export default function SystemConfiguration() {
                   <Input
                     id="session-timeout"
                     type="number"
-                    value={sessionTimeout}
-                    onChange={(e) => setSessionTimeout(e.target.value)}
+                    min={5}
+                    max={43200}
+                    value={platformForm.sessionTimeoutMinutes}
+                    onChange={(e) => updatePlatformForm({ sessionTimeoutMinutes: e.target.value })}
                     data-testid="input-session-timeout"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    How long a sign-in lasts. Applies from each user's next login.
+                  </p>
                 </div>
               </div>
 
@@ -141,18 +240,22 @@ export default function SystemConfiguration() {
                   </p>
                 </div>
                 <Switch
-                  checked={dataRetention}
-                  onCheckedChange={setDataRetention}
+                  checked={platformForm.dataRetentionEnabled}
+                  onCheckedChange={(checked) => updatePlatformForm({ dataRetentionEnabled: checked })}
                   data-testid="switch-data-retention"
                 />
               </div>
 
               <div className="flex gap-2 justify-end">
-                <Button variant="outline" data-testid="button-cancel-platform">
+                <Button
+                  variant="outline"
+                  onClick={() => setPlatformForm(toPlatformForm(settings))}
+                  data-testid="button-cancel-platform"
+                >
                   Cancel
                 </Button>
-                <Button onClick={handleSave} data-testid="button-save-changes">
-                  Save Changes
+                <Button onClick={handleSave} disabled={updateMutation.isPending} data-testid="button-save-changes">
+                  {updateMutation.isPending ? "Saving..." : "Save Changes"}
                 </Button>
               </div>
             </CardContent>
@@ -172,20 +275,17 @@ export default function SystemConfiguration() {
                 <div className="space-y-1">
                   <Label>Two-Factor Authentication</Label>
                   <p className="text-sm text-muted-foreground">
-                    Require 2FA for all admin users
+                    Require 2FA for cloud staff and IoT team email/password accounts, enforced at their next login
                   </p>
                 </div>
                 <Switch 
-                  checked={twoFactorAuth}
-                  onCheckedChange={(checked) => {
-                    setTwoFactorAuth(checked);
-                    toast({
-                      title: checked ? "2FA Enabled" : "2FA Disabled",
-                      description: checked 
-                        ? "Two-factor authentication is now required for admin users"
-                        : "Two-factor authentication has been disabled",
-                    });
-                  }}
+                  checked={settings.requireStaffTwoFactor}
+                  onCheckedChange={(checked) => saveSettings(
+                    { requireStaffTwoFactor: checked },
+                    checked
+                      ? "Staff accounts must enroll in two-factor authentication"
+                      : "Two-factor authentication is now optional for staff",
+                  )}
                   data-testid="switch-2fa" 
                 />
               </div>
@@ -194,42 +294,50 @@ export default function SystemConfiguration() {
                 <div className="space-y-1">
                   <Label>API Rate Limiting</Label>
                   <p className="text-sm text-muted-foreground">
-                    Limit API requests per user (30-60 requests/min)
+                    Limit API requests per user, per minute
                   </p>
                 </div>
-                <Switch 
-                  checked={rateLimiting}
-                  onCheckedChange={(checked) => {
-                    setRateLimiting(checked);
-                    toast({
-                      title: checked ? "Rate Limiting Enabled" : "Rate Limiting Disabled",
-                      description: checked 
-                        ? "API rate limiting is now active"
-                        : "API rate limiting has been disabled",
-                    });
-                  }}
-                  data-testid="switch-rate-limiting" 
-                />
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="number"
+                    min={10}
+                    className="w-24"
+                    value={rateLimitPerMinute}
+                    onChange={(e) => setRateLimitPerMinute(e.target.value)}
+                    onBlur={() => {
+                      const limit = parseInt(rateLimitPerMinute, 10);
+                      if (limit !== settings.rateLimitPerMinute) {
+                        saveSettings({ rateLimitPerMinute: limit }, `API requests are limited to ${limit} per minute`);
+                      }
+                    }}
+                    data-testid="input-rate-limit"
+                  />
+                  <Switch 
+                    checked={settings.rateLimitingEnabled}
+                    onCheckedChange={(checked) => saveSettings(
+                      { rateLimitingEnabled: checked },
+                      checked ? "API rate limiting is now active" : "API rate limiting has been disabled",
+                    )}
+                    data-testid="switch-rate-limiting" 
+                  />
+                </div>
               </div>
 
               <div className="flex items-center justify-between p-4 border rounded-md">
                 <div className="space-y-1">
                   <Label>Audit Logging</Label>
                   <p className="text-sm text-muted-foreground">
-                    Log all user actions and system events
+                    Log every change users make through the API to the configuration logs
                   </p>
                 </div>
                 <Switch 
-                  checked={auditLogging}
-                  onCheckedChange={(checked) => {
-                    setAuditLogging(checked);
-                    toast({
-                      title: checked ? "Audit Logging Enabled" : "Audit Logging Disabled",
-                      description: checked 
-                        ? "All user actions and system events are now being logged"
-                        : "Audit logging has been disabled",
-                    });
-                  }}
+                  checked={settings.auditLoggingEnabled}
+                  onCheckedChange={(checked) => saveSettings(
+                    { auditLoggingEnabled: checked },
+                    checked
+                      ? "All user actions are now being logged"
+                      : "Audit logging has been disabled",
+                  )}
                   data-testid="switch-audit-logging" 
                 />
               </div>
@@ -324,36 +432,66 @@ export default function SystemConfiguration() {
                 <div className="space-y-1">
                   <Label>Cross-Tenant Analytics</Label>
                   <p className="text-sm text-muted-foreground">
-                    Allow aggregated analytics across multiple houses
+                    Allow staff to view sensor data aggregated across every house
                   </p>
                 </div>
                 <Switch 
-                  checked={crossTenantAnalytics}
-                  onCheckedChange={(checked) => {
-                    setCrossTenantAnalytics(checked);
-                    toast({
-                      title: checked ? "Cross-Tenant Analytics Enabled" : "Cross-Tenant Analytics Disabled",
-                      description: checked 
-                        ? "Analytics can now be aggregated across multiple houses"
-                        : "Cross-tenant analytics have been disabled",
-                    });
-                  }}
+                  checked={settings.crossTenantAnalytics}
+                  onCheckedChange={(checked) => saveSettings(
+                    { crossTenantAnalytics: checked },
+                    checked
+                      ? "Analytics can now be aggregated across multiple houses"
+                      : "Cross-tenant analytics have been disabled",
+                  )}
                   data-testid="switch-cross-tenant" 
                 />
               </div>
 
               <div className="space-y-2">
-                <Label>Default Storage Quota (per tenant)</Label>
-                <Input 
-                  value={storageQuota}
-                  onChange={(e) => setStorageQuota(e.target.value)}
-                  placeholder="e.g., 100GB" 
-                  data-testid="input-storage-quota" 
-                />
+                <Label htmlFor="storage-quota">Storage Quota per house (GB)</Label>
+                <div className="flex gap-2">
+                  <Input 
+                    id="storage-quota"
+                    type="number"
+                    min={1}
+                    value={storageQuota}
+                    onChange={(e) => setStorageQuota(e.target.value)}
+                    placeholder="e.g., 100" 
+                    data-testid="input-storage-quota" 
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={parseInt(storageQuota, 10) === settings.storageQuotaGb}
+                    onClick={() => saveSettings(
+                      { storageQuotaGb: parseInt(storageQuota, 10) },
+                      `Storage quota set to ${storageQuota} GB per house`,
+                    )}
+                    data-testid="button-save-storage-quota"
+                  >
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Recordings and floor plans a house may store. Uploads past it are refused.
+                </p>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="escalation" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Global Escalation Policies</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Escalate unacknowledged alerts in houses that have no policy of their own
+              </p>
+            </CardHeader>
+            <CardContent>
+              <EscalationPolicies houseId={null} canManage />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
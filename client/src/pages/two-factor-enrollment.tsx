@@ -0,0 +1,40 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TwoFactorSetup } from "@/components/two-factor-setup";
+import { queryClient } from "@/lib/queryClient";
+import { ShieldAlert } from "lucide-react";
+
+export default function TwoFactorEnrollmentPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md" data-testid="card-2fa-enrollment-required">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Two-Factor Authentication Required
+          </CardTitle>
+          <CardDescription>
+            Platform policy requires staff accounts to use two-factor authentication.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorSetup
+            onEnabled={() => queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] })}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={async () => {
+              await fetch("/api/auth/logout", { method: "POST" });
+              window.location.href = "/";
+            }}
+            data-testid="button-2fa-enrollment-logout"
+          >
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
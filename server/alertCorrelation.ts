@@ -0,0 +1,127 @@
+/**
+ * Alert Correlation
+ *
+ * Runs in front of alert creation (see raiseAlert), so every ingest path gets it:
+ *   Deduplication  An alert with the same device and type as an open alert that
+ *                  last occurred within the dedup window is folded into that
+ *                  alert: its occurrence counter goes up and nobody is notified
+ *                  again.
+ *   Incidents      A new alert joins its house's open incident when that incident
+ *                  last grew within the incident window. Otherwise, if other open
+ *                  alerts were raised in the house within the window, a new
+ *                  incident is opened for all of them (e.g. glass_break, then
+ *                  motion_detected, then intrusion).
+ * Device health alerts are deduplicated but never grouped into incidents.
+ *
+ * Configuration (environment):
+ *   ALERT_DEDUP_WINDOW_SECONDS  Repeats within this many seconds are folded (default 60)
+ *   INCIDENT_WINDOW_MINUTES     Alerts this close together form an incident (default 10)
+ */
+
+import type { Alert, Incident, InsertAlert } from "@shared/schema";
+import { storage } from "./storage";
+import { envInt } from "./env";
+
+const SEVERITY_ORDER: Alert["severity"][] = ["low", "medium", "high", "critical"];
+
+// Health alerts describe the device, not something happening in the house
+const UNCORRELATED_TYPES: Alert["type"][] = ["device_offline", "low_battery"];
+
+function windowStart(envVar: string, defaultValue: number, unitMs: number): Date {
+  const amount = envInt(envVar, defaultValue);
+  return new Date(Date.now() - amount * unitMs);
+}
+
+function highestSeverity(alerts: Alert[]): Alert["severity"] {
+  return alerts.reduce<Alert["severity"]>(
+    (highest, alert) =>
+      SEVERITY_ORDER.indexOf(alert.severity) > SEVERITY_ORDER.indexOf(highest) ? alert.severity : highest,
+    "low",
+  );
+}
+
+// e.g. "Glass break → Motion detected → Intrusion"
+function incidentTitle(alerts: Alert[]): string {
+  const types = Array.from(new Set(alerts.map((alert) => alert.type)));
+  return types
+    .map((type) => {
+      const words = type.replace(/_/g, " ");
+      return words.charAt(0).toUpperCase() + words.slice(1);
+    })
+    .join(" → ");
+}
+
+/**
+ * The open alert a new one repeats, if any. Only device alerts are deduplicated.
+ */
+export async function findDuplicateAlert(alertData: InsertAlert): Promise<Alert | undefined> {
+  if (!alertData.deviceId) {
+    return undefined;
+  }
+  return storage.findRepeatableAlert(
+    alertData.deviceId,
+    alertData.type,
+    windowStart("ALERT_DEDUP_WINDOW_SECONDS", 60, 1000),
+  );
+}
+
+/**
+ * Put a newly created alert into an incident with related recent alerts in its
+ * house. Returns the alert as stored afterwards.
+ */
+export async function correlateIncident(alert: Alert): Promise<Alert> {
+  if (UNCORRELATED_TYPES.includes(alert.type)) {
+    return alert;
+  }
+
+  const since = windowStart("INCIDENT_WINDOW_MINUTES", 10, 60_000);
+  let incident = await storage.getOpenIncidentForHouse(alert.houseId, since);
+  let memberIds = [alert.id];
+
+  if (!incident) {
+    const related = (await storage.getCorrelatableAlerts(alert.houseId, since, alert.id))
+      .filter((a) => !a.incidentId && !UNCORRELATED_TYPES.includes(a.type));
+    if (related.length === 0) {
+      return alert;
+    }
+
+    incident = await storage.createIncident({
+      houseId: alert.houseId,
+      title: incidentTitle([...related, alert]),
+      severity: highestSeverity([...related, alert]),
+    });
+    memberIds = [...related.map((a) => a.id), alert.id];
+  }
+
+  await storage.setAlertsIncident(memberIds, incident.id);
+  const members = await storage.getAlertsForIncident(incident.id);
+  await storage.updateIncident(incident.id, {
+    title: incidentTitle(members),
+    severity: highestSeverity(members),
+    alertCount: members.length,
+    lastAlertAt: new Date(),
+  });
+
+  return members.find((a) => a.id === alert.id) ?? alert;
+}
+
+/**
+ * Mark an incident resolved once none of its alerts still need attention.
+ */
+export async function settleIncident(incidentId: string, actorId: string | null): Promise<Incident | undefined> {
+  const incident = await storage.getIncident(incidentId);
+  if (!incident || incident.status === "resolved") {
+    return incident;
+  }
+
+  const alerts = await storage.getAlertsForIncident(incidentId);
+  if (alerts.some((alert) => alert.status === "new" || alert.status === "acknowledged")) {
+    return incident;
+  }
+
+  return storage.updateIncident(incidentId, {
+    status: "resolved",
+    resolvedBy: actorId,
+    resolvedAt: new Date(),
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Alert Event Channel
+ *
+ * Pushes alert lifecycle events (created, acknowledged, resolved, dismissed,
+ * escalated, assigned, commented, repeated) to connected dashboards over
+ * Server-Sent Events. Each subscriber is scoped to the houses it can access:
+ * the alert's house is looked up once per event, so homeowners only ever
+ * receive events for houses they own or are a member of while staff receive
+ * everything. The same stream carries new in-app
+ * notifications to the user they were addressed to.
+ */
+
+import type { Response } from "express";
+import type { Alert, Notification } from "@shared/schema";
+import { storage } from "./storage";
+
+export type AlertEventType =
+  | "created"
+  | "acknowledged"
+  | "resolved"
+  | "dismissed"
+  | "escalated"
+  | "assigned"
+  | "commented"
+  | "repeated";
+
+export interface AlertEvent {
+  type: AlertEventType;
+  alert: Alert;
+}
+
+interface Subscriber {
+  id: number;
+  userId: string;
+  role: string;
+  res: Response;
+}
+
+// Keep idle connections alive through proxies that drop silent streams
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+const subscribers = new Map<number, Subscriber>();
+let nextSubscriberId = 1;
+
+const isStaff = (subscriber: Subscriber) => subscriber.role === "cloud_staff" || subscriber.role === "iot_team";
+
+/**
+ * Register an authenticated response as an event stream subscriber.
+ * The connection stays open until the client disconnects.
+ */
+export function subscribeToAlertEvents(res: Response, userId: string, role: string): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 3000\n\n");
+
+  const id = nextSubscriberId++;
+  subscribers.set(id, { id, userId, role, res });
+
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    subscribers.delete(id);
+  });
+}
+
+/**
+ * Broadcast an alert event to every subscriber allowed to see the alert's house.
+ * Delivery failures are logged and never propagate to the caller.
+ */
+export async function publishAlertEvent(type: AlertEventType, alert: Alert): Promise<void> {
+  const payload = `event: alert\ndata: ${JSON.stringify({ type, alert } satisfies AlertEvent)}\n\n`;
+
+  try {
+    const recipients = Array.from(subscribers.values());
+    // Staff see every house; everyone else needs a role in this one
+    const houseUserIds = recipients.some((subscriber) => !isStaff(subscriber))
+      ? new Set(await storage.getHouseUserIds(alert.houseId))
+      : new Set<string>();
+
+    for (const subscriber of recipients) {
+      if (isStaff(subscriber) || houseUserIds.has(subscriber.userId)) {
+        subscriber.res.write(payload);
+      }
+    }
+  } catch (error) {
+    console.error("Error publishing alert event:", error);
+  }
+}
+
+/**
+ * Push a new in-app notification to the recipient's open dashboards.
+ */
+export function publishNotificationEvent(notification: Notification): void {
+  const payload = `event: notification\ndata: ${JSON.stringify(notification)}\n\n`;
+
+  for (const subscriber of Array.from(subscribers.values())) {
+    if (subscriber.userId === notification.userId) {
+      subscriber.res.write(payload);
+    }
+  }
+}
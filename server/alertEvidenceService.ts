@@ -0,0 +1,135 @@
+/**
+ * Alert Evidence
+ *
+ * What the cameras saw when an alert fired. An alert raised by a camera
+ * records that camera; an intrusion or motion alert (EVIDENCE_ALERT_TYPES)
+ * records the cameras in the alert's room, or every camera in the house when
+ * none are in that room; cameras in privacy mode are left out. Each camera
+ * gets a clip starting ALERT_RECORDING_PRE_ROLL_SECONDS before the alert and
+ * running ALERT_RECORDING_SECONDS after it, plus a snapshot; both are attached
+ * to the alert in alert_evidence and become viewable once the camera uploads
+ * them.
+ *
+ * The evidence bundle is a zip of the alert, its timeline, its audio
+ * detections, a manifest of its recordings and the media of those uploaded.
+ *
+ * Configuration (environment):
+ *   ALERT_RECORDING_SECONDS           Post-roll: clip length after the alert;
+ *                                     0 turns evidence off (default 30)
+ *   ALERT_RECORDING_PRE_ROLL_SECONDS  Buffered video from before the alert
+ *                                     (default 10)
+ *   ALERT_EVIDENCE_MAX_CAMERAS        Most cameras recorded for one alert
+ *                                     (default 4)
+ */
+
+import type { Writable } from "stream";
+import {
+  EVIDENCE_ALERT_TYPES,
+  type Alert,
+  type AlertEvidence,
+  type AlertEvidenceRecording,
+  type Device,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { captureSnapshot, startRecording } from "./recordingService";
+import { recordingStore } from "./recordingStore";
+import { isInPrivacyMode } from "./privacyService";
+import { writeZip, type ZipEntry } from "./zipStream";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+const sameRoom = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+async function camerasForAlert(alert: Alert): Promise<Device[]> {
+  const source = alert.deviceId ? await storage.getDevice(alert.deviceId) : undefined;
+  if (source?.type === "camera") {
+    return [source];
+  }
+  if (!EVIDENCE_ALERT_TYPES.includes(alert.type)) {
+    return [];
+  }
+
+  const cameras = (await storage.getDevicesByHouse(alert.houseId)).filter((device) => device.type === "camera");
+  const room = source?.room ?? alert.location;
+  const inRoom = cameras.filter((camera) => sameRoom(camera.room, room));
+  return inRoom.length > 0 ? inRoom : cameras;
+}
+
+/**
+ * Record the alert's cameras and attach the clips and snapshots to it.
+ */
+export async function collectAlertEvidence(alert: Alert): Promise<void> {
+  const postRollSeconds = envInt("ALERT_RECORDING_SECONDS", 30, 0);
+  if (postRollSeconds <= 0) {
+    return;
+  }
+  const preRollSeconds = envInt("ALERT_RECORDING_PRE_ROLL_SECONDS", 10, 0);
+  const maxCameras = envInt("ALERT_EVIDENCE_MAX_CAMERAS", 4);
+
+  const cameras: Device[] = [];
+  for (const camera of await camerasForAlert(alert)) {
+    if (cameras.length < maxCameras && camera.status !== "offline" && !(await isInPrivacyMode(camera))) {
+      cameras.push(camera);
+    }
+  }
+
+  for (const camera of cameras) {
+    // One camera failing doesn't stop the others from recording
+    try {
+      const origin = { trigger: "alert" as const, alertId: alert.id };
+      const clip = await startRecording(camera, origin, { durationSeconds: postRollSeconds, preRollSeconds });
+      const snapshot = await captureSnapshot(camera, origin);
+      await storage.attachAlertEvidence(alert.id, [clip.id, snapshot.id]);
+    } catch (error) {
+      console.error(`Failed to record ${camera.name} for alert ${alert.id}:`, error);
+    }
+  }
+
+  if (cameras.length > 0) {
+    log(`recording ${cameras.length} camera(s) as evidence for alert ${alert.id}`, "recordings");
+  }
+}
+
+export async function getAlertEvidence(alert: Alert): Promise<AlertEvidence> {
+  const [recordings, audioDetections] = await Promise.all([
+    storage.getAlertEvidenceRecordings(alert.id),
+    storage.getAudioDetectionsForAlert(alert.id),
+  ]);
+  return { recordings, audioDetections };
+}
+
+/**
+ * Stream the alert's evidence bundle to output as a zip archive.
+ */
+export async function writeEvidenceBundle(alert: Alert, output: Writable): Promise<void> {
+  const [evidence, timeline] = await Promise.all([getAlertEvidence(alert), storage.getAlertActivity(alert.id)]);
+  const json = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2));
+
+  const media: ZipEntry[] = [];
+  const manifest: (Omit<AlertEvidenceRecording, "storagePath"> & { file: string | null })[] = [];
+  for (const recording of evidence.recordings) {
+    const { storagePath, ...details } = recording;
+    // Media that went missing from the store would cut the archive short
+    if (recording.status !== "available" || !storagePath || (await recordingStore.size(storagePath)) === undefined) {
+      manifest.push({ ...details, file: null });
+      continue;
+    }
+    const camera = recording.deviceName.replace(/[^\w-]+/g, "-").toLowerCase();
+    const file = `media/${camera}-${recording.kind}-${recording.id}${storagePath.slice(storagePath.lastIndexOf("."))}`;
+    media.push({
+      name: file,
+      data: () => recordingStore.read(storagePath),
+      modifiedAt: recording.endedAt ?? recording.startedAt,
+    });
+    manifest.push({ ...details, file });
+  }
+
+  await writeZip(output, [
+    { name: "alert.json", data: json(alert) },
+    { name: "timeline.json", data: json(timeline) },
+    { name: "audio-detections.json", data: json(evidence.audioDetections) },
+    { name: "recordings.json", data: json(manifest) },
+    ...media,
+  ]);
+}
@@ -0,0 +1,163 @@
+/**
+ * Alert Service
+ *
+ * Single entry point for raising alerts from any source (API, audio analysis,
+ * device watchdog, automation rules). Applies the house's security mode, which
+ * may change an alert, ignore it or hold it for the entry delay (see
+ * securityModeService), folds repeats into the open alert they duplicate and
+ * groups related alerts into incidents (see alertCorrelation), persists the
+ * alert, pushes it to live dashboards, hands it to the automation engine,
+ * records its cameras as evidence and notifies the household, either directly
+ * or through the alert's escalation policy.
+ *
+ * Status changes and assignments also go through here so that every one is
+ * checked against ALERT_STATUS_TRANSITIONS and recorded in the alert's
+ * activity.
+ */
+
+import type { Alert, Incident, InsertAlert } from "@shared/schema";
+import { ALERT_STATUS_TRANSITIONS } from "@shared/schema";
+import { storage } from "./storage";
+import { publishAlertEvent } from "./alertEvents";
+import { onAlertCreated } from "./automationEngine";
+import { notifyAlert } from "./notificationService";
+import { startEscalation, stopEscalation } from "./escalationService";
+import { correlateIncident, findDuplicateAlert, settleIncident } from "./alertCorrelation";
+import { collectAlertEvidence } from "./alertEvidenceService";
+import { applySecurityMode } from "./securityModeService";
+
+/**
+ * The requested change isn't allowed from the alert's current state.
+ */
+export class AlertTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertTransitionError";
+  }
+}
+
+/**
+ * Raise an alert. Null when the house's security mode ignored it or is
+ * holding it for the entry delay.
+ */
+export async function raiseAlert(input: InsertAlert): Promise<Alert | null> {
+  const alertData = await applySecurityMode(input);
+  if (!alertData) {
+    return null;
+  }
+
+  const duplicate = await findDuplicateAlert(alertData);
+  if (duplicate) {
+    const repeated = await storage.recordAlertOccurrence(duplicate.id, new Date());
+    publishAlertEvent("repeated", repeated);
+    return repeated;
+  }
+
+  let alert = await storage.createAlert(alertData);
+
+  // Grouping is best effort; the alert stands on its own if it fails
+  try {
+    alert = await correlateIncident(alert);
+  } catch (error) {
+    console.error("Failed to correlate alert into an incident:", error);
+  }
+
+  publishAlertEvent("created", alert);
+
+  // Rule evaluation must never block or fail alert creation
+  onAlertCreated(alert).catch((error) => {
+    console.error("Automation engine failed for alert:", error);
+  });
+
+  // Camera clips and snapshots of what happened
+  collectAlertEvidence(alert).catch((error) => {
+    console.error("Failed to collect evidence for alert:", error);
+  });
+
+  // An escalation policy, when one covers the alert, decides who hears about it and when
+  startEscalation(alert)
+    .then((escalating) => (escalating ? undefined : notifyAlert(alert)))
+    .catch((error) => {
+      console.error("Failed to send notifications for alert:", error);
+    });
+
+  return alert;
+}
+
+/**
+ * Move an alert to a new status on behalf of a user.
+ * Throws AlertTransitionError for a move the state machine doesn't allow, or
+ * when someone else changed the alert's status first.
+ */
+export async function transitionAlert(
+  alert: Alert,
+  status: Exclude<Alert["status"], "new">,
+  actorId: string,
+): Promise<Alert> {
+  if (!ALERT_STATUS_TRANSITIONS[alert.status].includes(status)) {
+    throw new AlertTransitionError(`A ${alert.status} alert cannot be ${status}`);
+  }
+
+  const updated = await storage.updateAlertStatus(alert.id, status, actorId, alert.status);
+  if (!updated) {
+    throw new AlertTransitionError("The alert was changed by someone else; refresh and try again");
+  }
+
+  await storage.createAlertActivity({
+    alertId: alert.id,
+    type: "status_changed",
+    actorId,
+    details: { from: alert.status, to: status },
+  });
+  await stopEscalation(alert, actorId, status);
+  if (updated.incidentId) {
+    await settleIncident(updated.incidentId, actorId);
+  }
+
+  publishAlertEvent(status, updated);
+  return updated;
+}
+
+/**
+ * Resolve an incident and every alert in it that is still open.
+ */
+export async function resolveIncident(incident: Incident, actorId: string): Promise<Incident> {
+  for (const alert of await storage.getAlertsForIncident(incident.id)) {
+    if (alert.status !== "new" && alert.status !== "acknowledged") {
+      continue;
+    }
+    try {
+      await transitionAlert(alert, "resolved", actorId);
+    } catch (error) {
+      // Someone closed it in the meantime
+      if (!(error instanceof AlertTransitionError)) {
+        throw error;
+      }
+    }
+  }
+
+  return (await settleIncident(incident.id, actorId)) ?? incident;
+}
+
+/**
+ * Assign an open alert to a user, or unassign it with null.
+ */
+export async function assignAlert(alert: Alert, assigneeId: string | null, actorId: string): Promise<Alert> {
+  if (ALERT_STATUS_TRANSITIONS[alert.status].length === 0) {
+    throw new AlertTransitionError(`A ${alert.status} alert cannot be reassigned`);
+  }
+  if (alert.assigneeId === assigneeId) {
+    return alert;
+  }
+
+  const updated = await storage.updateAlertAssignee(alert.id, assigneeId);
+  await storage.createAlertActivity({
+    alertId: alert.id,
+    type: "assigned",
+    actorId,
+    details: { from: alert.assigneeId, to: assigneeId },
+  });
+
+  publishAlertEvent("assigned", updated);
+  return updated;
+}
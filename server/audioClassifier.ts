@@ -0,0 +1,110 @@
+/**
+ * Audio Classifier Interface
+ *
+ * Common contract for the audio classification backends used by the audio
+ * detection service, plus the shared logic that turns a backend's ranked
+ * predictions into an analysis result (alert decision, severity and message).
+ */
+
+export type AudioModel = 'yamnet' | 'hubert' | 'both' | 'dsp';
+
+export type AudioSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type AudioAlertType = 'emergency' | 'safety' | 'security' | 'maintenance' | 'health';
+
+export interface AudioPrediction {
+  label: string;
+  confidence: number;
+  model: AudioModel;
+  severity: AudioSeverity;
+  type: AudioAlertType;
+}
+
+export interface AudioAnalysisResult {
+  primaryDetection: {
+    class: string;
+    confidence: number;
+    model: AudioModel;
+  };
+  allPredictions: AudioPrediction[];
+  shouldGenerateAlert: boolean;
+  alertSeverity?: AudioSeverity;
+  alertType?: AudioAlertType;
+  alertMessage?: string;
+  durationSeconds?: number;
+  features?: Record<string, number>;
+}
+
+export interface AudioClassifierInput {
+  fileName: string;
+  buffer: Buffer;
+  mimeType?: string;
+}
+
+export interface AudioClassifier {
+  id: AudioModel;
+  name: string;
+  description: string;
+  // Mime types the backend can decode; empty means it accepts anything
+  supportedMimeTypes: string[];
+  classify(input: AudioClassifierInput): {
+    predictions: AudioPrediction[];
+    durationSeconds?: number;
+    features?: Record<string, number>;
+  };
+}
+
+/**
+ * Thrown by a backend when it cannot decode the uploaded audio.
+ */
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioDecodeError";
+  }
+}
+
+const ALERTING_SEVERITIES: AudioSeverity[] = ['medium', 'high', 'critical'];
+
+function buildAlertMessage(prediction: AudioPrediction, location: string): string {
+  switch (prediction.type) {
+    case 'emergency':
+      return `🚨 EMERGENCY: ${prediction.label} detected at ${location}`;
+    case 'security':
+      return prediction.model === 'hubert'
+        ? `🐕 Animal detected: ${prediction.label} at ${location}`
+        : `🔒 Security Alert: ${prediction.label} detected at ${location}`;
+    case 'health':
+      return `🏥 Health Concern: ${prediction.label} detected at ${location}`;
+    case 'maintenance':
+      return `🔧 Maintenance Alert: ${prediction.label} detected at ${location}`;
+    case 'safety':
+      return `⚠️ Safety Alert: ${prediction.label} detected at ${location}`;
+  }
+}
+
+/**
+ * Rank a backend's predictions and decide whether the top one warrants an alert.
+ */
+export function buildAnalysisResult(
+  classifierOutput: ReturnType<AudioClassifier['classify']>,
+  deviceLocation?: string
+): AudioAnalysisResult {
+  const predictions = [...classifierOutput.predictions].sort((a, b) => b.confidence - a.confidence);
+  const primary = predictions[0];
+  const shouldGenerateAlert = ALERTING_SEVERITIES.includes(primary.severity);
+
+  return {
+    primaryDetection: {
+      class: primary.label,
+      confidence: primary.confidence,
+      model: primary.model,
+    },
+    allPredictions: predictions,
+    shouldGenerateAlert,
+    alertSeverity: primary.severity,
+    alertType: primary.type,
+    alertMessage: shouldGenerateAlert ? buildAlertMessage(primary, deviceLocation || 'Unknown Location') : undefined,
+    durationSeconds: classifierOutput.durationSeconds,
+    features: classifierOutput.features,
+  };
+}
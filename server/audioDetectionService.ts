@@ -1,212 +1,101 @@
 /**
- * Simulated Audio Detection Service
- * 
- * This service simulates YAMNet (human voice recognition) and HuBERT (animal sound recognition)
- * models for detecting sounds in audio files and generating appropriate alerts.
- * 
- * In a production environment, this would integrate with actual ML models via TensorFlow.js
- * or external API services. For now, it provides realistic simulated detections based on
- * audio file characteristics and predefined sound patterns.
+ * Audio Detection Service
+ *
+ * Runs uploaded audio through a selectable classifier backend and turns the
+ * result into an alert decision and alert type. Backends are keyed by the `modelUsed` value
+ * stored on audio detections:
+ *   dsp                   Local DSP analysis of WAV audio (deterministic)
+ *   yamnet, hubert, both  Simulated YAMNet/HuBERT predictions for demos
+ *
+ * Configuration (environment):
+ *   AUDIO_CLASSIFIER  Backend used when a request doesn't pick one (default "dsp")
  */
 
-export interface AudioPrediction {
-  label: string;
-  confidence: number;
-  model: 'yamnet' | 'hubert';
-}
+import type { Alert } from "@shared/schema";
+import {
+  AudioDecodeError,
+  buildAnalysisResult,
+  type AudioAnalysisResult,
+  type AudioClassifier,
+  type AudioModel,
+} from "./audioClassifier";
+import { createSimulatedClassifier } from "./audioSimulator";
+import { dspAudioClassifier } from "./dspAudioClassifier";
 
-export interface AudioAnalysisResult {
-  primaryDetection: {
-    class: string;
-    confidence: number;
-    model: 'yamnet' | 'hubert' | 'both';
-  };
-  allPredictions: AudioPrediction[];
-  shouldGenerateAlert: boolean;
-  alertSeverity?: 'low' | 'medium' | 'high' | 'critical';
-  alertType?: 'emergency' | 'safety' | 'security' | 'maintenance' | 'health';
-  alertMessage?: string;
-}
+export type { AudioAnalysisResult, AudioModel } from "./audioClassifier";
+export { AudioDecodeError } from "./audioClassifier";
 
-// YAMNet recognizes 521 audio event classes including human sounds
-// Weight values represent how commonly detected each sound is (higher = more common)
-const YAMNET_SOUND_CLASSES = [
-  // Human sounds - high priority and common
-  { label: 'Human scream', keywords: ['scream', 'yell', 'shout', 'help'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Human crying/sobbing', keywords: ['cry', 'sob', 'weep'], severity: 'high', type: 'health', weight: 2 },
-  { label: 'Human cough', keywords: ['cough'], severity: 'low', type: 'health', weight: 3 },
-  { label: 'Human voice/speech', keywords: ['voice', 'speech', 'talk', 'speaking'], severity: 'low', type: 'security', weight: 8 },
-  { label: 'Human footsteps', keywords: ['footstep', 'walking', 'step'], severity: 'medium', type: 'security', weight: 6 },
-  { label: 'Human laughter', keywords: ['laugh', 'giggle'], severity: 'low', type: 'health', weight: 3 },
-  { label: 'Baby crying', keywords: ['baby', 'infant'], severity: 'high', type: 'health', weight: 2 },
-  
-  // Environmental/Emergency sounds - rare but high priority
-  { label: 'Glass breaking', keywords: ['glass', 'break', 'shatter'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Alarm/Siren', keywords: ['alarm', 'siren', 'alert'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Explosion', keywords: ['explosion', 'blast', 'boom'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Smoke detector', keywords: ['smoke'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Fire crackling', keywords: ['fire', 'crackling'], severity: 'critical', type: 'emergency', weight: 1 },
-  { label: 'Door slam', keywords: ['door', 'slam'], severity: 'medium', type: 'security', weight: 3 },
-  { label: 'Window sliding', keywords: ['window'], severity: 'medium', type: 'security', weight: 2 },
-  { label: 'Knocking', keywords: ['knock'], severity: 'low', type: 'security', weight: 3 },
-  
-  // Mechanical/Maintenance sounds - moderately common
-  { label: 'Water running/dripping', keywords: ['water', 'drip', 'leak'], severity: 'medium', type: 'maintenance', weight: 4 },
-  { label: 'Machine hum', keywords: ['machine', 'hum', 'motor'], severity: 'low', type: 'maintenance', weight: 5 },
-  { label: 'Beep/Buzzer', keywords: ['beep', 'buzz'], severity: 'low', type: 'maintenance', weight: 3 },
-];
+const classifiers: Record<AudioModel, AudioClassifier> = {
+  dsp: dspAudioClassifier,
+  yamnet: createSimulatedClassifier('yamnet'),
+  hubert: createSimulatedClassifier('hubert'),
+  both: createSimulatedClassifier('both'),
+};
 
-// HuBERT fine-tuned for animal sounds (ESC-50 dataset)
-const HUBERT_ANIMAL_CLASSES = [
-  { label: 'Dog barking', keywords: ['dog', 'bark', 'canine'], severity: 'medium', type: 'security', weight: 3 },
-  { label: 'Cat meowing', keywords: ['cat', 'meow', 'feline'], severity: 'low', type: 'security', weight: 2 },
-  { label: 'Rooster crowing', keywords: ['rooster', 'crow', 'chicken'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Pig oinking', keywords: ['pig', 'oink'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Cow mooing', keywords: ['cow', 'moo'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Frog croaking', keywords: ['frog', 'croak'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Hen clucking', keywords: ['hen', 'cluck'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Insect buzzing', keywords: ['insect', 'buzz', 'fly'], severity: 'low', type: 'security', weight: 2 },
-  { label: 'Sheep bleating', keywords: ['sheep', 'bleat'], severity: 'low', type: 'security', weight: 1 },
-  { label: 'Crow cawing', keywords: ['crow', 'caw', 'bird'], severity: 'low', type: 'security', weight: 1 },
+// Detected classes that have an alert type of their own, first match wins
+const CLASS_ALERT_TYPES: [RegExp, Alert["type"]][] = [
+  [/\bglass/i, "glass_break"],
+  [/\bscream/i, "scream_detected"],
+  [/\bfall/i, "fall_detected"],
 ];
 
-/**
- * Helper function to randomly select sound classes based on weighted probabilities
- * More realistic sounds (human voice, footsteps) have higher weights
- */
-function getRandomSoundClasses<T extends { label: string; weight?: number }>(
-  classes: T[],
-  count: number
-): T[] {
-  // Add weights if not present (default weight = 1)
-  const weightedClasses = classes.map(c => ({ ...c, weight: c.weight || 1 }));
-  
-  // Calculate total weight
-  const totalWeight = weightedClasses.reduce((sum, c) => sum + (c.weight || 1), 0);
-  
-  const selected: T[] = [];
-  const availableClasses = [...weightedClasses];
-  
-  for (let i = 0; i < Math.min(count, availableClasses.length); i++) {
-    // Weighted random selection
-    let random = Math.random() * totalWeight;
-    let selectedIndex = 0;
-    
-    for (let j = 0; j < availableClasses.length; j++) {
-      random -= availableClasses[j].weight || 1;
-      if (random <= 0) {
-        selectedIndex = j;
-        break;
-      }
-    }
-    
-    selected.push(availableClasses[selectedIndex]);
-    availableClasses.splice(selectedIndex, 1);
-  }
-  
-  return selected;
+// Alert type for other classes, by the category the classifier gave them
+const CATEGORY_ALERT_TYPES: Partial<Record<NonNullable<AudioAnalysisResult["alertType"]>, Alert["type"]>> = {
+  security: "intrusion",
+  maintenance: "system_anomaly",
+};
+
+export function isAudioModel(value: unknown): value is AudioModel {
+  return typeof value === 'string' && Object.hasOwn(classifiers, value);
+}
+
+export function getDefaultAudioModel(): AudioModel {
+  const configured = process.env.AUDIO_CLASSIFIER;
+  return isAudioModel(configured) ? configured : 'dsp';
+}
+
+export function listAudioClassifiers() {
+  const defaultModel = getDefaultAudioModel();
+  return Object.values(classifiers).map(({ id, name, description, supportedMimeTypes }) => ({
+    id,
+    name,
+    description,
+    supportedMimeTypes,
+    isDefault: id === defaultModel,
+  }));
 }
 
 /**
- * Simulates audio analysis using YAMNet and HuBERT models
- * 
- * In production, this would:
- * 1. Decode audio file to waveform (16kHz mono)
- * 2. Run through YAMNet for general sound classification
- * 3. Run through HuBERT if animal sounds suspected
- * 4. Combine predictions and select highest confidence
- * 
- * For simulation, we generate realistic predictions based on probability distributions
- * that mimic what real ML models would produce
+ * Classify an uploaded audio file with the selected backend.
+ * Throws AudioDecodeError when the backend cannot read the file.
  */
 export function analyzeAudio(
+  model: AudioModel,
   fileName: string,
-  fileBuffer?: Buffer,
+  fileBuffer: Buffer,
+  mimeType?: string,
   deviceLocation?: string
 ): AudioAnalysisResult {
-  const predictions: AudioPrediction[] = [];
-  
-  // Simulate realistic ML model behavior with weighted random selection
-  // Real audio often has multiple overlapping sound sources
-  
-  // YAMNet typically detects 3-5 sound classes in any given audio
-  const numYamnetPredictions = 3 + Math.floor(Math.random() * 3);
-  const selectedYamnetClasses = getRandomSoundClasses(YAMNET_SOUND_CLASSES, numYamnetPredictions);
-  
-  selectedYamnetClasses.forEach((soundClass, index) => {
-    // Primary detection has highest confidence, others decrease
-    const baseConfidence = index === 0 ? 0.70 : 0.40;
-    const variance = index === 0 ? 0.25 : 0.20;
-    
-    predictions.push({
-      label: soundClass.label,
-      confidence: baseConfidence + Math.random() * variance,
-      model: 'yamnet'
-    });
-  });
-  
-  // HuBERT animal detection runs in parallel (20% chance of detecting animals)
-  if (Math.random() < 0.20) {
-    const numAnimalPredictions = 1 + Math.floor(Math.random() * 2);
-    const selectedAnimalClasses = getRandomSoundClasses(HUBERT_ANIMAL_CLASSES, numAnimalPredictions);
-    
-    selectedAnimalClasses.forEach((animalClass, index) => {
-      predictions.push({
-        label: animalClass.label,
-        confidence: 0.65 + Math.random() * 0.30,
-        model: 'hubert'
-      });
-    });
+  const classifier = classifiers[model];
+
+  if (classifier.supportedMimeTypes.length > 0 && mimeType && !classifier.supportedMimeTypes.includes(mimeType)) {
+    throw new AudioDecodeError(`${classifier.name} only supports ${classifier.supportedMimeTypes.join(', ')} audio`);
   }
-  
-  // Sort predictions by confidence
-  predictions.sort((a, b) => b.confidence - a.confidence);
-  
-  // Get primary detection (highest confidence)
-  const primaryPrediction = predictions[0];
-  
-  // Determine if alert should be generated
-  const soundConfig = [
-    ...YAMNET_SOUND_CLASSES,
-    ...HUBERT_ANIMAL_CLASSES
-  ].find(s => s.label === primaryPrediction.label);
-  
-  const shouldGenerateAlert = soundConfig ? 
-    ['medium', 'high', 'critical'].includes(soundConfig.severity) : 
-    false;
-  
-  // Build alert message
-  let alertMessage: string | undefined;
-  if (shouldGenerateAlert && soundConfig) {
-    const location = deviceLocation || 'Unknown Location';
-    
-    if (soundConfig.type === 'emergency') {
-      alertMessage = `🚨 EMERGENCY: ${soundConfig.label} detected at ${location}`;
-    } else if (soundConfig.type === 'security') {
-      if (soundConfig.label.includes('Dog') || soundConfig.label.includes('animal')) {
-        alertMessage = `🐕 Animal detected: ${soundConfig.label} at ${location}`;
-      } else {
-        alertMessage = `🔒 Security Alert: ${soundConfig.label} detected at ${location}`;
-      }
-    } else if (soundConfig.type === 'health') {
-      alertMessage = `🏥 Health Concern: ${soundConfig.label} detected at ${location}`;
-    } else if (soundConfig.type === 'maintenance') {
-      alertMessage = `🔧 Maintenance Alert: ${soundConfig.label} detected at ${location}`;
-    }
+
+  const output = classifier.classify({ fileName, buffer: fileBuffer, mimeType });
+  return buildAnalysisResult(output, deviceLocation);
+}
+
+/**
+ * The alert type for an analysis: the detected class's own type where it has
+ * one, else its category's, else a generic sound detection.
+ */
+export function audioAlertType(result: AudioAnalysisResult): Alert["type"] {
+  const match = CLASS_ALERT_TYPES.find(([pattern]) => pattern.test(result.primaryDetection.class));
+  if (match) {
+    return match[1];
   }
-  
-  return {
-    primaryDetection: {
-      class: primaryPrediction.label,
-      confidence: primaryPrediction.confidence,
-      model: primaryPrediction.model
-    },
-    allPredictions: predictions,
-    shouldGenerateAlert,
-    alertSeverity: soundConfig?.severity as any,
-    alertType: soundConfig?.type as any,
-    alertMessage
-  };
+  return (result.alertType && CATEGORY_ALERT_TYPES[result.alertType]) || "sound_detected";
 }
 
 /**
@@ -216,10 +105,14 @@ export function generateAlertDescription(
   detectionClass: string,
   confidence: number,
   deviceName: string,
-  location: string
+  location: string,
+  model: AudioModel
 ): string {
   const confidencePercent = (confidence * 100).toFixed(1);
-  
-  return `AI Model detected "${detectionClass}" with ${confidencePercent}% confidence from ${deviceName} at ${location}. ` +
-    `Automatic alert generated based on sound pattern analysis using YAMNet and HuBERT audio recognition models.`;
+  const method = model === 'dsp'
+    ? 'local signal analysis (loudness, zero-crossing rate and spectral features)'
+    : 'simulated YAMNet and HuBERT audio recognition models';
+
+  return `Audio analysis detected "${detectionClass}" with ${confidencePercent}% confidence from ${deviceName} at ${location}. ` +
+    `Automatic alert generated based on sound pattern analysis using ${method}.`;
 }
@@ -0,0 +1,300 @@
+/**
+ * Automation Rules Engine
+ *
+ * Evaluates a house's active automation rules whenever something happens there:
+ * new sensor readings, new alerts, device status changes, and a once-a-minute
+ * clock tick for schedule triggers. A rule fires when its trigger matches, all
+ * of its conditions hold, and it is outside its cooldown. Its actions then run
+ * in order; a failing action is logged and does not stop the others.
+ */
+
+import type {
+  Alert,
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationTrigger,
+  Device,
+  DeviceCommandInput,
+  House,
+  SensorData,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { raiseAlert } from "./alertService";
+import { notifyHouse } from "./notificationService";
+import { issueDeviceCommand, parseDeviceCommand } from "./deviceCommandService";
+import { captureSnapshot, startRecording, stopRecording } from "./recordingService";
+import { getHouseLocalTime, isInClockWindow, parseClockTime } from "./houseTime";
+import { log } from "./vite";
+
+type AutomationEvent =
+  | { kind: "sensor"; device: Device; reading: SensorData }
+  | { kind: "alert"; alert: Alert }
+  | { kind: "device_status"; device: Device; previousStatus: Device["status"] }
+  | { kind: "schedule"; now: Date };
+
+const SEVERITY_RANK: Record<Alert["severity"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// Schedule triggers are checked once a minute, so never fire one twice in a minute
+const MIN_SCHEDULE_COOLDOWN_SECONDS = 60;
+
+// After a stall (a slow tick, a suspended host) missed minutes are caught up,
+// but no further back than this
+const MAX_SCHEDULE_CATCH_UP_MINUTES = 15;
+
+function compare(operator: "gt" | "gte" | "lt" | "lte" | "eq", actual: number, expected: number): boolean {
+  switch (operator) {
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    case "eq":
+      return actual === expected;
+  }
+}
+
+function matchesTrigger(trigger: AutomationTrigger, event: AutomationEvent, house: House): boolean {
+  switch (trigger.type) {
+    case "sensor_threshold":
+      return (
+        event.kind === "sensor" &&
+        (!trigger.deviceId || trigger.deviceId === event.device.id) &&
+        trigger.dataType === event.reading.dataType &&
+        event.reading.value !== null &&
+        compare(trigger.operator, event.reading.value, trigger.value)
+      );
+
+    case "alert":
+      return (
+        event.kind === "alert" &&
+        trigger.alertType === event.alert.type &&
+        (!trigger.deviceId || trigger.deviceId === event.alert.deviceId) &&
+        (!trigger.minSeverity || SEVERITY_RANK[event.alert.severity] >= SEVERITY_RANK[trigger.minSeverity])
+      );
+
+    case "device_status":
+      return (
+        event.kind === "device_status" &&
+        event.device.status === trigger.status &&
+        event.previousStatus !== trigger.status &&
+        (!trigger.deviceId || trigger.deviceId === event.device.id) &&
+        (!trigger.deviceType || trigger.deviceType === event.device.type)
+      );
+
+    case "schedule": {
+      if (event.kind !== "schedule") {
+        return false;
+      }
+      const { minutesOfDay, dayOfWeek } = getHouseLocalTime(house.timezone, event.now);
+      return (
+        minutesOfDay === parseClockTime(trigger.time) &&
+        (!trigger.daysOfWeek || trigger.daysOfWeek.includes(dayOfWeek))
+      );
+    }
+  }
+}
+
+function conditionHolds(condition: AutomationCondition, house: House, now: Date): boolean {
+  switch (condition.type) {
+    case "time_window": {
+      const { minutesOfDay } = getHouseLocalTime(house.timezone, now);
+      return isInClockWindow(minutesOfDay, condition.start, condition.end);
+    }
+
+    case "house_mode":
+      return condition.modes.includes(house.mode);
+  }
+}
+
+function isCoolingDown(rule: AutomationRule, now: Date): boolean {
+  if (!rule.lastTriggeredAt) {
+    return false;
+  }
+  const cooldownSeconds = rule.trigger.type === "schedule"
+    ? Math.max(rule.cooldownSeconds, MIN_SCHEDULE_COOLDOWN_SECONDS)
+    : rule.cooldownSeconds;
+  return now.getTime() - new Date(rule.lastTriggeredAt).getTime() < cooldownSeconds * 1000;
+}
+
+// Camera recording commands go through the recording service, which keeps a
+// recordings row for each clip and snapshot
+async function issueAutomationCommand(rule: AutomationRule, device: Device, command: DeviceCommandInput): Promise<void> {
+  const origin = { trigger: rule.trigger.type === "schedule" ? "schedule" as const : "alert" as const, automationRuleId: rule.id };
+  switch (command.command) {
+    case "start_recording":
+      await startRecording(device, origin);
+      return;
+    case "stop_recording": {
+      const active = await storage.getActiveRecording(device.id);
+      if (active) {
+        await stopRecording(active);
+      }
+      return;
+    }
+    case "capture_snapshot":
+      await captureSnapshot(device, origin);
+      return;
+    default:
+      await issueDeviceCommand(device, command, { source: "automation", automationRuleId: rule.id });
+  }
+}
+
+async function executeAction(rule: AutomationRule, action: AutomationAction, house: House): Promise<void> {
+  switch (action.type) {
+    case "device_command": {
+      const device = await storage.getDevice(action.deviceId);
+      // Rules can only drive devices in their own house
+      if (!device || device.houseId !== house.id) {
+        throw new Error(`Device ${action.deviceId} not found in house ${house.id}`);
+      }
+      const command = parseDeviceCommand(device, { command: action.command, params: action.params });
+      await issueAutomationCommand(rule, device, command);
+      log(`rule "${rule.name}" queued ${action.command} for ${device.name}`, "automation");
+      break;
+    }
+
+    case "create_alert":
+      await raiseAlert({
+        houseId: house.id,
+        type: action.alertType,
+        severity: action.severity,
+        title: action.title,
+        description: action.description || `Raised by automation rule "${rule.name}"`,
+        aiDetails: { automationRuleId: rule.id },
+        status: "new",
+      });
+      break;
+
+    case "notify":
+      await notifyHouse(house.id, { title: rule.name, body: action.message, severity: action.severity });
+      log(`rule "${rule.name}" notified ${house.name} [${action.severity}]`, "automation");
+      break;
+  }
+}
+
+async function runRule(rule: AutomationRule, house: House, now: Date): Promise<void> {
+  // Mark first so overlapping events within the cooldown don't fire the rule twice
+  rule.lastTriggeredAt = now;
+  await storage.markAutomationRuleTriggered(rule.id, now);
+
+  for (const action of rule.actions) {
+    try {
+      await executeAction(rule, action, house);
+    } catch (error) {
+      console.error(`Automation rule ${rule.id} action ${action.type} failed:`, error);
+    }
+  }
+}
+
+async function evaluateRules(house: House, rules: AutomationRule[], events: AutomationEvent[], now: Date): Promise<void> {
+  for (const rule of rules) {
+    if (isCoolingDown(rule, now)) {
+      continue;
+    }
+    if (!events.some((event) => matchesTrigger(rule.trigger, event, house))) {
+      continue;
+    }
+    if (!rule.conditions.every((condition) => conditionHolds(condition, house, now))) {
+      continue;
+    }
+    await runRule(rule, house, now);
+  }
+}
+
+async function dispatch(houseId: string, events: AutomationEvent[]): Promise<void> {
+  const rules = await storage.getActiveAutomationRulesByHouse(houseId);
+  if (rules.length === 0) {
+    return;
+  }
+  const house = await storage.getHouseById(houseId);
+  if (!house) {
+    return;
+  }
+  await evaluateRules(house, rules, events, new Date());
+}
+
+export async function onSensorReadings(device: Device, readings: SensorData[]): Promise<void> {
+  if (readings.length === 0) {
+    return;
+  }
+  await dispatch(device.houseId, readings.map((reading) => ({ kind: "sensor" as const, device, reading })));
+}
+
+export async function onAlertCreated(alert: Alert): Promise<void> {
+  // Alerts raised by rules don't trigger rules, so rules can't loop on each other
+  const details = alert.aiDetails as { automationRuleId?: string } | null;
+  if (details?.automationRuleId) {
+    return;
+  }
+  await dispatch(alert.houseId, [{ kind: "alert", alert }]);
+}
+
+export async function onDeviceStatusChanged(device: Device, previousStatus: Device["status"]): Promise<void> {
+  if (device.status === previousStatus) {
+    return;
+  }
+  await dispatch(device.houseId, [{ kind: "device_status", device, previousStatus }]);
+}
+
+// The last minute (since the epoch) schedule triggers were evaluated for
+let lastScheduledMinute: number | null = null;
+
+async function runScheduledRules(now: Date): Promise<void> {
+  // The tick drifts, so evaluate every minute since the last run rather than
+  // only the current one, which would now and then skip a minute
+  const currentMinute = Math.floor(now.getTime() / 60_000);
+  const firstMinute = lastScheduledMinute === null
+    ? currentMinute
+    : Math.max(lastScheduledMinute + 1, currentMinute - MAX_SCHEDULE_CATCH_UP_MINUTES + 1);
+  lastScheduledMinute = currentMinute;
+  const events: AutomationEvent[] = [];
+  for (let minute = firstMinute; minute <= currentMinute; minute++) {
+    events.push({ kind: "schedule", now: new Date(minute * 60_000) });
+  }
+  if (events.length === 0) {
+    return;
+  }
+
+  const rules = await storage.getActiveAutomationRulesByTriggerType("schedule");
+  const rulesByHouse = new Map<string, AutomationRule[]>();
+  for (const rule of rules) {
+    rulesByHouse.set(rule.houseId, [...(rulesByHouse.get(rule.houseId) || []), rule]);
+  }
+
+  // One house failing doesn't hold up the schedules of the others
+  for (const [houseId, houseRules] of Array.from(rulesByHouse.entries())) {
+    try {
+      const house = await storage.getHouseById(houseId);
+      if (house) {
+        await evaluateRules(house, houseRules, events, now);
+      }
+    } catch (error) {
+      console.error(`Scheduled automation rules failed for house ${houseId}:`, error);
+    }
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export function startAutomationScheduler(): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(() => {
+    runScheduledRules(new Date()).catch((error) => {
+      console.error("Automation scheduler failed:", error);
+    });
+  }, 60_000);
+
+  log("automation scheduler running every 60s", "automation");
+}
@@ -3,15 +3,50 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as GitHubStrategy } from "passport-github2";
 import { Strategy as TwitterStrategy } from "passport-twitter";
-import { Express } from "express";
+import { Express, type Request } from "express";
 import session from "express-session";
 import ConnectPgSimple from "connect-pg-simple";
 import bcrypt from "bcryptjs";
+import { ZodError } from "zod";
 import { pool } from "./db";
 import { storage } from "./storage";
-import type { User } from "@shared/schema";
+import { verifyTwoFactorSchema, type User } from "@shared/schema";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildEnrollmentQrCode,
+  generateRecoveryCodes,
+  consumeRecoveryCode,
+  isTwoFactorRequired,
+  isStaffTwoFactorPolicyEnabled,
+} from "./twoFactor";
+import { getPlatformSettings } from "./platformSettings";
+import { apiRateLimiter, auditApiChanges } from "./middleware";
 
-const sessionTtl = 1000 * 60 * 60 * 24 * 30; // 30 days
+declare module "express-session" {
+  interface SessionData {
+    pendingTwoFactorUserId?: string; // Password verified, waiting for the second factor
+    pendingTwoFactorAttempts?: number;
+    twoFactorEnrollmentRequired?: boolean; // Logged in, but must enroll before using the API
+  }
+}
+
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Middleware to check if user is authenticated
+function isAuthenticated(req: any, res: any, next: any) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+}
+
+// Stamp the configured session timeout on a session just signed in to. Login
+// regenerates the session, so this runs after it; a changed timeout applies
+// from each user's next login.
+function applySessionTimeout(req: Request) {
+  req.session.cookie.maxAge = getPlatformSettings().sessionTimeoutMinutes * 60_000;
+}
 
 function getSession() {
   const pgSession = ConnectPgSimple(session);
@@ -28,7 +63,6 @@ function getSession() {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-      maxAge: sessionTtl,
     },
   });
 }
@@ -39,6 +73,19 @@ export async function setupCustomAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  app.use("/api", apiRateLimiter, auditApiChanges);
+
+  // Staff who must enroll in 2FA can only reach the auth endpoints until they do
+  app.use("/api", (req, res, next) => {
+    if (req.isAuthenticated() && req.session.twoFactorEnrollmentRequired && !req.path.startsWith("/auth/")) {
+      return res.status(403).json({
+        message: "Two-factor authentication enrollment required",
+        twoFactorEnrollmentRequired: true,
+      });
+    }
+    next();
+  });
+
   // Serialize/deserialize user
   passport.serializeUser((user: any, done) => {
     done(null, user.id);
@@ -226,6 +273,7 @@ export async function setupCustomAuth(app: Express) {
         if (err) {
           return res.status(500).json({ message: "Login failed after registration" });
         }
+        applySessionTimeout(req);
         res.json({ message: "Registration successful", user: { id: user.id, email: user.email, role: user.role } });
       });
     } catch (error: any) {
@@ -235,44 +283,247 @@ export async function setupCustomAuth(app: Express) {
 
   // Email/Password Login
   app.post("/api/auth/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+    passport.authenticate("local", async (err: any, user: User | false, info: any) => {
       if (err) {
         return res.status(500).json({ message: "Authentication error" });
       }
       if (!user) {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
+
+      try {
+        // Enrolled users must complete the second factor before a session is established
+        const twoFactor = await storage.getUserTwoFactor(user.id);
+        if (twoFactor?.enabled) {
+          req.session.pendingTwoFactorUserId = user.id;
+          req.session.pendingTwoFactorAttempts = 0;
+          return res.json({ message: "Two-factor code required", twoFactorRequired: true });
+        }
+      } catch (error) {
+        return res.status(500).json({ message: "Authentication error" });
+      }
+
       req.login(user, (err) => {
         if (err) {
           return res.status(500).json({ message: "Login failed" });
         }
-        res.json({ message: "Login successful", user: { id: user.id, email: user.email, role: user.role } });
+        applySessionTimeout(req);
+        const twoFactorEnrollmentRequired = isTwoFactorRequired(user);
+        req.session.twoFactorEnrollmentRequired = twoFactorEnrollmentRequired;
+        res.json({
+          message: "Login successful",
+          user: { id: user.id, email: user.email, role: user.role },
+          twoFactorEnrollmentRequired,
+        });
       });
     })(req, res, next);
   });
 
+  // Second step of a local login: TOTP code or single-use recovery code
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const userId = req.session.pendingTwoFactorUserId;
+      if (!userId) {
+        return res.status(401).json({ message: "No pending login. Please sign in again." });
+      }
+
+      const { code, recoveryCode } = verifyTwoFactorSchema.parse(req.body);
+      const [user, twoFactor] = await Promise.all([
+        storage.getUser(userId),
+        storage.getUserTwoFactor(userId),
+      ]);
+      if (!user || !twoFactor?.enabled) {
+        delete req.session.pendingTwoFactorUserId;
+        return res.status(401).json({ message: "No pending login. Please sign in again." });
+      }
+
+      let verified = false;
+      if (code) {
+        verified = await verifyTotp(twoFactor, code);
+      } else if (recoveryCode) {
+        verified = await consumeRecoveryCode(userId, recoveryCode);
+      }
+
+      if (!verified) {
+        const attempts = (req.session.pendingTwoFactorAttempts || 0) + 1;
+        if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactorUserId;
+          delete req.session.pendingTwoFactorAttempts;
+          return res.status(401).json({ message: "Too many invalid codes. Please sign in again." });
+        }
+        req.session.pendingTwoFactorAttempts = attempts;
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      req.login(user, (err) => {
+        if (err) {
+          return res.status(500).json({ message: "Login failed" });
+        }
+        applySessionTimeout(req);
+        res.json({ message: "Login successful", user: { id: user.id, email: user.email, role: user.role } });
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Two-factor verification failed" });
+    }
+  });
+
+  // Current user's 2FA state
+  app.get("/api/auth/2fa/status", isAuthenticated, async (req: any, res) => {
+    try {
+      const twoFactor = await storage.getUserTwoFactor(req.user.id);
+      res.json({
+        available: !!req.user.password,
+        enabled: !!twoFactor?.enabled,
+        required: isTwoFactorRequired(req.user),
+        policyEnabled: isStaffTwoFactorPolicyEnabled(),
+        recoveryCodesRemaining: twoFactor?.enabled ? twoFactor.recoveryCodes.length : 0,
+      });
+    } catch (error) {
+      console.error("Error fetching 2FA status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Start enrollment: issue a new secret (not active until confirmed with a code)
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req: any, res) => {
+    try {
+      const user: User = req.user;
+      if (!user.password) {
+        return res.status(400).json({ message: "Two-factor authentication is only available for email/password accounts" });
+      }
+
+      const existing = await storage.getUserTwoFactor(user.id);
+      if (existing?.enabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.upsertUserTwoFactor({ userId: user.id, secret, enabled: false, recoveryCodes: [], lastUsedStep: null });
+      const { otpauthUrl, qrCodeDataUrl } = await buildEnrollmentQrCode(secret, user.email);
+
+      res.json({ secret, otpauthUrl, qrCodeDataUrl });
+    } catch (error) {
+      console.error("Error starting 2FA setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Finish enrollment: confirm the first code and hand out recovery codes
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = verifyTwoFactorSchema.parse(req.body);
+      const twoFactor = await storage.getUserTwoFactor(req.user.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      if (twoFactor.enabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!code || !(await verifyTotp(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      // Not the whole record: lastUsedStep was just moved on by verifyTotp
+      await storage.upsertUserTwoFactor({
+        userId: twoFactor.userId,
+        secret: twoFactor.secret,
+        enabled: true,
+        enabledAt: new Date(),
+        recoveryCodes: hashes,
+      });
+      req.session.twoFactorEnrollmentRequired = false;
+
+      res.json({ message: "Two-factor authentication enabled", recoveryCodes: codes });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error enabling 2FA:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Replace all recovery codes (requires a current TOTP code)
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = verifyTwoFactorSchema.parse(req.body);
+      const twoFactor = await storage.getUserTwoFactor(req.user.id);
+      if (!twoFactor?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!code || !(await verifyTotp(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.upsertUserTwoFactor({ userId: twoFactor.userId, secret: twoFactor.secret, recoveryCodes: hashes });
+
+      res.json({ recoveryCodes: codes });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Turn 2FA off (requires a current TOTP code, blocked when policy requires it)
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req: any, res) => {
+    try {
+      const { code } = verifyTwoFactorSchema.parse(req.body);
+      if (isTwoFactorRequired(req.user)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+
+      const twoFactor = await storage.getUserTwoFactor(req.user.id);
+      if (!twoFactor?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (!code || !(await verifyTotp(twoFactor, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.deleteUserTwoFactor(req.user.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error disabling 2FA:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
   // Google OAuth
   app.get("/api/auth/google", passport.authenticate("google", { scope: ["profile", "email"] }));
   app.get("/api/auth/google/callback", passport.authenticate("google", { failureRedirect: "/" }), (req, res) => {
+    applySessionTimeout(req);
     res.redirect("/");
   });
 
   // GitHub OAuth
   app.get("/api/auth/github", passport.authenticate("github", { scope: ["user:email"] }));
   app.get("/api/auth/github/callback", passport.authenticate("github", { failureRedirect: "/" }), (req, res) => {
+    applySessionTimeout(req);
     res.redirect("/");
   });
 
   // Twitter OAuth
   app.get("/api/auth/twitter", passport.authenticate("twitter"));
   app.get("/api/auth/twitter/callback", passport.authenticate("twitter", { failureRedirect: "/" }), (req, res) => {
+    applySessionTimeout(req);
     res.redirect("/");
   });
 
   // Get current user
   app.get("/api/auth/user", (req, res) => {
     if (req.isAuthenticated()) {
-      res.json(req.user);
+      res.json({ ...req.user, twoFactorEnrollmentRequired: !!req.session.twoFactorEnrollmentRequired });
     } else {
       res.status(401).json({ message: "Unauthorized" });
     }
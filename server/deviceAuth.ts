@@ -0,0 +1,62 @@
+/**
+ * Device Authentication
+ *
+ * Devices authenticate to the device-facing API with their serial number and an
+ * API key issued by the IoT team:
+ *
+ *   X-Device-Serial: SN123456789
+ *   Authorization: Bearer shc_dev_...
+ *
+ * Only the SHA-256 hash of each key is stored. Keys can be rotated or revoked
+ * per device without touching any other device.
+ */
+
+import type { RequestHandler } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+
+const DEVICE_KEY_PREFIX = "shc_dev_";
+
+export function hashDeviceKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generate a new device API key. The plaintext key is only ever returned here.
+ */
+export function generateDeviceKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${DEVICE_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  return {
+    key,
+    keyHash: hashDeviceKey(key),
+    keyPrefix: key.slice(0, DEVICE_KEY_PREFIX.length + 6),
+  };
+}
+
+// Authenticates a device request and attaches the device as req.device
+export const requireDeviceAuth: RequestHandler = async (req: any, res, next) => {
+  try {
+    const serialNumber = req.get("x-device-serial");
+    const authHeader = req.get("authorization") || "";
+    const key = authHeader.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : "";
+
+    if (!serialNumber || !key) {
+      return res.status(401).json({ message: "Device credentials required" });
+    }
+
+    const credential = await storage.getActiveDeviceCredentialByHash(hashDeviceKey(key));
+    const device = credential ? await storage.getDevice(credential.deviceId) : undefined;
+
+    // The key must belong to the device claiming this serial number
+    if (!credential || !device || device.serialNumber !== serialNumber) {
+      return res.status(401).json({ message: "Invalid device credentials" });
+    }
+
+    await storage.touchDeviceCredential(credential.id);
+    req.device = device;
+    next();
+  } catch (error) {
+    console.error("Device auth error:", error);
+    res.status(500).json({ message: "Device authentication failed" });
+  }
+};
@@ -0,0 +1,184 @@
+/**
+ * Device Commands
+ *
+ * Device twin for controllable devices. devices.config is the reported state,
+ * what the device last said it is doing; devices.desiredState is what users and
+ * automation rules asked for. Issuing a command queues it in device_commands
+ * and merges its effect into desiredState. Devices pull their queue (pending
+ * commands become delivered) and acknowledge each command: an ack updates the
+ * reported state (but never the device's settings, also kept in devices.config), while a failure or expiry puts the desired state back to what
+ * was reported, unless a later command has changed it since. Overdue commands
+ * are expired by the device watchdog sweep and whenever a device's queue is read.
+ *
+ * Configuration (environment):
+ *   DEVICE_COMMAND_TTL_SECONDS  How long a command waits for its device (default 300)
+ */
+
+import {
+  DEVICE_TYPE_COMMANDS,
+  deviceCommandSchema,
+  type Device,
+  type DeviceCommand,
+  type DeviceCommandAck,
+  type DeviceCommandInput,
+  type DeviceState,
+} from "@shared/schema";
+import { defaultDeviceSettings, deviceConfigSchema, omitDeviceSettings, pickDeviceSettings } from "@shared/deviceConfig";
+import { storage } from "./storage";
+import { envInt } from "./env";
+
+export class DeviceCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceCommandError";
+  }
+}
+
+/**
+ * The state a device should be in once it has applied the command.
+ */
+export function commandEffect(input: DeviceCommandInput): DeviceState {
+  switch (input.command) {
+    case "lock":
+      return { locked: true };
+    case "unlock":
+      return { locked: false };
+    case "turn_on":
+      return { on: true, ...input.params };
+    case "turn_off":
+      return { on: false };
+    case "set_brightness":
+      return { on: input.params.brightness > 0, brightness: input.params.brightness };
+    case "set_temperature":
+      return { targetTemp: input.params.targetTemp };
+    case "start_recording":
+      return { recording: true };
+    case "stop_recording":
+      return { recording: false };
+    case "capture_snapshot":
+      return {};
+  }
+}
+
+/**
+ * Parse a command and check that the device's type accepts it.
+ * Throws DeviceCommandError otherwise.
+ */
+export function parseDeviceCommand(device: Device, input: unknown): DeviceCommandInput {
+  const parsed = deviceCommandSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new DeviceCommandError(parsed.error.errors[0]?.message || "Invalid command");
+  }
+  if (!DEVICE_TYPE_COMMANDS[device.type].includes(parsed.data.command)) {
+    throw new DeviceCommandError(`A ${device.type.replace(/_/g, " ")} does not accept "${parsed.data.command}"`);
+  }
+  if (parsed.data.command === "set_temperature") {
+    // Setpoints stay inside the thermostat's configured range
+    const settings = deviceConfigSchema("thermostat").safeParse(pickDeviceSettings("thermostat", device.config));
+    const { minTemp, maxTemp } = settings.success ? settings.data : defaultDeviceSettings("thermostat");
+    const { targetTemp } = parsed.data.params;
+    if (targetTemp < minTemp || targetTemp > maxTemp) {
+      throw new DeviceCommandError(`Target temperature must be between ${minTemp} and ${maxTemp}°F`);
+    }
+  }
+  return parsed.data;
+}
+
+/**
+ * Queue a command for a device and record its effect as desired state.
+ */
+export async function issueDeviceCommand(
+  device: Device,
+  input: DeviceCommandInput,
+  origin: { source: DeviceCommand["source"]; issuedBy?: string; automationRuleId?: string },
+): Promise<{ command: DeviceCommand; device: Device }> {
+  const ttlSeconds = envInt("DEVICE_COMMAND_TTL_SECONDS", 300);
+  const command = await storage.createDeviceCommand({
+    deviceId: device.id,
+    command: input.command,
+    params: "params" in input ? input.params ?? null : null,
+    source: origin.source,
+    issuedBy: origin.issuedBy ?? null,
+    automationRuleId: origin.automationRuleId ?? null,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+  });
+  const updatedDevice = await storage.mergeDeviceState(device.id, "desiredState", commandEffect(input));
+  return { command, device: updatedDevice };
+}
+
+function effectOf(command: DeviceCommand): DeviceState {
+  return commandEffect(deviceCommandSchema.parse({
+    command: command.command,
+    ...(command.params && { params: command.params }),
+  }));
+}
+
+// Point desired keys this command set back at the reported values
+async function revertDesiredState(command: DeviceCommand): Promise<void> {
+  const device = await storage.getDevice(command.deviceId);
+  if (!device) {
+    return;
+  }
+
+  const desired = device.desiredState || {};
+  const reported = device.config || {};
+  const reverted = Object.fromEntries(
+    Object.entries(effectOf(command))
+      .filter(([key, value]) => desired[key] === value && reported[key] !== value)
+      .map(([key]) => [key, reported[key] ?? null]),
+  );
+  if (Object.keys(reverted).length > 0) {
+    await storage.mergeDeviceState(device.id, "desiredState", reverted);
+  }
+}
+
+/**
+ * Mark overdue commands expired, for one device or all of them.
+ */
+export async function expireDeviceCommands(deviceId?: string): Promise<void> {
+  for (const command of await storage.expireDeviceCommands(deviceId)) {
+    await revertDesiredState(command);
+  }
+}
+
+/**
+ * Commands a device should apply now, plus the desired state to reconcile with.
+ */
+export async function pullDeviceCommands(
+  device: Device,
+): Promise<{ commands: DeviceCommand[]; desiredState: DeviceState }> {
+  await expireDeviceCommands(device.id);
+  const commands = await storage.claimDeviceCommands(device.id);
+  // Re-read: expiring commands may have just reverted part of the desired state
+  const current = await storage.getDevice(device.id);
+  return { commands, desiredState: current?.desiredState || {} };
+}
+
+/**
+ * Record a device's result for one of its commands. Returns undefined when the
+ * command isn't the device's; throws DeviceCommandError when it has already
+ * completed or expired.
+ */
+export async function acknowledgeDeviceCommand(
+  device: Device,
+  commandId: string,
+  ack: DeviceCommandAck,
+): Promise<DeviceCommand | undefined> {
+  const existing = await storage.getDeviceCommand(commandId);
+  if (!existing || existing.deviceId !== device.id) {
+    return undefined;
+  }
+
+  const command = await storage.completeDeviceCommand(commandId, ack.status, ack.error);
+  if (!command) {
+    await expireDeviceCommands(device.id);
+    throw new DeviceCommandError(`Command is already ${(await storage.getDeviceCommand(commandId))?.status}`);
+  }
+
+  if (command.status === "acked") {
+    await storage.mergeDeviceState(device.id, "config", omitDeviceSettings(device.type, ack.state ?? effectOf(command)));
+  } else {
+    await revertDesiredState(command);
+  }
+  return command;
+}
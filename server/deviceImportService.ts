@@ -0,0 +1,246 @@
+/**
+ * Device Import / Export
+ *
+ * Bulk onboarding for staff. An import file is CSV (a header row naming
+ * insertDeviceSchema fields, e.g. the columns of an export) or a JSON array of
+ * rows. Every row is validated, along with references the schema can't check:
+ * the house must exist and serial numbers must be unused, both in the database
+ * and within the file. Nothing is written unless every row is valid, so a dry
+ * run and a real import return the same report. Exports list a house's or the
+ * whole fleet's devices in DEVICE_EXPORT_COLUMNS, ready to edit and import,
+ * with their settings but not their reported state.
+ * CSV text cells that a spreadsheet would read as a formula are exported with
+ * a leading ', which imports drop.
+ *
+ * Configuration (environment):
+ *   DEVICE_IMPORT_MAX_ROWS  Largest file accepted, in rows (default 5000)
+ */
+
+import {
+  DEVICE_EXPORT_COLUMNS,
+  deviceImportRowSchema,
+  type Device,
+  type DeviceImportReport,
+  type DeviceImportRowError,
+  type InsertDevice,
+} from "@shared/schema";
+import { pickDeviceSettings } from "@shared/deviceConfig";
+import { storage } from "./storage";
+import { envInt } from "./env";
+
+export class DeviceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceImportError";
+  }
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new DeviceImportError("The CSV file has an unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no row
+  return records.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Text spreadsheets would run as a formula when the file is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // A leading ' makes spreadsheets show the cell as text; import strips it again
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV cells are strings: empty cells are left out and config holds JSON
+function csvRowToObject(header: string[], cells: string[]): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  header.forEach((column, i) => {
+    let value = cells[i]?.trim() ?? "";
+    if (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))) {
+      value = value.slice(1);
+    }
+    if (value === "") {
+      return;
+    }
+    if (column === "config") {
+      try {
+        row.config = JSON.parse(value);
+      } catch {
+        row.config = value; // Rejected by the schema with a row-level error
+      }
+      return;
+    }
+    row[column] = value;
+  });
+  return row;
+}
+
+/**
+ * Turn an uploaded file into rows. Throws DeviceImportError when the file
+ * can't be read at all; problems with individual rows are left to validation.
+ */
+export function parseImportFile(content: string, format: "csv" | "json"): Record<string, unknown>[] {
+  let rows: unknown[];
+  if (format === "json") {
+    try {
+      rows = JSON.parse(content);
+    } catch {
+      throw new DeviceImportError("The file is not valid JSON");
+    }
+    if (!Array.isArray(rows)) {
+      throw new DeviceImportError("A JSON import must be an array of device rows");
+    }
+  } else {
+    const [header, ...records] = parseCsv(content.replace(/^\uFEFF/, ""));
+    if (!header) {
+      throw new DeviceImportError("The file is empty");
+    }
+    const columns = header.map((column) => column.trim());
+    rows = records.map((cells) => csvRowToObject(columns, cells));
+  }
+
+  const maxRows = envInt("DEVICE_IMPORT_MAX_ROWS", 5000);
+  if (rows.length === 0) {
+    throw new DeviceImportError("The file has no device rows");
+  }
+  if (rows.length > maxRows) {
+    throw new DeviceImportError(`The file has ${rows.length} rows; at most ${maxRows} can be imported at once`);
+  }
+  return rows.map((row) => (row && typeof row === "object" && !Array.isArray(row) ? row as Record<string, unknown> : {}));
+}
+
+/**
+ * Validate rows and, unless this is a dry run or any row is invalid, create
+ * all of their devices in one transaction. Rows are numbered from 1, not
+ * counting a CSV header.
+ */
+export async function importDevices(
+  rawRows: Record<string, unknown>[],
+  dryRun: boolean,
+  userId: string,
+): Promise<DeviceImportReport> {
+  const errors: DeviceImportRowError[] = [];
+  const valid: { row: number; device: InsertDevice }[] = [];
+
+  rawRows.forEach((raw, index) => {
+    const { id: _ignored, ...fields } = raw;
+    const parsed = deviceImportRowSchema.safeParse(fields);
+    if (parsed.success) {
+      valid.push({ row: index + 1, device: parsed.data });
+    } else {
+      for (const issue of parsed.error.errors) {
+        errors.push({ row: index + 1, field: issue.path.join(".") || undefined, message: issue.message });
+      }
+    }
+  });
+
+  const houseIds = new Set((await storage.getAllHouses()).map((house) => house.id));
+  const serialNumbers = valid.map(({ device }) => device.serialNumber).filter((serial): serial is string => !!serial);
+  const taken = new Set(await storage.getTakenSerialNumbers(serialNumbers));
+  const seen = new Map<string, number>();
+
+  for (const { row, device } of valid) {
+    if (!houseIds.has(device.houseId)) {
+      errors.push({ row, field: "houseId", message: "House not found" });
+    }
+    if (device.serialNumber) {
+      if (taken.has(device.serialNumber)) {
+        errors.push({ row, field: "serialNumber", message: `Serial number ${device.serialNumber} is already in use` });
+      } else if (seen.has(device.serialNumber)) {
+        errors.push({ row, field: "serialNumber", message: `Duplicate of row ${seen.get(device.serialNumber)}` });
+      } else {
+        seen.set(device.serialNumber, row);
+      }
+    }
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  const invalidRows = new Set(errors.map((error) => error.row));
+  const report: DeviceImportReport = {
+    dryRun,
+    total: rawRows.length,
+    valid: rawRows.length - invalidRows.size,
+    imported: 0,
+    errors,
+  };
+  if (dryRun || errors.length > 0) {
+    return report;
+  }
+
+  const created = await storage.createDevices(valid.map(({ device }) => device));
+  await storage.createUserConfigLog({
+    userId,
+    configKey: "devices_imported",
+    oldValue: null,
+    newValue: JSON.stringify({ count: created.length, houseIds: Array.from(new Set(created.map((d) => d.houseId))) }),
+    timestamp: new Date(),
+  });
+  return { ...report, imported: created.length };
+}
+
+/**
+ * Devices as a CSV document or JSON array of DEVICE_EXPORT_COLUMNS.
+ */
+export function exportDevices(devices: Device[], format: "csv" | "json"): string {
+  const rows = devices.map((device) =>
+    Object.fromEntries(DEVICE_EXPORT_COLUMNS.map((column) => [
+      column,
+      column === "config" ? pickDeviceSettings(device.type, device.config) : device[column],
+    ])),
+  );
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2);
+  }
+  return [
+    DEVICE_EXPORT_COLUMNS.join(","),
+    ...rows.map((row) => DEVICE_EXPORT_COLUMNS.map((column) => csvField(row[column])).join(",")),
+  ].join("\r\n") + "\r\n";
+}
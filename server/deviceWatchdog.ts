@@ -0,0 +1,204 @@
+/**
+ * Device Heartbeat Watchdog
+ *
+ * Periodically sweeps the fleet and compares each device's lastSeen against a
+ * per-type silence window. Quiet devices are flipped to "warning" and then
+ * "offline", and a device_offline alert is raised. Devices reporting a low
+ * battery get a low_battery alert. Alerts are deduplicated (one open alert per
+ * device and type) and auto-resolved when the device checks in again. Each
+ * sweep also expires device commands their devices never acknowledged.
+ *
+ * Configuration (environment):
+ *   DEVICE_WATCHDOG_INTERVAL_SECONDS  Sweep interval (default 60)
+ *   DEVICE_SILENCE_WINDOWS            JSON overrides per device type, in minutes, e.g.
+ *                                     {"camera":{"warningAfter":2,"offlineAfter":5}}
+ *   LOW_BATTERY_THRESHOLD             Battery percentage that counts as low (default 20)
+ */
+
+import type { Alert, Device } from "@shared/schema";
+import { storage } from "./storage";
+import { publishAlertEvent } from "./alertEvents";
+import { raiseAlert } from "./alertService";
+import { onDeviceStatusChanged } from "./automationEngine";
+import { expireDeviceCommands } from "./deviceCommandService";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+type DeviceType = Device["type"];
+
+interface SilenceWindow {
+  warningAfter: number; // minutes without a heartbeat before status becomes "warning"
+  offlineAfter: number; // minutes without a heartbeat before status becomes "offline"
+}
+
+// Always-on streaming devices report often; battery sensors report sparsely
+const DEFAULT_SILENCE_WINDOWS: Record<DeviceType, SilenceWindow> = {
+  camera: { warningAfter: 2, offlineAfter: 5 },
+  microphone: { warningAfter: 2, offlineAfter: 5 },
+  lock: { warningAfter: 10, offlineAfter: 30 },
+  light: { warningAfter: 10, offlineAfter: 30 },
+  thermostat: { warningAfter: 15, offlineAfter: 45 },
+  motion_sensor: { warningAfter: 30, offlineAfter: 90 },
+  smoke_detector: { warningAfter: 60, offlineAfter: 180 },
+  keypad: { warningAfter: 30, offlineAfter: 90 },
+};
+
+// Safety-critical devices going dark is more urgent than a light bulb
+const CRITICAL_DEVICE_TYPES: DeviceType[] = ["camera", "lock", "smoke_detector", "keypad"];
+
+function loadSilenceWindows(): Record<DeviceType, SilenceWindow> {
+  const windows = { ...DEFAULT_SILENCE_WINDOWS };
+  if (!process.env.DEVICE_SILENCE_WINDOWS) {
+    return windows;
+  }
+
+  try {
+    const overrides = JSON.parse(process.env.DEVICE_SILENCE_WINDOWS) as Partial<Record<DeviceType, Partial<SilenceWindow>>>;
+    for (const [type, override] of Object.entries(overrides)) {
+      if (type in windows && override) {
+        windows[type as DeviceType] = { ...windows[type as DeviceType], ...override };
+      }
+    }
+  } catch (error) {
+    console.error("Invalid DEVICE_SILENCE_WINDOWS, using defaults:", error);
+  }
+  return windows;
+}
+
+const silenceWindows = loadSilenceWindows();
+
+export function getLowBatteryThreshold(): number {
+  return envInt("LOW_BATTERY_THRESHOLD", 20);
+}
+
+export function isBatteryLow(batteryLevel: number | null | undefined): boolean {
+  return batteryLevel !== null && batteryLevel !== undefined && batteryLevel <= getLowBatteryThreshold();
+}
+
+// Raise an alert unless one of the same type is already open for this device
+async function raiseDeviceAlert(
+  device: Device,
+  alert: Pick<Alert, "type" | "severity" | "title" | "description">,
+): Promise<void> {
+  const openAlerts = await storage.getOpenAlertsForDevice(device.id, alert.type);
+  if (openAlerts.length > 0) {
+    return;
+  }
+
+  await raiseAlert({
+    ...alert,
+    houseId: device.houseId,
+    deviceId: device.id,
+    location: device.room,
+    status: "new",
+  });
+}
+
+async function setDeviceStatus(device: Device, status: Device["status"]): Promise<void> {
+  const updated = await storage.updateDevice(device.id, { status });
+  await onDeviceStatusChanged(updated, device.status);
+}
+
+async function resolveDeviceAlerts(deviceId: string, type: Alert["type"]): Promise<void> {
+  const resolved = await storage.resolveOpenAlertsForDevice(deviceId, type);
+  for (const alert of resolved) {
+    await storage.createAlertActivity({
+      alertId: alert.id,
+      type: "status_changed",
+      actorId: null,
+      details: { to: "resolved", reason: "Device recovered" },
+    });
+    publishAlertEvent("resolved", alert);
+  }
+}
+
+async function checkDevice(device: Device, now: number): Promise<void> {
+  // Devices that have never reported (e.g. pre-registered hardware) are not monitored yet
+  if (!device.lastSeen) {
+    return;
+  }
+
+  const window = silenceWindows[device.type];
+  const silentMinutes = (now - new Date(device.lastSeen).getTime()) / 60_000;
+
+  if (silentMinutes >= window.offlineAfter) {
+    if (device.status !== "offline") {
+      await setDeviceStatus(device, "offline");
+    }
+    await raiseDeviceAlert(device, {
+      type: "device_offline",
+      severity: CRITICAL_DEVICE_TYPES.includes(device.type) ? "high" : "medium",
+      title: `${device.name} is offline`,
+      description: `${device.name} in ${device.room} has not reported for ${Math.floor(silentMinutes)} minutes ` +
+        `(offline threshold ${window.offlineAfter} minutes).`,
+    });
+  } else if (silentMinutes >= window.warningAfter && device.status === "online") {
+    await setDeviceStatus(device, "warning");
+  }
+
+  if (isBatteryLow(device.batteryLevel)) {
+    await raiseDeviceAlert(device, {
+      type: "low_battery",
+      severity: device.batteryLevel! <= 5 ? "high" : "medium",
+      title: `${device.name} battery low`,
+      description: `${device.name} in ${device.room} reported ${device.batteryLevel}% battery ` +
+        `(threshold ${getLowBatteryThreshold()}%).`,
+    });
+  }
+}
+
+/**
+ * Run one sweep over all devices. Errors on one device don't stop the others.
+ */
+export async function runDeviceWatchdog(): Promise<void> {
+  const now = Date.now();
+  const devices = await storage.getAllDevices();
+
+  for (const device of devices) {
+    try {
+      await checkDevice(device, now);
+    } catch (error) {
+      console.error(`Device watchdog failed for device ${device.id}:`, error);
+    }
+  }
+
+  await expireDeviceCommands();
+}
+
+/**
+ * Called when a device checks in: clear its offline alert, and its low battery
+ * alert if the battery has recovered.
+ */
+export async function handleDeviceCheckIn(device: Device): Promise<void> {
+  await resolveDeviceAlerts(device.id, "device_offline");
+  if (device.batteryLevel !== null && !isBatteryLow(device.batteryLevel)) {
+    await resolveDeviceAlerts(device.id, "low_battery");
+  }
+}
+
+let watchdogTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+export function startDeviceWatchdog(): void {
+  if (watchdogTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("DEVICE_WATCHDOG_INTERVAL_SECONDS", 60);
+  watchdogTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweepInProgress) {
+      return;
+    }
+    sweepInProgress = true;
+    try {
+      await runDeviceWatchdog();
+    } catch (error) {
+      console.error("Device watchdog sweep failed:", error);
+    } finally {
+      sweepInProgress = false;
+    }
+  }, intervalSeconds * 1000);
+
+  log(`device watchdog running every ${intervalSeconds}s`, "watchdog");
+}
@@ -0,0 +1,533 @@
+/**
+ * Local DSP Audio Classifier
+ *
+ * Decodes WAV (PCM integer or IEEE float) audio, splits it into short frames
+ * and extracts classic signal features: RMS loudness, zero-crossing rate and
+ * FFT-based spectral centroid, flatness and high-frequency energy. The clip's
+ * aggregate features are scored against sound signatures (feature ranges), so
+ * the same file always produces the same result.
+ *
+ * Configuration (environment):
+ *   AUDIO_DSP_SIGNATURES  JSON array of signatures. An entry whose label matches
+ *                         a default replaces it; other entries are added, e.g.
+ *                         [{"label":"Glass breaking","severity":"critical","type":"emergency",
+ *                           "conditions":{"transientRatio":{"min":10}}}]
+ */
+
+import { z } from "zod";
+import { AudioDecodeError, type AudioClassifier, type AudioPrediction } from "./audioClassifier";
+
+// Only the first two minutes of a clip are analyzed
+const MAX_ANALYSIS_SECONDS = 120;
+
+// Header values beyond these aren't real recordings; refused before any
+// buffer is sized from them
+const MAX_SAMPLE_RATE = 384_000;
+const MAX_CHANNELS = 32;
+// Frames at or above this level count as "loud"
+const LOUD_FRAME_DB = -20;
+// Frames below this level are treated as silence and skipped for spectral features
+const SILENT_FRAME_DB = -60;
+const HIGH_FREQUENCY_CUTOFF_HZ = 4000;
+
+const FEATURE_NAMES = [
+  'durationSeconds',
+  'rmsDb',
+  'peakDb',
+  'transientRatio',
+  'sustainedLoudSeconds',
+  'burstCount',
+  'zeroCrossingRate',
+  'spectralCentroidHz',
+  'peakSpectralCentroidHz',
+  'spectralFlatness',
+  'highFrequencyRatio',
+  'peakHighFrequencyRatio',
+] as const;
+
+type AudioFeatureName = typeof FEATURE_NAMES[number];
+export type AudioFeatures = Record<AudioFeatureName, number>;
+
+const featureRangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+const audioSignatureSchema = z.object({
+  label: z.string().min(1),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  type: z.enum(['emergency', 'safety', 'security', 'maintenance', 'health']),
+  conditions: z.record(z.enum(FEATURE_NAMES), featureRangeSchema),
+});
+
+type AudioSignature = z.infer<typeof audioSignatureSchema>;
+type FeatureRange = z.infer<typeof featureRangeSchema>;
+
+const DEFAULT_SIGNATURES: AudioSignature[] = [
+  {
+    // Sharp, short, bright impact
+    label: 'Glass breaking',
+    severity: 'critical',
+    type: 'emergency',
+    conditions: {
+      transientRatio: { min: 8 },
+      peakDb: { min: -25 },
+      peakSpectralCentroidHz: { min: 3000 },
+      peakHighFrequencyRatio: { min: 0.3 },
+      sustainedLoudSeconds: { max: 1.5 },
+    },
+  },
+  {
+    // Long, loud, harmonic voice in the upper vocal range
+    label: 'Human scream',
+    severity: 'critical',
+    type: 'emergency',
+    conditions: {
+      sustainedLoudSeconds: { min: 0.8 },
+      spectralCentroidHz: { min: 800, max: 3500 },
+      spectralFlatness: { min: 0.03, max: 0.3 },
+      zeroCrossingRate: { min: 0.03, max: 0.25 },
+    },
+  },
+  {
+    // Long, loud, almost pure tone
+    label: 'Alarm/Siren',
+    severity: 'critical',
+    type: 'emergency',
+    conditions: {
+      sustainedLoudSeconds: { min: 2 },
+      spectralFlatness: { max: 0.03 },
+      spectralCentroidHz: { min: 1500, max: 5000 },
+    },
+  },
+  {
+    // Sharp, short, dull impact
+    label: 'Door slam',
+    severity: 'medium',
+    type: 'security',
+    conditions: {
+      transientRatio: { min: 8 },
+      peakDb: { min: -25 },
+      peakSpectralCentroidHz: { max: 1500 },
+      sustainedLoudSeconds: { max: 1 },
+    },
+  },
+  {
+    // Several short loud bursts in the mid range
+    label: 'Dog barking',
+    severity: 'medium',
+    type: 'security',
+    conditions: {
+      burstCount: { min: 2, max: 12 },
+      sustainedLoudSeconds: { max: 0.6 },
+      spectralCentroidHz: { min: 400, max: 2000 },
+      peakDb: { min: -30 },
+    },
+  },
+  {
+    label: 'Human voice/speech',
+    severity: 'low',
+    type: 'security',
+    conditions: {
+      rmsDb: { min: -45, max: -15 },
+      spectralCentroidHz: { min: 300, max: 3000 },
+      zeroCrossingRate: { min: 0.02, max: 0.2 },
+      sustainedLoudSeconds: { max: 0.8 },
+    },
+  },
+  {
+    label: 'Machine hum',
+    severity: 'low',
+    type: 'maintenance',
+    conditions: {
+      rmsDb: { min: -50 },
+      spectralCentroidHz: { max: 400 },
+      spectralFlatness: { max: 0.1 },
+    },
+  },
+];
+
+function loadSignatures(): AudioSignature[] {
+  const signatures = [...DEFAULT_SIGNATURES];
+  if (!process.env.AUDIO_DSP_SIGNATURES) {
+    return signatures;
+  }
+
+  try {
+    const overrides = z.array(audioSignatureSchema).parse(JSON.parse(process.env.AUDIO_DSP_SIGNATURES));
+    for (const override of overrides) {
+      const index = signatures.findIndex((s) => s.label === override.label);
+      if (index >= 0) {
+        signatures[index] = override;
+      } else {
+        signatures.push(override);
+      }
+    }
+  } catch (error) {
+    console.error("Invalid AUDIO_DSP_SIGNATURES, using defaults:", error);
+  }
+  return signatures;
+}
+
+const signatures = loadSignatures();
+
+interface DecodedAudio {
+  sampleRate: number;
+  samples: Float32Array; // mono, -1..1
+}
+
+/**
+ * Decode a RIFF/WAVE buffer to mono float samples. Multi-channel audio is
+ * averaged down to one channel.
+ */
+export function decodeWav(buffer: Buffer): DecodedAudio {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new AudioDecodeError('Not a WAV file (missing RIFF/WAVE header)');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | undefined;
+  let data: { start: number; length: number } | undefined;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+      let audioFormat = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (audioFormat === 0xfffe && chunkSize >= 26 && body + 26 <= buffer.length) {
+        audioFormat = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      // Streaming writers may leave the size unset, so clamp to the buffer
+      data = { start: body, length: Math.min(chunkSize, buffer.length - body) };
+      break;
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format || !data) {
+    throw new AudioDecodeError('WAV file is missing its fmt or data chunk');
+  }
+
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const isPcm = audioFormat === 1 && [8, 16, 24, 32].includes(bitsPerSample);
+  const isFloat = audioFormat === 3 && [32, 64].includes(bitsPerSample);
+  if ((!isPcm && !isFloat) || channels < 1 || sampleRate < 1) {
+    throw new AudioDecodeError(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+  }
+  if (sampleRate > MAX_SAMPLE_RATE || channels > MAX_CHANNELS) {
+    throw new AudioDecodeError(`Unsupported WAV layout (${sampleRate} Hz, ${channels} channels)`);
+  }
+
+  const readSample = (position: number): number => {
+    if (isFloat) {
+      return bitsPerSample === 32 ? buffer.readFloatLE(position) : buffer.readDoubleLE(position);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (buffer.readUInt8(position) - 128) / 128;
+      case 16:
+        return buffer.readInt16LE(position) / 32768;
+      case 24:
+        return buffer.readIntLE(position, 3) / 8388608;
+      default:
+        return buffer.readInt32LE(position) / 2147483648;
+    }
+  };
+
+  const frameBytes = bytesPerSample * channels;
+  const totalFrames = Math.min(Math.floor(data.length / frameBytes), sampleRate * MAX_ANALYSIS_SECONDS);
+  const samples = new Float32Array(totalFrames);
+
+  for (let i = 0; i < totalFrames; i++) {
+    const position = data.start + i * frameBytes;
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(position + channel * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
+
+function toDb(amplitude: number): number {
+  return 20 * Math.log10(Math.max(amplitude, 1e-10));
+}
+
+const twiddleCache = new Map<number, [Float64Array, Float64Array]>();
+
+function getTwiddles(n: number): [Float64Array, Float64Array] {
+  let twiddles = twiddleCache.get(n);
+  if (!twiddles) {
+    const cosTable = new Float64Array(n / 2);
+    const sinTable = new Float64Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cosTable[k] = Math.cos((-2 * Math.PI * k) / n);
+      sinTable[k] = Math.sin((-2 * Math.PI * k) / n);
+    }
+    twiddles = [cosTable, sinTable];
+    twiddleCache.set(n, twiddles);
+  }
+  return twiddles;
+}
+
+/**
+ * Radix-2 FFT; returns the power spectrum for bins 0..n/2.
+ */
+function powerSpectrum(frame: Float64Array): Float64Array {
+  const n = frame.length;
+  const re = Float64Array.from(frame);
+  const im = new Float64Array(n);
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+    }
+  }
+
+  const [cosTable, sinTable] = getTwiddles(n);
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wRe = cosTable[k * step];
+        const wIm = sinTable[k * step];
+        const a = start + k;
+        const b = a + half;
+        const bRe = re[b] * wRe - im[b] * wIm;
+        const bIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+      }
+    }
+  }
+
+  const power = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k];
+  }
+  return power;
+}
+
+interface FrameFeatures {
+  rms: number;
+  zeroCrossingRate: number;
+  centroidHz: number;
+  flatness: number;
+  highFrequencyRatio: number;
+}
+
+function analyzeFrame(samples: Float32Array, start: number, frameSize: number, window: Float64Array, sampleRate: number): FrameFeatures {
+  let energy = 0;
+  let crossings = 0;
+  const windowed = new Float64Array(frameSize);
+
+  for (let i = 0; i < frameSize; i++) {
+    const sample = samples[start + i] ?? 0;
+    energy += sample * sample;
+    if (i > 0 && (sample >= 0) !== ((samples[start + i - 1] ?? 0) >= 0)) {
+      crossings++;
+    }
+    windowed[i] = sample * window[i];
+  }
+
+  const power = powerSpectrum(windowed);
+  const binHz = sampleRate / frameSize;
+  let totalPower = 0;
+  let weightedFrequency = 0;
+  let highFrequencyPower = 0;
+  let logSum = 0;
+
+  // Skip the DC bin
+  for (let k = 1; k < power.length; k++) {
+    const p = power[k] + 1e-12;
+    totalPower += p;
+    weightedFrequency += k * binHz * p;
+    logSum += Math.log(p);
+    if (k * binHz >= HIGH_FREQUENCY_CUTOFF_HZ) {
+      highFrequencyPower += p;
+    }
+  }
+
+  const bins = power.length - 1;
+  return {
+    rms: Math.sqrt(energy / frameSize),
+    zeroCrossingRate: crossings / frameSize,
+    centroidHz: weightedFrequency / totalPower,
+    flatness: Math.exp(logSum / bins) / (totalPower / bins),
+    highFrequencyRatio: highFrequencyPower / totalPower,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Extract clip-level features from decoded audio using ~32ms frames with 50% overlap.
+ */
+export function extractFeatures({ sampleRate, samples }: DecodedAudio): AudioFeatures {
+  let frameSize = 256;
+  while (frameSize < sampleRate * 0.032) {
+    frameSize <<= 1;
+  }
+  const hop = frameSize / 2;
+  const hopSeconds = hop / sampleRate;
+
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  const frames: FrameFeatures[] = [];
+  for (let start = 0; start === 0 || start + frameSize <= samples.length; start += hop) {
+    frames.push(analyzeFrame(samples, start, frameSize, window, sampleRate));
+  }
+
+  let totalEnergy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    totalEnergy += samples[i] * samples[i];
+  }
+
+  const frameDbs = frames.map((f) => toDb(f.rms));
+  const peakIndex = frameDbs.indexOf(Math.max(...frameDbs));
+  const peakFrame = frames[peakIndex];
+  const sortedRms = frames.map((f) => f.rms).sort((a, b) => a - b);
+  const medianRms = sortedRms[Math.floor(sortedRms.length / 2)];
+
+  // Runs of consecutive loud frames
+  const loudRuns: number[] = [];
+  let runLength = 0;
+  for (const db of frameDbs) {
+    if (db >= LOUD_FRAME_DB) {
+      runLength++;
+    } else if (runLength > 0) {
+      loudRuns.push(runLength);
+      runLength = 0;
+    }
+  }
+  if (runLength > 0) {
+    loudRuns.push(runLength);
+  }
+
+  const activeFrames = frames.filter((_, i) => frameDbs[i] >= SILENT_FRAME_DB);
+
+  return {
+    durationSeconds: samples.length / sampleRate,
+    rmsDb: toDb(Math.sqrt(totalEnergy / Math.max(samples.length, 1))),
+    peakDb: frameDbs[peakIndex],
+    transientRatio: Math.min(peakFrame.rms / Math.max(medianRms, 1e-6), 1000),
+    sustainedLoudSeconds: Math.max(0, ...loudRuns) * hopSeconds,
+    burstCount: loudRuns.length,
+    zeroCrossingRate: mean(activeFrames.map((f) => f.zeroCrossingRate)),
+    spectralCentroidHz: mean(activeFrames.map((f) => f.centroidHz)),
+    peakSpectralCentroidHz: peakFrame.centroidHz,
+    spectralFlatness: mean(activeFrames.map((f) => f.flatness)),
+    highFrequencyRatio: mean(activeFrames.map((f) => f.highFrequencyRatio)),
+    peakHighFrequencyRatio: peakFrame.highFrequencyRatio,
+  };
+}
+
+/**
+ * Score one feature against its range: 0.75-1 inside (more with more margin),
+ * below 0.75 outside (less the further out it is).
+ */
+function scoreCondition(value: number, range: FeatureRange): { inRange: boolean; score: number } {
+  const scale = (bound: number) => Math.max(Math.abs(bound), 1e-3);
+
+  if (range.min !== undefined && value < range.min) {
+    return { inRange: false, score: 0.75 * Math.max(0, 1 - (range.min - value) / scale(range.min)) };
+  }
+  if (range.max !== undefined && value > range.max) {
+    return { inRange: false, score: 0.75 * Math.max(0, 1 - (value - range.max) / scale(range.max)) };
+  }
+
+  const margins = [
+    range.min !== undefined ? (value - range.min) / scale(range.min) : 1,
+    range.max !== undefined ? (range.max - value) / scale(range.max) : 1,
+  ];
+  return { inRange: true, score: 0.75 + 0.25 * Math.min(1, ...margins) };
+}
+
+/**
+ * Score every signature. Full matches land in 0.6-1.0; partial matches stay
+ * below 0.5 so they never outrank a full match.
+ */
+export function matchSignatures(features: AudioFeatures): AudioPrediction[] {
+  const predictions: AudioPrediction[] = [];
+  let bestPartial = 0;
+
+  for (const signature of signatures) {
+    const results = Object.entries(signature.conditions).map(([feature, range]) =>
+      scoreCondition(features[feature as AudioFeatureName], range),
+    );
+    const score = mean(results.map((r) => r.score));
+    const matched = results.every((r) => r.inRange);
+    const confidence = matched ? 0.6 + 0.4 * ((score - 0.75) / 0.25) : 0.5 * score;
+
+    if (!matched) {
+      bestPartial = Math.max(bestPartial, confidence);
+    }
+    if (matched || confidence >= 0.25) {
+      predictions.push({
+        label: signature.label,
+        confidence,
+        model: 'dsp',
+        severity: signature.severity,
+        type: signature.type,
+      });
+    }
+  }
+
+  if (!predictions.some((p) => p.confidence >= 0.6)) {
+    predictions.push({
+      label: features.peakDb < -50 ? 'Silence' : 'Background noise',
+      confidence: 1 - bestPartial,
+      model: 'dsp',
+      severity: 'low',
+      type: 'security',
+    });
+  }
+
+  return predictions;
+}
+
+export const dspAudioClassifier: AudioClassifier = {
+  id: 'dsp',
+  name: 'Local DSP',
+  description: 'Deterministic signal analysis of WAV audio against configurable sound signatures',
+  supportedMimeTypes: ['audio/wav', 'audio/wave', 'audio/x-wav'],
+  classify({ buffer }) {
+    const audio = decodeWav(buffer);
+    if (audio.samples.length === 0) {
+      throw new AudioDecodeError('WAV file contains no audio samples');
+    }
+
+    const features = extractFeatures(audio);
+    return {
+      predictions: matchSignatures(features),
+      durationSeconds: features.durationSeconds,
+      features,
+    };
+  },
+};
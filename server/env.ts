@@ -0,0 +1,14 @@
+/**
+ * Environment Config
+ *
+ * Numeric settings read from the environment. A value that is missing, not a
+ * whole number, or below the minimum (1 unless given) falls back to the
+ * default, so a typo can't turn an interval into a 1 ms busy loop or a limit
+ * into NaN.
+ */
+
+export function envInt(name: string, defaultValue: number, min = 1): number {
+  const raw = process.env[name];
+  const value = raw?.trim() ? Number(raw) : NaN;
+  return Number.isInteger(value) && value >= min ? value : defaultValue;
+}
@@ -0,0 +1,175 @@
+/**
+ * Alert Escalation
+ *
+ * Walks unacknowledged alerts through an escalation policy. When an alert is
+ * raised, the matching active policy (the house's own before a global one) is
+ * attached and takes over the alert's notifications. A worker then runs each
+ * step once its delay since the alert was raised has passed: the step's target
+ * is notified and the step is recorded in the alert's activity. Acknowledging,
+ * resolving or dismissing the alert stops the chain.
+ *
+ * Step targets:
+ *   owners       Primary owner and members with the owner role
+ *   residents    Members with the resident role
+ *   all_members  Everyone with access to the house
+ *   cloud_staff  The cloud staff queue (every cloud_staff user)
+ *
+ * Configuration (environment):
+ *   ESCALATION_INTERVAL_SECONDS  How often due steps are checked (default 30)
+ */
+
+import type { Alert, EscalationPolicy, EscalationStep, User } from "@shared/schema";
+import { storage } from "./storage";
+import { publishAlertEvent } from "./alertEvents";
+import { notifyEscalation } from "./notificationService";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+function stepDueAt(alert: Alert, step: EscalationStep): Date {
+  const raisedAt = alert.createdAt ? new Date(alert.createdAt).getTime() : Date.now();
+  return new Date(raisedAt + step.afterMinutes * 60_000);
+}
+
+async function findPolicy(alert: Alert): Promise<EscalationPolicy | undefined> {
+  const policies = (await storage.getActiveEscalationPolicies(alert.houseId))
+    .filter((policy) => policy.severities.includes(alert.severity));
+  return policies.find((policy) => policy.houseId === alert.houseId) ?? policies[0];
+}
+
+async function resolveTarget(target: EscalationStep["target"], houseId: string): Promise<User[]> {
+  switch (target) {
+    case "owners":
+      return storage.getHouseRecipients(houseId, ["owner"]);
+    case "residents":
+      return storage.getHouseRecipients(houseId, ["resident"]);
+    case "all_members":
+      return storage.getHouseRecipients(houseId);
+    case "cloud_staff":
+      return storage.getUsersByRole("cloud_staff");
+  }
+}
+
+/**
+ * Attach the matching escalation policy to a new alert.
+ * Returns false when no policy covers it, in which case the caller should
+ * send the usual notifications.
+ */
+export async function startEscalation(alert: Alert): Promise<boolean> {
+  const policy = await findPolicy(alert);
+  if (!policy) {
+    return false;
+  }
+
+  await storage.updateAlertEscalation(alert.id, {
+    escalationPolicyId: policy.id,
+    escalationStep: 0,
+    nextEscalationAt: stepDueAt(alert, policy.steps[0]),
+  });
+
+  // Immediate first steps shouldn't wait for the next worker tick
+  if (policy.steps[0].afterMinutes === 0) {
+    triggerEscalationRun();
+  }
+  return true;
+}
+
+/**
+ * Record that a response to the alert ended its escalation chain.
+ * Call with the alert as it was before the status change.
+ */
+export async function stopEscalation(alert: Alert, actorId: string, status: Alert["status"]): Promise<void> {
+  if (!alert.escalationPolicyId || !alert.nextEscalationAt) {
+    return;
+  }
+
+  await storage.createAlertActivity({
+    alertId: alert.id,
+    type: "escalation_stopped",
+    actorId,
+    details: { policyId: alert.escalationPolicyId, stepsRun: alert.escalationStep, status },
+  });
+}
+
+async function runNextStep(alert: Alert): Promise<void> {
+  const policy = alert.escalationPolicyId ? await storage.getEscalationPolicy(alert.escalationPolicyId) : undefined;
+  const step = policy?.status === "active" ? policy.steps[alert.escalationStep] : undefined;
+
+  // The policy was deleted, paused or shortened since the alert was raised
+  if (!policy || !step) {
+    await storage.updateAlertEscalation(alert.id, { nextEscalationAt: null });
+    return;
+  }
+
+  const recipients = await resolveTarget(step.target, alert.houseId);
+  const stepNumber = alert.escalationStep + 1;
+  await notifyEscalation(alert, recipients, stepNumber);
+
+  await storage.createAlertActivity({
+    alertId: alert.id,
+    type: "escalated",
+    actorId: null,
+    details: {
+      policyId: policy.id,
+      policyName: policy.name,
+      step: stepNumber,
+      target: step.target,
+      notifiedUserIds: recipients.map((user) => user.id),
+    },
+  });
+
+  const nextStep = policy.steps[stepNumber];
+  const updated = await storage.updateAlertEscalation(alert.id, {
+    escalationStep: stepNumber,
+    nextEscalationAt: nextStep ? stepDueAt(alert, nextStep) : null,
+  });
+  publishAlertEvent("escalated", updated);
+  log(`alert ${alert.id} escalated to ${step.target} (step ${stepNumber}/${policy.steps.length})`, "escalation");
+}
+
+/**
+ * Run every escalation step that is due. Errors on one alert don't stop the others.
+ */
+export async function processDueEscalations(): Promise<void> {
+  const alerts = await storage.getDueEscalations(new Date());
+
+  for (const alert of alerts) {
+    try {
+      await runNextStep(alert);
+    } catch (error) {
+      console.error(`Escalation failed for alert ${alert.id}:`, error);
+    }
+  }
+}
+
+let escalationTimer: NodeJS.Timeout | null = null;
+let runInProgress = false;
+let runRequested = false;
+
+// Run now, or right after the current run if one is in progress
+function triggerEscalationRun(): void {
+  if (runInProgress) {
+    runRequested = true;
+    return;
+  }
+
+  runInProgress = true;
+  processDueEscalations()
+    .catch((error) => console.error("Escalation run failed:", error))
+    .finally(() => {
+      runInProgress = false;
+      if (runRequested) {
+        runRequested = false;
+        triggerEscalationRun();
+      }
+    });
+}
+
+export function startEscalationWorker(): void {
+  if (escalationTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("ESCALATION_INTERVAL_SECONDS", 30);
+  escalationTimer = setInterval(triggerEscalationRun, intervalSeconds * 1000);
+  log(`escalation worker running every ${intervalSeconds}s`, "escalation");
+}
@@ -0,0 +1,333 @@
+/**
+ * Firmware Rollouts
+ *
+ * Over-the-air updates for device firmware. A campaign targets the devices of a
+ * release's type (optionally narrowed to houses, devices or current versions)
+ * and splits them into stages by cumulative percentage, e.g. [5, 25, 100].
+ * Devices in the current stage are offered the release; they poll for it and
+ * report their progress (downloading, installing, succeeded or failed).
+ *
+ *   Rollback  When a device fails and the campaign has autoRollback on, it is
+ *             told to reinstall the release it came from (if that release is
+ *             registered) and reports rolled_back once done.
+ *   Halting   Once failures exceed failureThresholdPercent of the devices offered
+ *             the update so far, the campaign halts: nothing new is offered
+ *             until someone resumes it.
+ *   Stages    A worker moves a healthy campaign to its next stage once the
+ *             current one has run for stageSoakMinutes, and marks it completed
+ *             when every device in the last stage has finished.
+ *
+ * Configuration (environment):
+ *   FIRMWARE_ROLLOUT_INTERVAL_SECONDS  How often campaigns are checked (default 60)
+ */
+
+import { createHash } from "crypto";
+import {
+  FIRMWARE_UPDATE_STATUSES,
+  type Device,
+  type FirmwareCampaign,
+  type FirmwareCampaignWithProgress,
+  type FirmwareStatusReport,
+  type FirmwareUpdate,
+  type FirmwareUpdateCounts,
+  type InsertFirmwareCampaign,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+const FINISHED: FirmwareUpdate["status"][] = ["succeeded", "failed", "rolled_back", "cancelled"];
+const FAILED: FirmwareUpdate["status"][] = ["failed", "rolling_back", "rolled_back"];
+
+// Statuses a device may report from each status it can be in
+const REPORTABLE_FROM: Record<FirmwareStatusReport["status"], FirmwareUpdate["status"][]> = {
+  downloading: ["pending"],
+  installing: ["pending", "downloading"],
+  succeeded: ["pending", "downloading", "installing"],
+  failed: ["pending", "downloading", "installing", "rolling_back"],
+  rolled_back: ["pending", "downloading", "installing", "rolling_back"], // Devices may also roll back on their own
+};
+
+export class FirmwareCampaignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FirmwareCampaignError";
+  }
+}
+
+let rolloutTimer: NodeJS.Timeout | null = null;
+let checkInProgress = false;
+
+function emptyCounts(): FirmwareUpdateCounts {
+  return Object.fromEntries(FIRMWARE_UPDATE_STATUSES.map((status) => [status, 0])) as FirmwareUpdateCounts;
+}
+
+// Counts for the devices offered the update so far (stages up to the current one)
+async function offeredCounts(campaign: FirmwareCampaign): Promise<FirmwareUpdateCounts> {
+  const counts = emptyCounts();
+  for (const row of await storage.getFirmwareUpdateStats([campaign.id])) {
+    if (row.stage <= campaign.currentStage) {
+      counts[row.status] += row.count;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Campaigns with their release and per-status device counts.
+ */
+export async function getCampaignsWithProgress(campaigns: FirmwareCampaign[]): Promise<FirmwareCampaignWithProgress[]> {
+  const stats = await storage.getFirmwareUpdateStats(campaigns.map((campaign) => campaign.id));
+  const releases = await storage.getFirmwareReleases();
+
+  return campaigns.map((campaign) => {
+    const counts = emptyCounts();
+    for (const row of stats) {
+      if (row.campaignId === campaign.id) {
+        counts[row.status] += row.count;
+      }
+    }
+    const release = releases.find((r) => r.id === campaign.releaseId)!;
+    return {
+      ...campaign,
+      release: { id: release.id, deviceType: release.deviceType, version: release.version },
+      counts,
+    };
+  });
+}
+
+// Stable pseudo-random order, so which devices land in the early stages doesn't
+// depend on device names or creation order
+function rolloutOrder(campaignId: string, deviceId: string): string {
+  return createHash("sha256").update(`${campaignId}:${deviceId}`).digest("hex");
+}
+
+/**
+ * Create a campaign, assign its target devices to stages and offer the first stage.
+ * Throws FirmwareCampaignError when the release is unknown or no device qualifies.
+ */
+export async function createCampaign(input: InsertFirmwareCampaign, userId: string): Promise<FirmwareCampaign> {
+  const release = await storage.getFirmwareRelease(input.releaseId);
+  if (!release) {
+    throw new FirmwareCampaignError("Firmware release not found");
+  }
+
+  const candidates = await storage.getFirmwareCampaignCandidates(release, input.target);
+  if (candidates.length === 0) {
+    throw new FirmwareCampaignError("No devices need this release, or they are already in another campaign");
+  }
+
+  const campaign = await storage.createFirmwareCampaign({ ...input, createdBy: userId });
+  const ordered = [...candidates].sort((a, b) =>
+    rolloutOrder(campaign.id, a.id).localeCompare(rolloutOrder(campaign.id, b.id)),
+  );
+  const stageOf = (index: number) =>
+    input.stages.findIndex((percent) => index < Math.ceil((ordered.length * percent) / 100));
+
+  await storage.createFirmwareUpdates(
+    ordered.map((device, index) => ({
+      campaignId: campaign.id,
+      deviceId: device.id,
+      stage: stageOf(index),
+      fromVersion: device.firmwareVersion,
+    })),
+  );
+  await storage.offerFirmwareStage(campaign.id, 0);
+
+  log(`campaign "${campaign.name}" started for ${ordered.length} ${release.deviceType} devices`, "firmware");
+  return campaign;
+}
+
+/**
+ * Pause, resume or cancel a campaign. Resuming a halted campaign restarts the
+ * current stage's soak time. Throws FirmwareCampaignError for a move its
+ * status doesn't allow.
+ */
+export async function setCampaignStatus(
+  campaign: FirmwareCampaign,
+  action: "pause" | "resume" | "cancel",
+): Promise<FirmwareCampaign> {
+  switch (action) {
+    case "pause":
+      if (campaign.status !== "active") {
+        throw new FirmwareCampaignError(`A ${campaign.status} campaign can't be paused`);
+      }
+      return storage.updateFirmwareCampaign(campaign.id, { status: "paused" });
+
+    case "resume":
+      if (campaign.status !== "paused" && campaign.status !== "halted") {
+        throw new FirmwareCampaignError(`A ${campaign.status} campaign can't be resumed`);
+      }
+      return storage.updateFirmwareCampaign(campaign.id, {
+        status: "active",
+        haltReason: null,
+        stageStartedAt: new Date(),
+      });
+
+    case "cancel":
+      if (campaign.status === "completed" || campaign.status === "cancelled") {
+        throw new FirmwareCampaignError(`The campaign is already ${campaign.status}`);
+      }
+      // Devices already installing carry on and still report back
+      await storage.cancelFirmwareUpdates(campaign.id);
+      return storage.updateFirmwareCampaign(campaign.id, { status: "cancelled", completedAt: new Date() });
+  }
+}
+
+/**
+ * Halt, advance or complete an active campaign according to its progress.
+ */
+export async function evaluateCampaign(campaign: FirmwareCampaign): Promise<FirmwareCampaign> {
+  if (campaign.status !== "active") {
+    return campaign;
+  }
+
+  const counts = await offeredCounts(campaign);
+  const offered = Object.values(counts).reduce((sum, count) => sum + count, 0) - counts.cancelled;
+  const failed = FAILED.reduce((sum, status) => sum + counts[status], 0);
+
+  if (failed > 0 && (failed * 100) / offered > campaign.failureThresholdPercent) {
+    const haltReason = `${failed} of ${offered} devices failed to update (threshold ${campaign.failureThresholdPercent}%)`;
+    log(`campaign "${campaign.name}" halted: ${haltReason}`, "firmware");
+    return storage.updateFirmwareCampaign(campaign.id, { status: "halted", haltReason });
+  }
+
+  const isLastStage = campaign.currentStage >= campaign.stages.length - 1;
+  if (!isLastStage) {
+    const soakedAt = new Date(campaign.stageStartedAt).getTime() + campaign.stageSoakMinutes * 60_000;
+    if (Date.now() < soakedAt) {
+      return campaign;
+    }
+    const nextStage = campaign.currentStage + 1;
+    await storage.offerFirmwareStage(campaign.id, nextStage);
+    log(`campaign "${campaign.name}" moved to ${campaign.stages[nextStage]}%`, "firmware");
+    return storage.updateFirmwareCampaign(campaign.id, { currentStage: nextStage, stageStartedAt: new Date() });
+  }
+
+  const finished = FINISHED.reduce((sum, status) => sum + counts[status], 0) - counts.cancelled;
+  if (finished === offered) {
+    log(`campaign "${campaign.name}" completed`, "firmware");
+    return storage.updateFirmwareCampaign(campaign.id, { status: "completed", completedAt: new Date() });
+  }
+  return campaign;
+}
+
+/**
+ * What a device should install now, if anything.
+ */
+export async function getFirmwareOffer(device: Device): Promise<{
+  updateId: string;
+  action: "install" | "rollback";
+  version: string;
+  url: string;
+  checksum: string;
+} | null> {
+  const update = await storage.getActionableFirmwareUpdate(device.id);
+  if (!update) {
+    return null;
+  }
+
+  const campaign = await storage.getFirmwareCampaign(update.campaignId);
+  const release = campaign && await storage.getFirmwareRelease(campaign.releaseId);
+  if (!release) {
+    return null;
+  }
+
+  if (update.status === "rolling_back") {
+    const previous = update.fromVersion
+      ? await storage.getFirmwareReleaseByVersion(release.deviceType, update.fromVersion)
+      : undefined;
+    return previous
+      ? { updateId: update.id, action: "rollback", version: previous.version, url: previous.url, checksum: previous.checksum }
+      : null;
+  }
+
+  return { updateId: update.id, action: "install", version: release.version, url: release.url, checksum: release.checksum };
+}
+
+/**
+ * Record a device's progress on one of its updates. Returns undefined when the
+ * update isn't the device's; throws FirmwareCampaignError when the report
+ * doesn't follow from the update's current status.
+ */
+export async function reportFirmwareStatus(
+  device: Device,
+  updateId: string,
+  report: FirmwareStatusReport,
+): Promise<FirmwareUpdate | undefined> {
+  const existing = await storage.getFirmwareUpdate(updateId);
+  if (!existing || existing.deviceId !== device.id) {
+    return undefined;
+  }
+
+  const campaign = (await storage.getFirmwareCampaign(existing.campaignId))!;
+  const release = (await storage.getFirmwareRelease(campaign.releaseId))!;
+  const allowedFrom = REPORTABLE_FROM[report.status];
+  if (!allowedFrom.includes(existing.status)) {
+    throw new FirmwareCampaignError(`Can't report ${report.status} for an update that is ${existing.status}`);
+  }
+
+  let status: FirmwareUpdate["status"] = report.status;
+  if (report.status === "failed" && existing.status !== "rolling_back" && campaign.autoRollback && existing.fromVersion) {
+    const previous = await storage.getFirmwareReleaseByVersion(release.deviceType, existing.fromVersion);
+    if (previous) {
+      status = "rolling_back";
+    }
+  }
+
+  const finished = FINISHED.includes(status);
+  const update = await storage.updateFirmwareUpdateStatus(updateId, allowedFrom, {
+    status,
+    ...(report.error !== undefined && { error: report.error }),
+    ...(finished && { completedAt: new Date() }),
+  });
+  if (!update) {
+    throw new FirmwareCampaignError("The update changed while the report was processed; try again");
+  }
+
+  if (status === "succeeded") {
+    await storage.updateDevice(device.id, { firmwareVersion: release.version });
+  } else if (status === "rolled_back" && existing.fromVersion) {
+    await storage.updateDevice(device.id, { firmwareVersion: existing.fromVersion });
+  }
+
+  // A failure may push the campaign over its threshold; don't wait for the worker
+  if (FAILED.includes(status)) {
+    await evaluateCampaign(campaign);
+  }
+  return update;
+}
+
+async function checkActiveCampaigns(): Promise<void> {
+  for (const campaign of await storage.getFirmwareCampaigns("active")) {
+    try {
+      await evaluateCampaign(campaign);
+    } catch (error) {
+      console.error(`Firmware campaign ${campaign.id} check failed:`, error);
+    }
+  }
+}
+
+export function startFirmwareRolloutWorker(): void {
+  if (rolloutTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("FIRMWARE_ROLLOUT_INTERVAL_SECONDS", 60);
+  rolloutTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow check
+    if (checkInProgress) {
+      return;
+    }
+    checkInProgress = true;
+    try {
+      await checkActiveCampaigns();
+    } catch (error) {
+      console.error("Firmware rollout check failed:", error);
+    } finally {
+      checkInProgress = false;
+    }
+  }, intervalSeconds * 1000);
+
+  log(`firmware rollout worker running every ${intervalSeconds}s`, "firmware");
+}
@@ -0,0 +1,135 @@
+/**
+ * Rooms and Floor Plans
+ *
+ * A house's floors and rooms, and where its devices sit on each floor's plan.
+ * Devices name their room (devices.room); storage finds the house's room of
+ * that name whatever its case and spacing, or creates it, and links the device
+ * to it (devices.roomId). Devices from before rooms existed are linked by
+ * `npm run db:migrate-rooms`.
+ *
+ * A floor can have a plan image (PNG, JPEG or WebP, kept in the floor plan
+ * store) with devices placed on it in percent of the image, so placements stay
+ * put when the image is shown at another size. Alerts are drawn at the device
+ * they were raised for, or among the placed devices of their room.
+ */
+
+import { Readable } from "stream";
+import type { Device, DevicePlacement, DevicePlacementInput, Floor, HouseFloorPlan, Room } from "@shared/schema";
+import { storage } from "./storage";
+import { floorPlanStore } from "./recordingStore";
+
+// Image types a floor plan may be uploaded as, and the file extension each is stored with
+const PLAN_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+// Floor plans are small images; anything bigger is refused before it is stored
+export const MAX_FLOOR_PLAN_BYTES = 10 * 1024 * 1024;
+
+/**
+ * The change doesn't fit the house (400), conflicts with what is there (409),
+ * or the uploaded plan isn't an image type it accepts (415).
+ */
+export class FloorPlanError extends Error {
+  constructor(message: string, public status: 400 | 409 | 415 = 409) {
+    super(message);
+    this.name = "FloorPlanError";
+  }
+}
+
+// Floors as clients see them: whether there is a plan, not where it is stored
+export function floorView({ planPath, ...floor }: Floor): HouseFloorPlan["floors"][number] {
+  return { ...floor, hasPlan: !!planPath };
+}
+
+export async function getHouseFloorPlan(houseId: string): Promise<HouseFloorPlan> {
+  const [floors, rooms, devices, placements] = await Promise.all([
+    storage.getFloorsByHouse(houseId),
+    storage.getRoomsByHouse(houseId),
+    storage.getDevicesByHouse(houseId),
+    storage.getDevicePlacementsByHouse(houseId),
+  ]);
+  return {
+    floors: floors.map(floorView),
+    rooms,
+    devices: devices.map(({ id, name, type, room, roomId, status }) => ({ id, name, type, room, roomId, status })),
+    placements,
+  };
+}
+
+/**
+ * Store a floor's plan image, replacing the one it had.
+ */
+export async function saveFloorPlanImage(floor: Floor, image: Buffer, mimeType: string | undefined): Promise<Floor> {
+  const type = (mimeType || "").split(";")[0].trim().toLowerCase();
+  const extension = PLAN_TYPES[type];
+  if (!extension) {
+    throw new FloorPlanError(`A floor plan must be uploaded as ${Object.keys(PLAN_TYPES).join(", ")}`, 415);
+  }
+
+  // A new name each time, so browsers never show a cached copy of the old plan
+  const planPath = `${floor.houseId}/${floor.id}-${Date.now()}.${extension}`;
+  const planSizeBytes = await floorPlanStore.save(planPath, Readable.from(image), MAX_FLOOR_PLAN_BYTES);
+
+  const updated = await storage.updateFloor(floor.id, { planPath, planMimeType: type, planSizeBytes, planUpdatedAt: new Date() });
+  if (floor.planPath) {
+    await floorPlanStore.remove(floor.planPath);
+  }
+  return updated;
+}
+
+export function readFloorPlanImage(floor: Floor & { planPath: string }): Readable {
+  return floorPlanStore.read(floor.planPath);
+}
+
+export async function removeFloorPlanImage(floor: Floor): Promise<Floor> {
+  const updated = await storage.updateFloor(floor.id, { planPath: null, planMimeType: null, planSizeBytes: null, planUpdatedAt: null });
+  if (floor.planPath) {
+    await floorPlanStore.remove(floor.planPath);
+  }
+  return updated;
+}
+
+/**
+ * Delete a floor with its plan. Its rooms stay, without a floor, and the
+ * devices placed on it lose their placement.
+ */
+export async function deleteFloor(floor: Floor): Promise<void> {
+  await storage.deleteFloor(floor.id);
+  if (floor.planPath) {
+    await floorPlanStore.remove(floor.planPath);
+  }
+}
+
+// A room's floor has to be one of its house's floors
+export async function assertFloorInHouse(floorId: string | null | undefined, houseId: string): Promise<void> {
+  if (!floorId) {
+    return;
+  }
+  const floor = await storage.getFloor(floorId);
+  if (!floor || floor.houseId !== houseId) {
+    throw new FloorPlanError("The floor isn't in this house", 400);
+  }
+}
+
+/**
+ * Delete a room. Rooms with devices in them are refused: move the devices to
+ * another room first.
+ */
+export async function deleteRoom(room: Room): Promise<void> {
+  const devices = (await storage.getDevicesByHouse(room.houseId)).filter((device) => device.roomId === room.id);
+  if (devices.length > 0) {
+    throw new FloorPlanError(`${room.name} still has ${devices.length} device(s) in it`);
+  }
+  await storage.deleteRoom(room.id);
+}
+
+/**
+ * Place a device on one of its house's floors.
+ */
+export async function placeDevice(device: Device, placement: DevicePlacementInput): Promise<DevicePlacement> {
+  await assertFloorInHouse(placement.floorId, device.houseId);
+  return await storage.upsertDevicePlacement(device.id, placement);
+}
@@ -0,0 +1,50 @@
+/**
+ * House Time
+ *
+ * Clock times in a house's timezone, for automation schedules and camera
+ * privacy windows.
+ */
+
+/**
+ * Local time in a house's timezone. Accepts the "UTC-05:00" offsets stored on
+ * houses as well as IANA zone names.
+ */
+export function getHouseLocalTime(timezone: string | null, date: Date): { minutesOfDay: number; dayOfWeek: number } {
+  const offsetMatch = timezone?.match(/^UTC([+-])(\d{2}):(\d{2})$/);
+  if (offsetMatch || !timezone) {
+    const offsetMinutes = offsetMatch
+      ? (offsetMatch[1] === "-" ? -1 : 1) * (parseInt(offsetMatch[2], 10) * 60 + parseInt(offsetMatch[3], 10))
+      : 0;
+    const local = new Date(date.getTime() + offsetMinutes * 60_000);
+    return { minutesOfDay: local.getUTCHours() * 60 + local.getUTCMinutes(), dayOfWeek: local.getUTCDay() };
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return {
+    minutesOfDay: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+    dayOfWeek: weekdays.indexOf(get("weekday")),
+  };
+}
+
+// Minutes since midnight of an HH:MM time
+export function parseClockTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// A window like 22:00-06:00 wraps past midnight
+export function isInClockWindow(minutesOfDay: number, start: string, end: string): boolean {
+  const from = parseClockTime(start);
+  const to = parseClockTime(end);
+  return from <= to
+    ? minutesOfDay >= from && minutesOfDay < to
+    : minutesOfDay >= from || minutesOfDay < to;
+}
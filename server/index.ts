@@ -4,6 +4,15 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startDeviceWatchdog } from "./deviceWatchdog";
+import { startAutomationScheduler } from "./automationEngine";
+import { startNotificationWorker } from "./notificationService";
+import { startEscalationWorker } from "./escalationService";
+import { startRetentionWorker } from "./retentionService";
+import { startFirmwareRolloutWorker } from "./firmwareService";
+import { startRecordingWorker } from "./recordingService";
+import { startPrivacyWorker } from "./privacyService";
+import { startSecurityWorker } from "./securityModeService";
 
 const app = express();
 
@@ -84,5 +93,14 @@ app.use((req, res, next) => {
   }
   server.listen(listenOptions, () => {
     log(`serving on port ${port}`);
+    startDeviceWatchdog();
+    startAutomationScheduler();
+    startNotificationWorker();
+    startEscalationWorker();
+    startRetentionWorker();
+    startFirmwareRolloutWorker();
+    startRecordingWorker();
+    startPrivacyWorker();
+    startSecurityWorker();
   });
 })();
@@ -1,4 +1,7 @@
 import type { RequestHandler } from "express";
+import { HOUSE_ROLE_PERMISSIONS, type HousePermission } from "@shared/schema";
+import { getPlatformSettings } from "./platformSettings";
+import { envInt } from "./env";
 
 // Role-based authorization middleware
 export function requireRole(...allowedRoles: string[]): RequestHandler {
@@ -29,13 +32,130 @@ export function requireRole(...allowedRoles: string[]): RequestHandler {
   };
 }
 
-// Check if user owns a house or has staff privileges
-export async function canAccessHouse(userId: string, houseId: string, userRole: string): Promise<boolean> {
+// Check if user is a member of a house whose role grants the permission, or has staff privileges
+export async function canAccessHouse(
+  userId: string,
+  houseId: string,
+  userRole: string,
+  permission: HousePermission = "view",
+): Promise<boolean> {
   if (userRole === "cloud_staff" || userRole === "iot_team") {
     return true; // Staff can access all houses
   }
 
   const { storage } = await import("./storage");
-  const house = await storage.getHouseById(houseId);
-  return house?.ownerId === userId;
+  const houseRole = await storage.getHouseRole(houseId, userId);
+  return !!houseRole && HOUSE_ROLE_PERMISSIONS[houseRole].includes(permission);
 }
+
+// The device API has its own auth and the alert stream is one long request
+const RATE_LIMIT_EXEMPT_PATHS = ["/telemetry", "/device/", "/alerts/stream"];
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+const CLAIM_FAILURE_WINDOW_MS = 60 * 60_000;
+
+const rateLimitWindows = new Map<string, { startedAt: number; count: number }>();
+const claimFailureWindows = new Map<string, { startedAt: number; count: number }>();
+
+// Forget windows that have ended so the maps don't grow with every visitor
+setInterval(() => {
+  const now = Date.now();
+  rateLimitWindows.forEach((window, key) => {
+    if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      rateLimitWindows.delete(key);
+    }
+  });
+  claimFailureWindows.forEach((window, key) => {
+    if (now - window.startedAt >= CLAIM_FAILURE_WINDOW_MS) {
+      claimFailureWindows.delete(key);
+    }
+  });
+}, RATE_LIMIT_WINDOW_MS).unref();
+
+// Per-user (per-IP when signed out) request limit over a fixed one-minute window,
+// active when rate limiting is enabled in platform settings. Mount on /api.
+export const apiRateLimiter: RequestHandler = (req: any, res, next) => {
+  const { rateLimitingEnabled, rateLimitPerMinute } = getPlatformSettings();
+  if (!rateLimitingEnabled || RATE_LIMIT_EXEMPT_PATHS.some((path) => req.path.startsWith(path))) {
+    return next();
+  }
+
+  const key = req.user?.id ?? `ip:${req.ip}`;
+  const now = Date.now();
+  let window = rateLimitWindows.get(key);
+  if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    rateLimitWindows.set(key, window);
+  }
+  window.count++;
+
+  res.setHeader("X-RateLimit-Limit", rateLimitPerMinute);
+  res.setHeader("X-RateLimit-Remaining", Math.max(0, rateLimitPerMinute - window.count));
+
+  if (window.count > rateLimitPerMinute) {
+    res.setHeader("Retry-After", Math.ceil((window.startedAt + RATE_LIMIT_WINDOW_MS - now) / 1000));
+    return res.status(429).json({ message: "Too many requests. Please try again shortly." });
+  }
+  next();
+};
+
+// Limits failed device claims and provisioning check-ins per user (per IP for
+// devices) over a fixed one-hour window, so claim codes can't be guessed.
+// Always on; DEVICE_CLAIM_MAX_FAILURES (default 10) sets the limit.
+export const claimRateLimiter: RequestHandler = (req: any, res, next) => {
+  const maxFailures = envInt("DEVICE_CLAIM_MAX_FAILURES", 10);
+  const key = req.user?.id ?? `ip:${req.ip}`;
+  const now = Date.now();
+  const window = claimFailureWindows.get(key);
+
+  if (window && now - window.startedAt < CLAIM_FAILURE_WINDOW_MS && window.count >= maxFailures) {
+    res.setHeader("Retry-After", Math.ceil((window.startedAt + CLAIM_FAILURE_WINDOW_MS - now) / 1000));
+    return res.status(429).json({ message: "Too many failed attempts. Please try again later." });
+  }
+
+  res.on("finish", () => {
+    if (res.statusCode < 400 || res.statusCode >= 500) {
+      return;
+    }
+    let current = claimFailureWindows.get(key);
+    if (!current || Date.now() - current.startedAt >= CLAIM_FAILURE_WINDOW_MS) {
+      current = { startedAt: Date.now(), count: 0 };
+      claimFailureWindows.set(key, current);
+    }
+    current.count++;
+  });
+  next();
+};
+
+const AUDITED_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Records each successful change a signed-in user makes through the API in
+// user_config_logs, while audit logging is enabled in platform settings. Mount on /api.
+export const auditApiChanges: RequestHandler = (req: any, res, next) => {
+  if (!AUDITED_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  res.on("finish", async () => {
+    if (!getPlatformSettings().auditLoggingEnabled || !req.user || res.statusCode >= 400) {
+      return;
+    }
+    try {
+      const { storage } = await import("./storage");
+      await storage.createUserConfigLog({
+        userId: req.user.id,
+        configKey: "api_request",
+        oldValue: null,
+        newValue: JSON.stringify({
+          method: req.method,
+          path: req.originalUrl.split("?")[0],
+          status: res.statusCode,
+        }),
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      console.error("Error writing audit log:", error);
+    }
+  });
+  next();
+};
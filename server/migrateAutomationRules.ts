@@ -0,0 +1,126 @@
+/**
+ * Automation Rule Migration
+ *
+ * Moves automation rules written as free text ("Time-based: 22:00" / "Dim
+ * lights to 20%") to structured rules. Every legacy rule is first copied as it
+ * was into automation_rules_legacy. Rules whose trigger names a time of day or
+ * an alert type are converted: the trigger becomes a schedule or alert trigger,
+ * and the action text becomes a notification to the house, as it can't be
+ * mapped to device commands. Converted rules are left inactive for their owner
+ * to review. The rest stay only in the archive.
+ *
+ * Must run before db:push, which can't change the columns while legacy rows are
+ * in them. Safe to run again: it stops if the table is already structured.
+ *
+ *   npm run db:migrate-automation-rules && npm run db:push
+ */
+
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { automationActionSchema, automationTriggerSchema, type AutomationTrigger } from "@shared/schema";
+
+type LegacyRule = { id: string; name: string; trigger: string; action: string };
+type AlertType = Extract<AutomationTrigger, { type: "alert" }>["alertType"];
+
+// Words in a legacy trigger and the alert type they stand for, first match wins
+const ALERT_KEYWORDS: [RegExp, AlertType][] = [
+  [/\bfall/i, "fall_detected"],
+  [/\bglass/i, "glass_break"],
+  [/\bscream/i, "scream_detected"],
+  [/\b(intrusion|intruder|break-?in)/i, "intrusion"],
+  [/\bmotion/i, "motion_detected"],
+  [/\b(sound|noise)/i, "sound_detected"],
+  [/\boffline/i, "device_offline"],
+  [/\bbattery/i, "low_battery"],
+  [/\btemperature/i, "temperature_anomaly"],
+];
+
+function convertTrigger(text: string): AutomationTrigger | null {
+  const time = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (time) {
+    return { type: "schedule", time: `${time[1].padStart(2, "0")}:${time[2]}` };
+  }
+  const keyword = ALERT_KEYWORDS.find(([pattern]) => pattern.test(text));
+  return keyword ? { type: "alert", alertType: keyword[1] } : null;
+}
+
+async function migrateAutomationRules() {
+  const { rows: legacyColumns } = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'automation_rules' AND column_name = 'action'
+  `);
+  if (legacyColumns.length === 0) {
+    console.log("Automation rules are already structured, nothing to migrate");
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS automation_rules_legacy (
+        id varchar PRIMARY KEY,
+        house_id varchar NOT NULL,
+        name text NOT NULL,
+        "trigger" text NOT NULL,
+        action text NOT NULL,
+        status varchar NOT NULL,
+        created_at timestamp,
+        archived_at timestamp NOT NULL DEFAULT now()
+      )
+    `);
+    await tx.execute(sql`
+      INSERT INTO automation_rules_legacy (id, house_id, name, "trigger", action, status, created_at)
+      SELECT id, house_id, name, "trigger", action, status, created_at FROM automation_rules
+      ON CONFLICT (id) DO NOTHING
+    `);
+
+    const { rows } = await tx.execute(sql`SELECT id, name, "trigger", action FROM automation_rules`);
+    const legacyRules = rows as LegacyRule[];
+    console.log(`${legacyRules.length} legacy rule(s) archived to automation_rules_legacy`);
+
+    await tx.execute(sql`
+      ALTER TABLE automation_rules
+        ALTER COLUMN "trigger" DROP NOT NULL,
+        ALTER COLUMN "trigger" TYPE jsonb USING NULL,
+        ADD COLUMN IF NOT EXISTS conditions jsonb NOT NULL DEFAULT '[]'::jsonb,
+        ADD COLUMN IF NOT EXISTS actions jsonb,
+        ADD COLUMN IF NOT EXISTS cooldown_seconds integer NOT NULL DEFAULT 60,
+        ADD COLUMN IF NOT EXISTS last_triggered_at timestamp
+    `);
+
+    let converted = 0;
+    for (const rule of legacyRules) {
+      const trigger = convertTrigger(rule.trigger);
+      if (!trigger) {
+        await tx.execute(sql`DELETE FROM automation_rules WHERE id = ${rule.id}`);
+        console.log(`${rule.name}: "${rule.trigger}" can't be converted, kept in the archive only`);
+        continue;
+      }
+      const actions = [automationActionSchema.parse({ type: "notify", message: `${rule.name}: ${rule.action}` })];
+      await tx.execute(sql`
+        UPDATE automation_rules
+        SET "trigger" = ${JSON.stringify(automationTriggerSchema.parse(trigger))}::jsonb,
+            actions = ${JSON.stringify(actions)}::jsonb,
+            status = 'inactive',
+            updated_at = now()
+        WHERE id = ${rule.id}
+      `);
+      converted++;
+      console.log(`${rule.name}: converted to a ${trigger.type} rule, inactive until reviewed`);
+    }
+
+    await tx.execute(sql`
+      ALTER TABLE automation_rules
+        DROP COLUMN action,
+        ALTER COLUMN "trigger" SET NOT NULL,
+        ALTER COLUMN actions SET NOT NULL
+    `);
+    console.log(`Converted ${converted} of ${legacyRules.length} legacy rule(s)`);
+  });
+}
+
+migrateAutomationRules()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Automation rule migration failed:", error);
+    process.exit(1);
+  });
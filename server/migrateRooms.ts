@@ -0,0 +1,51 @@
+/**
+ * Room Migration
+ *
+ * Links devices created before rooms existed to rooms. Room names that differ
+ * only in case or spacing ("Living Room", "living  room") become one room,
+ * named after the spelling most of the house's devices use, unless the house
+ * already has a room of that name. Devices take the room's name. Safe to run
+ * again: only devices without a room are touched.
+ *
+ *   npm run db:push && npm run db:migrate-rooms
+ */
+
+import { inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import { devices, normalizeRoomName } from "@shared/schema";
+
+async function migrateRooms() {
+  const unlinked = await db.select().from(devices).where(isNull(devices.roomId));
+  console.log(`${unlinked.length} device(s) without a room`);
+
+  // Devices by house and room name, counting the spellings each room is written in
+  type RoomGroup = { houseId: string; deviceIds: string[]; spellings: Map<string, number> };
+  const groups = new Map<string, RoomGroup>();
+  for (const device of unlinked) {
+    const name = normalizeRoomName(device.room);
+    const key = `${device.houseId}/${name.toLowerCase()}`;
+    const group: RoomGroup = groups.get(key) ?? { houseId: device.houseId, deviceIds: [], spellings: new Map() };
+    group.deviceIds.push(device.id);
+    group.spellings.set(name, (group.spellings.get(name) ?? 0) + 1);
+    groups.set(key, group);
+  }
+
+  for (const { houseId, deviceIds, spellings } of Array.from(groups.values())) {
+    const [name] = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1])[0];
+    const room = await storage.findOrCreateRoom(houseId, name);
+    await db.update(devices).set({ roomId: room.id, room: room.name }).where(inArray(devices.id, deviceIds));
+
+    const merged = spellings.size > 1 ? ` (merged ${Array.from(spellings.keys()).map((s) => `"${s}"`).join(", ")})` : "";
+    console.log(`house ${houseId}: ${deviceIds.length} device(s) in ${room.name}${merged}`);
+  }
+
+  console.log(`Linked ${unlinked.length} device(s) to ${groups.size} room(s)`);
+}
+
+migrateRooms()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Room migration failed:", error);
+    process.exit(1);
+  });
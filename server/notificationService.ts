@@ -0,0 +1,482 @@
+/**
+ * Notification Service
+ *
+ * Fans alerts, escalations, automation "notify" actions and staff access to
+ * cameras in privacy mode out to the people who can see a house, over every
+ * channel they have enabled at or above its severity threshold:
+ *   in_app   Inbox row, pushed live over the alert event stream
+ *   email    SMTP via nodemailer (only when SMTP_HOST is set)
+ *   webhook  JSON POST, signed with HMAC-SHA256 when the user sets a secret
+ *
+ * Email and webhook sends are written to the delivery log first and then sent
+ * by a worker that retries failures with exponential backoff, so a slow or
+ * unreachable endpoint never blocks alert creation.
+ *
+ * Webhooks only go to public addresses: every address a send connects to is
+ * checked as it is resolved, and loopback, private, link-local (cloud
+ * metadata) and other internal ranges are refused, as are redirects.
+ *
+ * Configuration (environment):
+ *   SMTP_HOST, SMTP_PORT        SMTP server (port default 587)
+ *   SMTP_SECURE                 "true" for implicit TLS (port 465)
+ *   SMTP_USER, SMTP_PASS        SMTP credentials, if the server requires them
+ *   NOTIFICATION_FROM_EMAIL     Sender address (default
+ *                               "SmartHomeCloud <alerts@smarthomecloud.local>")
+ *   NOTIFICATION_MAX_ATTEMPTS   Attempts before a delivery is marked failed
+ *                               (default 5)
+ *   NOTIFICATION_RETRY_SECONDS  Base retry delay, doubled after each failure
+ *                               (default 30)
+ *   WEBHOOK_ALLOW_PRIVATE_TARGETS
+ *                               "true" to allow webhooks to internal addresses,
+ *                               e.g. the local notification sink (development)
+ */
+
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+import { Agent, fetch } from "undici";
+import nodemailer, { type Transporter } from "nodemailer";
+import type {
+  Alert,
+  Device,
+  InsertNotificationDelivery,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPayload,
+  NotificationSeverity,
+  User,
+} from "@shared/schema";
+import { NOTIFICATION_SEVERITIES } from "@shared/schema";
+import { storage } from "./storage";
+import { publishNotificationEvent } from "./alertEvents";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+export interface ChannelPreference {
+  enabled: boolean;
+  minSeverity: NotificationSeverity;
+  target: string | null;
+  secret: string | null;
+}
+
+export type ChannelPreferences = Record<NotificationChannel, ChannelPreference>;
+
+// Used for any channel the user has never configured
+const DEFAULT_PREFERENCES: ChannelPreferences = {
+  in_app: { enabled: true, minSeverity: "medium", target: null, secret: null },
+  email: { enabled: true, minSeverity: "high", target: null, secret: null },
+  webhook: { enabled: false, minSeverity: "high", target: null, secret: null },
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const WORKER_INTERVAL_MS = 15_000;
+const WORKER_BATCH_SIZE = 50;
+
+// Address ranges a webhook may not reach: this host, private networks,
+// link-local (incl. the 169.254.169.254 metadata service), CGNAT, NAT64,
+// multicast and reserved space
+const BLOCKED_WEBHOOK_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+function meetsThreshold(severity: NotificationSeverity, minSeverity: NotificationSeverity): boolean {
+  return NOTIFICATION_SEVERITIES.indexOf(severity) >= NOTIFICATION_SEVERITIES.indexOf(minSeverity);
+}
+
+/**
+ * The user's effective settings for every channel, with defaults filled in.
+ */
+export async function getChannelPreferences(userId: string): Promise<ChannelPreferences> {
+  const stored = await storage.getNotificationPreferences(userId);
+  const preferences: ChannelPreferences = {
+    in_app: { ...DEFAULT_PREFERENCES.in_app },
+    email: { ...DEFAULT_PREFERENCES.email },
+    webhook: { ...DEFAULT_PREFERENCES.webhook },
+  };
+
+  for (const row of stored) {
+    preferences[row.channel] = {
+      enabled: row.enabled,
+      minSeverity: row.minSeverity,
+      target: row.target,
+      secret: row.secret,
+    };
+  }
+  return preferences;
+}
+
+/**
+ * Deliver a notification to each recipient on every channel that qualifies.
+ * In-app notifications are written immediately; email and webhook sends are
+ * queued for the delivery worker.
+ */
+async function dispatch(
+  recipients: User[],
+  payload: NotificationPayload,
+  options: { ignoreThresholds?: boolean } = {},
+): Promise<void> {
+  const queued: InsertNotificationDelivery[] = [];
+
+  for (const user of recipients) {
+    const preferences = await getChannelPreferences(user.id);
+    const wants = (channel: NotificationChannel) =>
+      preferences[channel].enabled &&
+      (options.ignoreThresholds || meetsThreshold(payload.severity, preferences[channel].minSeverity));
+
+    if (wants("in_app")) {
+      const notification = await storage.createNotification({
+        userId: user.id,
+        houseId: payload.houseId ?? null,
+        alertId: payload.alertId ?? null,
+        title: payload.title,
+        body: payload.body,
+        severity: payload.severity,
+      });
+      publishNotificationEvent(notification);
+
+      const now = new Date();
+      await storage.createNotificationDeliveries([{
+        userId: user.id,
+        alertId: payload.alertId ?? null,
+        channel: "in_app",
+        target: notification.id,
+        payload,
+        status: "sent",
+        attempts: 1,
+        deliveredAt: now,
+        nextAttemptAt: null,
+      }]);
+    }
+
+    const emailTarget = preferences.email.target || user.email;
+    if (wants("email") && isEmailConfigured() && emailTarget) {
+      queued.push({ userId: user.id, alertId: payload.alertId ?? null, channel: "email", target: emailTarget, payload });
+    }
+
+    if (wants("webhook") && preferences.webhook.target) {
+      queued.push({
+        userId: user.id,
+        alertId: payload.alertId ?? null,
+        channel: "webhook",
+        target: preferences.webhook.target,
+        payload,
+      });
+    }
+  }
+
+  if (queued.length > 0) {
+    await storage.createNotificationDeliveries(queued);
+    triggerDeliveryRun();
+  }
+}
+
+/**
+ * Notify everyone who can see the alert's house. Critical alerts also go to
+ * cloud staff.
+ */
+export async function notifyAlert(alert: Alert): Promise<void> {
+  const recipients = await storage.getHouseRecipients(alert.houseId);
+  if (alert.severity === "critical") {
+    for (const staff of await storage.getUsersByRole("cloud_staff")) {
+      if (!recipients.some((r) => r.id === staff.id)) {
+        recipients.push(staff);
+      }
+    }
+  }
+
+  const body = alert.location ? `${alert.description}\n\nLocation: ${alert.location}` : alert.description;
+  await dispatch(recipients, {
+    title: alert.title,
+    body,
+    severity: alert.severity,
+    houseId: alert.houseId,
+    alertId: alert.id,
+    event: "alert",
+  });
+}
+
+/**
+ * Notify the target of an escalation step. Escalations are sent on every
+ * enabled channel regardless of severity thresholds.
+ */
+export async function notifyEscalation(alert: Alert, recipients: User[], step: number): Promise<void> {
+  const minutesOpen = alert.createdAt ? Math.round((Date.now() - new Date(alert.createdAt).getTime()) / 60_000) : 0;
+  await dispatch(recipients, {
+    title: `Escalated: ${alert.title}`,
+    body: `This ${alert.severity} alert has not been acknowledged for ${minutesOpen} minutes ` +
+      `(escalation step ${step}).\n\n${alert.description}`,
+    severity: alert.severity,
+    houseId: alert.houseId,
+    alertId: alert.id,
+    event: "escalation",
+  }, { ignoreThresholds: true });
+}
+
+/**
+ * Notify everyone who can see a house, e.g. from an automation rule.
+ */
+export async function notifyHouse(
+  houseId: string,
+  message: { title: string; body: string; severity: NotificationSeverity },
+): Promise<void> {
+  const recipients = await storage.getHouseRecipients(houseId);
+  await dispatch(recipients, { ...message, houseId, event: "automation" });
+}
+
+/**
+ * Tell a house that staff opened one of its cameras while it was in privacy
+ * mode. Sent on every enabled channel regardless of severity thresholds.
+ */
+export async function notifyPrivacyAccess(device: Device, staff: User, reason: string): Promise<void> {
+  const recipients = await storage.getHouseRecipients(device.houseId);
+  await dispatch(recipients, {
+    title: `${device.name} was viewed in privacy mode`,
+    body: `${staff.email} opened the camera feed while privacy mode was on.\n\nReason given: ${reason}`,
+    severity: "medium",
+    houseId: device.houseId,
+    event: "privacy",
+  }, { ignoreThresholds: true });
+}
+
+/**
+ * Send a test message to one user on every enabled channel, regardless of
+ * severity thresholds.
+ */
+export async function sendTestNotification(user: User): Promise<void> {
+  await dispatch([user], {
+    title: "Test notification",
+    body: "Your SmartHomeCloud notification settings are working.",
+    severity: "low",
+    event: "test",
+  }, { ignoreThresholds: true });
+}
+
+// ===== DELIVERY WORKER =====
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: envInt("SMTP_PORT", 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+async function sendEmail(delivery: NotificationDelivery): Promise<void> {
+  const { payload } = delivery;
+  await getTransporter().sendMail({
+    from: process.env.NOTIFICATION_FROM_EMAIL || "SmartHomeCloud <alerts@smarthomecloud.local>",
+    to: delivery.target,
+    subject: `[${payload.severity.toUpperCase()}] ${payload.title}`,
+    text: `${payload.body}\n\n--\nYou can change which notifications you receive under Profile > Notification Preferences.`,
+  });
+}
+
+/**
+ * The webhook URL points at an address it may not be sent to. Not retried.
+ */
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookTargetError";
+  }
+}
+
+function webhookHost(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, "");
+}
+
+// Throws unless every address is public (or internal targets are allowed)
+function assertPublicAddresses(host: string, addresses: dns.LookupAddress[]): void {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true") {
+    return;
+  }
+  const blocked = addresses.find(({ address, family }) =>
+    BLOCKED_WEBHOOK_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"),
+  );
+  if (blocked) {
+    throw new WebhookTargetError(`Webhook host ${host} resolves to an internal address (${blocked.address})`);
+  }
+}
+
+// Resolves webhook hosts for the connection itself, so the address checked is
+// the one connected to; a host can't answer a check and the connect differently
+const checkedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+    try {
+      assertPublicAddresses(hostname, addresses);
+    } catch (blocked) {
+      return callback(blocked as NodeJS.ErrnoException, []);
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const webhookAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+/**
+ * Refuse a webhook URL whose host resolves to an internal address, so a bad
+ * URL is reported when it is saved. Sends don't rely on this: they check the
+ * addresses they connect to.
+ */
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const host = webhookHost(url);
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.promises.lookup(host, { all: true });
+  } catch {
+    throw new WebhookTargetError(`Webhook host ${host} could not be resolved`);
+  }
+  assertPublicAddresses(host, addresses);
+}
+
+async function sendWebhook(delivery: NotificationDelivery): Promise<void> {
+  // An IP address in the URL is connected to without a lookup, so check it here
+  const host = webhookHost(delivery.target);
+  if (net.isIP(host)) {
+    assertPublicAddresses(host, [{ address: host, family: net.isIP(host) }]);
+  }
+
+  const preferences = await getChannelPreferences(delivery.userId);
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.payload.event,
+    createdAt: delivery.createdAt,
+    notification: delivery.payload,
+  });
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "SmartHomeCloud-Notifications/1.0",
+    "X-SmartHome-Event": delivery.payload.event,
+    "X-SmartHome-Delivery": delivery.id,
+  };
+  // Signed with the current secret so rotating it takes effect on retries too
+  if (preferences.webhook.secret) {
+    const signature = crypto.createHmac("sha256", preferences.webhook.secret).update(body).digest("hex");
+    headers["X-SmartHome-Signature"] = `sha256=${signature}`;
+  }
+
+  const response = await fetch(delivery.target, {
+    method: "POST",
+    headers,
+    body,
+    redirect: "manual",
+    dispatcher: webhookAgent,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  }).catch((error) => {
+    // fetch reports a refused address as "fetch failed"; surface why
+    throw error?.cause instanceof WebhookTargetError ? error.cause : error;
+  });
+  if (response.status >= 300 && response.status < 400) {
+    throw new WebhookTargetError(`Webhook responded with a redirect (HTTP ${response.status}), which isn't followed`);
+  }
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`);
+  }
+}
+
+async function attemptDelivery(delivery: NotificationDelivery): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  const maxAttempts = envInt("NOTIFICATION_MAX_ATTEMPTS", 5);
+
+  try {
+    if (delivery.channel === "email") {
+      await sendEmail(delivery);
+    } else if (delivery.channel === "webhook") {
+      await sendWebhook(delivery);
+    }
+    await storage.updateNotificationDelivery(delivery.id, {
+      status: "sent",
+      attempts,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= maxAttempts || error instanceof WebhookTargetError;
+    const baseSeconds = envInt("NOTIFICATION_RETRY_SECONDS", 30);
+
+    await storage.updateNotificationDelivery(delivery.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      lastError: message,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + baseSeconds * 1000 * 2 ** (attempts - 1)),
+    });
+    log(
+      `${delivery.channel} delivery ${delivery.id} ${exhausted ? "failed permanently" : "will retry"} ` +
+        `(attempt ${attempts}/${maxAttempts}): ${message}`,
+      "notify",
+    );
+  }
+}
+
+/**
+ * Send every delivery that is due. Safe to call repeatedly.
+ */
+export async function processPendingDeliveries(): Promise<void> {
+  let due: NotificationDelivery[];
+  do {
+    due = await storage.getDueNotificationDeliveries(WORKER_BATCH_SIZE);
+    for (const delivery of due) {
+      await attemptDelivery(delivery);
+    }
+  } while (due.length === WORKER_BATCH_SIZE);
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+let runInProgress = false;
+let runRequested = false;
+
+// Run the worker now, or right after the current run if one is in progress
+function triggerDeliveryRun(): void {
+  if (runInProgress) {
+    runRequested = true;
+    return;
+  }
+
+  runInProgress = true;
+  processPendingDeliveries()
+    .catch((error) => console.error("Notification delivery run failed:", error))
+    .finally(() => {
+      runInProgress = false;
+      if (runRequested) {
+        runRequested = false;
+        triggerDeliveryRun();
+      }
+    });
+}
+
+export function startNotificationWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(triggerDeliveryRun, WORKER_INTERVAL_MS);
+  log(`notification worker running every ${WORKER_INTERVAL_MS / 1000}s (email ${isEmailConfigured() ? "enabled" : "disabled"})`, "notify");
+}
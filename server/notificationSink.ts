@@ -0,0 +1,162 @@
+/**
+ * Notification Sink
+ *
+ * Local stand-ins for an SMTP server and a webhook receiver, for testing
+ * notification delivery end to end without real infrastructure. Every email
+ * and webhook call received is printed to the console.
+ *
+ *   npm run notify:sink
+ *
+ * Point the app at it with SMTP_HOST=localhost SMTP_PORT=2525 and set a
+ * webhook URL of http://localhost:4010/hook in Profile > Notification
+ * Preferences (with WEBHOOK_ALLOW_PRIVATE_TARGETS=true, as webhooks to
+ * localhost are otherwise refused). Webhook paths containing "fail" answer HTTP 500, which
+ * exercises the retry path.
+ *
+ * Configuration (environment):
+ *   NOTIFY_SINK_SMTP_PORT  SMTP listener port (default 2525)
+ *   NOTIFY_SINK_HTTP_PORT  Webhook listener port (default 4010)
+ */
+
+import net from "net";
+import http from "http";
+import { envInt } from "./env";
+
+const smtpPort = envInt("NOTIFY_SINK_SMTP_PORT", 2525);
+const httpPort = envInt("NOTIFY_SINK_HTTP_PORT", 4010);
+
+function printEmail(from: string, to: string[], data: string) {
+  const [headers, ...body] = data.split(/\r?\n\r?\n/);
+  const subject = headers.match(/^Subject: (.*)$/m)?.[1] ?? "(no subject)";
+
+  console.log(`\n[smtp] ${new Date().toISOString()} ${from} -> ${to.join(", ")}`);
+  console.log(`[smtp] Subject: ${subject}`);
+  console.log(body.join("\n\n").trim());
+}
+
+// Just enough of SMTP for nodemailer: greeting, EHLO, AUTH, envelope, DATA
+const smtpServer = net.createServer((socket) => {
+  let buffer = "";
+  let inData = false;
+  let authStep: "none" | "username" | "password" = "none";
+  let from = "";
+  let to: string[] = [];
+  let data = "";
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const handleLine = (line: string) => {
+    if (inData) {
+      if (line === ".") {
+        inData = false;
+        printEmail(from, to, data);
+        from = "";
+        to = [];
+        data = "";
+        reply("250 OK: message accepted");
+      } else {
+        // Undo SMTP dot-stuffing
+        data += (line.startsWith("..") ? line.slice(1) : line) + "\n";
+      }
+      return;
+    }
+
+    if (authStep !== "none") {
+      // Any credentials are accepted
+      if (authStep === "username") {
+        authStep = "password";
+        reply("334 UGFzc3dvcmQ6");
+      } else {
+        authStep = "none";
+        reply("235 Authentication successful");
+      }
+      return;
+    }
+
+    const [command, ...args] = line.split(" ");
+    switch (command.toUpperCase()) {
+      case "EHLO":
+        reply("250-notification-sink");
+        reply("250 AUTH PLAIN LOGIN");
+        break;
+      case "HELO":
+        reply("250 notification-sink");
+        break;
+      case "AUTH":
+        if (args[0]?.toUpperCase() === "LOGIN") {
+          authStep = "username";
+          reply("334 VXNlcm5hbWU6");
+        } else {
+          reply("235 Authentication successful");
+        }
+        break;
+      case "MAIL":
+        from = line.match(/<(.*)>/)?.[1] ?? "";
+        reply("250 OK");
+        break;
+      case "RCPT":
+        to.push(line.match(/<(.*)>/)?.[1] ?? "");
+        reply("250 OK");
+        break;
+      case "DATA":
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+        break;
+      case "RSET":
+        from = "";
+        to = [];
+        data = "";
+        reply("250 OK");
+        break;
+      case "NOOP":
+        reply("250 OK");
+        break;
+      case "QUIT":
+        reply("221 Bye");
+        socket.end();
+        break;
+      default:
+        reply("502 Command not implemented");
+    }
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      handleLine(line);
+    }
+  });
+  socket.on("error", (error) => console.error("[smtp] connection error:", error.message));
+
+  reply("220 notification-sink ESMTP ready");
+});
+
+const httpServer = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const fail = req.url?.includes("fail") ?? false;
+    const body = Buffer.concat(chunks).toString("utf8");
+
+    console.log(`\n[webhook] ${new Date().toISOString()} ${req.method} ${req.url} -> ${fail ? 500 : 200}`);
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (name.startsWith("x-smarthome-")) {
+        console.log(`[webhook] ${name}: ${value}`);
+      }
+    }
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    res.writeHead(fail ? 500 : 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: !fail }));
+  });
+});
+
+smtpServer.listen(smtpPort, () => console.log(`[smtp] listening on port ${smtpPort}`));
+httpServer.listen(httpPort, () => console.log(`[webhook] listening on port ${httpPort}`));
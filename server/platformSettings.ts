@@ -0,0 +1,94 @@
+/**
+ * Platform Settings
+ *
+ * Platform-wide settings edited by cloud staff on the System Configuration
+ * page. Values live in the platform_settings table and are cached in memory so
+ * the code that enforces them can read them synchronously:
+ *   sessionTimeoutMinutes      Lifetime of new sign-in sessions (customAuth)
+ *   requireStaffTwoFactor      Staff 2FA enrollment policy (twoFactor)
+ *   rateLimitingEnabled/PerMinute  Per-user API request limit (middleware)
+ *   auditLoggingEnabled        Audit trail of API changes in user_config_logs (middleware)
+ *   dataRetentionEnabled       Scheduled data retention runs (retentionService)
+ *   defaultTimezone            Timezone given to new houses
+ *   crossTenantAnalytics       Staff sensor data across every house (routes)
+ *   storageQuotaGb             Media and floor plans a house may store (recordingStore)
+ * platformName and defaultLocale are only shown, nothing enforces them.
+ * Every change is recorded in user_config_logs, one entry per setting.
+ *
+ * Configuration (environment):
+ *   REQUIRE_STAFF_2FA  Initial value of requireStaffTwoFactor until it is first saved
+ */
+
+import {
+  platformSettingsSchema,
+  type PlatformSettings,
+  type UpdatePlatformSettings,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+function defaultSettings(): PlatformSettings {
+  return platformSettingsSchema.parse({
+    requireStaffTwoFactor: process.env.REQUIRE_STAFF_2FA === "true",
+  });
+}
+
+let settings: PlatformSettings = defaultSettings();
+
+/**
+ * Read the stored settings into the cache. A stored value that no longer
+ * validates (e.g. after a schema change) falls back to its default.
+ */
+export async function loadPlatformSettings(): Promise<PlatformSettings> {
+  const loaded: Record<string, unknown> = { ...defaultSettings() };
+
+  for (const row of await storage.getPlatformSettingRows()) {
+    const field = platformSettingsSchema.shape[row.key as keyof PlatformSettings];
+    const parsed = field?.safeParse(row.value);
+    if (parsed?.success) {
+      loaded[row.key] = parsed.data;
+    } else {
+      console.error(`Ignoring invalid platform setting "${row.key}"`);
+    }
+  }
+
+  settings = loaded as PlatformSettings;
+  return settings;
+}
+
+export function getPlatformSettings(): PlatformSettings {
+  return settings;
+}
+
+/**
+ * Persist the settings that actually changed and audit each one.
+ */
+export async function updatePlatformSettings(
+  changes: UpdatePlatformSettings,
+  userId: string,
+): Promise<PlatformSettings> {
+  const previous = settings;
+  const changed = Object.fromEntries(
+    Object.entries(changes).filter(
+      ([key, value]) => value !== undefined && previous[key as keyof PlatformSettings] !== value,
+    ),
+  ) as Partial<PlatformSettings>;
+
+  if (Object.keys(changed).length === 0) {
+    return previous;
+  }
+
+  await storage.upsertPlatformSettings(changed, userId);
+  settings = { ...previous, ...changed };
+
+  for (const [key, value] of Object.entries(changed)) {
+    await storage.createUserConfigLog({
+      userId,
+      configKey: `platform_setting:${key}`,
+      oldValue: JSON.stringify(previous[key as keyof PlatformSettings]),
+      newValue: JSON.stringify(value),
+      timestamp: new Date(),
+    });
+  }
+
+  return settings;
+}
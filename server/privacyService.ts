@@ -0,0 +1,227 @@
+/**
+ * Camera Privacy
+ *
+ * Privacy masks and privacy mode for cameras (see camera_privacy). Privacy
+ * mode blocks a camera's feed and any new clip or snapshot, whoever asks:
+ * recordings and snapshots are refused, alert evidence skips the camera and
+ * the feed route answers 403. Staff can still open the feed by breaking the
+ * glass with a reason; each access is kept in privacy_access_logs, which the
+ * house can read, and the house is notified.
+ *
+ * Cameras follow their privacy through desiredState (privacyMode and
+ * privacyMasks), so they stop streaming and blank the masked areas themselves.
+ * Privacy mode changes with the clock and the house's mode, so the worker
+ * re-evaluates every camera that has privacy settings and pushes changes (a
+ * house's mode change does so for its cameras right away); the recording
+ * worker stops clips on cameras that entered privacy mode.
+ *
+ * Configuration (environment):
+ *   PRIVACY_SWEEP_INTERVAL_SECONDS  How often the worker runs (default 60)
+ */
+
+import type {
+  CameraFeed,
+  CameraPrivacy,
+  CameraPrivacyStatus,
+  Device,
+  House,
+  PrivacyScheduleWindow,
+  UpdateCameraPrivacy,
+  User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getHouseLocalTime, isInClockWindow, parseClockTime } from "./houseTime";
+import { notifyPrivacyAccess } from "./notificationService";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+type PrivacySettings = Pick<CameraPrivacy, "masks" | "enabled" | "schedule" | "houseModes">;
+
+const NO_PRIVACY: PrivacySettings = { masks: [], enabled: false, schedule: [], houseModes: [] };
+
+/**
+ * The camera is in privacy mode, or the change asked for doesn't apply to
+ * this device.
+ */
+export class CameraPrivacyError extends Error {
+  constructor(message: string, public status: 400 | 403 = 403) {
+    super(message);
+    this.name = "CameraPrivacyError";
+  }
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+function inScheduleWindow(window: PrivacyScheduleWindow, minutesOfDay: number, dayOfWeek: number): boolean {
+  if (!isInClockWindow(minutesOfDay, window.start, window.end)) {
+    return false;
+  }
+  if (!window.daysOfWeek) {
+    return true;
+  }
+  // After midnight in a window that wraps, it still belongs to the day it started
+  const startedYesterday = parseClockTime(window.end) < parseClockTime(window.start) && minutesOfDay < parseClockTime(window.end);
+  return window.daysOfWeek.includes(startedYesterday ? (dayOfWeek + 6) % 7 : dayOfWeek);
+}
+
+function privacyStatus(settings: PrivacySettings, house: House | undefined, now: Date): CameraPrivacyStatus {
+  const { minutesOfDay, dayOfWeek } = getHouseLocalTime(house?.timezone ?? null, now);
+  const activeReason = settings.enabled
+    ? "manual"
+    : house && settings.houseModes.includes(house.mode)
+      ? "house_mode"
+      : settings.schedule.some((window) => inScheduleWindow(window, minutesOfDay, dayOfWeek))
+        ? "schedule"
+        : null;
+
+  const { masks, enabled, schedule, houseModes } = settings;
+  return { masks, enabled, schedule, houseModes, active: activeReason !== null, activeReason };
+}
+
+export async function getCameraPrivacyStatus(device: Device, now: Date = new Date()): Promise<CameraPrivacyStatus> {
+  const [privacy, house] = await Promise.all([
+    storage.getCameraPrivacy(device.id),
+    storage.getHouseById(device.houseId),
+  ]);
+  return privacyStatus(privacy ?? NO_PRIVACY, house, now);
+}
+
+export async function isInPrivacyMode(device: Device): Promise<boolean> {
+  return device.type === "camera" && (await getCameraPrivacyStatus(device)).active;
+}
+
+/**
+ * Refuse to record or capture from a camera in privacy mode.
+ */
+export async function assertNotInPrivacyMode(device: Device): Promise<void> {
+  if (await isInPrivacyMode(device)) {
+    throw new CameraPrivacyError(`${device.name} is in privacy mode`);
+  }
+}
+
+// Pushes the camera's privacy to its desired state when it differs
+async function syncCameraPrivacy(device: Device, status: CameraPrivacyStatus): Promise<Device> {
+  const desired = device.desiredState || {};
+  if (
+    desired.privacyMode === status.active &&
+    JSON.stringify(desired.privacyMasks ?? []) === JSON.stringify(status.masks)
+  ) {
+    return device;
+  }
+  return await storage.mergeDeviceState(device.id, "desiredState", {
+    privacyMode: status.active,
+    privacyMasks: status.masks,
+  });
+}
+
+/**
+ * Change a camera's privacy settings; fields left out keep their values.
+ */
+export async function updateCameraPrivacy(
+  device: Device,
+  update: UpdateCameraPrivacy,
+  userId: string,
+): Promise<CameraPrivacyStatus> {
+  if (device.type !== "camera") {
+    throw new CameraPrivacyError("Only cameras have privacy settings", 400);
+  }
+
+  const privacy = await storage.upsertCameraPrivacy(device.id, update, userId);
+  const status = privacyStatus(privacy, await storage.getHouseById(device.houseId), new Date());
+  await syncCameraPrivacy(device, status);
+  return status;
+}
+
+/**
+ * The camera's live feed. In privacy mode it is refused unless a break-glass
+ * reason is given (staff only, checked by the route), and that access is
+ * logged and reported to the house.
+ */
+export async function openCameraFeed(device: Device, user: User, breakGlassReason?: string): Promise<CameraFeed> {
+  if (device.type !== "camera") {
+    throw new CameraPrivacyError("Only cameras have a feed", 400);
+  }
+
+  const status = await getCameraPrivacyStatus(device);
+  if (status.active && status.activeReason) {
+    if (!breakGlassReason) {
+      throw new CameraPrivacyError(`${device.name} is in privacy mode`);
+    }
+    await storage.createPrivacyAccessLog({
+      deviceId: device.id,
+      houseId: device.houseId,
+      userId: user.id,
+      reason: breakGlassReason,
+      activeReason: status.activeReason,
+    });
+    log(`${user.email} opened ${device.name} (${device.id}) in privacy mode`, "privacy");
+    notifyPrivacyAccess(device, user, breakGlassReason).catch((error) => {
+      console.error("Failed to notify house of privacy access:", error);
+    });
+  }
+
+  const feed = await storage.getSurveillanceFeedByDevice(device.id);
+  return { feed: feed ?? null, masks: status.masks, breakGlass: status.active };
+}
+
+/**
+ * Re-evaluate the privacy of a house's cameras, e.g. after its mode changed.
+ */
+export async function syncHouseCameraPrivacy(houseId: string): Promise<void> {
+  const house = await storage.getHouseById(houseId);
+  const now = new Date();
+  for (const device of await storage.getDevicesByHouse(houseId)) {
+    // One camera failing doesn't leave the others with a stale privacy mode
+    try {
+      const privacy = device.type === "camera" ? await storage.getCameraPrivacy(device.id) : undefined;
+      if (privacy) {
+        await syncCameraPrivacy(device, privacyStatus(privacy, house, now));
+      }
+    } catch (error) {
+      console.error(`Failed to sync privacy of camera ${device.id}:`, error);
+    }
+  }
+}
+
+async function sweepCameraPrivacy(now: Date): Promise<void> {
+  const houses = new Map<string, House | undefined>();
+  for (const privacy of await storage.getAllCameraPrivacy()) {
+    try {
+      const device = await storage.getDevice(privacy.deviceId);
+      if (!device) {
+        continue;
+      }
+      if (!houses.has(device.houseId)) {
+        houses.set(device.houseId, await storage.getHouseById(device.houseId));
+      }
+      await syncCameraPrivacy(device, privacyStatus(privacy, houses.get(device.houseId), now));
+    } catch (error) {
+      console.error(`Failed to sync privacy of camera ${privacy.deviceId}:`, error);
+    }
+  }
+}
+
+export function startPrivacyWorker(): void {
+  if (sweepTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("PRIVACY_SWEEP_INTERVAL_SECONDS", 60);
+  sweepTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweepInProgress) {
+      return;
+    }
+    sweepInProgress = true;
+    try {
+      await sweepCameraPrivacy(new Date());
+    } catch (error) {
+      console.error("Privacy sweep failed:", error);
+    } finally {
+      sweepInProgress = false;
+    }
+  }, intervalSeconds * 1000);
+
+  log(`privacy worker running every ${intervalSeconds}s`, "privacy");
+}
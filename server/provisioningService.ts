@@ -0,0 +1,185 @@
+/**
+ * Device Provisioning
+ *
+ * Lets homeowners add hardware without staff creating the device for them:
+ *
+ *   1. Staff register a unit by serial number. A claim code is generated and
+ *      shown once, to be printed on the unit's label and flashed into it.
+ *   2. A homeowner who can manage a house claims the unit with its serial
+ *      number and claim code, choosing the room. This creates the device.
+ *   3. On its first check-in the device sends the same serial number and claim
+ *      code and receives its API key, once. Lost keys are reissued by staff
+ *      from Device Management.
+ *
+ * Only a hash of each claim code is stored. Every claim attempt, successful or
+ * not, is audited in user_config_logs; failed attempts are rate limited by
+ * claimRateLimiter (see middleware.ts).
+ */
+
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import type {
+  ClaimDevice,
+  Device,
+  DeviceRegistration,
+  InsertDeviceRegistration,
+} from "@shared/schema";
+import { defaultDeviceSettings } from "@shared/deviceConfig";
+import { storage } from "./storage";
+import { generateDeviceKey } from "./deviceAuth";
+
+// Crockford base32 without look-alikes (no I, L, O, U)
+const CLAIM_CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CLAIM_CODE_LENGTH = 10;
+
+// Wrong serials and wrong codes get the same answer so serials can't be probed
+const INVALID_CLAIM_MESSAGE = "Invalid serial number or claim code";
+
+export class DeviceClaimError extends Error {
+  constructor(message: string, public status: 400 | 409 = 400) {
+    super(message);
+    this.name = "DeviceClaimError";
+  }
+}
+
+// Case, spaces and dashes don't matter when a code is typed in
+function hashClaimCode(claimCode: string): string {
+  return createHash("sha256").update(claimCode.toUpperCase().replace(/[^0-9A-Z]/g, "")).digest("hex");
+}
+
+function claimCodeMatches(registration: DeviceRegistration, claimCode: string): boolean {
+  return timingSafeEqual(
+    Buffer.from(hashClaimCode(claimCode), "hex"),
+    Buffer.from(registration.claimCodeHash, "hex"),
+  );
+}
+
+function generateClaimCode(): string {
+  const chars = Array.from({ length: CLAIM_CODE_LENGTH }, () => CLAIM_CODE_ALPHABET[randomInt(CLAIM_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+/**
+ * Register a unit for claiming. The plaintext claim code is only returned here.
+ * Throws DeviceClaimError when the serial number is already known.
+ */
+export async function registerDevice(
+  input: InsertDeviceRegistration,
+  userId: string,
+): Promise<{ registration: DeviceRegistration; claimCode: string }> {
+  if (
+    await storage.getDeviceRegistrationBySerialNumber(input.serialNumber) ||
+    await storage.getDeviceBySerialNumber(input.serialNumber)
+  ) {
+    throw new DeviceClaimError(`Serial number ${input.serialNumber} is already registered`, 409);
+  }
+
+  const claimCode = generateClaimCode();
+  const registration = await storage.createDeviceRegistration({
+    ...input,
+    claimCodeHash: hashClaimCode(claimCode),
+    createdBy: userId,
+  });
+
+  await storage.createUserConfigLog({
+    userId,
+    configKey: "device_registered",
+    oldValue: null,
+    newValue: JSON.stringify({ registrationId: registration.id, serialNumber: registration.serialNumber, type: registration.type }),
+    timestamp: new Date(),
+  });
+
+  return { registration, claimCode };
+}
+
+async function auditClaim(
+  userId: string,
+  configKey: "device_claimed" | "device_claim_failed",
+  details: Record<string, unknown>,
+): Promise<void> {
+  await storage.createUserConfigLog({
+    userId,
+    configKey,
+    oldValue: null,
+    newValue: JSON.stringify(details),
+    timestamp: new Date(),
+  });
+}
+
+/**
+ * Claim a registered unit into a house, creating its device. The caller checks
+ * the user may manage the house. Throws DeviceClaimError when the serial number
+ * and claim code don't match or the unit has already been claimed.
+ */
+export async function claimDevice(userId: string, input: ClaimDevice): Promise<Device> {
+  const registration = await storage.getDeviceRegistrationBySerialNumber(input.serialNumber);
+  if (!registration || !claimCodeMatches(registration, input.claimCode)) {
+    await auditClaim(userId, "device_claim_failed", {
+      serialNumber: input.serialNumber,
+      houseId: input.houseId,
+      reason: "invalid_code",
+    });
+    throw new DeviceClaimError(INVALID_CLAIM_MESSAGE);
+  }
+
+  const claimed = await storage.claimDeviceRegistration(registration.id, userId, {
+    houseId: input.houseId,
+    serialNumber: registration.serialNumber,
+    name: input.name || registration.type.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase()),
+    type: registration.type,
+    room: input.room,
+    firmwareVersion: registration.firmwareVersion,
+    config: defaultDeviceSettings(registration.type),
+  });
+  if (!claimed) {
+    await auditClaim(userId, "device_claim_failed", {
+      serialNumber: input.serialNumber,
+      houseId: input.houseId,
+      reason: "already_claimed",
+    });
+    throw new DeviceClaimError("This device has already been claimed", 409);
+  }
+
+  await auditClaim(userId, "device_claimed", {
+    serialNumber: input.serialNumber,
+    houseId: input.houseId,
+    deviceId: claimed.device.id,
+    registrationId: registration.id,
+  });
+  return claimed.device;
+}
+
+/**
+ * A claimed unit's first check-in: issue its API key. Throws DeviceClaimError
+ * when the serial number and claim code don't match, the unit hasn't been
+ * claimed yet, or it already received its key.
+ */
+export async function provisionDevice(
+  serialNumber: string,
+  claimCode: string,
+): Promise<{ deviceId: string; serialNumber: string; apiKey: string }> {
+  const registration = await storage.getDeviceRegistrationBySerialNumber(serialNumber);
+  if (!registration || !claimCodeMatches(registration, claimCode)) {
+    throw new DeviceClaimError(INVALID_CLAIM_MESSAGE);
+  }
+  if (registration.status === "unclaimed") {
+    throw new DeviceClaimError("The device hasn't been claimed yet", 409);
+  }
+
+  const { key, keyHash, keyPrefix } = generateDeviceKey();
+  const provisioned = await storage.provisionDeviceRegistration(registration.id, { keyHash, keyPrefix });
+  if (!provisioned) {
+    throw new DeviceClaimError("The device has already been provisioned; ask support to issue a new key", 409);
+  }
+
+  if (provisioned.claimedBy) {
+    await storage.createUserConfigLog({
+      userId: provisioned.claimedBy,
+      configKey: "device_provisioned",
+      oldValue: null,
+      newValue: JSON.stringify({ deviceId: provisioned.deviceId, serialNumber, keyPrefix }),
+      timestamp: new Date(),
+    });
+  }
+
+  return { deviceId: provisioned.deviceId!, serialNumber, apiKey: key };
+}
@@ -0,0 +1,286 @@
+/**
+ * Recordings
+ *
+ * Camera clips and snapshots. Starting a clip or asking for a snapshot creates
+ * a recordings row and queues start_recording or capture_snapshot for the
+ * camera, with the recording's id; stopping a clip queues stop_recording. The
+ * camera then uploads the media to POST /api/device/recordings/:id, which puts
+ * it in the recording store and makes the recording available.
+ *
+ *   Triggers  Users start clips by hand (manual). Alerts record their cameras
+ *             as evidence (alert, see alertEvidenceService). Automation rules
+ *             can record too: scheduled rules as schedule, others as alert.
+ *   Privacy   Cameras in privacy mode refuse new clips and snapshots (see
+ *             privacyService).
+ *   Worker    Stops clips whose length is up or whose camera went into
+ *             privacy mode, and fails recordings whose latest command failed
+ *             or expired, or whose media hasn't arrived
+ *             RECORDING_UPLOAD_TIMEOUT_MINUTES after they ended.
+ *
+ * Configuration (environment):
+ *   RECORDING_MAX_UPLOAD_MB           Largest media upload accepted (default 500)
+ *   RECORDING_UPLOAD_TIMEOUT_MINUTES  How long to wait for a camera's upload (default 30)
+ *   RECORDING_SWEEP_INTERVAL_SECONDS  How often the worker runs (default 15)
+ */
+
+import type { Readable } from "stream";
+import type { Device, DeviceCommandInput, Recording } from "@shared/schema";
+import { storage } from "./storage";
+import { issueDeviceCommand, parseDeviceCommand } from "./deviceCommandService";
+import { recordingStore, RecordingTooLargeError } from "./recordingStore";
+import { assertNotInPrivacyMode, isInPrivacyMode } from "./privacyService";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+// Media types cameras may upload, and the file extension each is stored with
+const MEDIA_TYPES: Record<Recording["kind"], Record<string, string>> = {
+  clip: { "video/mp4": "mp4", "video/webm": "webm" },
+  snapshot: { "image/jpeg": "jpg", "image/png": "png" },
+};
+
+// Commands only the recording service sends, so every clip and snapshot has its row
+export const RECORDING_COMMANDS: DeviceCommandInput["command"][] = ["start_recording", "stop_recording", "capture_snapshot"];
+
+/**
+ * The recording can't be changed that way in its current state (409), or the
+ * uploaded media isn't of a type it accepts (415).
+ */
+export class RecordingError extends Error {
+  constructor(message: string, public status: 409 | 415 = 409) {
+    super(message);
+    this.name = "RecordingError";
+  }
+}
+
+export interface RecordingOrigin {
+  trigger: Recording["trigger"];
+  requestedBy?: string;
+  alertId?: string;
+  automationRuleId?: string;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+// Queues the command and points the recording at it, so the worker notices if it fails
+async function sendRecordingCommand(
+  device: Device,
+  recording: Recording,
+  command: "start_recording" | "stop_recording" | "capture_snapshot",
+  requestedBy?: string,
+  preRollSeconds?: number,
+): Promise<Recording> {
+  const params = preRollSeconds ? { recordingId: recording.id, preRollSeconds } : { recordingId: recording.id };
+  const input = parseDeviceCommand(device, { command, params });
+  const { command: queued } = await issueDeviceCommand(device, input, requestedBy
+    ? { source: "user", issuedBy: requestedBy }
+    : { source: "automation", automationRuleId: recording.automationRuleId ?? undefined });
+  return (await storage.updateRecording(recording.id, [recording.status], { commandId: queued.id })) ?? recording;
+}
+
+/**
+ * Start a clip on a camera. Clips with a duration stop by themselves, and a
+ * pre-roll asks the camera to include what it buffered before the start. A
+ * camera records one clip at a time: a manual start while it is recording is
+ * refused, while an automatic one extends the clip in progress when it would
+ * run longer.
+ */
+export async function startRecording(
+  device: Device,
+  origin: RecordingOrigin,
+  options: { durationSeconds?: number; preRollSeconds?: number } = {},
+): Promise<Recording> {
+  await assertNotInPrivacyMode(device);
+  const now = Date.now();
+  const stopAt = options.durationSeconds ? new Date(now + options.durationSeconds * 1000) : null;
+
+  // Of two starts at once only one creates the clip; the other finds it recording.
+  // A second try covers a clip that stopped in between.
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const recording = await storage.createActiveRecording({
+      deviceId: device.id,
+      houseId: device.houseId,
+      kind: "clip",
+      trigger: origin.trigger,
+      status: "recording",
+      alertId: origin.alertId ?? null,
+      automationRuleId: origin.automationRuleId ?? null,
+      requestedBy: origin.requestedBy ?? null,
+      startedAt: new Date(now - (options.preRollSeconds ?? 0) * 1000),
+      stopAt,
+    });
+    if (recording) {
+      return await sendRecordingCommand(device, recording, "start_recording", origin.requestedBy, options.preRollSeconds);
+    }
+
+    const active = await storage.getActiveRecording(device.id);
+    if (active) {
+      if (origin.trigger === "manual") {
+        throw new RecordingError(`${device.name} is already recording`);
+      }
+      if (active.stopAt && (!stopAt || stopAt > active.stopAt)) {
+        return (await storage.updateRecording(active.id, ["recording"], { stopAt })) ?? active;
+      }
+      return active;
+    }
+  }
+  throw new RecordingError(`${device.name} is already recording`);
+}
+
+/**
+ * Stop a clip; it stays pending until the camera uploads it.
+ */
+export async function stopRecording(recording: Recording, requestedBy?: string): Promise<Recording> {
+  const device = await storage.getDevice(recording.deviceId);
+  if (!device) {
+    throw new RecordingError("The camera for this recording no longer exists");
+  }
+
+  const stopped = await storage.updateRecording(recording.id, ["recording"], { status: "pending", endedAt: new Date() });
+  if (!stopped) {
+    throw new RecordingError("This recording has already stopped");
+  }
+  return await sendRecordingCommand(device, stopped, "stop_recording", requestedBy);
+}
+
+/**
+ * Ask a camera for a still image.
+ */
+export async function captureSnapshot(device: Device, origin: RecordingOrigin): Promise<Recording> {
+  await assertNotInPrivacyMode(device);
+  const now = new Date();
+  const recording = await storage.createRecording({
+    deviceId: device.id,
+    houseId: device.houseId,
+    kind: "snapshot",
+    trigger: origin.trigger,
+    status: "pending",
+    alertId: origin.alertId ?? null,
+    automationRuleId: origin.automationRuleId ?? null,
+    requestedBy: origin.requestedBy ?? null,
+    startedAt: now,
+    endedAt: now,
+  });
+  return await sendRecordingCommand(device, recording, "capture_snapshot", origin.requestedBy);
+}
+
+/**
+ * Store media a camera uploaded for one of its recordings. Undefined when the
+ * recording doesn't exist or belongs to another device.
+ */
+export async function saveRecordingMedia(
+  device: Device,
+  recordingId: string,
+  media: Readable,
+  mimeType: string | undefined,
+  contentLength?: number,
+): Promise<Recording | undefined> {
+  const recording = await storage.getRecording(recordingId);
+  if (!recording || recording.deviceId !== device.id) {
+    return undefined;
+  }
+  if (recording.status !== "recording" && recording.status !== "pending") {
+    throw new RecordingError(`This recording is ${recording.status}`);
+  }
+
+  const type = (mimeType || "").split(";")[0].trim().toLowerCase();
+  const extension = MEDIA_TYPES[recording.kind][type];
+  if (!extension) {
+    throw new RecordingError(
+      `A ${recording.kind} must be uploaded as ${Object.keys(MEDIA_TYPES[recording.kind]).join(" or ")}`,
+      415,
+    );
+  }
+
+  // Refused up front when the size is declared; the store enforces it either way
+  const maxBytes = envInt("RECORDING_MAX_UPLOAD_MB", 500) * 1024 * 1024;
+  if (contentLength !== undefined && contentLength > maxBytes) {
+    throw new RecordingTooLargeError(maxBytes);
+  }
+  const storagePath = `${recording.houseId}/${recording.deviceId}/${recording.id}.${extension}`;
+  const sizeBytes = await recordingStore.save(storagePath, media, maxBytes);
+
+  // A camera may upload a clip it ended itself, without being told to stop
+  const saved = await storage.updateRecording(recording.id, ["recording", "pending"], {
+    status: "available",
+    endedAt: recording.endedAt ?? new Date(),
+    sizeBytes,
+    mimeType: type,
+    storagePath,
+  });
+  if (!saved) {
+    await recordingStore.remove(storagePath);
+    throw new RecordingError("This recording is no longer waiting for media");
+  }
+  return saved;
+}
+
+export async function deleteRecording(recording: Recording): Promise<void> {
+  if (recording.storagePath) {
+    await recordingStore.remove(recording.storagePath);
+  }
+  await storage.deleteRecording(recording.id);
+}
+
+async function sweepRecordings(now: Date): Promise<void> {
+  for (const recording of await storage.getRecordingsDueToStop(now)) {
+    try {
+      await stopRecording(recording);
+    } catch (error) {
+      console.error(`Failed to stop recording ${recording.id}:`, error);
+    }
+  }
+
+  for (const recording of await storage.getActiveRecordings()) {
+    const device = await storage.getDevice(recording.deviceId);
+    if (device && (await isInPrivacyMode(device))) {
+      try {
+        await stopRecording(recording);
+        log(`stopped recording ${recording.id}: ${device.name} is in privacy mode`, "recordings");
+      } catch (error) {
+        console.error(`Failed to stop recording ${recording.id}:`, error);
+      }
+    }
+  }
+
+  for (const { recording, error } of await storage.getRecordingsWithFailedCommands()) {
+    await storage.updateRecording(recording.id, ["recording", "pending"], {
+      status: "failed",
+      endedAt: recording.endedAt ?? now,
+      error: error || "The camera did not respond",
+    });
+  }
+
+  const timeoutMinutes = envInt("RECORDING_UPLOAD_TIMEOUT_MINUTES", 30);
+  const cutoff = new Date(now.getTime() - timeoutMinutes * 60_000);
+  for (const recording of await storage.getPendingRecordingsEndedBefore(cutoff)) {
+    await storage.updateRecording(recording.id, ["pending"], {
+      status: "failed",
+      error: "The camera did not upload the recording",
+    });
+  }
+}
+
+export function startRecordingWorker(): void {
+  if (sweepTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("RECORDING_SWEEP_INTERVAL_SECONDS", 15);
+  sweepTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweepInProgress) {
+      return;
+    }
+    sweepInProgress = true;
+    try {
+      await sweepRecordings(new Date());
+    } catch (error) {
+      console.error("Recording sweep failed:", error);
+    } finally {
+      sweepInProgress = false;
+    }
+  }, intervalSeconds * 1000);
+
+  log(`recording worker running every ${intervalSeconds}s`, "recordings");
+}
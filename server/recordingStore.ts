@@ -0,0 +1,153 @@
+/**
+ * Recording Store
+ *
+ * Where clip and snapshot media is kept. Recordings refer to their media by a
+ * path relative to the store, so a different backend can replace the local
+ * filesystem one without touching the rows. Floor-plan images are kept the
+ * same way, in a store of their own. Paths start with the house's id, and a
+ * save that would take the house's media and floor plans together over the
+ * platform's storageQuotaGb is refused.
+ *
+ * Configuration (environment):
+ *   RECORDINGS_DIR   Directory the local backend writes to (default ./data/recordings)
+ *   FLOOR_PLANS_DIR  Directory for floor-plan images (default ./data/floor-plans)
+ */
+
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, stat, unlink } from "fs/promises";
+import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { getPlatformSettings } from "./platformSettings";
+
+export interface RecordingStore {
+  // Writes the stream to storagePath and returns its size in bytes
+  save(storagePath: string, data: Readable, maxBytes: number): Promise<number>;
+  // Undefined when there is nothing stored at storagePath
+  size(storagePath: string): Promise<number | undefined>;
+  // Both ends of the range are inclusive, as in an HTTP Range header
+  read(storagePath: string, range?: { start: number; end: number }): Readable;
+  remove(storagePath: string): Promise<void>;
+}
+
+/**
+ * The uploaded media was larger than the store accepts.
+ */
+export class RecordingTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Recording media is larger than ${Math.floor(maxBytes / (1024 * 1024))} MB`);
+    this.name = "RecordingTooLargeError";
+  }
+}
+
+/**
+ * Storing the media would take the house over its storage quota.
+ */
+export class StorageQuotaExceededError extends Error {
+  constructor(quotaGb: number) {
+    super(`This house has used its ${quotaGb} GB of storage; delete recordings to make room`);
+    this.name = "StorageQuotaExceededError";
+  }
+}
+
+class LocalRecordingStore implements RecordingStore {
+  constructor(private readonly root: string) {}
+
+  // Storage paths are built by the server, but never let one leave the root
+  private resolve(storagePath: string): string {
+    const file = path.resolve(this.root, storagePath);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid recording path: ${storagePath}`);
+    }
+    return file;
+  }
+
+  async save(storagePath: string, data: Readable, maxBytes: number): Promise<number> {
+    const file = this.resolve(storagePath);
+    // Written under a temporary name so a failed upload never replaces good media
+    const partial = `${file}.part`;
+    await mkdir(path.dirname(file), { recursive: true });
+
+    let bytes = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        callback(bytes > maxBytes ? new RecordingTooLargeError(maxBytes) : null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(data, limit, createWriteStream(partial));
+      await rename(partial, file);
+    } catch (error) {
+      await unlink(partial).catch(() => undefined);
+      throw error;
+    }
+    return bytes;
+  }
+
+  async size(storagePath: string): Promise<number | undefined> {
+    try {
+      return (await stat(this.resolve(storagePath))).size;
+    } catch {
+      return undefined;
+    }
+  }
+
+  read(storagePath: string, range?: { start: number; end: number }): Readable {
+    return createReadStream(this.resolve(storagePath), range);
+  }
+
+  async remove(storagePath: string): Promise<void> {
+    await unlink(this.resolve(storagePath)).catch((error) => {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    });
+  }
+}
+
+// Limits each save to what is left of the house's quota, as counted in the database
+class HouseQuotaStore implements RecordingStore {
+  constructor(private readonly store: RecordingStore) {}
+
+  async save(storagePath: string, data: Readable, maxBytes: number): Promise<number> {
+    const houseId = storagePath.split("/")[0];
+    const { storageQuotaGb } = getPlatformSettings();
+    const remaining = storageQuotaGb * 1024 ** 3 - (await storage.getHouseStorageBytes(houseId));
+    if (remaining <= 0) {
+      data.destroy();
+      throw new StorageQuotaExceededError(storageQuotaGb);
+    }
+    if (remaining >= maxBytes) {
+      return await this.store.save(storagePath, data, maxBytes);
+    }
+
+    try {
+      return await this.store.save(storagePath, data, remaining);
+    } catch (error) {
+      throw error instanceof RecordingTooLargeError ? new StorageQuotaExceededError(storageQuotaGb) : error;
+    }
+  }
+
+  size(storagePath: string): Promise<number | undefined> {
+    return this.store.size(storagePath);
+  }
+
+  read(storagePath: string, range?: { start: number; end: number }): Readable {
+    return this.store.read(storagePath, range);
+  }
+
+  remove(storagePath: string): Promise<void> {
+    return this.store.remove(storagePath);
+  }
+}
+
+export const recordingStore: RecordingStore = new HouseQuotaStore(new LocalRecordingStore(
+  path.resolve(process.env.RECORDINGS_DIR || "data/recordings"),
+));
+
+export const floorPlanStore: RecordingStore = new HouseQuotaStore(new LocalRecordingStore(
+  path.resolve(process.env.FLOOR_PLANS_DIR || "data/floor-plans"),
+));
@@ -0,0 +1,209 @@
+/**
+ * Data Retention
+ *
+ * Removes rows that have outlived their table's retention policy:
+ *   sensor_data         Raw readings, rolled up into sensor_data_hourly and
+ *                       sensor_data_daily before they are deleted
+ *   sensor_data_hourly  Hourly rollups (daily rollups are kept)
+ *   audio_detections    Audio classification results
+ *   alerts              Resolved and dismissed alerts with their timelines, plus
+ *                       resolved incidents left without alerts
+ *   user_config_logs    The configuration audit trail
+ * Policies are edited by cloud staff on the Database Management page; targets
+ * without one use RETENTION_DEFAULT_DAYS. Scheduled runs only happen while the
+ * "Enable Data Retention Policy" platform setting is on, but staff can preview
+ * (dry run) or start a run at any time. Every run and what it did is recorded in
+ * retention_runs.
+ *
+ * Configuration (environment):
+ *   RETENTION_INTERVAL_HOURS  Time between scheduled runs (default 24)
+ */
+
+import {
+  RETENTION_DEFAULT_DAYS,
+  RETENTION_TARGETS,
+  type RetentionPolicy,
+  type RetentionRun,
+  type RetentionTarget,
+  type RetentionTargetResult,
+  type UpdateRetentionPolicy,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getPlatformSettings } from "./platformSettings";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+// How often the worker checks whether a scheduled run is due
+const CHECK_INTERVAL_MS = 15 * 60_000;
+
+export class RetentionRunInProgressError extends Error {
+  constructor() {
+    super("A retention run is already in progress");
+    this.name = "RetentionRunInProgressError";
+  }
+}
+
+let retentionTimer: NodeJS.Timeout | null = null;
+let runInProgress = false;
+
+/**
+ * The effective policy for every target, stored or default.
+ */
+export async function getRetentionPolicies(): Promise<RetentionPolicy[]> {
+  const stored = await storage.getRetentionPolicies();
+  return RETENTION_TARGETS.map((target) =>
+    stored.find((policy) => policy.target === target) ?? {
+      target,
+      retentionDays: RETENTION_DEFAULT_DAYS[target],
+      enabled: true,
+      updatedBy: null,
+      updatedAt: null,
+    },
+  );
+}
+
+/**
+ * The oldest time a target still keeps rows from, or null when its policy is off.
+ */
+export async function getRetentionHorizon(target: RetentionTarget, now: Date = new Date()): Promise<Date | null> {
+  const policy = (await getRetentionPolicies()).find((p) => p.target === target)!;
+  return policy.enabled ? new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60_000) : null;
+}
+
+/**
+ * Save a policy change and audit it in user_config_logs.
+ */
+export async function updateRetentionPolicy(
+  target: RetentionTarget,
+  changes: UpdateRetentionPolicy,
+  userId: string,
+): Promise<RetentionPolicy> {
+  const previous = (await getRetentionPolicies()).find((policy) => policy.target === target)!;
+  const policy = await storage.upsertRetentionPolicy(
+    target,
+    {
+      retentionDays: changes.retentionDays ?? previous.retentionDays,
+      enabled: changes.enabled ?? previous.enabled,
+    },
+    userId,
+  );
+
+  await storage.createUserConfigLog({
+    userId,
+    configKey: `retention_policy:${target}`,
+    oldValue: JSON.stringify({ retentionDays: previous.retentionDays, enabled: previous.enabled }),
+    newValue: JSON.stringify({ retentionDays: policy.retentionDays, enabled: policy.enabled }),
+    timestamp: new Date(),
+  });
+
+  return policy;
+}
+
+async function applyPolicy(policy: RetentionPolicy, dryRun: boolean): Promise<RetentionTargetResult> {
+  const cutoff = new Date(Date.now() - policy.retentionDays * 86_400_000);
+  const result: RetentionTargetResult = {
+    target: policy.target,
+    retentionDays: policy.retentionDays,
+    cutoff: cutoff.toISOString(),
+    rows: 0,
+  };
+
+  switch (policy.target) {
+    case "sensor_data":
+      return { ...result, ...(await storage.rollupAndPurgeSensorData(cutoff, dryRun)) };
+    case "sensor_data_hourly":
+      return { ...result, rows: await storage.purgeHourlySensorRollups(cutoff, dryRun) };
+    case "audio_detections":
+      return { ...result, rows: await storage.purgeAudioDetections(cutoff, dryRun) };
+    case "alerts":
+      return { ...result, ...(await storage.purgeClosedAlerts(cutoff, dryRun)) };
+    case "user_config_logs":
+      return { ...result, rows: await storage.purgeUserConfigLogs(cutoff, dryRun) };
+  }
+}
+
+async function executeRun(run: RetentionRun): Promise<void> {
+  const results: RetentionTargetResult[] = [];
+  try {
+    const policies = (await getRetentionPolicies()).filter((policy) => policy.enabled);
+    for (const policy of policies) {
+      results.push(await applyPolicy(policy, run.dryRun));
+    }
+
+    await storage.updateRetentionRun(run.id, { status: "completed", results, finishedAt: new Date() });
+    const total = results.reduce((sum, result) => sum + result.rows, 0);
+    log(`${run.dryRun ? "dry run found" : "removed"} ${total} rows (${run.trigger})`, "retention");
+  } catch (error) {
+    console.error("Retention run failed:", error);
+    // Targets that finished before the failure stay in the report
+    await storage.updateRetentionRun(run.id, {
+      status: "failed",
+      results,
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    });
+  }
+}
+
+/**
+ * Record a new run and carry it out in the background. The returned run is
+ * still "running"; its results are filled in when it finishes.
+ * Throws RetentionRunInProgressError while another run is going.
+ */
+export async function startRetentionRun(options: {
+  trigger: RetentionRun["trigger"];
+  dryRun: boolean;
+  userId?: string;
+}): Promise<RetentionRun> {
+  if (runInProgress) {
+    throw new RetentionRunInProgressError();
+  }
+
+  runInProgress = true;
+  try {
+    const run = await storage.createRetentionRun({
+      trigger: options.trigger,
+      dryRun: options.dryRun,
+      startedBy: options.userId ?? null,
+    });
+    executeRun(run).finally(() => {
+      runInProgress = false;
+    });
+    return run;
+  } catch (error) {
+    runInProgress = false;
+    throw error;
+  }
+}
+
+async function runScheduledRetentionIfDue(): Promise<void> {
+  if (runInProgress || !getPlatformSettings().dataRetentionEnabled) {
+    return;
+  }
+
+  const intervalHours = envInt("RETENTION_INTERVAL_HOURS", 24);
+  const lastRun = await storage.getLatestRetentionRun("scheduled");
+  if (lastRun && lastRun.startedAt.getTime() + intervalHours * 3_600_000 > Date.now()) {
+    return;
+  }
+
+  await startRetentionRun({ trigger: "scheduled", dryRun: false });
+}
+
+export function startRetentionWorker(): void {
+  if (retentionTimer) {
+    return;
+  }
+
+  storage
+    .failInterruptedRetentionRuns()
+    .catch((error) => console.error("Failed to close interrupted retention runs:", error));
+
+  // Due-ness is judged from the last recorded run, so restarts don't reset the schedule
+  retentionTimer = setInterval(() => {
+    runScheduledRetentionIfDue().catch((error) => console.error("Scheduled retention failed:", error));
+  }, CHECK_INTERVAL_MS);
+
+  const intervalHours = envInt("RETENTION_INTERVAL_HOURS", 24);
+  log(`retention worker running every ${intervalHours}h`, "retention");
+}
@@ -1,12 +1,13 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type DeviceSettingsChange } from "./storage";
 import { setupCustomAuth } from "./customAuth";
-import { requireRole, canAccessHouse } from "./middleware";
+import { requireRole, canAccessHouse, claimRateLimiter } from "./middleware";
 import bcrypt from "bcryptjs";
 import { 
   insertDeviceSchema, 
-  insertAlertSchema, 
+  createAlertSchema,
+  telemetryBatchSchema,
   insertHouseSchema,
   maintenanceRecords,
   insertMaintenanceRecordSchema,
@@ -18,13 +19,125 @@ import {
   users,
   devices,
   userConfigLogs,
+  insertAutomationRuleSchema,
+  updateAutomationRuleSchema,
+  updateHouseMemberSchema,
+  createHouseInvitationSchema,
+  updateNotificationPreferencesSchema,
+  updatePlatformSettingsSchema,
+  insertEscalationPolicySchema,
+  updateEscalationPolicySchema,
+  alertCommentSchema,
+  assignAlertSchema,
+  alertSearchSchema,
+  sensorDataQuerySchema,
+  deviceCommandAckSchema,
+  updateRetentionPolicySchema,
+  startRetentionRunSchema,
+  insertFirmwareReleaseSchema,
+  insertFirmwareCampaignSchema,
+  firmwareStatusReportSchema,
+  insertDeviceRegistrationSchema,
+  claimDeviceSchema,
+  deviceProvisionSchema,
+  deviceImportOptionsSchema,
+  recordingQuerySchema,
+  startRecordingSchema,
+  updateDeviceSchema,
+  deviceSettingsSchema,
+  updateCameraPrivacySchema,
+  breakGlassSchema,
+  updateHouseSecuritySchema,
+  setHouseModeSchema,
+  keypadModeSchema,
+  insertFloorSchema,
+  updateFloorSchema,
+  insertRoomSchema,
+  updateRoomSchema,
+  devicePlacementSchema,
+  RETENTION_TARGETS,
+  NOTIFICATION_CHANNELS,
+  type AutomationAction,
+  type Incident,
 } from "@shared/schema";
+import { DEVICE_CONFIG_SCHEMAS, pickDeviceSettings } from "@shared/deviceConfig";
 import { db } from "./db";
 import { eq, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { ZodError } from "zod";
 import multer from "multer";
-import { analyzeAudio, generateAlertDescription } from "./audioDetectionService";
+import {
+  AudioDecodeError,
+  analyzeAudio,
+  audioAlertType,
+  generateAlertDescription,
+  getDefaultAudioModel,
+  isAudioModel,
+  listAudioClassifiers,
+} from "./audioDetectionService";
+import { subscribeToAlertEvents, publishAlertEvent } from "./alertEvents";
+import { generateDeviceKey, requireDeviceAuth } from "./deviceAuth";
+import { ingestTelemetry } from "./telemetryService";
+import {
+  issueDeviceCommand,
+  parseDeviceCommand,
+  pullDeviceCommands,
+  acknowledgeDeviceCommand,
+  expireDeviceCommands,
+  DeviceCommandError,
+} from "./deviceCommandService";
+import { raiseAlert, transitionAlert, assignAlert, resolveIncident, AlertTransitionError } from "./alertService";
+import { onDeviceStatusChanged } from "./automationEngine";
+import {
+  assertPublicWebhookTarget,
+  getChannelPreferences,
+  isEmailConfigured,
+  sendTestNotification,
+  WebhookTargetError,
+} from "./notificationService";
+import { getPlatformSettings, loadPlatformSettings, updatePlatformSettings } from "./platformSettings";
+import {
+  getRetentionPolicies,
+  updateRetentionPolicy,
+  startRetentionRun,
+  RetentionRunInProgressError,
+} from "./retentionService";
+import {
+  createCampaign,
+  setCampaignStatus,
+  getCampaignsWithProgress,
+  getFirmwareOffer,
+  reportFirmwareStatus,
+  FirmwareCampaignError,
+} from "./firmwareService";
+import { registerDevice, claimDevice, provisionDevice, DeviceClaimError } from "./provisioningService";
+import { parseImportFile, importDevices, exportDevices, DeviceImportError } from "./deviceImportService";
+import {
+  startRecording,
+  stopRecording,
+  captureSnapshot,
+  saveRecordingMedia,
+  deleteRecording,
+  RecordingError,
+  RECORDING_COMMANDS,
+} from "./recordingService";
+import { recordingStore, RecordingTooLargeError, StorageQuotaExceededError } from "./recordingStore";
+import { getAlertEvidence, writeEvidenceBundle } from "./alertEvidenceService";
+import { CameraPrivacyError, getCameraPrivacyStatus, openCameraFeed, updateCameraPrivacy } from "./privacyService";
+import { HouseSecurityError, getHouseSecurityStatus, setHouseMode, updateHouseSecurity } from "./securityModeService";
+import {
+  getHouseFloorPlan,
+  floorView,
+  saveFloorPlanImage,
+  readFloorPlanImage,
+  removeFloorPlanImage,
+  deleteFloor,
+  deleteRoom,
+  placeDevice,
+  assertFloorInHouse,
+  FloorPlanError,
+  MAX_FLOOR_PLAN_BYTES,
+} from "./floorPlanService";
 
 // Middleware to check if user is authenticated
 function isAuthenticated(req: any, res: any, next: any) {
@@ -34,7 +147,26 @@ function isAuthenticated(req: any, res: any, next: any) {
   res.status(401).json({ message: "Unauthorized" });
 }
 
+// A single "bytes=start-end" range, as video players send; undefined for anything else
+function parseByteRange(header: string | undefined, size: number): { start: number; end: number } | undefined {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return undefined;
+  }
+  const range = match[1] === ""
+    ? { start: Math.max(size - parseInt(match[2], 10), 0), end: size - 1 } // The last n bytes
+    : { start: parseInt(match[1], 10), end: match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1) };
+  return range.start <= range.end ? range : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth reads the session timeout and 2FA policy from platform settings
+  try {
+    await loadPlatformSettings();
+  } catch (error) {
+    console.error("Failed to load platform settings, using defaults:", error);
+  }
+
   // Auth middleware
   await setupCustomAuth(app);
 
@@ -185,12 +317,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.id;
       const validatedData = insertHouseSchema.parse({
+        timezone: getPlatformSettings().defaultTimezone,
         ...req.body,
         ownerId: userId,
       });
       const house = await storage.createHouse(validatedData);
       res.status(201).json(house);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
       console.error("Error creating house:", error);
       res.status(400).json({ message: "Failed to create house" });
     }
@@ -205,7 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const houses = await storage.getAllHouses();
         res.json(houses);
       } else {
-        const houses = await storage.getHousesByOwner(userId);
+        const houses = await storage.getHousesForUser(userId);
         res.json(houses);
       }
     } catch (error) {
@@ -214,277 +350,2504 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== DEVICE ROUTES =====
-  app.post('/api/devices', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+  // ===== HOUSE SECURITY ROUTES =====
+  // The house's mode, whether it is armed yet, any running entry delay and the arming settings
+  app.get('/api/houses/:id/security', isAuthenticated, async (req: any, res) => {
     try {
-      const validatedData = insertDeviceSchema.parse(req.body);
-      
-      // Verify the house exists
-      const house = await storage.getHouseById(validatedData.houseId);
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role))) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+
+      res.json(await getHouseSecurityStatus(house));
+    } catch (error) {
+      console.error("Error fetching house security:", error);
+      res.status(500).json({ message: "Failed to fetch house security" });
+    }
+  });
+
+  // Exit and entry delays and the keypad PIN
+  app.patch('/api/houses/:id/security', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+
+      const update = updateHouseSecuritySchema.parse(req.body);
+      res.json(await updateHouseSecurity(house, update));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating house security:", error);
+      res.status(500).json({ message: "Failed to update house security" });
+    }
+  });
+
+  // Arm or disarm: disarmed, home, away or vacation
+  app.post('/api/houses/:id/mode', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role, 'control'))) {
+        return res.status(403).json({ message: "You don't have permission to arm or disarm this house" });
+      }
+
+      const { mode } = setHouseModeSchema.parse(req.body);
+      res.json(await setHouseMode(house, mode, { source: "app", userId: req.user.id }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof HouseSecurityError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error changing house mode:", error);
+      res.status(500).json({ message: "Failed to change house mode" });
+    }
+  });
+
+  // Mode changes, newest first
+  app.get('/api/houses/:id/mode-history', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role))) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 200);
+      res.json(await storage.getHouseModeChanges(house.id, limit));
+    } catch (error) {
+      console.error("Error fetching mode history:", error);
+      res.status(500).json({ message: "Failed to fetch mode history" });
+    }
+  });
+
+  // ===== HOUSE MEMBERSHIP ROUTES =====
+  // Invitations lapse if not answered within this many days
+  const INVITATION_TTL_DAYS = 7;
+
+  app.get('/api/houses/:id/members', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const house = await storage.getHouseById(req.params.id);
+
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+
+      const hasAccess = await canAccessHouse(userId, house.id, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+
+      const owner = house.ownerId ? await storage.getUser(house.ownerId) : undefined;
+      const members = await storage.getHouseMembers(house.id);
+      res.json({
+        owner: owner && {
+          id: owner.id,
+          email: owner.email,
+          firstName: owner.firstName,
+          lastName: owner.lastName,
+          profileImageUrl: owner.profileImageUrl,
+        },
+        members,
+      });
+    } catch (error) {
+      console.error("Error fetching house members:", error);
+      res.status(500).json({ message: "Failed to fetch house members" });
+    }
+  });
+
+  app.patch('/api/houses/:id/members/:memberId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const member = await storage.getHouseMember(req.params.memberId);
+
+      if (!member || member.houseId !== req.params.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const hasAccess = await canAccessHouse(userId, member.houseId, req.user.role, 'manage');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Only house owners can manage members" });
+      }
+
+      const validatedData = updateHouseMemberSchema.parse(req.body);
+      const updatedMember = await storage.updateHouseMember(member.id, validatedData);
+      res.json(updatedMember);
+    } catch (error) {
+      console.error("Error updating house member:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update house member" });
+    }
+  });
+
+  app.delete('/api/houses/:id/members/:memberId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const member = await storage.getHouseMember(req.params.memberId);
+
+      if (!member || member.houseId !== req.params.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      // Members may always leave; removing someone else needs manage permission
+      if (member.userId !== userId) {
+        const hasAccess = await canAccessHouse(userId, member.houseId, req.user.role, 'manage');
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Only house owners can remove members" });
+        }
+      }
+
+      await storage.deleteHouseMember(member.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing house member:", error);
+      res.status(500).json({ message: "Failed to remove house member" });
+    }
+  });
+
+  app.get('/api/houses/:id/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      const hasAccess = await canAccessHouse(req.user.id, req.params.id, req.user.role, 'manage');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Only house owners can view invitations" });
+      }
+
+      const invitations = await storage.getPendingHouseInvitations(req.params.id);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching house invitations:", error);
+      res.status(500).json({ message: "Failed to fetch house invitations" });
+    }
+  });
+
+  app.post('/api/houses/:id/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const house = await storage.getHouseById(req.params.id);
+
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+
+      const hasAccess = await canAccessHouse(userId, house.id, req.user.role, 'manage');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Only house owners can invite members" });
+      }
+
+      const validatedData = createHouseInvitationSchema.parse(req.body);
+
+      const pending = await storage.getPendingHouseInvitations(house.id);
+      if (pending.some((invitation) => invitation.email === validatedData.email)) {
+        return res.status(409).json({ message: "This email already has a pending invitation" });
+      }
+
+      const invitation = await storage.createHouseInvitation({
+        houseId: house.id,
+        email: validatedData.email,
+        role: validatedData.role,
+        accessExpiresAt: validatedData.accessExpiresAt ?? null,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+      res.status(201).json(invitation);
+    } catch (error) {
+      console.error("Error creating house invitation:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create house invitation" });
+    }
+  });
+
+  app.delete('/api/houses/:id/invitations/:invitationId', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getHouseInvitation(req.params.invitationId);
+
+      if (!invitation || invitation.houseId !== req.params.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, invitation.houseId, req.user.role, 'manage');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Only house owners can revoke invitations" });
+      }
+
+      await storage.updateHouseInvitationStatus(invitation.id, 'revoked');
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking house invitation:", error);
+      res.status(500).json({ message: "Failed to revoke house invitation" });
+    }
+  });
+
+  // Pending invitations addressed to the signed-in user's email
+  app.get('/api/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitations = await storage.getPendingInvitationsForEmail(req.user.email);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // Only the addressee may answer an invitation, and only while it is open
+  async function findOpenInvitation(req: any, res: any) {
+    const invitation = await storage.getHouseInvitation(req.params.id);
+    if (!invitation || invitation.email !== req.user.email.toLowerCase()) {
+      res.status(404).json({ message: "Invitation not found" });
+      return undefined;
+    }
+    if (invitation.status !== 'pending' || invitation.expiresAt < new Date()) {
+      res.status(410).json({ message: "This invitation is no longer valid" });
+      return undefined;
+    }
+    return invitation;
+  }
+
+  app.post('/api/invitations/:id/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await findOpenInvitation(req, res);
+      if (!invitation) {
+        return;
+      }
+
+      const member = await storage.addHouseMember({
+        houseId: invitation.houseId,
+        userId: req.user.id,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy,
+        expiresAt: invitation.accessExpiresAt,
+      });
+      await storage.updateHouseInvitationStatus(invitation.id, 'accepted');
+      res.json(member);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  app.post('/api/invitations/:id/decline', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await findOpenInvitation(req, res);
+      if (!invitation) {
+        return;
+      }
+
+      await storage.updateHouseInvitationStatus(invitation.id, 'declined');
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      res.status(500).json({ message: "Failed to decline invitation" });
+    }
+  });
+
+  // ===== ROOM & FLOOR PLAN ROUTES =====
+  // Floors, rooms, devices and device placements, for drawing the house's floor plans
+  app.get('/api/houses/:id/floor-plan', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role))) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+
+      res.json(await getHouseFloorPlan(house.id));
+    } catch (error) {
+      console.error("Error fetching floor plan:", error);
+      res.status(500).json({ message: "Failed to fetch floor plan" });
+    }
+  });
+
+  app.post('/api/houses/:id/floors', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+
+      const floorData = insertFloorSchema.parse({ ...req.body, houseId: house.id });
+      res.status(201).json(await storage.createFloor(floorData));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating floor:", error);
+      res.status(500).json({ message: "Failed to create floor" });
+    }
+  });
+
+  app.post('/api/houses/:id/rooms', isAuthenticated, async (req: any, res) => {
+    try {
+      const house = await storage.getHouseById(req.params.id);
       if (!house) {
         return res.status(404).json({ message: "House not found" });
       }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+
+      const roomData = insertRoomSchema.parse({ ...req.body, houseId: house.id });
+      await assertFloorInHouse(roomData.floorId, house.id);
+      const room = await storage.createRoom(roomData);
+      if (!room) {
+        return res.status(409).json({ message: `This house already has a room called ${roomData.name}` });
+      }
+      res.status(201).json(room);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof FloorPlanError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating room:", error);
+      res.status(500).json({ message: "Failed to create room" });
+    }
+  });
+
+  // The floor or room in req.params.id, when the user may manage (or with 'view', see) its house
+  async function findFloor(req: any, res: any, permission: 'view' | 'manage' = 'manage') {
+    const floor = await storage.getFloor(req.params.id);
+    if (!floor) {
+      res.status(404).json({ message: "Floor not found" });
+      return undefined;
+    }
+    if (!(await canAccessHouse(req.user.id, floor.houseId, req.user.role, permission))) {
+      res.status(403).json({
+        message: permission === 'view' ? "Access denied to this house" : "You don't have permission to manage this house",
+      });
+      return undefined;
+    }
+    return floor;
+  }
+
+  async function findRoom(req: any, res: any) {
+    const room = await storage.getRoom(req.params.id);
+    if (!room) {
+      res.status(404).json({ message: "Room not found" });
+      return undefined;
+    }
+    if (!(await canAccessHouse(req.user.id, room.houseId, req.user.role, 'manage'))) {
+      res.status(403).json({ message: "You don't have permission to manage this house" });
+      return undefined;
+    }
+    return room;
+  }
+
+  app.patch('/api/floors/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const floor = await findFloor(req, res);
+      if (!floor) {
+        return;
+      }
+
+      const update = updateFloorSchema.parse(req.body);
+      res.json(floorView(await storage.updateFloor(floor.id, update)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating floor:", error);
+      res.status(500).json({ message: "Failed to update floor" });
+    }
+  });
+
+  app.delete('/api/floors/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const floor = await findFloor(req, res);
+      if (!floor) {
+        return;
+      }
+
+      await deleteFloor(floor);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting floor:", error);
+      res.status(500).json({ message: "Failed to delete floor" });
+    }
+  });
+
+  const floorPlanUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: MAX_FLOOR_PLAN_BYTES,
+    },
+  });
+
+  // The floor's plan image, uploaded as the "plan" file (PNG, JPEG or WebP).
+  // The upload is only read once the user may manage the house.
+  app.put('/api/floors/:id/plan', isAuthenticated, async (req: any, res) => {
+    try {
+      const floor = await findFloor(req, res);
+      if (!floor) {
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        floorPlanUpload.single('plan')(req, res, (error: unknown) => (error ? reject(error) : resolve()));
+      });
+      if (!req.file) {
+        return res.status(400).json({ message: "No floor plan image provided" });
+      }
+
+      res.json(floorView(await saveFloorPlanImage(floor, req.file.buffer, req.file.mimetype)));
+    } catch (error) {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: `A floor plan can be at most ${MAX_FLOOR_PLAN_BYTES / (1024 * 1024)}MB` });
+      }
+      if (error instanceof StorageQuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof FloorPlanError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error saving floor plan:", error);
+      res.status(500).json({ message: "Failed to save floor plan" });
+    }
+  });
+
+  app.get('/api/floors/:id/plan', isAuthenticated, async (req: any, res) => {
+    try {
+      const floor = await findFloor(req, res, 'view');
+      if (!floor) {
+        return;
+      }
+      if (!floor.planPath) {
+        return res.status(404).json({ message: "This floor has no plan" });
+      }
+
+      res.setHeader('Content-Type', floor.planMimeType || 'application/octet-stream');
+      readFloorPlanImage({ ...floor, planPath: floor.planPath })
+        .on('error', (error) => {
+          console.error("Error reading floor plan:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error("Error streaming floor plan:", error);
+      res.status(500).json({ message: "Failed to stream floor plan" });
+    }
+  });
+
+  app.delete('/api/floors/:id/plan', isAuthenticated, async (req: any, res) => {
+    try {
+      const floor = await findFloor(req, res);
+      if (!floor) {
+        return;
+      }
+
+      await removeFloorPlanImage(floor);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing floor plan:", error);
+      res.status(500).json({ message: "Failed to remove floor plan" });
+    }
+  });
+
+  // Rename a room (its devices follow) or move it to another floor
+  app.patch('/api/rooms/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const room = await findRoom(req, res);
+      if (!room) {
+        return;
+      }
+
+      const update = updateRoomSchema.parse(req.body);
+      await assertFloorInHouse(update.floorId, room.houseId);
+      const updated = await storage.updateRoom(room.id, update);
+      if (!updated) {
+        return res.status(409).json({ message: `This house already has a room called ${update.name}` });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof FloorPlanError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating room:", error);
+      res.status(500).json({ message: "Failed to update room" });
+    }
+  });
+
+  app.delete('/api/rooms/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const room = await findRoom(req, res);
+      if (!room) {
+        return;
+      }
+
+      await deleteRoom(room);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof FloorPlanError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error deleting room:", error);
+      res.status(500).json({ message: "Failed to delete room" });
+    }
+  });
+
+  // Where the device sits on one of its house's floor plans
+  app.put('/api/devices/:id/placement', isAuthenticated, async (req: any, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, device.houseId, req.user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+
+      const placement = devicePlacementSchema.parse(req.body);
+      res.json(await placeDevice(device, placement));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof FloorPlanError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error placing device:", error);
+      res.status(500).json({ message: "Failed to place device" });
+    }
+  });
+
+  app.delete('/api/devices/:id/placement', isAuthenticated, async (req: any, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, device.houseId, req.user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+
+      await storage.deleteDevicePlacement(device.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing device placement:", error);
+      res.status(500).json({ message: "Failed to remove device placement" });
+    }
+  });
+
+  // ===== DEVICE ROUTES =====
+  app.post('/api/devices', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const validatedData = insertDeviceSchema.parse(req.body);
+      
+      // Verify the house exists
+      const house = await storage.getHouseById(validatedData.houseId);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+
+      const device = await storage.createDevice(validatedData);
+      res.status(201).json(device);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating device:", error);
+      res.status(400).json({ message: "Failed to create device" });
+    }
+  });
+
+  app.get('/api/devices', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        const devices = await storage.getAllDevices();
+        res.json(devices);
+      } else {
+        // Homeowners see only devices from their houses
+        const houses = await storage.getHousesForUser(userId);
+        const houseIds = houses.map(h => h.id);
+        const allDevices = await storage.getAllDevices();
+        const userDevices = allDevices.filter(d => houseIds.includes(d.houseId));
+        res.json(userDevices);
+      }
+    } catch (error) {
+      console.error("Error fetching devices:", error);
+      res.status(500).json({ message: "Failed to fetch devices" });
+    }
+  });
+
+  app.get('/api/devices/cameras', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        const cameras = await storage.getDevicesByType('camera');
+        res.json(cameras);
+      } else {
+        // Homeowners see only cameras from their houses
+        const houses = await storage.getHousesForUser(userId);
+        const houseIds = houses.map(h => h.id);
+        const allCameras = await storage.getDevicesByType('camera');
+        const userCameras = allCameras.filter(c => houseIds.includes(c.houseId));
+        res.json(userCameras);
+      }
+    } catch (error) {
+      console.error("Error fetching cameras:", error);
+      res.status(500).json({ message: "Failed to fetch cameras" });
+    }
+  });
+
+  // A house's devices, or the whole fleet's for staff, as CSV (default) or JSON
+  app.get('/api/devices/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const format = req.query.format === 'json' ? 'json' : 'csv';
+      const houseId = req.query.houseId as string | undefined;
+      const isStaff = req.user.role === 'cloud_staff' || req.user.role === 'iot_team';
+
+      if (houseId ? !(await canAccessHouse(req.user.id, houseId, req.user.role)) : !isStaff) {
+        return res.status(403).json({ message: "Access denied to these devices" });
+      }
+
+      const devices = houseId ? await storage.getDevicesByHouse(houseId) : await storage.getAllDevices();
+      const filename = `devices-${houseId || 'fleet'}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(exportDevices(devices, format));
+    } catch (error) {
+      console.error("Error exporting devices:", error);
+      res.status(500).json({ message: "Failed to export devices" });
+    }
+  });
+
+  const deviceImportUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB max file size
+    },
+  });
+
+  // Bulk create from a CSV or JSON file; dryRun (the default) only validates.
+  // Nothing is written unless every row is valid.
+  app.post('/api/devices/import', isAuthenticated, requireRole('iot_team', 'cloud_staff'), deviceImportUpload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No import file provided" });
+      }
+
+      const options = deviceImportOptionsSchema.parse(req.body);
+      const isJson = req.file.mimetype === 'application/json' || /\.json$/i.test(req.file.originalname);
+      const rows = parseImportFile(req.file.buffer.toString('utf8'), options.format ?? (isJson ? 'json' : 'csv'));
+      res.json(await importDevices(rows, options.dryRun, req.user.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing devices:", error);
+      res.status(500).json({ message: "Failed to import devices" });
+    }
+  });
+
+  app.get('/api/devices/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      // Check authorization
+      if (user?.role === 'homeowner') {
+        const hasAccess = await canAccessHouse(userId, device.houseId, user.role);
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this device" });
+        }
+      }
+
+      res.json(device);
+    } catch (error) {
+      console.error("Error fetching device:", error);
+      res.status(500).json({ message: "Failed to fetch device" });
+    }
+  });
+
+  app.patch('/api/devices/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const existing = await storage.getDevice(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      const { config, ...changes } = updateDeviceSchema.parse(req.body);
+      const type = changes.type ?? existing.type;
+
+      // Settings left out keep their current values, or take the new type's defaults;
+      // a type change replaces the old type's settings, keeping the reported state
+      let settings: DeviceSettingsChange | undefined;
+      if (config !== undefined || type !== existing.type) {
+        const current = type === existing.type ? pickDeviceSettings(type, existing.config) : {};
+        settings = {
+          merge: deviceSettingsSchema.parse({ type, config: { ...current, ...config } }).config,
+          remove: type === existing.type ? [] : Object.keys(DEVICE_CONFIG_SCHEMAS[existing.type].shape),
+        };
+      }
+
+      const device = await storage.updateDevice(req.params.id, changes, settings);
+
+      onDeviceStatusChanged(device, existing.status).catch((error) => {
+        console.error("Automation engine failed for device update:", error);
+      });
+      res.json(device);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating device:", error);
+      res.status(400).json({ message: "Failed to update device" });
+    }
+  });
+
+  app.delete('/api/devices/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      await storage.deleteDevice(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting device:", error);
+      res.status(500).json({ message: "Failed to delete device" });
+    }
+  });
+
+  // ===== DEVICE COMMAND ROUTES =====
+  app.get('/api/devices/:id/commands', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role))) {
+        return res.status(403).json({ message: "Access denied to this device" });
+      }
+
+      await expireDeviceCommands(device.id);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await storage.getDeviceCommands(device.id, limit));
+    } catch (error) {
+      console.error("Error fetching device commands:", error);
+      res.status(500).json({ message: "Failed to fetch device commands" });
+    }
+  });
+
+  // Queues a command for the device to pull; responds with the command and the device's new desired state
+  app.post('/api/devices/:id/commands', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role, 'control'))) {
+        return res.status(403).json({ message: "You don't have permission to control this device" });
+      }
+
+      const command = parseDeviceCommand(device, req.body);
+      if (RECORDING_COMMANDS.includes(command.command)) {
+        return res.status(400).json({ message: "Use the recording routes to record or capture snapshots" });
+      }
+      const result = await issueDeviceCommand(device, command, { source: "user", issuedBy: userId });
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof DeviceCommandError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error issuing device command:", error);
+      res.status(500).json({ message: "Failed to issue device command" });
+    }
+  });
+
+  // ===== RECORDING ROUTES =====
+  // Clips and snapshots of the cameras the user can see, newest first; see recordingQuerySchema
+  app.get('/api/recordings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const query = recordingQuerySchema.parse(req.query);
+      const houseIds = user.role === 'cloud_staff' || user.role === 'iot_team'
+        ? undefined
+        : (await storage.getHousesForUser(userId)).map((house) => house.id);
+      res.json(await storage.getRecordings({ ...query, houseIds }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error fetching recordings:", error);
+      res.status(500).json({ message: "Failed to fetch recordings" });
+    }
+  });
+
+  // Start a clip; it runs until stopped, or for durationSeconds
+  app.post('/api/devices/:id/recordings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role, 'control'))) {
+        return res.status(403).json({ message: "You don't have permission to control this device" });
+      }
+
+      const { durationSeconds } = startRecordingSchema.parse(req.body);
+      const recording = await startRecording(device, { trigger: "manual", requestedBy: userId }, { durationSeconds });
+      res.status(201).json(recording);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceCommandError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof RecordingError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof CameraPrivacyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error starting recording:", error);
+      res.status(500).json({ message: "Failed to start recording" });
+    }
+  });
+
+  app.post('/api/devices/:id/snapshots', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role, 'control'))) {
+        return res.status(403).json({ message: "You don't have permission to control this device" });
+      }
+
+      res.status(201).json(await captureSnapshot(device, { trigger: "manual", requestedBy: userId }));
+    } catch (error) {
+      if (error instanceof DeviceCommandError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof CameraPrivacyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error capturing snapshot:", error);
+      res.status(500).json({ message: "Failed to capture snapshot" });
+    }
+  });
+
+  app.post('/api/recordings/:id/stop', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const recording = await storage.getRecording(req.params.id);
+
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, recording.houseId, user.role, 'control'))) {
+        return res.status(403).json({ message: "You don't have permission to control this device" });
+      }
+
+      res.json(await stopRecording(recording, userId));
+    } catch (error) {
+      if (error instanceof RecordingError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error stopping recording:", error);
+      res.status(500).json({ message: "Failed to stop recording" });
+    }
+  });
+
+  // Streams the media, honouring Range requests for seeking; ?download=true saves it as a file
+  app.get('/api/recordings/:id/media', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const recording = await storage.getRecording(req.params.id);
+
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, recording.houseId, user.role))) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+      const size = recording.storagePath ? await recordingStore.size(recording.storagePath) : undefined;
+      if (recording.status !== "available" || !recording.storagePath || size === undefined) {
+        return res.status(404).json({ message: "This recording has no media" });
+      }
+
+      res.setHeader('Content-Type', recording.mimeType || 'application/octet-stream');
+      res.setHeader('Accept-Ranges', 'bytes');
+      if (req.query.download === 'true') {
+        const filename = `${recording.kind}-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, '-')}${recording.storagePath.slice(recording.storagePath.lastIndexOf('.'))}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      }
+
+      const range = req.headers.range ? parseByteRange(req.headers.range, size) : undefined;
+      if (req.headers.range && !range) {
+        res.setHeader('Content-Range', `bytes */${size}`);
+        return res.status(416).end();
+      }
+      if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+        res.setHeader('Content-Length', range.end - range.start + 1);
+      } else {
+        res.setHeader('Content-Length', size);
+      }
+
+      recordingStore.read(recording.storagePath, range)
+        .on('error', (error) => {
+          console.error("Error reading recording media:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error("Error streaming recording:", error);
+      res.status(500).json({ message: "Failed to stream recording" });
+    }
+  });
+
+  app.delete('/api/recordings/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const recording = await storage.getRecording(req.params.id);
+
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, recording.houseId, user.role, 'manage'))) {
+        return res.status(403).json({ message: "You don't have permission to manage this house" });
+      }
+      if (recording.status === "recording") {
+        return res.status(409).json({ message: "Stop the recording before deleting it" });
+      }
+
+      await deleteRecording(recording);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting recording:", error);
+      res.status(500).json({ message: "Failed to delete recording" });
+    }
+  });
+
+  // ===== CAMERA PRIVACY ROUTES =====
+  app.get('/api/devices/:id/privacy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device || device.type !== 'camera') {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role))) {
+        return res.status(403).json({ message: "Access denied to this device" });
+      }
+
+      res.json(await getCameraPrivacyStatus(device));
+    } catch (error) {
+      console.error("Error fetching camera privacy:", error);
+      res.status(500).json({ message: "Failed to fetch camera privacy" });
+    }
+  });
+
+  // Only the house decides its cameras' privacy: staff get in by breaking the glass, not by turning it off
+  app.patch('/api/devices/:id/privacy', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device || device.type !== 'camera') {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+      const isStaff = user?.role === 'cloud_staff' || user?.role === 'iot_team';
+      if (!user || isStaff || !(await canAccessHouse(userId, device.houseId, user.role, 'manage'))) {
+        return res.status(403).json({ message: "Only the house's owners can change camera privacy" });
+      }
+
+      const update = updateCameraPrivacySchema.parse(req.body);
+      res.json(await updateCameraPrivacy(device, update, userId));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof CameraPrivacyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating camera privacy:", error);
+      res.status(500).json({ message: "Failed to update camera privacy" });
+    }
+  });
+
+  // Who opened the camera in privacy mode, and why; newest first
+  app.get('/api/devices/:id/privacy/access-log', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device || device.type !== 'camera') {
+        return res.status(404).json({ message: "Camera not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role))) {
+        return res.status(403).json({ message: "Access denied to this device" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await storage.getPrivacyAccessLogs(device.id, limit));
+    } catch (error) {
+      console.error("Error fetching privacy access log:", error);
+      res.status(500).json({ message: "Failed to fetch privacy access log" });
+    }
+  });
+
+  // The camera's live feed and privacy masks; refused while it is in privacy mode
+  app.get('/api/devices/:id/feed', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const device = await storage.getDevice(req.params.id);
+
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!user || !(await canAccessHouse(userId, device.houseId, user.role))) {
+        return res.status(403).json({ message: "Access denied to this device" });
+      }
+
+      res.json(await openCameraFeed(device, user));
+    } catch (error) {
+      if (error instanceof CameraPrivacyError) {
+        const isStaff = req.user.role === 'cloud_staff' || req.user.role === 'iot_team';
+        return res.status(error.status).json({ message: error.message, privacyMode: error.status === 403, breakGlass: isStaff });
+      }
+      console.error("Error opening camera feed:", error);
+      res.status(500).json({ message: "Failed to open camera feed" });
+    }
+  });
+
+  // Staff opening a feed in privacy mode; the reason is logged and the house notified
+  app.post('/api/devices/:id/feed/break-glass', isAuthenticated, requireRole('cloud_staff', 'iot_team'), async (req: any, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      const { reason } = breakGlassSchema.parse(req.body);
+      res.json(await openCameraFeed(device, req.user, reason));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof CameraPrivacyError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error opening camera feed:", error);
+      res.status(500).json({ message: "Failed to open camera feed" });
+    }
+  });
+
+  // ===== DEVICE CREDENTIAL ROUTES (IoT Team & Cloud Staff) =====
+  app.get('/api/devices/:id/credentials', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      const credentials = await storage.getDeviceCredentials(device.id);
+      // Never expose key hashes
+      res.json(credentials.map(({ keyHash, ...credential }) => credential));
+    } catch (error) {
+      console.error("Error fetching device credentials:", error);
+      res.status(500).json({ message: "Failed to fetch device credentials" });
+    }
+  });
+
+  // Issue a new API key for a device, revoking any previous ones (key rotation)
+  app.post('/api/devices/:id/credentials', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      if (!device.serialNumber) {
+        return res.status(400).json({ message: "Device must have a serial number before credentials can be issued" });
+      }
+
+      const { key, keyHash, keyPrefix } = generateDeviceKey();
+      await storage.revokeDeviceCredentialsForDevice(device.id);
+      const { keyHash: _hash, ...credential } = await storage.createDeviceCredential({
+        deviceId: device.id,
+        keyHash,
+        keyPrefix,
+        createdBy: req.user.id,
+      });
+
+      await storage.createUserConfigLog({
+        userId: req.user.id,
+        configKey: 'device_credential_issued',
+        oldValue: null,
+        newValue: JSON.stringify({ deviceId: device.id, serialNumber: device.serialNumber, keyPrefix }),
+        timestamp: new Date(),
+      });
+
+      // The plaintext key is only returned once
+      res.status(201).json({ ...credential, serialNumber: device.serialNumber, apiKey: key });
+    } catch (error) {
+      console.error("Error issuing device credentials:", error);
+      res.status(500).json({ message: "Failed to issue device credentials" });
+    }
+  });
+
+  app.delete('/api/devices/:id/credentials/:credentialId', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const credentials = await storage.getDeviceCredentials(req.params.id);
+      if (!credentials.some(c => c.id === req.params.credentialId)) {
+        return res.status(404).json({ message: "Credential not found" });
+      }
+
+      await storage.revokeDeviceCredential(req.params.credentialId);
+      await storage.createUserConfigLog({
+        userId: req.user.id,
+        configKey: 'device_credential_revoked',
+        oldValue: JSON.stringify({ deviceId: req.params.id, credentialId: req.params.credentialId }),
+        newValue: null,
+        timestamp: new Date(),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking device credential:", error);
+      res.status(500).json({ message: "Failed to revoke device credential" });
+    }
+  });
+
+  // ===== DEVICE PROVISIONING ROUTES =====
+  app.get('/api/provisioning/registrations', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const registrations = await storage.getDeviceRegistrations();
+      // Never expose claim code hashes
+      res.json(registrations.map(({ claimCodeHash, ...registration }) => registration));
+    } catch (error) {
+      console.error("Error fetching device registrations:", error);
+      res.status(500).json({ message: "Failed to fetch device registrations" });
+    }
+  });
+
+  // Pre-register a unit; the plaintext claim code is only returned once
+  app.post('/api/provisioning/registrations', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const validatedData = insertDeviceRegistrationSchema.parse(req.body);
+      const { registration: { claimCodeHash, ...registration }, claimCode } = await registerDevice(validatedData, req.user.id);
+      res.status(201).json({ ...registration, claimCode });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceClaimError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error registering device:", error);
+      res.status(500).json({ message: "Failed to register device" });
+    }
+  });
+
+  app.delete('/api/provisioning/registrations/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const registration = await storage.getDeviceRegistration(req.params.id);
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
+      if (registration.deviceId) {
+        return res.status(409).json({ message: "The device has been claimed; delete the device first" });
+      }
+
+      await storage.deleteDeviceRegistration(registration.id);
+      await storage.createUserConfigLog({
+        userId: req.user.id,
+        configKey: 'device_registration_removed',
+        oldValue: JSON.stringify({ registrationId: registration.id, serialNumber: registration.serialNumber }),
+        newValue: null,
+        timestamp: new Date(),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing device registration:", error);
+      res.status(500).json({ message: "Failed to remove device registration" });
+    }
+  });
+
+  // Homeowners add a pre-registered unit to a house they manage
+  app.post('/api/devices/claim', isAuthenticated, claimRateLimiter, async (req: any, res) => {
+    try {
+      const validatedData = claimDeviceSchema.parse(req.body);
+      const house = await storage.getHouseById(validatedData.houseId);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+      if (!(await canAccessHouse(req.user.id, house.id, req.user.role, "manage"))) {
+        return res.status(403).json({ message: "Forbidden: You can't add devices to this house" });
+      }
+
+      const device = await claimDevice(req.user.id, validatedData);
+      res.status(201).json(device);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceClaimError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error claiming device:", error);
+      res.status(500).json({ message: "Failed to claim device" });
+    }
+  });
+
+  // ===== FIRMWARE ROUTES (IoT Team & Cloud Staff) =====
+  app.get('/api/firmware/releases', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      res.json(await storage.getFirmwareReleases());
+    } catch (error) {
+      console.error("Error fetching firmware releases:", error);
+      res.status(500).json({ message: "Failed to fetch firmware releases" });
+    }
+  });
+
+  app.post('/api/firmware/releases', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const validatedData = insertFirmwareReleaseSchema.parse(req.body);
+      if (await storage.getFirmwareReleaseByVersion(validatedData.deviceType, validatedData.version)) {
+        return res.status(409).json({ message: `Version ${validatedData.version} already exists for this device type` });
+      }
+
+      const release = await storage.createFirmwareRelease({ ...validatedData, createdBy: req.user.id });
+      res.status(201).json(release);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error creating firmware release:", error);
+      res.status(500).json({ message: "Failed to create firmware release" });
+    }
+  });
+
+  app.get('/api/firmware/campaigns', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      res.json(await getCampaignsWithProgress(await storage.getFirmwareCampaigns()));
+    } catch (error) {
+      console.error("Error fetching firmware campaigns:", error);
+      res.status(500).json({ message: "Failed to fetch firmware campaigns" });
+    }
+  });
+
+  app.post('/api/firmware/campaigns', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const validatedData = insertFirmwareCampaignSchema.parse(req.body);
+      const campaign = await createCampaign(validatedData, req.user.id);
+      const [withProgress] = await getCampaignsWithProgress([campaign]);
+      res.status(201).json(withProgress);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof FirmwareCampaignError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating firmware campaign:", error);
+      res.status(500).json({ message: "Failed to create firmware campaign" });
+    }
+  });
+
+  // Campaign progress with every targeted device's update
+  app.get('/api/firmware/campaigns/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const campaign = await storage.getFirmwareCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const [withProgress] = await getCampaignsWithProgress([campaign]);
+      const updates = await storage.getFirmwareUpdatesForCampaign(campaign.id);
+      res.json({ ...withProgress, updates });
+    } catch (error) {
+      console.error("Error fetching firmware campaign:", error);
+      res.status(500).json({ message: "Failed to fetch firmware campaign" });
+    }
+  });
+
+  app.post('/api/firmware/campaigns/:id/pause', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const campaign = await storage.getFirmwareCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const [withProgress] = await getCampaignsWithProgress([await setCampaignStatus(campaign, "pause")]);
+      res.json(withProgress);
+    } catch (error) {
+      if (error instanceof FirmwareCampaignError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error pausing firmware campaign:", error);
+      res.status(500).json({ message: "Failed to pause campaign" });
+    }
+  });
+
+  // Also restarts a halted campaign; its current stage soaks again from now
+  app.post('/api/firmware/campaigns/:id/resume', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const campaign = await storage.getFirmwareCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const [withProgress] = await getCampaignsWithProgress([await setCampaignStatus(campaign, "resume")]);
+      res.json(withProgress);
+    } catch (error) {
+      if (error instanceof FirmwareCampaignError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error resuming firmware campaign:", error);
+      res.status(500).json({ message: "Failed to resume campaign" });
+    }
+  });
+
+  app.post('/api/firmware/campaigns/:id/cancel', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+    try {
+      const campaign = await storage.getFirmwareCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const [withProgress] = await getCampaignsWithProgress([await setCampaignStatus(campaign, "cancel")]);
+      res.json(withProgress);
+    } catch (error) {
+      if (error instanceof FirmwareCampaignError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error cancelling firmware campaign:", error);
+      res.status(500).json({ message: "Failed to cancel campaign" });
+    }
+  });
+
+  // ===== DEVICE API ROUTES (Device API key auth) =====
+  // First check-in of a claimed unit, authenticated by its claim code: returns its API key once
+  app.post('/api/device/provision', claimRateLimiter, async (req: any, res) => {
+    try {
+      const { serialNumber, claimCode } = deviceProvisionSchema.parse(req.body);
+      res.status(201).json(await provisionDevice(serialNumber, claimCode));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceClaimError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error provisioning device:", error);
+      res.status(500).json({ message: "Failed to provision device" });
+    }
+  });
+
+  // Batch ingestion: readings for any sensor dataType plus heartbeat fields
+  app.post('/api/telemetry', requireDeviceAuth, async (req: any, res) => {
+    try {
+      const batch = telemetryBatchSchema.parse(req.body);
+      const { device, readings } = await ingestTelemetry(req.device, batch);
+
+      res.status(202).json({
+        accepted: readings.length,
+        deviceId: device.id,
+        status: device.status,
+        lastSeen: device.lastSeen,
+      });
+    } catch (error) {
+      console.error("Error ingesting telemetry:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to ingest telemetry" });
+    }
+  });
+
+  // Pending commands for the calling device (marked delivered) and its desired state
+  app.get('/api/device/commands', requireDeviceAuth, async (req: any, res) => {
+    try {
+      res.json(await pullDeviceCommands(req.device));
+    } catch (error) {
+      console.error("Error pulling device commands:", error);
+      res.status(500).json({ message: "Failed to fetch commands" });
+    }
+  });
+
+  app.post('/api/device/commands/:id/ack', requireDeviceAuth, async (req: any, res) => {
+    try {
+      const ack = deviceCommandAckSchema.parse(req.body);
+      const command = await acknowledgeDeviceCommand(req.device, req.params.id, ack);
+      if (!command) {
+        return res.status(404).json({ message: "Command not found" });
+      }
+      res.json(command);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof DeviceCommandError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error acknowledging device command:", error);
+      res.status(500).json({ message: "Failed to acknowledge command" });
+    }
+  });
+
+  // The firmware the calling device should install (or roll back to), or null
+  app.get('/api/device/firmware', requireDeviceAuth, async (req: any, res) => {
+    try {
+      res.json(await getFirmwareOffer(req.device));
+    } catch (error) {
+      console.error("Error fetching firmware offer:", error);
+      res.status(500).json({ message: "Failed to fetch firmware update" });
+    }
+  });
+
+  app.post('/api/device/firmware/:id/status', requireDeviceAuth, async (req: any, res) => {
+    try {
+      const report = firmwareStatusReportSchema.parse(req.body);
+      const update = await reportFirmwareStatus(req.device, req.params.id, report);
+      if (!update) {
+        return res.status(404).json({ message: "Firmware update not found" });
+      }
+      res.json(update);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof FirmwareCampaignError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error recording firmware status:", error);
+      res.status(500).json({ message: "Failed to record firmware status" });
+    }
+  });
+
+  // A keypad arming or disarming its house; disarming needs the house's PIN
+  app.post('/api/device/security/mode', requireDeviceAuth, async (req: any, res) => {
+    try {
+      const { mode, pin } = keypadModeSchema.parse(req.body);
+      const house = await storage.getHouseById(req.device.houseId);
+      if (!house) {
+        return res.status(404).json({ message: "House not found" });
+      }
+
+      res.json(await setHouseMode(house, mode, { source: "keypad", device: req.device, pin }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof HouseSecurityError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error changing house mode from keypad:", error);
+      res.status(500).json({ message: "Failed to change house mode" });
+    }
+  });
+
+  // Media for a clip or snapshot the device was asked for, as the raw request
+  // body (Content-Type video/mp4, video/webm, image/jpeg or image/png)
+  app.post('/api/device/recordings/:id', requireDeviceAuth, async (req: any, res) => {
+    try {
+      const contentLength = req.headers['content-length'] ? parseInt(req.headers['content-length'], 10) : undefined;
+      const recording = await saveRecordingMedia(req.device, req.params.id, req, req.headers['content-type'], contentLength);
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
+      }
+      res.json(recording);
+    } catch (error) {
+      if (error instanceof RecordingTooLargeError || error instanceof StorageQuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof RecordingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error saving recording media:", error);
+      res.status(500).json({ message: "Failed to save recording" });
+    }
+  });
+
+  // ===== SENSOR DATA ROUTES =====
+  // Readings for a device, a house or (staff, with cross-tenant analytics on) the
+  // whole fleet; see sensorDataQuerySchema
+  app.get('/api/sensor-data', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const query = sensorDataQuerySchema.parse(req.query);
+
+      if (query.deviceId) {
+        const device = await storage.getDevice(query.deviceId);
+        if (!device) {
+          return res.status(404).json({ message: "Device not found" });
+        }
+        const hasAccess = await canAccessHouse(userId, device.houseId, user.role);
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this device" });
+        }
+        return res.json(await storage.getSensorSeries(query));
+      }
+
+      if (query.houseId) {
+        const hasAccess = await canAccessHouse(userId, query.houseId, user.role);
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this house" });
+        }
+        return res.json(await storage.getSensorSeries(query));
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        if (!getPlatformSettings().crossTenantAnalytics) {
+          return res.status(403).json({ message: "Cross-tenant analytics are disabled; choose a house or device" });
+        }
+        res.json(await storage.getSensorSeries(query));
+      } else {
+        // Homeowners see only readings from their houses
+        const houses = await storage.getHousesForUser(userId);
+        res.json(await storage.getSensorSeries({ ...query, houseIds: houses.map(h => h.id) }));
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error fetching sensor data:", error);
+      res.status(500).json({ message: "Failed to fetch sensor data" });
+    }
+  });
+
+  // ===== ALERT ROUTES =====
+  app.post('/api/alerts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const validatedData = createAlertSchema.parse(req.body);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      // Verify homeowners can only create alerts for their own houses
+      if (user.role === 'homeowner') {
+        const hasAccess = await canAccessHouse(userId, validatedData.houseId, user.role, 'control');
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Cannot create alerts for this house" });
+        }
+      }
+
+      const alert = await raiseAlert({ ...validatedData, status: "new" });
+      if (!alert) {
+        return res.status(202).json({ message: "The house's security mode ignored or is holding this alert" });
+      }
+      // A repeat is folded into the existing alert rather than creating one
+      res.status(alert.occurrenceCount > 1 ? 200 : 201).json(alert);
+    } catch (error) {
+      console.error("Error creating alert:", error);
+      res.status(400).json({ message: "Failed to create alert" });
+    }
+  });
+
+  // Filtered, cursor-paginated alert search; see alertSearchSchema for the parameters
+  app.get('/api/alerts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const search = alertSearchSchema.parse(req.query);
+      const isStaff = user.role === 'cloud_staff' || user.role === 'iot_team';
+      // Homeowners see only alerts from their houses
+      const houses = isStaff ? undefined : await storage.getHousesForUser(userId);
+      if (houses && search.houseId && !houses.some(h => h.id === search.houseId)) {
+        return res.status(403).json({ message: "Access denied to this house" });
+      }
+
+      // A cursor must be an alert the user can see; a deleted one would silently end the list
+      if (search.cursor) {
+        const cursorAlert = await storage.getAlert(search.cursor);
+        if (!cursorAlert || (houses && !houses.some(h => h.id === cursorAlert.houseId))) {
+          return res.status(400).json({ message: "Unknown cursor; restart the search from the first page" });
+        }
+      }
+
+      res.json(await storage.searchAlerts(houses ? { ...search, houseIds: houses.map(h => h.id) } : search));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.get('/api/alerts/summary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        res.json(await storage.getAlertSummary());
+      } else {
+        const houses = await storage.getHousesForUser(userId);
+        res.json(await storage.getAlertSummary(houses.map(h => h.id)));
+      }
+    } catch (error) {
+      console.error("Error fetching alert summary:", error);
+      res.status(500).json({ message: "Failed to fetch alert summary" });
+    }
+  });
+
+  app.get('/api/alerts/recent', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        const alerts = await storage.getRecentAlerts(limit);
+        res.json(alerts);
+      } else {
+        // Homeowners see only recent alerts from their houses
+        const houses = await storage.getHousesForUser(userId);
+        res.json(await storage.getRecentAlerts(limit, houses.map(h => h.id)));
+      }
+    } catch (error) {
+      console.error("Error fetching recent alerts:", error);
+      res.status(500).json({ message: "Failed to fetch recent alerts" });
+    }
+  });
+
+  // Live alert events for the signed-in user's houses (Server-Sent Events)
+  app.get('/api/alerts/stream', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      subscribeToAlertEvents(res, user.id, user.role);
+    } catch (error) {
+      console.error("Error opening alert stream:", error);
+      res.status(500).json({ message: "Failed to open alert stream" });
+    }
+  });
+
+  app.post('/api/alerts/:id/acknowledge', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const alert = await storage.getAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      // Check authorization for homeowners
+      if (user?.role === 'homeowner') {
+        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role, 'control');
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this alert" });
+        }
+      }
+
+      const updatedAlert = await transitionAlert(alert, 'acknowledged', userId);
+      res.json(updatedAlert);
+    } catch (error) {
+      if (error instanceof AlertTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error acknowledging alert:", error);
+      res.status(500).json({ message: "Failed to acknowledge alert" });
+    }
+  });
+
+  app.post('/api/alerts/:id/resolve', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const alert = await storage.getAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      // Check authorization for homeowners
+      if (user?.role === 'homeowner') {
+        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role, 'control');
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this alert" });
+        }
+      }
+
+      const updatedAlert = await transitionAlert(alert, 'resolved', userId);
+      res.json(updatedAlert);
+    } catch (error) {
+      if (error instanceof AlertTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error resolving alert:", error);
+      res.status(500).json({ message: "Failed to resolve alert" });
+    }
+  });
+
+  app.post('/api/alerts/:id/dismiss', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const alert = await storage.getAlert(req.params.id);
+
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      // Check authorization for homeowners
+      if (user?.role === 'homeowner') {
+        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role, 'control');
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this alert" });
+        }
+      }
+
+      const updatedAlert = await transitionAlert(alert, 'dismissed', userId);
+      res.json(updatedAlert);
+    } catch (error) {
+      if (error instanceof AlertTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error dismissing alert:", error);
+      res.status(500).json({ message: "Failed to dismiss alert" });
+    }
+  });
+
+  app.get('/api/alerts/:id/activity', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      res.json(await storage.getAlertActivity(alert.id));
+    } catch (error) {
+      console.error("Error fetching alert activity:", error);
+      res.status(500).json({ message: "Failed to fetch alert activity" });
+    }
+  });
+
+  // Camera clips, snapshots and audio detections attached to the alert
+  app.get('/api/alerts/:id/evidence', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      const evidence = await getAlertEvidence(alert);
+      // Storage paths stay on the server; media is served by /api/recordings/:id/media
+      res.json({
+        ...evidence,
+        recordings: evidence.recordings.map(({ storagePath, ...recording }) => recording),
+      });
+    } catch (error) {
+      console.error("Error fetching alert evidence:", error);
+      res.status(500).json({ message: "Failed to fetch alert evidence" });
+    }
+  });
+
+  // Zip of the alert, its timeline, audio detections and recordings with their media
+  app.get('/api/alerts/:id/evidence/bundle', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="alert-${alert.id}-evidence.zip"`);
+      await writeEvidenceBundle(alert, res);
+      res.end();
+    } catch (error) {
+      console.error("Error writing alert evidence bundle:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to download alert evidence" });
+      }
+    }
+  });
+
+  app.post('/api/alerts/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      const { body } = alertCommentSchema.parse(req.body);
+      const activity = await storage.createAlertActivity({
+        alertId: alert.id,
+        type: "comment",
+        actorId: req.user.id,
+        details: { body },
+      });
+      publishAlertEvent("commented", alert);
+      res.status(201).json(activity);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error commenting on alert:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // People an alert can be assigned to: members who can control the house, plus staff for staff
+  app.get('/api/alerts/:id/assignees', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      const candidates = await storage.getHouseRecipients(alert.houseId, ["owner", "resident"]);
+      if (req.user.role === 'cloud_staff' || req.user.role === 'iot_team') {
+        const staff = [
+          ...await storage.getUsersByRole('cloud_staff'),
+          ...await storage.getUsersByRole('iot_team'),
+        ];
+        candidates.push(...staff.filter(s => !candidates.some(c => c.id === s.id)));
+      }
+
+      res.json(candidates.map(({ id, email, firstName, lastName, role }) => ({ id, email, firstName, lastName, role })));
+    } catch (error) {
+      console.error("Error fetching alert assignees:", error);
+      res.status(500).json({ message: "Failed to fetch assignees" });
+    }
+  });
+
+  app.post('/api/alerts/:id/assign', isAuthenticated, async (req: any, res) => {
+    try {
+      const alert = await storage.getAlert(req.params.id);
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const hasAccess = await canAccessHouse(req.user.id, alert.houseId, req.user.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this alert" });
+      }
+
+      const { assigneeId } = assignAlertSchema.parse(req.body);
+      if (assigneeId) {
+        const assignee = await storage.getUser(assigneeId);
+        const canHandle = assignee && await canAccessHouse(assignee.id, alert.houseId, assignee.role, 'control');
+        if (!canHandle) {
+          return res.status(400).json({ message: "Assignee must be able to act on this house's alerts" });
+        }
+      }
+
+      const updatedAlert = await assignAlert(alert, assigneeId, req.user.id);
+      res.json(updatedAlert);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof AlertTransitionError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error assigning alert:", error);
+      res.status(500).json({ message: "Failed to assign alert" });
+    }
+  });
+
+  // ===== INCIDENT ROUTES =====
+  app.get('/api/incidents', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const status = req.query.status as Incident["status"] | undefined;
+
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+      if (status && status !== 'open' && status !== 'resolved') {
+        return res.status(400).json({ message: "status must be open or resolved" });
+      }
+
+      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
+        res.json(await storage.getIncidents({ status }));
+      } else {
+        // Homeowners see only incidents from their houses
+        const houses = await storage.getHousesForUser(userId);
+        res.json(await storage.getIncidents({ houseIds: houses.map(h => h.id), status }));
+      }
+    } catch (error) {
+      console.error("Error fetching incidents:", error);
+      res.status(500).json({ message: "Failed to fetch incidents" });
+    }
+  });
+
+  app.get('/api/incidents/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
 
-      const device = await storage.createDevice(validatedData);
-      res.status(201).json(device);
+      const hasAccess = await canAccessHouse(req.user.id, incident.houseId, req.user.role);
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this incident" });
+      }
+
+      res.json({ ...incident, alerts: await storage.getAlertsForIncident(incident.id) });
     } catch (error) {
-      console.error("Error creating device:", error);
-      res.status(400).json({ message: "Failed to create device" });
+      console.error("Error fetching incident:", error);
+      res.status(500).json({ message: "Failed to fetch incident" });
     }
   });
 
-  app.get('/api/devices', isAuthenticated, async (req: any, res) => {
+  app.post('/api/incidents/:id/resolve', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
+      const incident = await storage.getIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Incident not found" });
       }
 
-      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
-        const devices = await storage.getAllDevices();
-        res.json(devices);
-      } else {
-        // Homeowners see only devices from their houses
-        const houses = await storage.getHousesByOwner(userId);
-        const houseIds = houses.map(h => h.id);
-        const allDevices = await storage.getAllDevices();
-        const userDevices = allDevices.filter(d => houseIds.includes(d.houseId));
-        res.json(userDevices);
+      const hasAccess = await canAccessHouse(req.user.id, incident.houseId, req.user.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this incident" });
+      }
+      if (incident.status === 'resolved') {
+        return res.status(409).json({ message: "Incident is already resolved" });
       }
+
+      res.json(await resolveIncident(incident, req.user.id));
     } catch (error) {
-      console.error("Error fetching devices:", error);
-      res.status(500).json({ message: "Failed to fetch devices" });
+      console.error("Error resolving incident:", error);
+      res.status(500).json({ message: "Failed to resolve incident" });
     }
   });
 
-  app.get('/api/devices/cameras', isAuthenticated, async (req: any, res) => {
+  // ===== ESCALATION POLICY ROUTES =====
+  // Global policies (no houseId) are cloud staff only; house policies need the house's manage permission
+  async function canManageEscalationPolicy(user: { id: string; role: string }, houseId: string | null | undefined) {
+    if (!houseId) {
+      return user.role === 'cloud_staff';
+    }
+    return canAccessHouse(user.id, houseId, user.role, 'manage');
+  }
+
+  app.get('/api/escalation-policies', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
+      const houseId = req.query.houseId as string | undefined;
 
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
 
+      if (houseId) {
+        const hasAccess = await canAccessHouse(userId, houseId, user.role);
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this house" });
+        }
+        return res.json(await storage.getEscalationPoliciesForHouses([houseId]));
+      }
+
       if (user.role === 'cloud_staff' || user.role === 'iot_team') {
-        const cameras = await storage.getDevicesByType('camera');
-        res.json(cameras);
+        res.json(await storage.getAllEscalationPolicies());
       } else {
-        // Homeowners see only cameras from their houses
-        const houses = await storage.getHousesByOwner(userId);
-        const houseIds = houses.map(h => h.id);
-        const allCameras = await storage.getDevicesByType('camera');
-        const userCameras = allCameras.filter(c => houseIds.includes(c.houseId));
-        res.json(userCameras);
+        // Homeowners see global policies and those of their houses
+        const houses = await storage.getHousesForUser(userId);
+        res.json(await storage.getEscalationPoliciesForHouses(houses.map(h => h.id)));
       }
     } catch (error) {
-      console.error("Error fetching cameras:", error);
-      res.status(500).json({ message: "Failed to fetch cameras" });
+      console.error("Error fetching escalation policies:", error);
+      res.status(500).json({ message: "Failed to fetch escalation policies" });
     }
   });
 
-  app.get('/api/devices/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/escalation-policies', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      const device = await storage.getDevice(req.params.id);
+      const validatedData = insertEscalationPolicySchema.parse(req.body);
+
+      const allowed = await canManageEscalationPolicy(req.user, validatedData.houseId);
+      if (!allowed) {
+        return res.status(403).json({
+          message: validatedData.houseId
+            ? "Cannot create escalation policies for this house"
+            : "Only cloud staff can create global escalation policies",
+        });
+      }
 
-      if (!device) {
-        return res.status(404).json({ message: "Device not found" });
+      const policy = await storage.createEscalationPolicy({ ...validatedData, createdBy: req.user.id });
+      res.status(201).json(policy);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
       }
+      console.error("Error creating escalation policy:", error);
+      res.status(500).json({ message: "Failed to create escalation policy" });
+    }
+  });
 
-      // Check authorization
-      if (user?.role === 'homeowner') {
-        const hasAccess = await canAccessHouse(userId, device.houseId, user.role);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Access denied to this device" });
-        }
+  app.patch('/api/escalation-policies/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const policy = await storage.getEscalationPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ message: "Escalation policy not found" });
       }
 
-      res.json(device);
+      const allowed = await canManageEscalationPolicy(req.user, policy.houseId);
+      if (!allowed) {
+        return res.status(403).json({ message: "Access denied to this escalation policy" });
+      }
+
+      const validatedData = updateEscalationPolicySchema.parse(req.body);
+      const updatedPolicy = await storage.updateEscalationPolicy(policy.id, validatedData);
+      res.json(updatedPolicy);
     } catch (error) {
-      console.error("Error fetching device:", error);
-      res.status(500).json({ message: "Failed to fetch device" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating escalation policy:", error);
+      res.status(500).json({ message: "Failed to update escalation policy" });
     }
   });
 
-  app.patch('/api/devices/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+  app.delete('/api/escalation-policies/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const device = await storage.updateDevice(req.params.id, req.body);
-      res.json(device);
+      const policy = await storage.getEscalationPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ message: "Escalation policy not found" });
+      }
+
+      const allowed = await canManageEscalationPolicy(req.user, policy.houseId);
+      if (!allowed) {
+        return res.status(403).json({ message: "Access denied to this escalation policy" });
+      }
+
+      await storage.deleteEscalationPolicy(policy.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error updating device:", error);
-      res.status(400).json({ message: "Failed to update device" });
+      console.error("Error deleting escalation policy:", error);
+      res.status(500).json({ message: "Failed to delete escalation policy" });
     }
   });
 
-  app.delete('/api/devices/:id', isAuthenticated, requireRole('iot_team', 'cloud_staff'), async (req: any, res) => {
+  // ===== NOTIFICATION ROUTES =====
+  // Secrets are write-only: clients only learn whether one is set
+  async function describePreferences(userId: string) {
+    const preferences = await getChannelPreferences(userId);
+    const channels = Object.fromEntries(
+      Object.entries(preferences).map(([channel, { secret, ...preference }]) => [
+        channel,
+        { ...preference, hasSecret: Boolean(secret) },
+      ]),
+    );
+    return { emailAvailable: isEmailConfigured(), channels };
+  }
+
+  app.get('/api/notifications/preferences', isAuthenticated, async (req: any, res) => {
     try {
-      await storage.deleteDevice(req.params.id);
-      res.status(204).send();
+      res.json(await describePreferences(req.user.id));
     } catch (error) {
-      console.error("Error deleting device:", error);
-      res.status(500).json({ message: "Failed to delete device" });
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
     }
   });
 
-  // ===== ALERT ROUTES =====
-  app.post('/api/alerts', isAuthenticated, async (req: any, res) => {
+  app.put('/api/notifications/preferences', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      const validatedData = insertAlertSchema.parse(req.body);
+      const validatedData = updateNotificationPreferencesSchema.parse(req.body);
+      const current = await getChannelPreferences(userId);
 
-      if (!user) {
-        return res.status(401).json({ message: "User not found" });
+      if (validatedData.webhook?.enabled) {
+        const target = validatedData.webhook.target !== undefined ? validatedData.webhook.target : current.webhook.target;
+        if (!target) {
+          return res.status(400).json({ message: "A webhook URL is required to enable webhook notifications" });
+        }
+      }
+      if (validatedData.webhook?.target) {
+        await assertPublicWebhookTarget(validatedData.webhook.target);
       }
 
-      // Verify homeowners can only create alerts for their own houses
-      if (user.role === 'homeowner') {
-        const hasAccess = await canAccessHouse(userId, validatedData.houseId, user.role);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Cannot create alerts for houses you don't own" });
+      for (const channel of NOTIFICATION_CHANNELS) {
+        const preference = validatedData[channel];
+        if (preference) {
+          await storage.upsertNotificationPreference(userId, channel, preference);
         }
       }
 
-      const alert = await storage.createAlert(validatedData);
-      res.status(201).json(alert);
+      res.json(await describePreferences(userId));
     } catch (error) {
-      console.error("Error creating alert:", error);
-      res.status(400).json({ message: "Failed to create alert" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof WebhookTargetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
     }
   });
 
-  app.get('/api/alerts', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/test', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-
+      const user = await storage.getUser(req.user.id);
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      if (user.role === 'cloud_staff' || user.role === 'iot_team') {
-        const alerts = await storage.getAllAlerts();
-        res.json(alerts);
-      } else {
-        // Homeowners see only alerts from their houses
-        const houses = await storage.getHousesByOwner(userId);
-        const houseIds = houses.map(h => h.id);
-        const allAlerts = await storage.getAllAlerts();
-        const userAlerts = allAlerts.filter(a => houseIds.includes(a.houseId));
-        res.json(userAlerts);
+      await sendTestNotification(user);
+      res.status(202).json({ message: "Test notification sent" });
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const notifications = await storage.getNotifications(req.user.id, {
+        unreadOnly: req.query.unread === 'true',
+        limit,
+      });
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/notifications/unread-count', isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.countUnreadNotifications(req.user.id);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  app.get('/api/notifications/deliveries', isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const deliveries = await storage.getNotificationDeliveries(req.user.id, limit);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch notification deliveries" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user.id);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
       }
+      res.json(notification);
     } catch (error) {
-      console.error("Error fetching alerts:", error);
-      res.status(500).json({ message: "Failed to fetch alerts" });
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
     }
   });
 
-  app.get('/api/alerts/recent', isAuthenticated, async (req: any, res) => {
+  // ===== AUTOMATION RULE ROUTES =====
+  // Rules may only command devices that belong to the rule's own house, with
+  // commands the device's type accepts. Returns the problem, if any.
+  async function findInvalidDeviceCommand(houseId: string, actions: AutomationAction[]): Promise<string | undefined> {
+    for (const action of actions) {
+      if (action.type === 'device_command') {
+        const device = await storage.getDevice(action.deviceId);
+        if (!device || device.houseId !== houseId) {
+          return `Device ${action.deviceId} does not belong to this house`;
+        }
+        try {
+          parseDeviceCommand(device, { command: action.command, params: action.params });
+        } catch (error) {
+          if (error instanceof DeviceCommandError) {
+            return `${device.name}: ${error.message}`;
+          }
+          throw error;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  app.get('/api/automation-rules', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
-      const limit = parseInt(req.query.limit as string) || 10;
+      const houseId = req.query.houseId as string | undefined;
 
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
 
+      if (houseId) {
+        const hasAccess = await canAccessHouse(userId, houseId, user.role);
+        if (!hasAccess) {
+          return res.status(403).json({ message: "Access denied to this house" });
+        }
+        return res.json(await storage.getAutomationRulesByHouse(houseId));
+      }
+
       if (user.role === 'cloud_staff' || user.role === 'iot_team') {
-        const alerts = await storage.getRecentAlerts(limit);
-        res.json(alerts);
+        res.json(await storage.getAllAutomationRules());
       } else {
-        // Homeowners see only recent alerts from their houses
-        const houses = await storage.getHousesByOwner(userId);
-        const houseIds = houses.map(h => h.id);
-        const allAlerts = await storage.getRecentAlerts(limit * 2); // Get more to filter
-        const userAlerts = allAlerts.filter(a => houseIds.includes(a.houseId)).slice(0, limit);
-        res.json(userAlerts);
+        // Homeowners see only rules for their houses
+        const houses = await storage.getHousesForUser(userId);
+        const rules = await Promise.all(houses.map(h => storage.getAutomationRulesByHouse(h.id)));
+        res.json(rules.flat());
       }
     } catch (error) {
-      console.error("Error fetching recent alerts:", error);
-      res.status(500).json({ message: "Failed to fetch recent alerts" });
+      console.error("Error fetching automation rules:", error);
+      res.status(500).json({ message: "Failed to fetch automation rules" });
     }
   });
 
-  app.post('/api/alerts/:id/acknowledge', isAuthenticated, async (req: any, res) => {
+  app.post('/api/automation-rules', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
-      const alert = await storage.getAlert(req.params.id);
+      const validatedData = insertAutomationRuleSchema.parse(req.body);
 
-      if (!alert) {
-        return res.status(404).json({ message: "Alert not found" });
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
       }
 
-      // Check authorization for homeowners
-      if (user?.role === 'homeowner') {
-        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Access denied to this alert" });
-        }
+      const hasAccess = await canAccessHouse(userId, validatedData.houseId, user.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Cannot create rules for this house" });
       }
 
-      const updatedAlert = await storage.updateAlertStatus(req.params.id, 'acknowledged', userId);
-      res.json(updatedAlert);
+      const invalidCommand = await findInvalidDeviceCommand(validatedData.houseId, validatedData.actions);
+      if (invalidCommand) {
+        return res.status(400).json({ message: invalidCommand });
+      }
+
+      const rule = await storage.createAutomationRule(validatedData);
+      res.status(201).json(rule);
     } catch (error) {
-      console.error("Error acknowledging alert:", error);
-      res.status(500).json({ message: "Failed to acknowledge alert" });
+      console.error("Error creating automation rule:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create automation rule" });
     }
   });
 
-  app.post('/api/alerts/:id/resolve', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/automation-rules/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
-      const alert = await storage.getAlert(req.params.id);
+      const rule = await storage.getAutomationRule(req.params.id);
 
-      if (!alert) {
-        return res.status(404).json({ message: "Alert not found" });
+      if (!rule) {
+        return res.status(404).json({ message: "Automation rule not found" });
       }
 
-      // Check authorization for homeowners
-      if (user?.role === 'homeowner') {
-        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Access denied to this alert" });
+      const hasAccess = await canAccessHouse(userId, rule.houseId, user!.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this automation rule" });
+      }
+
+      const validatedData = updateAutomationRuleSchema.parse(req.body);
+      if (validatedData.actions) {
+        const invalidCommand = await findInvalidDeviceCommand(rule.houseId, validatedData.actions);
+        if (invalidCommand) {
+          return res.status(400).json({ message: invalidCommand });
         }
       }
 
-      const updatedAlert = await storage.updateAlertStatus(req.params.id, 'resolved', userId);
-      res.json(updatedAlert);
+      const updatedRule = await storage.updateAutomationRule(req.params.id, validatedData);
+      res.json(updatedRule);
     } catch (error) {
-      console.error("Error resolving alert:", error);
-      res.status(500).json({ message: "Failed to resolve alert" });
+      console.error("Error updating automation rule:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update automation rule" });
     }
   });
 
-  app.post('/api/alerts/:id/dismiss', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/automation-rules/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
-      const alert = await storage.getAlert(req.params.id);
+      const rule = await storage.getAutomationRule(req.params.id);
 
-      if (!alert) {
-        return res.status(404).json({ message: "Alert not found" });
+      if (!rule) {
+        return res.status(404).json({ message: "Automation rule not found" });
       }
 
-      // Check authorization for homeowners
-      if (user?.role === 'homeowner') {
-        const hasAccess = await canAccessHouse(userId, alert.houseId, user.role);
-        if (!hasAccess) {
-          return res.status(403).json({ message: "Access denied to this alert" });
-        }
+      const hasAccess = await canAccessHouse(userId, rule.houseId, user!.role, 'control');
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied to this automation rule" });
       }
 
-      const updatedAlert = await storage.updateAlertStatus(req.params.id, 'dismissed', userId);
-      res.json(updatedAlert);
+      await storage.deleteAutomationRule(req.params.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error dismissing alert:", error);
-      res.status(500).json({ message: "Failed to dismiss alert" });
+      console.error("Error deleting automation rule:", error);
+      res.status(500).json({ message: "Failed to delete automation rule" });
+    }
+  });
+
+  // ===== PLATFORM SETTINGS ROUTES (Cloud Staff Only) =====
+  app.get('/api/settings', isAuthenticated, requireRole('cloud_staff'), async (req: any, res) => {
+    res.json(getPlatformSettings());
+  });
+
+  app.patch('/api/settings', isAuthenticated, requireRole('cloud_staff'), async (req: any, res) => {
+    try {
+      const validatedData = updatePlatformSettingsSchema.parse(req.body);
+      const settings = await updatePlatformSettings(validatedData, req.user.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating platform settings:", error);
+      res.status(500).json({ message: "Failed to update platform settings" });
     }
   });
 
@@ -672,6 +3035,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===== DATA RETENTION ROUTES (Staff Only) =====
+  app.get('/api/retention/policies', isAuthenticated, requireRole('cloud_staff', 'iot_team'), async (req: any, res) => {
+    try {
+      res.json(await getRetentionPolicies());
+    } catch (error) {
+      console.error("Error fetching retention policies:", error);
+      res.status(500).json({ message: "Failed to fetch retention policies" });
+    }
+  });
+
+  app.patch('/api/retention/policies/:target', isAuthenticated, requireRole('cloud_staff'), async (req: any, res) => {
+    try {
+      const target = RETENTION_TARGETS.find((t) => t === req.params.target);
+      if (!target) {
+        return res.status(404).json({ message: "Unknown retention target" });
+      }
+      const validatedData = updateRetentionPolicySchema.parse(req.body);
+      const policy = await updateRetentionPolicy(target, validatedData, req.user.id);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Error updating retention policy:", error);
+      res.status(500).json({ message: "Failed to update retention policy" });
+    }
+  });
+
+  app.get('/api/retention/runs', isAuthenticated, requireRole('cloud_staff', 'iot_team'), async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await storage.getRetentionRuns(limit));
+    } catch (error) {
+      console.error("Error fetching retention runs:", error);
+      res.status(500).json({ message: "Failed to fetch retention runs" });
+    }
+  });
+
+  // Starts a run in the background; poll GET /api/retention/runs for its report
+  app.post('/api/retention/runs', isAuthenticated, requireRole('cloud_staff'), async (req: any, res) => {
+    try {
+      const { dryRun } = startRetentionRunSchema.parse(req.body);
+      const run = await startRetentionRun({ trigger: "manual", dryRun, userId: req.user.id });
+      res.status(202).json(run);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof RetentionRunInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error starting retention run:", error);
+      res.status(500).json({ message: "Failed to start retention run" });
+    }
+  });
+
   // ===== MAINTENANCE ROUTES (Staff Only) =====
   app.get('/api/maintenance', isAuthenticated, requireRole('cloud_staff'), async (req: any, res) => {
     try {
@@ -763,6 +3182,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   });
 
+  // List the audio classifier backends that /api/audio/analyze accepts as modelUsed
+  app.get('/api/audio/classifiers', isAuthenticated, requireRole('cloud_staff', 'iot_team'), async (req: any, res) => {
+    res.json(listAudioClassifiers());
+  });
+
   // Get all audio detections (with pagination)
   app.get('/api/audio/detections', isAuthenticated, requireRole('cloud_staff', 'iot_team'), async (req: any, res) => {
     try {
@@ -812,11 +3236,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { deviceId } = req.body;
+      const modelUsed = req.body.modelUsed || getDefaultAudioModel();
       
       if (!deviceId) {
         return res.status(400).json({ message: "Device ID is required" });
       }
 
+      if (!isAudioModel(modelUsed)) {
+        return res.status(400).json({ message: `Unknown audio classifier: ${modelUsed}` });
+      }
+
       // Get device details
       const device = await storage.getDevice(deviceId);
       if (!device) {
@@ -827,10 +3256,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const [house] = await db.select().from(houses).where(eq(houses.id, device.houseId));
       const deviceLocation = `${device.room || 'Unknown Room'} - ${house?.name || 'Unknown House'}`;
 
-      // Analyze audio using simulated YAMNet and HuBERT models
+      // Analyze audio with the selected classifier backend
       const analysisResult = analyzeAudio(
+        modelUsed,
         req.file.originalname,
         req.file.buffer,
+        req.file.mimetype,
         deviceLocation
       );
 
@@ -840,7 +3271,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         houseId: device.houseId,
         fileName: req.file.originalname,
         fileSize: req.file.size,
-        modelUsed: analysisResult.primaryDetection.model,
+        duration: analysisResult.durationSeconds ?? null,
+        modelUsed,
         detectedClass: analysisResult.primaryDetection.class,
         confidence: analysisResult.primaryDetection.confidence,
         predictions: analysisResult.allPredictions,
@@ -854,24 +3286,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           analysisResult.primaryDetection.class,
           analysisResult.primaryDetection.confidence,
           device.name,
-          deviceLocation
+          deviceLocation,
+          modelUsed
         );
 
-        // Map audio detection alert type to existing alert type enum
-        const alertTypeMapping: Record<string, typeof alerts.$inferInsert.type> = {
-          'emergency': 'sound_detected',
-          'safety': 'sound_detected',
-          'security': 'intrusion',
-          'maintenance': 'system_anomaly',
-          'health': 'scream_detected',
-        };
-
-        const alertType = alertTypeMapping[analysisResult.alertType!] || 'sound_detected';
-
-        const [newAlert] = await db.insert(alerts).values({
+        const newAlert = await raiseAlert({
           houseId: device.houseId,
           deviceId: device.id,
-          type: alertType,
+          type: audioAlertType(analysisResult),
           severity: analysisResult.alertSeverity!,
           title: analysisResult.alertMessage!,
           description: alertDescription,
@@ -879,14 +3301,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           aiConfidence: analysisResult.primaryDetection.confidence,
           aiDetails: analysisResult.allPredictions,
           status: 'new',
-        }).returning();
+        });
 
-        generatedAlert = newAlert;
+        // Null when the house's security mode ignored or is holding the alert
+        if (newAlert) {
+          generatedAlert = newAlert;
 
-        // Update detection record with alert ID
-        await db.update(audioDetections)
-          .set({ alertId: newAlert.id })
-          .where(eq(audioDetections.id, detection.id));
+          // Update detection record with alert ID
+          await db.update(audioDetections)
+            .set({ alertId: newAlert.id })
+            .where(eq(audioDetections.id, detection.id));
+        }
       }
 
       res.status(201).json({
@@ -900,6 +3325,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     } catch (error) {
       console.error("Error analyzing audio:", error);
+      if (error instanceof AudioDecodeError) {
+        return res.status(415).json({ message: error.message });
+      }
       if (error instanceof Error && error.message.includes('Invalid file type')) {
         return res.status(400).json({ message: error.message });
       }
@@ -0,0 +1,272 @@
+/**
+ * Security Modes
+ *
+ * Arming and disarming a house (houses.mode) and what its mode does to
+ * alerts. Members who can control the house change the mode in the app; a
+ * keypad in the house (a device of type keypad; no other device may) changes
+ * it through the device API and needs the house's PIN to disarm, with a
+ * lockout after repeated wrong PINs. Arming away or
+ * vacation takes effect once the exit delay is over. Every change is kept in
+ * house_mode_changes.
+ *
+ * What the mode does to alerts (applySecurityMode, called by raiseAlert):
+ *   disarmed  Motion is raised at low severity
+ *   home      Motion is ignored
+ *   arming    Motion is ignored until the exit delay is over
+ *   away      Motion is an intrusion (high), held for the entry delay and
+ *             raised unless the house is disarmed first; intrusions are at
+ *             least high
+ *   vacation  As away, at critical
+ *
+ * Configuration (environment):
+ *   SECURITY_PIN_MAX_ATTEMPTS        Wrong PINs before the keypad is locked out (default 5)
+ *   SECURITY_PIN_LOCKOUT_MINUTES     How long the lockout lasts (default 5)
+ *   SECURITY_SWEEP_INTERVAL_SECONDS  How often expired entry delays are checked (default 5)
+ */
+
+import bcrypt from "bcryptjs";
+import {
+  ARMED_HOUSE_MODES,
+  type Alert,
+  type Device,
+  type House,
+  type HouseSecurity,
+  type HouseSecurityStatus,
+  type InsertAlert,
+  type UpdateHouseSecurity,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { raiseAlert } from "./alertService";
+import { syncHouseCameraPrivacy } from "./privacyService";
+import { log } from "./vite";
+import { envInt } from "./env";
+
+const SEVERITIES: Alert["severity"][] = ["low", "medium", "high", "critical"];
+
+// Severity of an intrusion in each armed mode
+const INTRUSION_SEVERITY: Partial<Record<House["mode"], Alert["severity"]>> = {
+  away: "high",
+  vacation: "critical",
+};
+
+// Used until a house saves its own settings
+const DEFAULT_EXIT_DELAY_SECONDS = 60;
+const DEFAULT_ENTRY_DELAY_SECONDS = 30;
+
+/**
+ * The mode change was refused: a wrong or missing PIN or a device that isn't a
+ * keypad (403), a keypad locked out after too many wrong PINs (429), or a PIN
+ * that isn't set (409).
+ */
+export class HouseSecurityError extends Error {
+  constructor(message: string, public status: 403 | 409 | 429 = 409) {
+    super(message);
+    this.name = "HouseSecurityError";
+  }
+}
+
+export type ModeChangeOrigin =
+  | { source: "app"; userId: string }
+  | { source: "keypad"; device: Device; pin?: string };
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
+
+const isArmedMode = (mode: House["mode"]) => ARMED_HOUSE_MODES.includes(mode);
+
+function securityStatus(house: House, security: HouseSecurity | undefined, now: Date): HouseSecurityStatus {
+  // An armed house without a row was armed before arming had delays, so it is armed already
+  const armingUntil = isArmedMode(house.mode) && security?.armedAt && security.armedAt > now ? security.armedAt : null;
+  return {
+    mode: house.mode,
+    armed: isArmedMode(house.mode) && !armingUntil,
+    armingUntil,
+    entryDeadline: security?.entryDeadline ?? null,
+    exitDelaySeconds: security?.exitDelaySeconds ?? DEFAULT_EXIT_DELAY_SECONDS,
+    entryDelaySeconds: security?.entryDelaySeconds ?? DEFAULT_ENTRY_DELAY_SECONDS,
+    hasPin: !!security?.pinHash,
+    pinLockedUntil: security?.pinLockedUntil && security.pinLockedUntil > now ? security.pinLockedUntil : null,
+  };
+}
+
+export async function getHouseSecurityStatus(house: House): Promise<HouseSecurityStatus> {
+  return securityStatus(house, await storage.getHouseSecurity(house.id), new Date());
+}
+
+export async function updateHouseSecurity(house: House, update: UpdateHouseSecurity): Promise<HouseSecurityStatus> {
+  const { pin, ...delays } = update;
+  const settings: Partial<HouseSecurity> = { ...delays };
+  if (pin !== undefined) {
+    settings.pinHash = pin === null ? null : await bcrypt.hash(pin, 10);
+    settings.failedPinAttempts = 0;
+    settings.pinLockedUntil = null;
+  }
+
+  const security = await storage.upsertHouseSecurity(house.id, settings);
+  return securityStatus(house, security, new Date());
+}
+
+async function verifyPin(houseId: string, security: HouseSecurity | undefined, pin: string | undefined): Promise<void> {
+  if (!security?.pinHash) {
+    throw new HouseSecurityError("This house has no PIN; disarm it from the app");
+  }
+  if (security.pinLockedUntil && security.pinLockedUntil > new Date()) {
+    throw new HouseSecurityError("Too many wrong PINs; try again later", 429);
+  }
+
+  if (pin && (await bcrypt.compare(pin, security.pinHash))) {
+    if (security.failedPinAttempts > 0) {
+      await storage.upsertHouseSecurity(houseId, { failedPinAttempts: 0 });
+    }
+    return;
+  }
+
+  const maxAttempts = envInt("SECURITY_PIN_MAX_ATTEMPTS", 5);
+  const { failedPinAttempts } = await storage.recordFailedPinAttempt(houseId);
+  if (failedPinAttempts >= maxAttempts) {
+    const lockoutMinutes = envInt("SECURITY_PIN_LOCKOUT_MINUTES", 5);
+    await storage.upsertHouseSecurity(houseId, {
+      failedPinAttempts: 0,
+      pinLockedUntil: new Date(Date.now() + lockoutMinutes * 60_000),
+    });
+    log(`keypad locked out of house ${houseId} after ${failedPinAttempts} wrong PINs`, "security");
+  }
+  throw new HouseSecurityError("Wrong PIN", 403);
+}
+
+/**
+ * Switch a house to another mode. Arming starts the exit delay; disarming
+ * cancels a running entry delay, and from a keypad needs the PIN.
+ */
+export async function setHouseMode(house: House, mode: House["mode"], origin: ModeChangeOrigin): Promise<HouseSecurityStatus> {
+  if (origin.source === "keypad" && origin.device.type !== "keypad") {
+    throw new HouseSecurityError("Only a keypad can change the house's mode", 403);
+  }
+  let security = await storage.getHouseSecurity(house.id);
+  const disarming = isArmedMode(house.mode) && !isArmedMode(mode);
+  if (origin.source === "keypad" && disarming) {
+    await verifyPin(house.id, security, origin.pin);
+  }
+  if (mode === house.mode) {
+    return securityStatus(house, security, new Date());
+  }
+
+  // Going from one armed mode to the other keeps the exit delay already running
+  const now = new Date();
+  const exitDelaySeconds = security?.exitDelaySeconds ?? DEFAULT_EXIT_DELAY_SECONDS;
+  const armedAt = !isArmedMode(mode)
+    ? null
+    : isArmedMode(house.mode)
+      ? security?.armedAt ?? now
+      : new Date(now.getTime() + exitDelaySeconds * 1000);
+  security = await storage.upsertHouseSecurity(house.id, { armedAt });
+  if (!isArmedMode(mode)) {
+    security = (await storage.clearEntryDelay(house.id)) ?? security;
+  }
+
+  const updated = await storage.setHouseMode(house.id, mode);
+  await storage.createHouseModeChange({
+    houseId: house.id,
+    fromMode: house.mode,
+    toMode: mode,
+    source: origin.source,
+    changedBy: origin.source === "app" ? origin.userId : null,
+    deviceId: origin.source === "keypad" ? origin.device.id : null,
+  });
+  log(`${house.name} switched from ${house.mode} to ${mode} (${origin.source})`, "security");
+
+  // Cameras may follow the house's mode into or out of privacy mode
+  syncHouseCameraPrivacy(house.id).catch((error) => {
+    console.error("Failed to update camera privacy for mode change:", error);
+  });
+
+  return securityStatus(updated, security, now);
+}
+
+/**
+ * Apply the house's mode to an alert about to be raised: the alert to raise
+ * instead, or null when the mode ignores it or holds it for the entry delay.
+ */
+export async function applySecurityMode(alertData: InsertAlert): Promise<InsertAlert | null> {
+  const house = await storage.getHouseById(alertData.houseId);
+  if (!house) {
+    return alertData;
+  }
+  const security = await storage.getHouseSecurity(house.id);
+  const now = new Date();
+  const status = securityStatus(house, security, now);
+  const intrusionSeverity = INTRUSION_SEVERITY[house.mode];
+
+  if (alertData.type === "intrusion" && status.armed && intrusionSeverity) {
+    const severity = SEVERITIES.indexOf(alertData.severity) < SEVERITIES.indexOf(intrusionSeverity)
+      ? intrusionSeverity
+      : alertData.severity;
+    return { ...alertData, severity };
+  }
+
+  if (alertData.type !== "motion_detected") {
+    return alertData;
+  }
+  if (house.mode === "disarmed") {
+    return { ...alertData, severity: "low" };
+  }
+  if (!status.armed || !intrusionSeverity) {
+    return null;
+  }
+
+  const intrusion: InsertAlert = {
+    ...alertData,
+    type: "intrusion",
+    severity: intrusionSeverity,
+    title: `Intrusion: ${alertData.title}`,
+    description: `${alertData.description}\n\nMotion while the house was set to ${house.mode}.`,
+  };
+  if (status.entryDelaySeconds === 0) {
+    return intrusion;
+  }
+
+  // Motion during a running entry delay belongs to the same entry
+  const deadline = new Date(now.getTime() + status.entryDelaySeconds * 1000);
+  if (await storage.startEntryDelay(house.id, deadline, intrusion)) {
+    log(`${house.name}: entry delay started, intrusion at ${deadline.toISOString()} unless disarmed`, "security");
+  }
+  return null;
+}
+
+async function sweepEntryDelays(now: Date): Promise<void> {
+  for (const security of await storage.getHouseSecurityWithEntryDue(now)) {
+    // Only one caller clears a given entry delay; a disarm in the meantime wins
+    const cleared = await storage.clearEntryDelay(security.houseId, now);
+    if (cleared && security.pendingEntryAlert) {
+      try {
+        await raiseAlert(security.pendingEntryAlert);
+      } catch (error) {
+        console.error(`Failed to raise intrusion alert for house ${security.houseId}:`, error);
+      }
+    }
+  }
+}
+
+export function startSecurityWorker(): void {
+  if (sweepTimer) {
+    return;
+  }
+
+  const intervalSeconds = envInt("SECURITY_SWEEP_INTERVAL_SECONDS", 5);
+  sweepTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweepInProgress) {
+      return;
+    }
+    sweepInProgress = true;
+    try {
+      await sweepEntryDelays(new Date());
+    } catch (error) {
+      console.error("Security sweep failed:", error);
+    } finally {
+      sweepInProgress = false;
+    }
+  }, intervalSeconds * 1000);
+
+  log(`security worker running every ${intervalSeconds}s`, "security");
+}
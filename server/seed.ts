@@ -361,24 +361,36 @@ async function seed() {
       id: "rule-001",
       houseId: house1.id,
       name: "Night Mode",
-      trigger: "Time-based: 22:00",
-      action: "Dim lights to 20%, Lock front door",
+      trigger: { type: "schedule", time: "22:00" },
+      conditions: [],
+      actions: [
+        { type: "device_command", deviceId: "dev-light-001", command: "set_brightness", params: { brightness: 20 } },
+        { type: "device_command", deviceId: "dev-lock-001", command: "lock" },
+      ],
       status: "active",
     },
     {
       id: "rule-002",
       houseId: house1.id,
       name: "Away Mode",
-      trigger: "Manual activation",
-      action: "Turn off all lights, Set thermostat to 68°F",
+      trigger: { type: "alert", alertType: "motion_detected" },
+      conditions: [{ type: "house_mode", modes: ["away", "vacation"] }],
+      actions: [
+        { type: "create_alert", alertType: "intrusion", severity: "high", title: "Motion while away" },
+        { type: "device_command", deviceId: "dev-thermo-001", command: "set_temperature", params: { targetTemp: 68 } },
+      ],
       status: "active",
     },
     {
       id: "rule-003",
       houseId: house3.id,
       name: "Fall Detection Alert",
-      trigger: "Fall detected by bedroom sensor",
-      action: "Send emergency notification, Start camera recording",
+      trigger: { type: "alert", alertType: "fall_detected", deviceId: "dev-motion-201" },
+      conditions: [],
+      actions: [
+        { type: "notify", message: "Possible fall detected in the bedroom", severity: "critical" },
+        { type: "device_command", deviceId: "dev-cam-201", command: "start_recording" },
+      ],
       status: "active",
     },
   ]);
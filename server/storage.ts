@@ -1,28 +1,143 @@
 import {
   users,
   houses,
+  houseSecurity,
+  houseModeChanges,
+  floors,
+  rooms,
   devices,
+  devicePlacements,
   alerts,
   automationRules,
   sensorData,
   surveillanceFeeds,
+  recordings,
+  alertEvidence,
+  cameraPrivacy,
+  privacyAccessLogs,
   userConfigLogs,
+  userTwoFactor,
+  deviceCredentials,
+  deviceRegistrations,
+  deviceCommands,
+  firmwareReleases,
+  firmwareCampaigns,
+  firmwareUpdates,
+  houseMembers,
+  houseInvitations,
+  notificationPreferences,
+  notifications,
+  notificationDeliveries,
+  platformSettings,
+  alertActivity,
+  escalationPolicies,
+  incidents,
+  sensorDataHourly,
+  sensorDataDaily,
+  audioDetections,
+  retentionPolicies,
+  retentionRuns,
   type User,
   type UpsertUser,
   type House,
   type InsertHouse,
+  type HouseSecurity,
+  type HouseModeChange,
+  type HouseModeChangeWithUser,
+  type Floor,
+  type InsertFloor,
+  type Room,
+  type InsertRoom,
+  type UpdateRoom,
+  type DevicePlacement,
+  type DevicePlacementInput,
+  normalizeRoomName,
   type Device,
   type InsertDevice,
   type Alert,
   type InsertAlert,
+  type AlertSearch,
+  type AlertPage,
+  type AlertSummary,
   type AutomationRule,
   type InsertAutomationRule,
+  type UpdateAutomationRule,
   type SensorData,
+  type InsertSensorData,
+  type SensorDataQuery,
+  type SensorSeries,
+  type DeviceCredential,
+  type DeviceRegistration,
+  type InsertDeviceRegistration,
+  type DeviceCommand,
+  type InsertDeviceCommand,
+  type DeviceState,
+  type FirmwareRelease,
+  type InsertFirmwareRelease,
+  type FirmwareCampaign,
+  type FirmwareCampaignTarget,
+  type FirmwareUpdate,
+  type FirmwareUpdateWithDevice,
   type SurveillanceFeed,
+  type Recording,
+  type InsertRecording,
+  type RecordingQuery,
+  type AlertEvidenceRecording,
+  type AudioDetection,
+  type CameraPrivacy,
+  type PrivacyAccessLog,
+  type PrivacyAccessLogWithUser,
   type UserConfigLog,
+  type UserTwoFactor,
+  type HouseMember,
+  type HouseMemberRole,
+  type HouseMemberWithUser,
+  type UpdateHouseMember,
+  type HouseInvitation,
+  type HouseInvitationWithHouse,
+  type NotificationChannel,
+  type NotificationPreference,
+  type Notification,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type PlatformSettingRow,
+  type AlertActivity,
+  type AlertActivityWithActor,
+  type InsertAlertActivity,
+  type EscalationPolicy,
+  type InsertEscalationPolicy,
+  type UpdateEscalationPolicy,
+  type Incident,
+  type InsertIncident,
+  type RetentionPolicy,
+  type RetentionTarget,
+  type RetentionRun,
+  type InsertRetentionRun,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, or, gt, gte, lt, lte, ne, sql, ilike, isNull, isNotNull, inArray, notInArray, notExists } from "drizzle-orm";
+
+// Most readings a raw sensor series returns
+const SENSOR_RAW_LIMIT = 5000;
+
+// Closed alerts whose last change is older than the cutoff
+const purgeableAlert = (cutoff: Date) => and(
+  inArray(alerts.status, ["resolved", "dismissed"]),
+  lt(sql`coalesce(${alerts.resolvedAt}, ${alerts.updatedAt})`, cutoff),
+);
+
+// The database or a transaction on it, for helpers that run in either
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+// A membership counts until its expiry passes
+const activeMembership = () => or(isNull(houseMembers.expiresAt), gt(houseMembers.expiresAt, new Date()));
+
+// Settings written to a device's config along with other changes: keys to
+// drop (an old type's settings), then the settings to merge in
+export interface DeviceSettingsChange {
+  merge: DeviceState;
+  remove?: string[];
+}
 
 // Interface for storage operations
 export interface IStorage {
@@ -33,43 +148,280 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   getUsersByRole(role: string): Promise<User[]>;
   getAllUsers(): Promise<User[]>;
+
+  // Two-factor authentication
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  upsertUserTwoFactor(data: Pick<UserTwoFactor, "userId" | "secret"> & Partial<UserTwoFactor>): Promise<UserTwoFactor>;
+  deleteUserTwoFactor(userId: string): Promise<void>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  claimRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
   
   // House operations
   createHouse(house: InsertHouse): Promise<House>;
   getHousesByOwner(ownerId: string): Promise<House[]>;
   getAllHouses(): Promise<House[]>;
   getHouseById(id: string): Promise<House | undefined>;
+  getHousesForUser(userId: string): Promise<(House & { memberRole: HouseMemberRole })[]>;
+  setHouseMode(id: string, mode: House["mode"]): Promise<House>;
+
+  // House security
+  getHouseSecurity(houseId: string): Promise<HouseSecurity | undefined>;
+  upsertHouseSecurity(houseId: string, settings: Partial<Omit<HouseSecurity, "houseId">>): Promise<HouseSecurity>;
+  startEntryDelay(houseId: string, deadline: Date, alert: InsertAlert): Promise<boolean>;
+  getHouseSecurityWithEntryDue(now: Date): Promise<HouseSecurity[]>;
+  clearEntryDelay(houseId: string, dueBy?: Date): Promise<HouseSecurity | undefined>;
+  recordFailedPinAttempt(houseId: string): Promise<HouseSecurity>;
+  createHouseModeChange(change: Omit<HouseModeChange, "id" | "createdAt">): Promise<HouseModeChange>;
+  getHouseModeChanges(houseId: string, limit: number): Promise<HouseModeChangeWithUser[]>;
+
+  // House membership
+  getHouseRole(houseId: string, userId: string): Promise<HouseMemberRole | undefined>;
+  getHouseMembers(houseId: string): Promise<HouseMemberWithUser[]>;
+  getHouseUserIds(houseId: string): Promise<string[]>;
+  getHouseMember(id: string): Promise<HouseMember | undefined>;
+  addHouseMember(member: Pick<HouseMember, "houseId" | "userId" | "role"> & Partial<HouseMember>): Promise<HouseMember>;
+  updateHouseMember(id: string, member: UpdateHouseMember): Promise<HouseMember>;
+  deleteHouseMember(id: string): Promise<void>;
+  createHouseInvitation(invitation: Pick<HouseInvitation, "houseId" | "email" | "role" | "expiresAt"> & Partial<HouseInvitation>): Promise<HouseInvitation>;
+  getHouseInvitation(id: string): Promise<HouseInvitation | undefined>;
+  getPendingHouseInvitations(houseId: string): Promise<HouseInvitation[]>;
+  getPendingInvitationsForEmail(email: string): Promise<HouseInvitationWithHouse[]>;
+  updateHouseInvitationStatus(id: string, status: HouseInvitation["status"]): Promise<HouseInvitation>;
   
   // Device operations
   createDevice(device: InsertDevice): Promise<Device>;
+  createDevices(devices: InsertDevice[]): Promise<Device[]>;
+  getTakenSerialNumbers(serialNumbers: string[]): Promise<string[]>;
   getDevicesByHouse(houseId: string): Promise<Device[]>;
   getAllDevices(): Promise<Device[]>;
   getDevice(id: string): Promise<Device | undefined>;
-  updateDevice(id: string, device: Partial<Device>): Promise<Device>;
+  updateDevice(id: string, device: Partial<Device>, settings?: DeviceSettingsChange): Promise<Device>;
   deleteDevice(id: string): Promise<void>;
   getDevicesByType(type: string): Promise<Device[]>;
+  getDeviceBySerialNumber(serialNumber: string): Promise<Device | undefined>;
+
+  // Rooms, floors and floor plans
+  getFloorsByHouse(houseId: string): Promise<Floor[]>;
+  getFloor(id: string): Promise<Floor | undefined>;
+  createFloor(floor: InsertFloor): Promise<Floor>;
+  updateFloor(id: string, floor: Partial<Omit<Floor, "id" | "houseId">>): Promise<Floor>;
+  deleteFloor(id: string): Promise<void>;
+  getRoomsByHouse(houseId: string): Promise<Room[]>;
+  getRoom(id: string): Promise<Room | undefined>;
+  findOrCreateRoom(houseId: string, name: string): Promise<Room>;
+  createRoom(room: InsertRoom): Promise<Room | undefined>;
+  updateRoom(id: string, room: UpdateRoom): Promise<Room | undefined>;
+  deleteRoom(id: string): Promise<void>;
+  getDevicePlacementsByHouse(houseId: string): Promise<DevicePlacement[]>;
+  upsertDevicePlacement(deviceId: string, placement: DevicePlacementInput): Promise<DevicePlacement>;
+  deleteDevicePlacement(deviceId: string): Promise<void>;
+
+  // Device credentials
+  createDeviceCredential(credential: Pick<DeviceCredential, "deviceId" | "keyHash" | "keyPrefix" | "createdBy">): Promise<DeviceCredential>;
+  getDeviceCredentials(deviceId: string): Promise<DeviceCredential[]>;
+  getActiveDeviceCredentialByHash(keyHash: string): Promise<DeviceCredential | undefined>;
+  revokeDeviceCredential(id: string): Promise<DeviceCredential | undefined>;
+  revokeDeviceCredentialsForDevice(deviceId: string): Promise<void>;
+  touchDeviceCredential(id: string): Promise<void>;
+
+  // Device registrations (provisioning)
+  createDeviceRegistration(
+    registration: InsertDeviceRegistration & { claimCodeHash: string; createdBy: string },
+  ): Promise<DeviceRegistration>;
+  getDeviceRegistrations(): Promise<DeviceRegistration[]>;
+  getDeviceRegistration(id: string): Promise<DeviceRegistration | undefined>;
+  getDeviceRegistrationBySerialNumber(serialNumber: string): Promise<DeviceRegistration | undefined>;
+  deleteDeviceRegistration(id: string): Promise<void>;
+  claimDeviceRegistration(
+    id: string,
+    userId: string,
+    device: InsertDevice,
+  ): Promise<{ registration: DeviceRegistration; device: Device } | undefined>;
+  provisionDeviceRegistration(
+    id: string,
+    credential: Pick<DeviceCredential, "keyHash" | "keyPrefix">,
+  ): Promise<DeviceRegistration | undefined>;
+
+  // Device commands and twin state
+  mergeDeviceState(id: string, field: "config" | "desiredState", patch: DeviceState): Promise<Device>;
+  createDeviceCommand(command: InsertDeviceCommand): Promise<DeviceCommand>;
+  getDeviceCommand(id: string): Promise<DeviceCommand | undefined>;
+  getDeviceCommands(deviceId: string, limit: number): Promise<DeviceCommand[]>;
+  claimDeviceCommands(deviceId: string): Promise<DeviceCommand[]>;
+  completeDeviceCommand(
+    id: string,
+    status: "acked" | "failed",
+    error?: string,
+  ): Promise<DeviceCommand | undefined>;
+  expireDeviceCommands(deviceId?: string): Promise<DeviceCommand[]>;
+
+  // Firmware
+  createFirmwareRelease(release: InsertFirmwareRelease & { createdBy: string }): Promise<FirmwareRelease>;
+  getFirmwareReleases(): Promise<FirmwareRelease[]>;
+  getFirmwareRelease(id: string): Promise<FirmwareRelease | undefined>;
+  getFirmwareReleaseByVersion(deviceType: Device["type"], version: string): Promise<FirmwareRelease | undefined>;
+  createFirmwareCampaign(campaign: typeof firmwareCampaigns.$inferInsert): Promise<FirmwareCampaign>;
+  getFirmwareCampaigns(status?: FirmwareCampaign["status"]): Promise<FirmwareCampaign[]>;
+  getFirmwareCampaign(id: string): Promise<FirmwareCampaign | undefined>;
+  updateFirmwareCampaign(id: string, campaign: Partial<FirmwareCampaign>): Promise<FirmwareCampaign>;
+  getFirmwareCampaignCandidates(release: FirmwareRelease, target: FirmwareCampaignTarget): Promise<Device[]>;
+  createFirmwareUpdates(updates: (typeof firmwareUpdates.$inferInsert)[]): Promise<void>;
+  getFirmwareUpdateStats(campaignIds: string[]): Promise<{ campaignId: string; stage: number; status: FirmwareUpdate["status"]; count: number }[]>;
+  getFirmwareUpdatesForCampaign(campaignId: string): Promise<FirmwareUpdateWithDevice[]>;
+  offerFirmwareStage(campaignId: string, stage: number): Promise<void>;
+  cancelFirmwareUpdates(campaignId: string): Promise<void>;
+  getFirmwareUpdate(id: string): Promise<FirmwareUpdate | undefined>;
+  getActionableFirmwareUpdate(deviceId: string): Promise<FirmwareUpdate | undefined>;
+  updateFirmwareUpdateStatus(
+    id: string,
+    fromStatuses: FirmwareUpdate["status"][],
+    update: Pick<FirmwareUpdate, "status"> & Partial<FirmwareUpdate>,
+  ): Promise<FirmwareUpdate | undefined>;
   
   // Alert operations
   createAlert(alert: InsertAlert): Promise<Alert>;
   getAlertsByHouse(houseId: string): Promise<Alert[]>;
-  getAllAlerts(): Promise<Alert[]>;
-  getRecentAlerts(limit?: number): Promise<Alert[]>;
+  searchAlerts(search: AlertSearch & { houseIds?: string[] }): Promise<AlertPage>;
+  getAlertSummary(houseIds?: string[]): Promise<AlertSummary>;
+  getRecentAlerts(limit?: number, houseIds?: string[]): Promise<Alert[]>;
   getAlert(id: string): Promise<Alert | undefined>;
-  updateAlertStatus(id: string, status: string, userId: string): Promise<Alert>;
-  
+  updateAlertStatus(
+    id: string,
+    status: Alert["status"],
+    userId: string,
+    fromStatus: Alert["status"],
+  ): Promise<Alert | undefined>;
+  updateAlertAssignee(id: string, assigneeId: string | null): Promise<Alert>;
+  getOpenAlertsForDevice(deviceId: string, type: Alert["type"]): Promise<Alert[]>;
+  resolveOpenAlertsForDevice(deviceId: string, type: Alert["type"]): Promise<Alert[]>;
+  updateAlertEscalation(
+    id: string,
+    escalation: Partial<Pick<Alert, "escalationPolicyId" | "escalationStep" | "nextEscalationAt">>,
+  ): Promise<Alert>;
+  getDueEscalations(now: Date): Promise<Alert[]>;
+  findRepeatableAlert(deviceId: string, type: Alert["type"], since: Date): Promise<Alert | undefined>;
+  recordAlertOccurrence(id: string, occurredAt: Date): Promise<Alert>;
+  getCorrelatableAlerts(houseId: string, since: Date, excludeId: string): Promise<Alert[]>;
+  setAlertsIncident(alertIds: string[], incidentId: string): Promise<Alert[]>;
+  getAlertsForIncident(incidentId: string): Promise<Alert[]>;
+  createAlertActivity(activity: InsertAlertActivity): Promise<AlertActivity>;
+  getAlertActivity(alertId: string): Promise<AlertActivityWithActor[]>;
+
+  // Escalation policies
+  getAllEscalationPolicies(): Promise<EscalationPolicy[]>;
+  getEscalationPoliciesForHouses(houseIds: string[]): Promise<EscalationPolicy[]>;
+  getActiveEscalationPolicies(houseId: string): Promise<EscalationPolicy[]>;
+  getEscalationPolicy(id: string): Promise<EscalationPolicy | undefined>;
+  createEscalationPolicy(policy: InsertEscalationPolicy & { createdBy: string }): Promise<EscalationPolicy>;
+  updateEscalationPolicy(id: string, policy: UpdateEscalationPolicy): Promise<EscalationPolicy>;
+  deleteEscalationPolicy(id: string): Promise<void>;
+
+  // Incidents
+  getIncidents(options: { houseIds?: string[]; status?: Incident["status"] }): Promise<Incident[]>;
+  getIncident(id: string): Promise<Incident | undefined>;
+  getOpenIncidentForHouse(houseId: string, since: Date): Promise<Incident | undefined>;
+  createIncident(incident: InsertIncident): Promise<Incident>;
+  updateIncident(id: string, incident: Partial<InsertIncident>): Promise<Incident>;
+
+  getHouseRecipients(houseId: string, roles?: HouseMemberRole[]): Promise<User[]>;
+
+  // Notifications
+  getNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
+  upsertNotificationPreference(
+    userId: string,
+    channel: NotificationChannel,
+    preference: Partial<Pick<NotificationPreference, "enabled" | "minSeverity" | "target" | "secret">>,
+  ): Promise<NotificationPreference>;
+  createNotification(notification: Omit<Notification, "id" | "readAt" | "createdAt">): Promise<Notification>;
+  getNotifications(userId: string, options: { unreadOnly?: boolean; limit: number }): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  createNotificationDeliveries(deliveries: InsertNotificationDelivery[]): Promise<NotificationDelivery[]>;
+  getDueNotificationDeliveries(limit: number): Promise<NotificationDelivery[]>;
+  updateNotificationDelivery(id: string, delivery: Partial<NotificationDelivery>): Promise<NotificationDelivery>;
+  getNotificationDeliveries(userId: string, limit: number): Promise<NotificationDelivery[]>;
+
   // Automation rules
   createAutomationRule(rule: InsertAutomationRule): Promise<AutomationRule>;
   getAutomationRulesByHouse(houseId: string): Promise<AutomationRule[]>;
+  getAllAutomationRules(): Promise<AutomationRule[]>;
+  getAutomationRule(id: string): Promise<AutomationRule | undefined>;
+  getActiveAutomationRulesByHouse(houseId: string): Promise<AutomationRule[]>;
+  getActiveAutomationRulesByTriggerType(triggerType: string): Promise<AutomationRule[]>;
+  updateAutomationRule(id: string, rule: UpdateAutomationRule): Promise<AutomationRule>;
+  deleteAutomationRule(id: string): Promise<void>;
+  markAutomationRuleTriggered(id: string, triggeredAt: Date): Promise<void>;
   
   // Sensor data
   createSensorData(data: Omit<SensorData, "id">): Promise<SensorData>;
+  createSensorDataBatch(data: InsertSensorData[]): Promise<SensorData[]>;
+  getSensorSeries(query: SensorDataQuery & { houseIds?: string[] }): Promise<SensorSeries>;
   
   // Surveillance feeds
   getSurveillanceFeedsByHouse(houseId: string): Promise<SurveillanceFeed[]>;
+  getSurveillanceFeedByDevice(deviceId: string): Promise<SurveillanceFeed | undefined>;
+
+  // Camera privacy
+  getCameraPrivacy(deviceId: string): Promise<CameraPrivacy | undefined>;
+  getAllCameraPrivacy(): Promise<CameraPrivacy[]>;
+  upsertCameraPrivacy(
+    deviceId: string,
+    settings: Partial<Pick<CameraPrivacy, "masks" | "enabled" | "schedule" | "houseModes">>,
+    updatedBy: string,
+  ): Promise<CameraPrivacy>;
+  createPrivacyAccessLog(entry: Omit<PrivacyAccessLog, "id" | "createdAt">): Promise<PrivacyAccessLog>;
+  getPrivacyAccessLogs(deviceId: string, limit: number): Promise<PrivacyAccessLogWithUser[]>;
+
+  // Recordings
+  createRecording(recording: InsertRecording): Promise<Recording>;
+  createActiveRecording(recording: InsertRecording): Promise<Recording | undefined>;
+  getRecording(id: string): Promise<Recording | undefined>;
+  getRecordings(query: RecordingQuery & { houseIds?: string[] }): Promise<Recording[]>;
+  getActiveRecording(deviceId: string): Promise<Recording | undefined>;
+  getActiveRecordings(): Promise<Recording[]>;
+  updateRecording(
+    id: string,
+    fromStatuses: Recording["status"][],
+    update: Partial<Recording>,
+  ): Promise<Recording | undefined>;
+  getRecordingsDueToStop(now: Date): Promise<Recording[]>;
+  getRecordingsWithFailedCommands(): Promise<{ recording: Recording; error: string | null }[]>;
+  getPendingRecordingsEndedBefore(cutoff: Date): Promise<Recording[]>;
+  deleteRecording(id: string): Promise<void>;
+  getHouseStorageBytes(houseId: string): Promise<number>;
+  attachAlertEvidence(alertId: string, recordingIds: string[]): Promise<void>;
+  getAlertEvidenceRecordings(alertId: string): Promise<AlertEvidenceRecording[]>;
+  getAudioDetectionsForAlert(alertId: string): Promise<AudioDetection[]>;
   
   // User config logs
   createUserConfigLog(log: Omit<UserConfigLog, "id">): Promise<UserConfigLog>;
   getUserConfigLogs(limit?: number): Promise<UserConfigLog[]>;
+
+  // Platform settings
+  getPlatformSettingRows(): Promise<PlatformSettingRow[]>;
+  upsertPlatformSettings(values: Record<string, unknown>, updatedBy: string): Promise<void>;
+
+  // Data retention. The purge operations only count matching rows when dryRun is set.
+  getRetentionPolicies(): Promise<RetentionPolicy[]>;
+  upsertRetentionPolicy(
+    target: RetentionTarget,
+    values: Pick<RetentionPolicy, "retentionDays" | "enabled">,
+    updatedBy: string,
+  ): Promise<RetentionPolicy>;
+  createRetentionRun(run: InsertRetentionRun): Promise<RetentionRun>;
+  updateRetentionRun(id: string, run: Partial<RetentionRun>): Promise<RetentionRun>;
+  getRetentionRuns(limit: number): Promise<RetentionRun[]>;
+  getLatestRetentionRun(trigger: RetentionRun["trigger"]): Promise<RetentionRun | undefined>;
+  failInterruptedRetentionRuns(): Promise<void>;
+  rollupAndPurgeSensorData(
+    cutoff: Date,
+    dryRun: boolean,
+  ): Promise<{ rows: number; hourlyBuckets: number; dailyBuckets: number }>;
+  purgeHourlySensorRollups(cutoff: Date, dryRun: boolean): Promise<number>;
+  purgeAudioDetections(cutoff: Date, dryRun: boolean): Promise<number>;
+  purgeClosedAlerts(cutoff: Date, dryRun: boolean): Promise<{ rows: number; incidents: number }>;
+  purgeUserConfigLogs(cutoff: Date, dryRun: boolean): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -133,6 +485,59 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).orderBy(desc(users.createdAt));
   }
 
+  // Two-factor authentication
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return record;
+  }
+
+  async upsertUserTwoFactor(
+    data: Pick<UserTwoFactor, "userId" | "secret"> & Partial<UserTwoFactor>,
+  ): Promise<UserTwoFactor> {
+    const [record] = await db
+      .insert(userTwoFactor)
+      .values(data)
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: {
+          ...data,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return record;
+  }
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  // Records the time step of an accepted code; false when it or a later one was already used
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const [record] = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return !!record;
+  }
+
+  // Removes a recovery code; false when it isn't (or is no longer) one of the user's codes
+  async claimRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const [record] = await db
+      .update(userTwoFactor)
+      .set({ recoveryCodes: sql`${userTwoFactor.recoveryCodes} - ${codeHash}::text` })
+      .where(and(
+        eq(userTwoFactor.userId, userId),
+        sql`${userTwoFactor.recoveryCodes} @> jsonb_build_array(${codeHash}::text)`,
+      ))
+      .returning({ userId: userTwoFactor.userId });
+    return !!record;
+  }
+
   // House operations
   async createHouse(houseData: InsertHouse): Promise<House> {
     const [house] = await db.insert(houses).values(houseData).returning();
@@ -152,10 +557,304 @@ export class DatabaseStorage implements IStorage {
     return house;
   }
 
+  async getHousesForUser(userId: string): Promise<(House & { memberRole: HouseMemberRole })[]> {
+    const owned = await this.getHousesByOwner(userId);
+    const memberships = await db
+      .select({ house: houses, role: houseMembers.role })
+      .from(houseMembers)
+      .innerJoin(houses, eq(houseMembers.houseId, houses.id))
+      .where(and(eq(houseMembers.userId, userId), activeMembership()));
+
+    const ownedIds = new Set(owned.map((h) => h.id));
+    return [
+      ...owned.map((house) => ({ ...house, memberRole: "owner" as const })),
+      ...memberships
+        .filter(({ house }) => !ownedIds.has(house.id))
+        .map(({ house, role }) => ({ ...house, memberRole: role })),
+    ];
+  }
+  async setHouseMode(id: string, mode: House["mode"]): Promise<House> {
+    const [house] = await db
+      .update(houses)
+      .set({ mode, updatedAt: new Date() })
+      .where(eq(houses.id, id))
+      .returning();
+    return house;
+  }
+
+  // House security
+  async getHouseSecurity(houseId: string): Promise<HouseSecurity | undefined> {
+    const [security] = await db.select().from(houseSecurity).where(eq(houseSecurity.houseId, houseId));
+    return security;
+  }
+
+  async upsertHouseSecurity(houseId: string, settings: Partial<Omit<HouseSecurity, "houseId">>): Promise<HouseSecurity> {
+    const [security] = await db
+      .insert(houseSecurity)
+      .values({ houseId, ...settings })
+      .onConflictDoUpdate({
+        target: houseSecurity.houseId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return security;
+  }
+
+  // False when an entry delay is already running
+  async startEntryDelay(houseId: string, deadline: Date, alert: InsertAlert): Promise<boolean> {
+    const [security] = await db
+      .update(houseSecurity)
+      .set({ entryDeadline: deadline, pendingEntryAlert: alert, updatedAt: new Date() })
+      .where(and(eq(houseSecurity.houseId, houseId), isNull(houseSecurity.entryDeadline)))
+      .returning();
+    return !!security;
+  }
+
+  async getHouseSecurityWithEntryDue(now: Date): Promise<HouseSecurity[]> {
+    return await db
+      .select()
+      .from(houseSecurity)
+      .where(lte(houseSecurity.entryDeadline, now));
+  }
+
+  // Undefined when no entry delay was running (or none due by dueBy), so only one caller wins
+  async clearEntryDelay(houseId: string, dueBy?: Date): Promise<HouseSecurity | undefined> {
+    const [security] = await db
+      .update(houseSecurity)
+      .set({ entryDeadline: null, pendingEntryAlert: null, updatedAt: new Date() })
+      .where(and(
+        eq(houseSecurity.houseId, houseId),
+        isNotNull(houseSecurity.entryDeadline),
+        dueBy ? lte(houseSecurity.entryDeadline, dueBy) : undefined,
+      ))
+      .returning();
+    return security;
+  }
+
+  async recordFailedPinAttempt(houseId: string): Promise<HouseSecurity> {
+    const [security] = await db
+      .update(houseSecurity)
+      .set({ failedPinAttempts: sql`${houseSecurity.failedPinAttempts} + 1` })
+      .where(eq(houseSecurity.houseId, houseId))
+      .returning();
+    return security;
+  }
+
+  async createHouseModeChange(change: Omit<HouseModeChange, "id" | "createdAt">): Promise<HouseModeChange> {
+    const [record] = await db.insert(houseModeChanges).values(change).returning();
+    return record;
+  }
+
+  async getHouseModeChanges(houseId: string, limit: number): Promise<HouseModeChangeWithUser[]> {
+    const rows = await db
+      .select({
+        change: houseModeChanges,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(houseModeChanges)
+      .leftJoin(users, eq(houseModeChanges.changedBy, users.id))
+      .where(eq(houseModeChanges.houseId, houseId))
+      .orderBy(desc(houseModeChanges.createdAt))
+      .limit(limit);
+    return rows.map(({ change, user }) => ({ ...change, user }));
+  }
+
+
+  // House membership
+  async getHouseRole(houseId: string, userId: string): Promise<HouseMemberRole | undefined> {
+    const house = await this.getHouseById(houseId);
+    if (!house) {
+      return undefined;
+    }
+    if (house.ownerId === userId) {
+      return "owner";
+    }
+
+    const [member] = await db
+      .select()
+      .from(houseMembers)
+      .where(and(eq(houseMembers.houseId, houseId), eq(houseMembers.userId, userId), activeMembership()));
+    return member?.role;
+  }
+
+  async getHouseMembers(houseId: string): Promise<HouseMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: houseMembers,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(houseMembers)
+      .innerJoin(users, eq(houseMembers.userId, users.id))
+      .where(eq(houseMembers.houseId, houseId))
+      .orderBy(houseMembers.createdAt);
+    return rows.map(({ member, user }) => ({ ...member, user }));
+  }
+
+  // The owner and current members, i.e. everyone with a role in the house
+  async getHouseUserIds(houseId: string): Promise<string[]> {
+    const [house, members] = await Promise.all([
+      this.getHouseById(houseId),
+      db
+        .select({ userId: houseMembers.userId })
+        .from(houseMembers)
+        .where(and(eq(houseMembers.houseId, houseId), activeMembership())),
+    ]);
+    if (!house) {
+      return [];
+    }
+    const userIds = members.map((member) => member.userId);
+    return house.ownerId ? [house.ownerId, ...userIds] : userIds;
+  }
+
+  async getHouseMember(id: string): Promise<HouseMember | undefined> {
+    const [member] = await db.select().from(houseMembers).where(eq(houseMembers.id, id));
+    return member;
+  }
+
+  async addHouseMember(
+    memberData: Pick<HouseMember, "houseId" | "userId" | "role"> & Partial<HouseMember>,
+  ): Promise<HouseMember> {
+    // Re-inviting an existing member updates their role and expiry
+    const [member] = await db
+      .insert(houseMembers)
+      .values(memberData)
+      .onConflictDoUpdate({
+        target: [houseMembers.houseId, houseMembers.userId],
+        set: {
+          role: memberData.role,
+          expiresAt: memberData.expiresAt ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return member;
+  }
+
+  async updateHouseMember(id: string, memberData: UpdateHouseMember): Promise<HouseMember> {
+    const [member] = await db
+      .update(houseMembers)
+      .set({ ...memberData, updatedAt: new Date() })
+      .where(eq(houseMembers.id, id))
+      .returning();
+    return member;
+  }
+
+  async deleteHouseMember(id: string): Promise<void> {
+    await db.delete(houseMembers).where(eq(houseMembers.id, id));
+  }
+
+  async createHouseInvitation(
+    invitationData: Pick<HouseInvitation, "houseId" | "email" | "role" | "expiresAt"> & Partial<HouseInvitation>,
+  ): Promise<HouseInvitation> {
+    const [invitation] = await db.insert(houseInvitations).values(invitationData).returning();
+    return invitation;
+  }
+
+  async getHouseInvitation(id: string): Promise<HouseInvitation | undefined> {
+    const [invitation] = await db.select().from(houseInvitations).where(eq(houseInvitations.id, id));
+    return invitation;
+  }
+
+  async getPendingHouseInvitations(houseId: string): Promise<HouseInvitation[]> {
+    return await db
+      .select()
+      .from(houseInvitations)
+      .where(and(
+        eq(houseInvitations.houseId, houseId),
+        eq(houseInvitations.status, "pending"),
+        gt(houseInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(houseInvitations.createdAt));
+  }
+
+  async getPendingInvitationsForEmail(email: string): Promise<HouseInvitationWithHouse[]> {
+    const rows = await db
+      .select({ invitation: houseInvitations, houseName: houses.name })
+      .from(houseInvitations)
+      .innerJoin(houses, eq(houseInvitations.houseId, houses.id))
+      .where(and(
+        eq(houseInvitations.email, email.toLowerCase()),
+        eq(houseInvitations.status, "pending"),
+        gt(houseInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(houseInvitations.createdAt));
+    return rows.map(({ invitation, houseName }) => ({ ...invitation, houseName }));
+  }
+
+  async updateHouseInvitationStatus(id: string, status: HouseInvitation["status"]): Promise<HouseInvitation> {
+    const [invitation] = await db
+      .update(houseInvitations)
+      .set({ status, respondedAt: new Date() })
+      .where(eq(houseInvitations.id, id))
+      .returning();
+    return invitation;
+  }
+
   // Device operations
+
+  // Puts each device in the room its room name refers to, creating rooms as needed.
+  // Pass the transaction the devices are created in, so rooms are only kept with them.
+  private async withRooms<D extends { houseId: string; room: string }>(
+    deviceData: D[],
+    executor: DbExecutor = db,
+  ): Promise<(D & { roomId: string })[]> {
+    const found = new Map<string, Room>();
+    const result: (D & { roomId: string })[] = [];
+    for (const device of deviceData) {
+      const key = `${device.houseId}/${normalizeRoomName(device.room).toLowerCase()}`;
+      if (!found.has(key)) {
+        found.set(key, await this.findOrCreateRoom(device.houseId, device.room, executor));
+      }
+      const room = found.get(key)!;
+      result.push({ ...device, room: room.name, roomId: room.id });
+    }
+    return result;
+  }
+
   async createDevice(deviceData: InsertDevice): Promise<Device> {
-    const [device] = await db.insert(devices).values(deviceData).returning();
-    return device;
+    return await db.transaction(async (tx) => {
+      const [withRoom] = await this.withRooms([deviceData], tx);
+      const [device] = await tx.insert(devices).values(withRoom).returning();
+      return device;
+    });
+  }
+
+  // All or nothing, in batches that stay under Postgres's bind parameter limit
+  async createDevices(deviceData: InsertDevice[]): Promise<Device[]> {
+    return await db.transaction(async (tx) => {
+      const withRooms = await this.withRooms(deviceData, tx);
+      const created: Device[] = [];
+      for (let i = 0; i < withRooms.length; i += 500) {
+        created.push(...await tx.insert(devices).values(withRooms.slice(i, i + 500)).returning());
+      }
+      return created;
+    });
+  }
+
+  // Serial numbers already used by a device or reserved by a device registration
+  async getTakenSerialNumbers(serialNumbers: string[]): Promise<string[]> {
+    if (serialNumbers.length === 0) {
+      return [];
+    }
+    const [deviceRows, registrationRows] = await Promise.all([
+      db.select({ serialNumber: devices.serialNumber }).from(devices).where(inArray(devices.serialNumber, serialNumbers)),
+      db
+        .select({ serialNumber: deviceRegistrations.serialNumber })
+        .from(deviceRegistrations)
+        .where(inArray(deviceRegistrations.serialNumber, serialNumbers)),
+    ]);
+    return [...deviceRows, ...registrationRows].map((row) => row.serialNumber!);
   }
 
   async getDevicesByHouse(houseId: string): Promise<Device[]> {
@@ -171,13 +870,34 @@ export class DatabaseStorage implements IStorage {
     return device;
   }
 
-  async updateDevice(id: string, deviceData: Partial<Device>): Promise<Device> {
-    const [device] = await db
-      .update(devices)
-      .set({ ...deviceData, updatedAt: new Date() })
-      .where(eq(devices.id, id))
-      .returning();
-    return device;
+  async updateDevice(id: string, deviceData: Partial<Device>, settings?: DeviceSettingsChange): Promise<Device> {
+    // Settings go into config in the same write, next to the reported state kept there
+    const config = settings
+      ? sql`(coalesce(${devices.config}, '{}'::jsonb) - ${sql.param(settings.remove ?? [])}::text[]) || ${JSON.stringify(settings.merge)}::jsonb`
+      : undefined;
+
+    return await db.transaction(async (tx) => {
+      // Moving a device to another room or house moves it to that house's room of that name
+      let changes = deviceData;
+      if (deviceData.room !== undefined || deviceData.houseId !== undefined) {
+        const [existing] = await tx.select().from(devices).where(eq(devices.id, id));
+        if (existing) {
+          const houseId = deviceData.houseId ?? existing.houseId;
+          const [withRoom] = await this.withRooms([{ houseId, room: deviceData.room ?? existing.room }], tx);
+          changes = { ...deviceData, room: withRoom.room, roomId: withRoom.roomId };
+          if (houseId !== existing.houseId) {
+            await this.deleteDevicePlacement(id, tx);
+          }
+        }
+      }
+
+      const [device] = await tx
+        .update(devices)
+        .set({ ...changes, ...(config ? { config } : {}), updatedAt: new Date() })
+        .where(eq(devices.id, id))
+        .returning();
+      return device;
+    });
   }
 
   async deleteDevice(id: string): Promise<void> {
@@ -188,101 +908,1588 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(devices).where(eq(devices.type, type as any));
   }
 
-  // Alert operations
-  async createAlert(alertData: InsertAlert): Promise<Alert> {
-    const [alert] = await db.insert(alerts).values(alertData).returning();
-    return alert;
+  async getDeviceBySerialNumber(serialNumber: string): Promise<Device | undefined> {
+    const [device] = await db.select().from(devices).where(eq(devices.serialNumber, serialNumber));
+    return device;
   }
 
-  async getAlertsByHouse(houseId: string): Promise<Alert[]> {
+  // Rooms, floors and floor plans
+  async getFloorsByHouse(houseId: string): Promise<Floor[]> {
     return await db
       .select()
-      .from(alerts)
-      .where(eq(alerts.houseId, houseId))
-      .orderBy(desc(alerts.createdAt));
+      .from(floors)
+      .where(eq(floors.houseId, houseId))
+      .orderBy(floors.level, floors.createdAt);
   }
 
-  async getAllAlerts(): Promise<Alert[]> {
-    return await db.select().from(alerts).orderBy(desc(alerts.createdAt));
+  async getFloor(id: string): Promise<Floor | undefined> {
+    const [floor] = await db.select().from(floors).where(eq(floors.id, id));
+    return floor;
   }
 
-  async getRecentAlerts(limit: number = 10): Promise<Alert[]> {
-    return await db
+  async createFloor(floorData: InsertFloor): Promise<Floor> {
+    const [floor] = await db.insert(floors).values(floorData).returning();
+    return floor;
+  }
+
+  async updateFloor(id: string, floorData: Partial<Omit<Floor, "id" | "houseId">>): Promise<Floor> {
+    const [floor] = await db.update(floors).set(floorData).where(eq(floors.id, id)).returning();
+    return floor;
+  }
+
+  async deleteFloor(id: string): Promise<void> {
+    await db.delete(floors).where(eq(floors.id, id));
+  }
+
+  async getRoomsByHouse(houseId: string): Promise<Room[]> {
+    return await db.select().from(rooms).where(eq(rooms.houseId, houseId)).orderBy(rooms.name);
+  }
+
+  async getRoom(id: string): Promise<Room | undefined> {
+    const [room] = await db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  // The house's room with this name in any case, created if there is none
+  async findOrCreateRoom(houseId: string, name: string, executor: DbExecutor = db): Promise<Room> {
+    const normalized = normalizeRoomName(name);
+    await executor.insert(rooms).values({ houseId, name: normalized }).onConflictDoNothing();
+    const [room] = await executor
       .select()
-      .from(alerts)
-      .orderBy(desc(alerts.createdAt))
-      .limit(limit);
+      .from(rooms)
+      .where(and(eq(rooms.houseId, houseId), sql`lower(${rooms.name}) = lower(${normalized})`));
+    return room;
   }
 
-  async getAlert(id: string): Promise<Alert | undefined> {
-    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
-    return alert;
+  // Undefined when the house already has a room of that name
+  async createRoom(roomData: InsertRoom): Promise<Room | undefined> {
+    const [room] = await db
+      .insert(rooms)
+      .values({ ...roomData, name: normalizeRoomName(roomData.name) })
+      .onConflictDoNothing()
+      .returning();
+    return room;
   }
 
-  async updateAlertStatus(id: string, status: string, userId: string): Promise<Alert> {
-    const updateData: any = {
-      status,
-      updatedAt: new Date(),
-    };
+  // Renaming a room renames it on its devices; undefined when another room has the new name
+  async updateRoom(id: string, roomData: UpdateRoom): Promise<Room | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(rooms).where(eq(rooms.id, id));
+      if (!existing) {
+        return undefined;
+      }
+      const name = roomData.name !== undefined ? normalizeRoomName(roomData.name) : existing.name;
+      const [taken] = await tx
+        .select({ id: rooms.id })
+        .from(rooms)
+        .where(and(eq(rooms.houseId, existing.houseId), ne(rooms.id, id), sql`lower(${rooms.name}) = lower(${name})`));
+      if (taken) {
+        return undefined;
+      }
 
-    if (status === "acknowledged") {
-      updateData.acknowledgedBy = userId;
-      updateData.acknowledgedAt = new Date();
-    } else if (status === "resolved") {
-      updateData.resolvedBy = userId;
-      updateData.resolvedAt = new Date();
-    }
+      const [room] = await tx.update(rooms).set({ ...roomData, name }).where(eq(rooms.id, id)).returning();
+      if (name !== existing.name) {
+        await tx.update(devices).set({ room: name, updatedAt: new Date() }).where(eq(devices.roomId, id));
+      }
+      return room;
+    });
+  }
 
-    const [alert] = await db
-      .update(alerts)
-      .set(updateData)
-      .where(eq(alerts.id, id))
+  async deleteRoom(id: string): Promise<void> {
+    await db.delete(rooms).where(eq(rooms.id, id));
+  }
+
+  async getDevicePlacementsByHouse(houseId: string): Promise<DevicePlacement[]> {
+    const rows = await db
+      .select({ placement: devicePlacements })
+      .from(devicePlacements)
+      .innerJoin(floors, eq(devicePlacements.floorId, floors.id))
+      .where(eq(floors.houseId, houseId));
+    return rows.map(({ placement }) => placement);
+  }
+
+  async upsertDevicePlacement(deviceId: string, placementData: DevicePlacementInput): Promise<DevicePlacement> {
+    const row = { ...placementData, updatedAt: new Date() };
+    const [placement] = await db
+      .insert(devicePlacements)
+      .values({ deviceId, ...row })
+      .onConflictDoUpdate({ target: devicePlacements.deviceId, set: row })
       .returning();
-    return alert;
+    return placement;
   }
 
-  // Automation rules
-  async createAutomationRule(ruleData: InsertAutomationRule): Promise<AutomationRule> {
-    const [rule] = await db.insert(automationRules).values(ruleData).returning();
-    return rule;
+  async deleteDevicePlacement(deviceId: string, executor: DbExecutor = db): Promise<void> {
+    await executor.delete(devicePlacements).where(eq(devicePlacements.deviceId, deviceId));
   }
 
-  async getAutomationRulesByHouse(houseId: string): Promise<AutomationRule[]> {
+  // Device credentials
+  async createDeviceCredential(
+    credentialData: Pick<DeviceCredential, "deviceId" | "keyHash" | "keyPrefix" | "createdBy">,
+  ): Promise<DeviceCredential> {
+    const [credential] = await db.insert(deviceCredentials).values(credentialData).returning();
+    return credential;
+  }
+
+  async getDeviceCredentials(deviceId: string): Promise<DeviceCredential[]> {
     return await db
       .select()
-      .from(automationRules)
-      .where(eq(automationRules.houseId, houseId));
+      .from(deviceCredentials)
+      .where(eq(deviceCredentials.deviceId, deviceId))
+      .orderBy(desc(deviceCredentials.createdAt));
   }
 
-  // Sensor data
-  async createSensorData(sensorDataInput: Omit<SensorData, "id">): Promise<SensorData> {
-    const [data] = await db.insert(sensorData).values(sensorDataInput).returning();
-    return data;
+  async getActiveDeviceCredentialByHash(keyHash: string): Promise<DeviceCredential | undefined> {
+    const [credential] = await db
+      .select()
+      .from(deviceCredentials)
+      .where(and(eq(deviceCredentials.keyHash, keyHash), isNull(deviceCredentials.revokedAt)));
+    return credential;
   }
 
-  // Surveillance feeds
-  async getSurveillanceFeedsByHouse(houseId: string): Promise<SurveillanceFeed[]> {
-    return await db
+  async revokeDeviceCredential(id: string): Promise<DeviceCredential | undefined> {
+    const [credential] = await db
+      .update(deviceCredentials)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(deviceCredentials.id, id), isNull(deviceCredentials.revokedAt)))
+      .returning();
+    return credential;
+  }
+
+  async revokeDeviceCredentialsForDevice(deviceId: string): Promise<void> {
+    await db
+      .update(deviceCredentials)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(deviceCredentials.deviceId, deviceId), isNull(deviceCredentials.revokedAt)));
+  }
+
+  async touchDeviceCredential(id: string): Promise<void> {
+    await db
+      .update(deviceCredentials)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(deviceCredentials.id, id));
+  }
+
+  // Device registrations (provisioning)
+  async createDeviceRegistration(
+    registrationData: InsertDeviceRegistration & { claimCodeHash: string; createdBy: string },
+  ): Promise<DeviceRegistration> {
+    const [registration] = await db.insert(deviceRegistrations).values(registrationData).returning();
+    return registration;
+  }
+
+  async getDeviceRegistrations(): Promise<DeviceRegistration[]> {
+    return await db.select().from(deviceRegistrations).orderBy(desc(deviceRegistrations.createdAt));
+  }
+
+  async getDeviceRegistration(id: string): Promise<DeviceRegistration | undefined> {
+    const [registration] = await db.select().from(deviceRegistrations).where(eq(deviceRegistrations.id, id));
+    return registration;
+  }
+
+  async getDeviceRegistrationBySerialNumber(serialNumber: string): Promise<DeviceRegistration | undefined> {
+    const [registration] = await db
       .select()
-      .from(surveillanceFeeds)
-      .innerJoin(devices, eq(surveillanceFeeds.deviceId, devices.id))
-      .where(eq(devices.houseId, houseId))
-      .then(results => results.map(r => r.surveillance_feeds));
+      .from(deviceRegistrations)
+      .where(eq(deviceRegistrations.serialNumber, serialNumber));
+    return registration;
   }
 
-  // User config logs
-  async createUserConfigLog(logData: Omit<UserConfigLog, "id">): Promise<UserConfigLog> {
-    const [log] = await db.insert(userConfigLogs).values(logData).returning();
-    return log;
+  async deleteDeviceRegistration(id: string): Promise<void> {
+    await db.delete(deviceRegistrations).where(eq(deviceRegistrations.id, id));
   }
 
-  async getUserConfigLogs(limit: number = 50): Promise<UserConfigLog[]> {
+  // Creates the device and marks the registration claimed together; undefined if it was already claimed
+  async claimDeviceRegistration(
+    id: string,
+    userId: string,
+    deviceData: InsertDevice,
+  ): Promise<{ registration: DeviceRegistration; device: Device } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(deviceRegistrations)
+        .set({ status: "claimed", claimedBy: userId, claimedAt: new Date() })
+        .where(and(eq(deviceRegistrations.id, id), eq(deviceRegistrations.status, "unclaimed")))
+        .returning();
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [withRoom] = await this.withRooms([deviceData], tx);
+      const [device] = await tx.insert(devices).values(withRoom).returning();
+      const [registration] = await tx
+        .update(deviceRegistrations)
+        .set({ deviceId: device.id })
+        .where(eq(deviceRegistrations.id, id))
+        .returning();
+      return { registration, device };
+    });
+  }
+
+  // Issues the device's first API key; undefined unless the registration was claimed and not yet provisioned
+  async provisionDeviceRegistration(
+    id: string,
+    credential: Pick<DeviceCredential, "keyHash" | "keyPrefix">,
+  ): Promise<DeviceRegistration | undefined> {
+    return await db.transaction(async (tx) => {
+      const [registration] = await tx
+        .update(deviceRegistrations)
+        .set({ status: "provisioned", provisionedAt: new Date() })
+        .where(and(
+          eq(deviceRegistrations.id, id),
+          eq(deviceRegistrations.status, "claimed"),
+          isNotNull(deviceRegistrations.deviceId),
+        ))
+        .returning();
+      if (!registration) {
+        return undefined;
+      }
+
+      await tx.insert(deviceCredentials).values({
+        deviceId: registration.deviceId!,
+        ...credential,
+        createdBy: registration.claimedBy,
+      });
+      return registration;
+    });
+  }
+  // Device commands and twin state
+  // Shallow jsonb merge in the database, so concurrent patches don't overwrite each other
+  async mergeDeviceState(id: string, field: "config" | "desiredState", patch: DeviceState): Promise<Device> {
+    const column = devices[field];
+    const [device] = await db
+      .update(devices)
+      .set({ [field]: sql`coalesce(${column}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb`, updatedAt: new Date() })
+      .where(eq(devices.id, id))
+      .returning();
+    return device;
+  }
+
+  async createDeviceCommand(commandData: InsertDeviceCommand): Promise<DeviceCommand> {
+    const [command] = await db.insert(deviceCommands).values(commandData).returning();
+    return command;
+  }
+
+  async getDeviceCommand(id: string): Promise<DeviceCommand | undefined> {
+    const [command] = await db.select().from(deviceCommands).where(eq(deviceCommands.id, id));
+    return command;
+  }
+
+  async getDeviceCommands(deviceId: string, limit: number): Promise<DeviceCommand[]> {
     return await db
       .select()
-      .from(userConfigLogs)
-      .orderBy(desc(userConfigLogs.timestamp))
+      .from(deviceCommands)
+      .where(eq(deviceCommands.deviceId, deviceId))
+      .orderBy(desc(deviceCommands.createdAt))
       .limit(limit);
   }
+
+  // Unexpired commands still waiting for an ack, oldest first. Pending ones are
+  // marked delivered; delivered ones are handed out again until acknowledged.
+  async claimDeviceCommands(deviceId: string): Promise<DeviceCommand[]> {
+    const now = new Date();
+    await db
+      .update(deviceCommands)
+      .set({ status: "delivered", deliveredAt: now })
+      .where(and(
+        eq(deviceCommands.deviceId, deviceId),
+        eq(deviceCommands.status, "pending"),
+        gt(deviceCommands.expiresAt, now),
+      ));
+    return await db
+      .select()
+      .from(deviceCommands)
+      .where(and(
+        eq(deviceCommands.deviceId, deviceId),
+        eq(deviceCommands.status, "delivered"),
+        gt(deviceCommands.expiresAt, now),
+      ))
+      .orderBy(deviceCommands.createdAt);
+  }
+
+  // Undefined when the command already completed or expired
+  async completeDeviceCommand(
+    id: string,
+    status: "acked" | "failed",
+    error?: string,
+  ): Promise<DeviceCommand | undefined> {
+    const now = new Date();
+    const [command] = await db
+      .update(deviceCommands)
+      .set({ status, error: error ?? null, completedAt: now })
+      .where(and(
+        eq(deviceCommands.id, id),
+        inArray(deviceCommands.status, ["pending", "delivered"]),
+        gt(deviceCommands.expiresAt, now),
+      ))
+      .returning();
+    return command;
+  }
+
+  async expireDeviceCommands(deviceId?: string): Promise<DeviceCommand[]> {
+    const now = new Date();
+    return await db
+      .update(deviceCommands)
+      .set({ status: "expired", completedAt: now })
+      .where(and(
+        deviceId ? eq(deviceCommands.deviceId, deviceId) : undefined,
+        inArray(deviceCommands.status, ["pending", "delivered"]),
+        lte(deviceCommands.expiresAt, now),
+      ))
+      .returning();
+  }
+  // Firmware
+  async createFirmwareRelease(releaseData: InsertFirmwareRelease & { createdBy: string }): Promise<FirmwareRelease> {
+    const [release] = await db.insert(firmwareReleases).values(releaseData).returning();
+    return release;
+  }
+
+  async getFirmwareReleases(): Promise<FirmwareRelease[]> {
+    return await db.select().from(firmwareReleases).orderBy(desc(firmwareReleases.createdAt));
+  }
+
+  async getFirmwareRelease(id: string): Promise<FirmwareRelease | undefined> {
+    const [release] = await db.select().from(firmwareReleases).where(eq(firmwareReleases.id, id));
+    return release;
+  }
+
+  async getFirmwareReleaseByVersion(deviceType: Device["type"], version: string): Promise<FirmwareRelease | undefined> {
+    const [release] = await db
+      .select()
+      .from(firmwareReleases)
+      .where(and(eq(firmwareReleases.deviceType, deviceType), eq(firmwareReleases.version, version)));
+    return release;
+  }
+
+  async createFirmwareCampaign(campaignData: typeof firmwareCampaigns.$inferInsert): Promise<FirmwareCampaign> {
+    const [campaign] = await db.insert(firmwareCampaigns).values(campaignData).returning();
+    return campaign;
+  }
+
+  async getFirmwareCampaigns(status?: FirmwareCampaign["status"]): Promise<FirmwareCampaign[]> {
+    return await db
+      .select()
+      .from(firmwareCampaigns)
+      .where(status ? eq(firmwareCampaigns.status, status) : undefined)
+      .orderBy(desc(firmwareCampaigns.createdAt));
+  }
+
+  async getFirmwareCampaign(id: string): Promise<FirmwareCampaign | undefined> {
+    const [campaign] = await db.select().from(firmwareCampaigns).where(eq(firmwareCampaigns.id, id));
+    return campaign;
+  }
+
+  async updateFirmwareCampaign(id: string, campaignData: Partial<FirmwareCampaign>): Promise<FirmwareCampaign> {
+    const [campaign] = await db
+      .update(firmwareCampaigns)
+      .set({ ...campaignData, updatedAt: new Date() })
+      .where(eq(firmwareCampaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  // Devices of the release's type matching the target that aren't on the release
+  // already and aren't part of another campaign that is still in progress
+  async getFirmwareCampaignCandidates(release: FirmwareRelease, target: FirmwareCampaignTarget): Promise<Device[]> {
+    const inFlight = db
+      .select({ deviceId: firmwareUpdates.deviceId })
+      .from(firmwareUpdates)
+      .innerJoin(firmwareCampaigns, eq(firmwareUpdates.campaignId, firmwareCampaigns.id))
+      .where(and(
+        inArray(firmwareCampaigns.status, ["active", "paused", "halted"]),
+        inArray(firmwareUpdates.status, ["scheduled", "pending", "downloading", "installing", "rolling_back"]),
+      ));
+
+    return await db
+      .select()
+      .from(devices)
+      .where(and(
+        eq(devices.type, release.deviceType),
+        or(isNull(devices.firmwareVersion), ne(devices.firmwareVersion, release.version)),
+        target.houseIds?.length ? inArray(devices.houseId, target.houseIds) : undefined,
+        target.deviceIds?.length ? inArray(devices.id, target.deviceIds) : undefined,
+        target.fromVersions?.length ? inArray(devices.firmwareVersion, target.fromVersions) : undefined,
+        notInArray(devices.id, inFlight),
+      ));
+  }
+
+  async createFirmwareUpdates(updates: (typeof firmwareUpdates.$inferInsert)[]): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+    await db.insert(firmwareUpdates).values(updates);
+  }
+
+  async getFirmwareUpdateStats(
+    campaignIds: string[],
+  ): Promise<{ campaignId: string; stage: number; status: FirmwareUpdate["status"]; count: number }[]> {
+    if (campaignIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        campaignId: firmwareUpdates.campaignId,
+        stage: firmwareUpdates.stage,
+        status: firmwareUpdates.status,
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(firmwareUpdates)
+      .where(inArray(firmwareUpdates.campaignId, campaignIds))
+      .groupBy(firmwareUpdates.campaignId, firmwareUpdates.stage, firmwareUpdates.status);
+  }
+
+  async getFirmwareUpdatesForCampaign(campaignId: string): Promise<FirmwareUpdateWithDevice[]> {
+    const rows = await db
+      .select({
+        update: firmwareUpdates,
+        device: {
+          id: devices.id,
+          name: devices.name,
+          houseId: devices.houseId,
+          firmwareVersion: devices.firmwareVersion,
+        },
+      })
+      .from(firmwareUpdates)
+      .innerJoin(devices, eq(firmwareUpdates.deviceId, devices.id))
+      .where(eq(firmwareUpdates.campaignId, campaignId))
+      .orderBy(firmwareUpdates.stage, devices.name);
+    return rows.map(({ update, device }) => ({ ...update, device }));
+  }
+
+  // Offer the update to every scheduled device up to and including this stage
+  async offerFirmwareStage(campaignId: string, stage: number): Promise<void> {
+    await db
+      .update(firmwareUpdates)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(and(
+        eq(firmwareUpdates.campaignId, campaignId),
+        eq(firmwareUpdates.status, "scheduled"),
+        lte(firmwareUpdates.stage, stage),
+      ));
+  }
+
+  async cancelFirmwareUpdates(campaignId: string): Promise<void> {
+    const now = new Date();
+    await db
+      .update(firmwareUpdates)
+      .set({ status: "cancelled", completedAt: now, updatedAt: now })
+      .where(and(
+        eq(firmwareUpdates.campaignId, campaignId),
+        inArray(firmwareUpdates.status, ["scheduled", "pending"]),
+      ));
+  }
+
+  async getFirmwareUpdate(id: string): Promise<FirmwareUpdate | undefined> {
+    const [update] = await db.select().from(firmwareUpdates).where(eq(firmwareUpdates.id, id));
+    return update;
+  }
+
+  // The update a device should work on now: a rollback, or an offered update
+  // in a campaign that is still running
+  async getActionableFirmwareUpdate(deviceId: string): Promise<FirmwareUpdate | undefined> {
+    const [row] = await db
+      .select({ update: firmwareUpdates })
+      .from(firmwareUpdates)
+      .innerJoin(firmwareCampaigns, eq(firmwareUpdates.campaignId, firmwareCampaigns.id))
+      .where(and(
+        eq(firmwareUpdates.deviceId, deviceId),
+        or(
+          eq(firmwareUpdates.status, "rolling_back"),
+          and(
+            inArray(firmwareUpdates.status, ["pending", "downloading", "installing"]),
+            eq(firmwareCampaigns.status, "active"),
+          ),
+        ),
+      ))
+      .orderBy(desc(firmwareUpdates.updatedAt))
+      .limit(1);
+    return row?.update;
+  }
+
+  // Undefined when the update has moved on from fromStatuses in the meantime
+  async updateFirmwareUpdateStatus(
+    id: string,
+    fromStatuses: FirmwareUpdate["status"][],
+    updateData: Pick<FirmwareUpdate, "status"> & Partial<FirmwareUpdate>,
+  ): Promise<FirmwareUpdate | undefined> {
+    const [update] = await db
+      .update(firmwareUpdates)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(and(eq(firmwareUpdates.id, id), inArray(firmwareUpdates.status, fromStatuses)))
+      .returning();
+    return update;
+  }
+
+
+
+  // Alert operations
+  async createAlert(alertData: InsertAlert): Promise<Alert> {
+    const [alert] = await db.insert(alerts).values(alertData).returning();
+    return alert;
+  }
+
+  async getAlertsByHouse(houseId: string): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.houseId, houseId))
+      .orderBy(desc(alerts.createdAt));
+  }
+
+  // Newest first, ordered by (createdAt, id) so pages never skip or repeat rows.
+  // houseIds restricts the search to those houses (homeowners); omit it for staff.
+  async searchAlerts(search: AlertSearch & { houseIds?: string[] }): Promise<AlertPage> {
+    if (search.houseIds && search.houseIds.length === 0) {
+      return { alerts: [], nextCursor: null };
+    }
+
+    const pattern = search.q ? `%${search.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%` : undefined;
+    const rows = await db
+      .select()
+      .from(alerts)
+      .where(and(
+        search.houseIds ? inArray(alerts.houseId, search.houseIds) : undefined,
+        search.houseId ? eq(alerts.houseId, search.houseId) : undefined,
+        search.deviceId ? eq(alerts.deviceId, search.deviceId) : undefined,
+        search.status ? inArray(alerts.status, search.status) : undefined,
+        search.severity ? inArray(alerts.severity, search.severity) : undefined,
+        search.type ? inArray(alerts.type, search.type) : undefined,
+        search.from ? gte(alerts.createdAt, search.from) : undefined,
+        search.to ? lte(alerts.createdAt, search.to) : undefined,
+        pattern
+          ? or(ilike(alerts.title, pattern), ilike(alerts.description, pattern), ilike(alerts.location, pattern))
+          : undefined,
+        // The cursor is the last alert of the previous page; compare against its stored
+        // timestamp so sub-millisecond precision isn't lost in a round trip through JS
+        search.cursor
+          ? sql`(${alerts.createdAt}, ${alerts.id}) < (select c.created_at, c.id from alerts c where c.id = ${search.cursor})`
+          : undefined,
+      ))
+      .orderBy(desc(alerts.createdAt), desc(alerts.id))
+      .limit(search.limit + 1);
+
+    const page = rows.slice(0, search.limit);
+    return {
+      alerts: page,
+      nextCursor: rows.length > search.limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  async getAlertSummary(houseIds?: string[]): Promise<AlertSummary> {
+    if (houseIds && houseIds.length === 0) {
+      return { active: 0, highSeverity: 0, resolvedLast24h: 0 };
+    }
+
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const isOpen = sql`${alerts.status} in ('new', 'acknowledged')`;
+    const [summary] = await db
+      .select({
+        active: sql<number>`count(*) filter (where ${alerts.status} = 'new')`.mapWith(Number),
+        highSeverity: sql<number>`count(*) filter (where ${isOpen} and ${alerts.severity} in ('high', 'critical'))`.mapWith(Number),
+        resolvedLast24h: sql<number>`count(*) filter (where ${alerts.resolvedAt} >= ${dayAgo})`.mapWith(Number),
+      })
+      .from(alerts)
+      .where(houseIds ? inArray(alerts.houseId, houseIds) : undefined);
+    return summary;
+  }
+
+  async getRecentAlerts(limit: number = 10, houseIds?: string[]): Promise<Alert[]> {
+    if (houseIds && houseIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(alerts)
+      .where(houseIds ? inArray(alerts.houseId, houseIds) : undefined)
+      .orderBy(desc(alerts.createdAt))
+      .limit(limit);
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return alert;
+  }
+
+  // Only applies while the alert is still in fromStatus, so concurrent changes can't both win
+  async updateAlertStatus(
+    id: string,
+    status: Alert["status"],
+    userId: string,
+    fromStatus: Alert["status"],
+  ): Promise<Alert | undefined> {
+    const updateData: any = {
+      status,
+      updatedAt: new Date(),
+    };
+
+    // Any response to the alert ends its escalation chain
+    if (status !== "new") {
+      updateData.nextEscalationAt = null;
+    }
+
+    if (status === "acknowledged") {
+      updateData.acknowledgedBy = userId;
+      updateData.acknowledgedAt = new Date();
+    } else if (status === "resolved") {
+      updateData.resolvedBy = userId;
+      updateData.resolvedAt = new Date();
+    }
+
+    const [alert] = await db
+      .update(alerts)
+      .set(updateData)
+      .where(and(eq(alerts.id, id), eq(alerts.status, fromStatus)))
+      .returning();
+    return alert;
+  }
+
+  async updateAlertAssignee(id: string, assigneeId: string | null): Promise<Alert> {
+    const [alert] = await db
+      .update(alerts)
+      .set({ assigneeId, updatedAt: new Date() })
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  // Open = still needs attention (new or acknowledged)
+  async getOpenAlertsForDevice(deviceId: string, type: Alert["type"]): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(and(
+        eq(alerts.deviceId, deviceId),
+        eq(alerts.type, type),
+        inArray(alerts.status, ["new", "acknowledged"]),
+      ));
+  }
+
+  // System auto-resolution (no resolving user)
+  async resolveOpenAlertsForDevice(deviceId: string, type: Alert["type"]): Promise<Alert[]> {
+    const now = new Date();
+    return await db
+      .update(alerts)
+      .set({ status: "resolved", resolvedAt: now, nextEscalationAt: null, updatedAt: now })
+      .where(and(
+        eq(alerts.deviceId, deviceId),
+        eq(alerts.type, type),
+        inArray(alerts.status, ["new", "acknowledged"]),
+      ))
+      .returning();
+  }
+
+  async updateAlertEscalation(
+    id: string,
+    escalation: Partial<Pick<Alert, "escalationPolicyId" | "escalationStep" | "nextEscalationAt">>,
+  ): Promise<Alert> {
+    const [alert] = await db
+      .update(alerts)
+      .set({ ...escalation, updatedAt: new Date() })
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  // Unacknowledged alerts whose next escalation step is due
+  async getDueEscalations(now: Date): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(and(eq(alerts.status, "new"), lte(alerts.nextEscalationAt, now)))
+      .orderBy(alerts.nextEscalationAt);
+  }
+
+  // The latest open alert for the same device and type that repeated since the given time
+  async findRepeatableAlert(deviceId: string, type: Alert["type"], since: Date): Promise<Alert | undefined> {
+    const [alert] = await db
+      .select()
+      .from(alerts)
+      .where(and(
+        eq(alerts.deviceId, deviceId),
+        eq(alerts.type, type),
+        inArray(alerts.status, ["new", "acknowledged"]),
+        gte(alerts.lastOccurredAt, since),
+      ))
+      .orderBy(desc(alerts.lastOccurredAt))
+      .limit(1);
+    return alert;
+  }
+
+  async recordAlertOccurrence(id: string, occurredAt: Date): Promise<Alert> {
+    const [alert] = await db
+      .update(alerts)
+      .set({
+        occurrenceCount: sql`${alerts.occurrenceCount} + 1`,
+        lastOccurredAt: occurredAt,
+        updatedAt: occurredAt,
+      })
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert;
+  }
+
+  // Open alerts in the house that were raised or repeated since the given time
+  async getCorrelatableAlerts(houseId: string, since: Date, excludeId: string): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(and(
+        eq(alerts.houseId, houseId),
+        ne(alerts.id, excludeId),
+        inArray(alerts.status, ["new", "acknowledged"]),
+        gte(alerts.lastOccurredAt, since),
+      ))
+      .orderBy(alerts.createdAt);
+  }
+
+  async setAlertsIncident(alertIds: string[], incidentId: string): Promise<Alert[]> {
+    if (alertIds.length === 0) {
+      return [];
+    }
+    return await db
+      .update(alerts)
+      .set({ incidentId, updatedAt: new Date() })
+      .where(inArray(alerts.id, alertIds))
+      .returning();
+  }
+
+  async getAlertsForIncident(incidentId: string): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.incidentId, incidentId))
+      .orderBy(alerts.createdAt);
+  }
+
+  async createAlertActivity(activityData: InsertAlertActivity): Promise<AlertActivity> {
+    const [activity] = await db.insert(alertActivity).values(activityData).returning();
+    return activity;
+  }
+
+  async getAlertActivity(alertId: string): Promise<AlertActivityWithActor[]> {
+    const rows = await db
+      .select({
+        activity: alertActivity,
+        actor: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(alertActivity)
+      .leftJoin(users, eq(alertActivity.actorId, users.id))
+      .where(eq(alertActivity.alertId, alertId))
+      .orderBy(alertActivity.createdAt);
+    return rows.map(({ activity, actor }) => ({ ...activity, actor }));
+  }
+
+  // Escalation policies
+  async getAllEscalationPolicies(): Promise<EscalationPolicy[]> {
+    return await db.select().from(escalationPolicies).orderBy(escalationPolicies.createdAt);
+  }
+
+  // Policies that apply to any of the houses: their own plus the global ones
+  async getEscalationPoliciesForHouses(houseIds: string[]): Promise<EscalationPolicy[]> {
+    return await db
+      .select()
+      .from(escalationPolicies)
+      .where(houseIds.length > 0
+        ? or(isNull(escalationPolicies.houseId), inArray(escalationPolicies.houseId, houseIds))
+        : isNull(escalationPolicies.houseId))
+      .orderBy(escalationPolicies.createdAt);
+  }
+
+  async getActiveEscalationPolicies(houseId: string): Promise<EscalationPolicy[]> {
+    return await db
+      .select()
+      .from(escalationPolicies)
+      .where(and(
+        eq(escalationPolicies.status, "active"),
+        or(isNull(escalationPolicies.houseId), eq(escalationPolicies.houseId, houseId)),
+      ))
+      .orderBy(escalationPolicies.createdAt);
+  }
+
+  async getEscalationPolicy(id: string): Promise<EscalationPolicy | undefined> {
+    const [policy] = await db.select().from(escalationPolicies).where(eq(escalationPolicies.id, id));
+    return policy;
+  }
+
+  async createEscalationPolicy(policyData: InsertEscalationPolicy & { createdBy: string }): Promise<EscalationPolicy> {
+    const [policy] = await db.insert(escalationPolicies).values(policyData).returning();
+    return policy;
+  }
+
+  async updateEscalationPolicy(id: string, policyData: UpdateEscalationPolicy): Promise<EscalationPolicy> {
+    const [policy] = await db
+      .update(escalationPolicies)
+      .set({ ...policyData, updatedAt: new Date() })
+      .where(eq(escalationPolicies.id, id))
+      .returning();
+    return policy;
+  }
+
+  async deleteEscalationPolicy(id: string): Promise<void> {
+    await db.delete(escalationPolicies).where(eq(escalationPolicies.id, id));
+  }
+
+  // Everyone who can currently see a house: the primary owner and unexpired members,
+  // optionally limited to some house roles (the primary owner counts as "owner")
+  // Incidents
+  async getIncidents(options: { houseIds?: string[]; status?: Incident["status"] }): Promise<Incident[]> {
+    if (options.houseIds && options.houseIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(incidents)
+      .where(and(
+        options.houseIds ? inArray(incidents.houseId, options.houseIds) : undefined,
+        options.status ? eq(incidents.status, options.status) : undefined,
+      ))
+      .orderBy(desc(incidents.lastAlertAt));
+  }
+
+  async getIncident(id: string): Promise<Incident | undefined> {
+    const [incident] = await db.select().from(incidents).where(eq(incidents.id, id));
+    return incident;
+  }
+
+  // The house's open incident that last grew since the given time
+  async getOpenIncidentForHouse(houseId: string, since: Date): Promise<Incident | undefined> {
+    const [incident] = await db
+      .select()
+      .from(incidents)
+      .where(and(
+        eq(incidents.houseId, houseId),
+        eq(incidents.status, "open"),
+        gte(incidents.lastAlertAt, since),
+      ))
+      .orderBy(desc(incidents.lastAlertAt))
+      .limit(1);
+    return incident;
+  }
+
+  async createIncident(incidentData: InsertIncident): Promise<Incident> {
+    const [incident] = await db.insert(incidents).values(incidentData).returning();
+    return incident;
+  }
+
+  async updateIncident(id: string, incidentData: Partial<InsertIncident>): Promise<Incident> {
+    const [incident] = await db
+      .update(incidents)
+      .set({ ...incidentData, updatedAt: new Date() })
+      .where(eq(incidents.id, id))
+      .returning();
+    return incident;
+  }
+
+  async getHouseRecipients(houseId: string, roles?: HouseMemberRole[]): Promise<User[]> {
+    const house = await this.getHouseById(houseId);
+    const members = await db
+      .select({ user: users })
+      .from(houseMembers)
+      .innerJoin(users, eq(houseMembers.userId, users.id))
+      .where(and(
+        eq(houseMembers.houseId, houseId),
+        activeMembership(),
+        roles ? inArray(houseMembers.role, roles) : undefined,
+      ));
+
+    const includeOwner = !roles || roles.includes("owner");
+    const owner = includeOwner && house?.ownerId ? await this.getUser(house.ownerId) : undefined;
+    const recipients = owner ? [owner] : [];
+    for (const { user } of members) {
+      if (!recipients.some((r) => r.id === user.id)) {
+        recipients.push(user);
+      }
+    }
+    return recipients;
+  }
+
+  // Notifications
+  async getNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+    return await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async upsertNotificationPreference(
+    userId: string,
+    channel: NotificationChannel,
+    preference: Partial<Pick<NotificationPreference, "enabled" | "minSeverity" | "target" | "secret">>,
+  ): Promise<NotificationPreference> {
+    const [record] = await db
+      .insert(notificationPreferences)
+      .values({ userId, channel, ...preference })
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.channel],
+        set: { ...preference, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async createNotification(notificationData: Omit<Notification, "id" | "readAt" | "createdAt">): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(notificationData).returning();
+    return notification;
+  }
+
+  async getNotifications(userId: string, options: { unreadOnly?: boolean; limit: number }): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined,
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async createNotificationDeliveries(deliveries: InsertNotificationDelivery[]): Promise<NotificationDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await db.insert(notificationDeliveries).values(deliveries).returning();
+  }
+
+  async getDueNotificationDeliveries(limit: number): Promise<NotificationDelivery[]> {
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(
+        eq(notificationDeliveries.status, "pending"),
+        lte(notificationDeliveries.nextAttemptAt, new Date()),
+      ))
+      .orderBy(notificationDeliveries.nextAttemptAt)
+      .limit(limit);
+  }
+
+  async updateNotificationDelivery(id: string, deliveryData: Partial<NotificationDelivery>): Promise<NotificationDelivery> {
+    const [delivery] = await db
+      .update(notificationDeliveries)
+      .set({ ...deliveryData, updatedAt: new Date() })
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async getNotificationDeliveries(userId: string, limit: number): Promise<NotificationDelivery[]> {
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.userId, userId))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  // Automation rules
+  async createAutomationRule(ruleData: InsertAutomationRule): Promise<AutomationRule> {
+    const [rule] = await db.insert(automationRules).values(ruleData).returning();
+    return rule;
+  }
+
+  async getAutomationRulesByHouse(houseId: string): Promise<AutomationRule[]> {
+    return await db
+      .select()
+      .from(automationRules)
+      .where(eq(automationRules.houseId, houseId));
+  }
+
+  async getAllAutomationRules(): Promise<AutomationRule[]> {
+    return await db.select().from(automationRules).orderBy(desc(automationRules.createdAt));
+  }
+
+  async getAutomationRule(id: string): Promise<AutomationRule | undefined> {
+    const [rule] = await db.select().from(automationRules).where(eq(automationRules.id, id));
+    return rule;
+  }
+
+  async getActiveAutomationRulesByHouse(houseId: string): Promise<AutomationRule[]> {
+    return await db
+      .select()
+      .from(automationRules)
+      .where(and(eq(automationRules.houseId, houseId), eq(automationRules.status, "active")));
+  }
+
+  async getActiveAutomationRulesByTriggerType(triggerType: string): Promise<AutomationRule[]> {
+    return await db
+      .select()
+      .from(automationRules)
+      .where(and(
+        eq(automationRules.status, "active"),
+        sql`${automationRules.trigger}->>'type' = ${triggerType}`,
+      ));
+  }
+
+  async updateAutomationRule(id: string, ruleData: UpdateAutomationRule): Promise<AutomationRule> {
+    const [rule] = await db
+      .update(automationRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(automationRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAutomationRule(id: string): Promise<void> {
+    await db.delete(automationRules).where(eq(automationRules.id, id));
+  }
+
+  async markAutomationRuleTriggered(id: string, triggeredAt: Date): Promise<void> {
+    await db
+      .update(automationRules)
+      .set({ lastTriggeredAt: triggeredAt })
+      .where(eq(automationRules.id, id));
+  }
+
+  // Sensor data
+  async createSensorData(sensorDataInput: Omit<SensorData, "id">): Promise<SensorData> {
+    const [data] = await db.insert(sensorData).values(sensorDataInput).returning();
+    return data;
+  }
+
+  async createSensorDataBatch(sensorDataInput: InsertSensorData[]): Promise<SensorData[]> {
+    if (sensorDataInput.length === 0) {
+      return [];
+    }
+    return await db.insert(sensorData).values(sensorDataInput).returning();
+  }
+
+  // houseIds restricts the series to devices in those houses (homeowners); omit it for staff.
+  // Hourly and daily series also read the rollups of readings the retention job has deleted.
+  async getSensorSeries(query: SensorDataQuery & { houseIds?: string[] }): Promise<SensorSeries> {
+    const houseIds = query.houseId ? [query.houseId] : query.houseIds;
+    if (houseIds && houseIds.length === 0) {
+      return query.bucket === "raw" ? { bucket: "raw", points: [] } : { bucket: query.bucket, points: [] };
+    }
+
+    const seriesFilter = (table: typeof sensorData | typeof sensorDataHourly | typeof sensorDataDaily) => and(
+      query.deviceId ? eq(table.deviceId, query.deviceId) : undefined,
+      houseIds
+        ? inArray(table.deviceId, db.select({ id: devices.id }).from(devices).where(inArray(devices.houseId, houseIds)))
+        : undefined,
+      query.dataType ? eq(table.dataType, query.dataType) : undefined,
+    );
+    const conditions = and(
+      seriesFilter(sensorData),
+      gte(sensorData.timestamp, query.from),
+      lte(sensorData.timestamp, query.to),
+    );
+
+    if (query.bucket === "raw") {
+      const points = await db
+        .select({
+          deviceId: sensorData.deviceId,
+          dataType: sensorData.dataType,
+          value: sensorData.value,
+          timestamp: sensorData.timestamp,
+        })
+        .from(sensorData)
+        .where(conditions)
+        .orderBy(sensorData.timestamp)
+        .limit(SENSOR_RAW_LIMIT);
+      return { bucket: "raw", points };
+    }
+
+    const unit = { "1m": "minute", "1h": "hour", "1d": "day" }[query.bucket];
+    // Inlined rather than bound so the select, group by and order by expressions match
+    const bucket = sql`date_trunc('${sql.raw(unit)}', ${sensorData.timestamp})`;
+
+    if (query.bucket === "1m") {
+      const points = await db
+        .select({
+          bucket: sql<Date>`${bucket}`.mapWith(sensorData.timestamp),
+          min: sql<number | null>`min(${sensorData.value})`,
+          max: sql<number | null>`max(${sensorData.value})`,
+          avg: sql<number | null>`avg(${sensorData.value})`.mapWith((value) => (value === null ? null : Number(value))),
+          count: sql<number>`count(*)`.mapWith(Number),
+          devices: sql<number>`count(distinct ${sensorData.deviceId})`.mapWith(Number),
+        })
+        .from(sensorData)
+        .where(conditions)
+        .groupBy(bucket)
+        .orderBy(bucket);
+      return { bucket: query.bucket, points };
+    }
+
+    // Per-device partial aggregates from both sources; a bucket straddling the
+    // retention cutoff has rows in each and is merged below
+    const rollup = query.bucket === "1h" ? sensorDataHourly : sensorDataDaily;
+    const fromRaw = db
+      .select({
+        bucket: sql<Date>`${bucket}`.as("bucket"),
+        deviceId: sql<string>`${sensorData.deviceId}`.as("device_id"),
+        count: sql<number>`count(*)`.as("count"),
+        valueCount: sql<number>`count(${sensorData.value})`.as("value_count"),
+        sum: sql<number | null>`sum(${sensorData.value})`.as("sum"),
+        min: sql<number | null>`min(${sensorData.value})`.as("min"),
+        max: sql<number | null>`max(${sensorData.value})`.as("max"),
+      })
+      .from(sensorData)
+      .where(conditions)
+      .groupBy(bucket, sensorData.deviceId);
+    const fromRollup = db
+      .select({
+        bucket: sql<Date>`${rollup.bucket}`.as("bucket"),
+        deviceId: sql<string>`${rollup.deviceId}`.as("device_id"),
+        count: sql<number>`${rollup.count}`.as("count"),
+        valueCount: sql<number>`${rollup.valueCount}`.as("value_count"),
+        sum: sql<number | null>`${rollup.sum}`.as("sum"),
+        min: sql<number | null>`${rollup.min}`.as("min"),
+        max: sql<number | null>`${rollup.max}`.as("max"),
+      })
+      .from(rollup)
+      .where(and(seriesFilter(rollup), gte(rollup.bucket, query.from), lte(rollup.bucket, query.to)));
+    const combined = fromRaw.unionAll(fromRollup).as("combined");
+
+    const toNumber = (value: unknown) => (value === null ? null : Number(value));
+    const points = await db
+      .select({
+        bucket: sql<Date>`${combined.bucket}`.mapWith(sensorData.timestamp),
+        min: sql<number | null>`min(${combined.min})`.mapWith(toNumber),
+        max: sql<number | null>`max(${combined.max})`.mapWith(toNumber),
+        avg: sql<number | null>`sum(${combined.sum}) / nullif(sum(${combined.valueCount}), 0)`.mapWith(toNumber),
+        count: sql<number>`sum(${combined.count})`.mapWith(Number),
+        devices: sql<number>`count(distinct ${combined.deviceId})`.mapWith(Number),
+      })
+      .from(combined)
+      .groupBy(combined.bucket)
+      .orderBy(combined.bucket);
+    return { bucket: query.bucket, points };
+  }
+
+  // Surveillance feeds
+  async getSurveillanceFeedsByHouse(houseId: string): Promise<SurveillanceFeed[]> {
+    return await db
+      .select()
+      .from(surveillanceFeeds)
+      .innerJoin(devices, eq(surveillanceFeeds.deviceId, devices.id))
+      .where(eq(devices.houseId, houseId))
+      .then(results => results.map(r => r.surveillance_feeds));
+  }
+
+  async getSurveillanceFeedByDevice(deviceId: string): Promise<SurveillanceFeed | undefined> {
+    const [feed] = await db
+      .select()
+      .from(surveillanceFeeds)
+      .where(eq(surveillanceFeeds.deviceId, deviceId))
+      .orderBy(desc(surveillanceFeeds.createdAt))
+      .limit(1);
+    return feed;
+  }
+
+  // Camera privacy
+  async getCameraPrivacy(deviceId: string): Promise<CameraPrivacy | undefined> {
+    const [privacy] = await db.select().from(cameraPrivacy).where(eq(cameraPrivacy.deviceId, deviceId));
+    return privacy;
+  }
+
+  async getAllCameraPrivacy(): Promise<CameraPrivacy[]> {
+    return await db.select().from(cameraPrivacy);
+  }
+
+  async upsertCameraPrivacy(
+    deviceId: string,
+    settings: Partial<Pick<CameraPrivacy, "masks" | "enabled" | "schedule" | "houseModes">>,
+    updatedBy: string,
+  ): Promise<CameraPrivacy> {
+    const [privacy] = await db
+      .insert(cameraPrivacy)
+      .values({ deviceId, ...settings, updatedBy })
+      .onConflictDoUpdate({
+        target: cameraPrivacy.deviceId,
+        set: { ...settings, updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return privacy;
+  }
+
+  async createPrivacyAccessLog(entry: Omit<PrivacyAccessLog, "id" | "createdAt">): Promise<PrivacyAccessLog> {
+    const [log] = await db.insert(privacyAccessLogs).values(entry).returning();
+    return log;
+  }
+
+  async getPrivacyAccessLogs(deviceId: string, limit: number): Promise<PrivacyAccessLogWithUser[]> {
+    const rows = await db
+      .select({
+        log: privacyAccessLogs,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(privacyAccessLogs)
+      .innerJoin(users, eq(privacyAccessLogs.userId, users.id))
+      .where(eq(privacyAccessLogs.deviceId, deviceId))
+      .orderBy(desc(privacyAccessLogs.createdAt))
+      .limit(limit);
+    return rows.map(({ log, user }) => ({ ...log, user }));
+  }
+
+  // Recordings
+  async createRecording(recordingData: InsertRecording): Promise<Recording> {
+    const [recording] = await db.insert(recordings).values(recordingData).returning();
+    return recording;
+  }
+
+  // Undefined when the device already has a clip recording
+  async createActiveRecording(recordingData: InsertRecording): Promise<Recording | undefined> {
+    const [recording] = await db
+      .insert(recordings)
+      .values({ ...recordingData, status: "recording" })
+      .onConflictDoNothing()
+      .returning();
+    return recording;
+  }
+
+  async getRecording(id: string): Promise<Recording | undefined> {
+    const [recording] = await db.select().from(recordings).where(eq(recordings.id, id));
+    return recording;
+  }
+
+  async getRecordings(query: RecordingQuery & { houseIds?: string[] }): Promise<Recording[]> {
+    if (query.houseIds && query.houseIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(
+        query.houseIds ? inArray(recordings.houseId, query.houseIds) : undefined,
+        query.deviceId ? eq(recordings.deviceId, query.deviceId) : undefined,
+        query.kind ? eq(recordings.kind, query.kind) : undefined,
+        query.status ? eq(recordings.status, query.status) : undefined,
+      ))
+      .orderBy(desc(recordings.startedAt))
+      .limit(query.limit);
+  }
+
+  async getActiveRecording(deviceId: string): Promise<Recording | undefined> {
+    const [recording] = await db
+      .select()
+      .from(recordings)
+      .where(and(eq(recordings.deviceId, deviceId), eq(recordings.status, "recording")))
+      .orderBy(desc(recordings.startedAt))
+      .limit(1);
+    return recording;
+  }
+
+  async getActiveRecordings(): Promise<Recording[]> {
+    return await db.select().from(recordings).where(eq(recordings.status, "recording"));
+  }
+
+  // Undefined when the recording has moved on from fromStatuses in the meantime
+  async updateRecording(
+    id: string,
+    fromStatuses: Recording["status"][],
+    updateData: Partial<Recording>,
+  ): Promise<Recording | undefined> {
+    const [recording] = await db
+      .update(recordings)
+      .set(updateData)
+      .where(and(eq(recordings.id, id), inArray(recordings.status, fromStatuses)))
+      .returning();
+    return recording;
+  }
+
+  async getRecordingsDueToStop(now: Date): Promise<Recording[]> {
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(eq(recordings.status, "recording"), lte(recordings.stopAt, now)));
+  }
+
+  // Recordings still waiting on the camera whose latest command failed or expired
+  async getRecordingsWithFailedCommands(): Promise<{ recording: Recording; error: string | null }[]> {
+    return await db
+      .select({ recording: recordings, error: deviceCommands.error })
+      .from(recordings)
+      .innerJoin(deviceCommands, eq(recordings.commandId, deviceCommands.id))
+      .where(and(
+        inArray(recordings.status, ["recording", "pending"]),
+        inArray(deviceCommands.status, ["failed", "expired"]),
+      ));
+  }
+
+  async getPendingRecordingsEndedBefore(cutoff: Date): Promise<Recording[]> {
+    return await db
+      .select()
+      .from(recordings)
+      .where(and(eq(recordings.status, "pending"), lt(recordings.endedAt, cutoff)));
+  }
+
+  async deleteRecording(id: string): Promise<void> {
+    await db.delete(recordings).where(eq(recordings.id, id));
+  }
+
+  // Bytes of recording media and floor-plan images the house has stored
+  async getHouseStorageBytes(houseId: string): Promise<number> {
+    const [[media], [plans]] = await Promise.all([
+      db
+        .select({ bytes: sql<number>`coalesce(sum(${recordings.sizeBytes}), 0)`.mapWith(Number) })
+        .from(recordings)
+        .where(eq(recordings.houseId, houseId)),
+      db
+        .select({ bytes: sql<number>`coalesce(sum(${floors.planSizeBytes}), 0)`.mapWith(Number) })
+        .from(floors)
+        .where(eq(floors.houseId, houseId)),
+    ]);
+    return media.bytes + plans.bytes;
+  }
+
+  async attachAlertEvidence(alertId: string, recordingIds: string[]): Promise<void> {
+    if (recordingIds.length === 0) {
+      return;
+    }
+    await db
+      .insert(alertEvidence)
+      .values(recordingIds.map((recordingId) => ({ alertId, recordingId })))
+      .onConflictDoNothing();
+  }
+
+  async getAlertEvidenceRecordings(alertId: string): Promise<AlertEvidenceRecording[]> {
+    const rows = await db
+      .select({ recording: recordings, deviceName: devices.name, room: devices.room })
+      .from(alertEvidence)
+      .innerJoin(recordings, eq(alertEvidence.recordingId, recordings.id))
+      .innerJoin(devices, eq(recordings.deviceId, devices.id))
+      .where(eq(alertEvidence.alertId, alertId))
+      .orderBy(recordings.startedAt);
+    return rows.map(({ recording, deviceName, room }) => ({ ...recording, deviceName, room }));
+  }
+
+  async getAudioDetectionsForAlert(alertId: string): Promise<AudioDetection[]> {
+    return await db
+      .select()
+      .from(audioDetections)
+      .where(eq(audioDetections.alertId, alertId))
+      .orderBy(audioDetections.createdAt);
+  }
+
+  // User config logs
+  async createUserConfigLog(logData: Omit<UserConfigLog, "id">): Promise<UserConfigLog> {
+    const [log] = await db.insert(userConfigLogs).values(logData).returning();
+    return log;
+  }
+
+  async getUserConfigLogs(limit: number = 50): Promise<UserConfigLog[]> {
+    return await db
+      .select()
+      .from(userConfigLogs)
+      .orderBy(desc(userConfigLogs.timestamp))
+      .limit(limit);
+  }
+
+  // Platform settings
+  async getPlatformSettingRows(): Promise<PlatformSettingRow[]> {
+    return await db.select().from(platformSettings);
+  }
+
+  async upsertPlatformSettings(values: Record<string, unknown>, updatedBy: string): Promise<void> {
+    const rows = Object.entries(values).map(([key, value]) => ({ key, value, updatedBy, updatedAt: new Date() }));
+    if (rows.length === 0) {
+      return;
+    }
+    await db
+      .insert(platformSettings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: platformSettings.key,
+        set: {
+          value: sql`excluded.value`,
+          updatedBy: sql`excluded.updated_by`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+  }
+
+  // Data retention
+  async getRetentionPolicies(): Promise<RetentionPolicy[]> {
+    return await db.select().from(retentionPolicies);
+  }
+
+  async upsertRetentionPolicy(
+    target: RetentionTarget,
+    values: Pick<RetentionPolicy, "retentionDays" | "enabled">,
+    updatedBy: string,
+  ): Promise<RetentionPolicy> {
+    const row = { ...values, updatedBy, updatedAt: new Date() };
+    const [policy] = await db
+      .insert(retentionPolicies)
+      .values({ target, ...row })
+      .onConflictDoUpdate({ target: retentionPolicies.target, set: row })
+      .returning();
+    return policy;
+  }
+
+  async createRetentionRun(runData: InsertRetentionRun): Promise<RetentionRun> {
+    const [run] = await db.insert(retentionRuns).values(runData).returning();
+    return run;
+  }
+
+  async updateRetentionRun(id: string, runData: Partial<RetentionRun>): Promise<RetentionRun> {
+    const [run] = await db.update(retentionRuns).set(runData).where(eq(retentionRuns.id, id)).returning();
+    return run;
+  }
+
+  async getRetentionRuns(limit: number): Promise<RetentionRun[]> {
+    return await db.select().from(retentionRuns).orderBy(desc(retentionRuns.startedAt)).limit(limit);
+  }
+
+  async getLatestRetentionRun(trigger: RetentionRun["trigger"]): Promise<RetentionRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(retentionRuns)
+      .where(eq(retentionRuns.trigger, trigger))
+      .orderBy(desc(retentionRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  // Runs still marked running when the server starts were cut short by a restart
+  async failInterruptedRetentionRuns(): Promise<void> {
+    await db
+      .update(retentionRuns)
+      .set({ status: "failed", error: "Interrupted by a server restart", finishedAt: new Date() })
+      .where(eq(retentionRuns.status, "running"));
+  }
+
+  // Rolls the readings into both rollup tables and deletes them in one transaction,
+  // so every reading is counted exactly once. Bucket counts are buckets written.
+  async rollupAndPurgeSensorData(
+    cutoff: Date,
+    dryRun: boolean,
+  ): Promise<{ rows: number; hourlyBuckets: number; dailyBuckets: number }> {
+    const olderThanCutoff = lt(sensorData.timestamp, cutoff);
+    const truncate = (unit: "hour" | "day") => sql`date_trunc('${sql.raw(unit)}', ${sensorData.timestamp})`;
+
+    if (dryRun) {
+      const [counts] = await db
+        .select({
+          rows: sql<number>`count(*)`.mapWith(Number),
+          hourlyBuckets: sql<number>`count(distinct (${sensorData.deviceId}, ${sensorData.dataType}, ${truncate("hour")}))`
+            .mapWith(Number),
+          dailyBuckets: sql<number>`count(distinct (${sensorData.deviceId}, ${sensorData.dataType}, ${truncate("day")}))`
+            .mapWith(Number),
+        })
+        .from(sensorData)
+        .where(olderThanCutoff);
+      return counts;
+    }
+
+    // One statement, so the rollups are built from exactly the rows deleted:
+    // readings arriving mid-run are either in both or in neither
+    const rollup = (table: typeof sensorDataHourly | typeof sensorDataDaily, unit: "hour" | "day") => sql`
+      insert into ${table} (device_id, data_type, bucket, count, value_count, sum, min, max)
+      select device_id, data_type, date_trunc('${sql.raw(unit)}', "timestamp"), count(*), count(value), sum(value), min(value), max(value)
+      from purged
+      group by 1, 2, 3
+      -- A bucket straddling an earlier cutoff already has a row; merge into it
+      on conflict (device_id, data_type, bucket) do update set
+        count = ${table.count} + excluded.count,
+        value_count = ${table.valueCount} + excluded.value_count,
+        sum = case when excluded.sum is null then ${table.sum} else coalesce(${table.sum}, 0) + excluded.sum end,
+        min = least(${table.min}, excluded.min),
+        max = greatest(${table.max}, excluded.max)
+      returning 1`;
+
+    const result = await db.execute<{ rows: number; hourly_buckets: number; daily_buckets: number }>(sql`
+      with purged as (
+        delete from ${sensorData} where ${olderThanCutoff}
+        returning device_id, data_type, "timestamp", value
+      ),
+      hourly as (${rollup(sensorDataHourly, "hour")}),
+      daily as (${rollup(sensorDataDaily, "day")})
+      select
+        (select count(*) from purged)::int as rows,
+        (select count(*) from hourly)::int as hourly_buckets,
+        (select count(*) from daily)::int as daily_buckets
+    `);
+    const [counts] = result.rows;
+    return { rows: counts.rows, hourlyBuckets: counts.hourly_buckets, dailyBuckets: counts.daily_buckets };
+  }
+
+  async purgeHourlySensorRollups(cutoff: Date, dryRun: boolean): Promise<number> {
+    const condition = lt(sensorDataHourly.bucket, cutoff);
+    if (dryRun) {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)`.mapWith(Number) }).from(sensorDataHourly).where(condition);
+      return count;
+    }
+    const result = await db.delete(sensorDataHourly).where(condition);
+    return result.rowCount ?? 0;
+  }
+
+  async purgeAudioDetections(cutoff: Date, dryRun: boolean): Promise<number> {
+    const condition = lt(audioDetections.createdAt, cutoff);
+    if (dryRun) {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)`.mapWith(Number) }).from(audioDetections).where(condition);
+      return count;
+    }
+    const result = await db.delete(audioDetections).where(condition);
+    return result.rowCount ?? 0;
+  }
+
+  // Also removes resolved incidents that are left without any alerts
+  async purgeClosedAlerts(cutoff: Date, dryRun: boolean): Promise<{ rows: number; incidents: number }> {
+    const emptyIncident = and(
+      eq(incidents.status, "resolved"),
+      lt(incidents.resolvedAt, cutoff),
+      notExists(
+        db
+          .select({ id: alerts.id })
+          .from(alerts)
+          .where(and(eq(alerts.incidentId, incidents.id), sql`not (${purgeableAlert(cutoff)})`)),
+      ),
+    );
+
+    if (dryRun) {
+      const [alertCount] = await db.select({ count: sql<number>`count(*)`.mapWith(Number) }).from(alerts).where(purgeableAlert(cutoff));
+      const [incidentCount] = await db.select({ count: sql<number>`count(*)`.mapWith(Number) }).from(incidents).where(emptyIncident);
+      return { rows: alertCount.count, incidents: incidentCount.count };
+    }
+
+    return await db.transaction(async (tx) => {
+      const deletedAlerts = await tx.delete(alerts).where(purgeableAlert(cutoff));
+      const deletedIncidents = await tx.delete(incidents).where(emptyIncident);
+      return { rows: deletedAlerts.rowCount ?? 0, incidents: deletedIncidents.rowCount ?? 0 };
+    });
+  }
+
+  async purgeUserConfigLogs(cutoff: Date, dryRun: boolean): Promise<number> {
+    const condition = lt(userConfigLogs.timestamp, cutoff);
+    if (dryRun) {
+      const [{ count }] = await db.select({ count: sql<number>`count(*)`.mapWith(Number) }).from(userConfigLogs).where(condition);
+      return count;
+    }
+    const result = await db.delete(userConfigLogs).where(condition);
+    return result.rowCount ?? 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
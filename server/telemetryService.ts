@@ -0,0 +1,80 @@
+/**
+ * Telemetry Ingestion Service
+ *
+ * Accepts batches of sensor readings from authenticated devices, stores them in
+ * sensor_data and refreshes the device's heartbeat fields (lastSeen, batteryLevel,
+ * status, firmwareVersion) so fleet views reflect what devices actually report.
+ * A batch may also carry the device's reported state, merged into devices.config
+ * without any keys that are the device's settings.
+ * Readings from before the sensor_data retention horizon are refused, as the
+ * next retention run would delete them without rolling them up.
+ */
+
+import { ZodError } from "zod";
+import type { Device, SensorData, TelemetryBatch } from "@shared/schema";
+import { omitDeviceSettings } from "@shared/deviceConfig";
+import { storage } from "./storage";
+import { getRetentionHorizon } from "./retentionService";
+import { handleDeviceCheckIn, isBatteryLow } from "./deviceWatchdog";
+import { onDeviceStatusChanged, onSensorReadings } from "./automationEngine";
+
+export interface TelemetryIngestResult {
+  device: Device;
+  readings: SensorData[];
+}
+
+export async function ingestTelemetry(device: Device, batch: TelemetryBatch): Promise<TelemetryIngestResult> {
+  const receivedAt = new Date();
+
+  const horizon = await getRetentionHorizon("sensor_data", receivedAt);
+  if (horizon) {
+    const tooOld = batch.readings.flatMap((reading, i) =>
+      reading.timestamp && reading.timestamp < horizon
+        ? [{
+            code: "custom" as const,
+            path: ["readings", i, "timestamp"],
+            message: `Timestamp is older than the sensor data retention horizon (${horizon.toISOString()})`,
+          }]
+        : [],
+    );
+    if (tooOld.length > 0) {
+      throw new ZodError(tooOld);
+    }
+  }
+
+  const readings = await storage.createSensorDataBatch(
+    batch.readings.map((reading) => ({
+      deviceId: device.id,
+      dataType: reading.dataType,
+      value: reading.value ?? null,
+      metadata: reading.metadata ?? null,
+      timestamp: reading.timestamp ?? receivedAt,
+    })),
+  );
+
+  if (batch.state) {
+    await storage.mergeDeviceState(device.id, "config", omitDeviceSettings(device.type, batch.state));
+  }
+
+  // Any accepted payload is a heartbeat; a device that reports in is online unless it says
+  // otherwise or its battery is low
+  const batteryLevel = batch.batteryLevel ?? device.batteryLevel;
+  const updatedDevice = await storage.updateDevice(device.id, {
+    lastSeen: receivedAt,
+    status: batch.status ?? (isBatteryLow(batteryLevel) ? "warning" : "online"),
+    ...(batch.batteryLevel !== undefined && { batteryLevel: batch.batteryLevel }),
+    ...(batch.firmwareVersion !== undefined && { firmwareVersion: batch.firmwareVersion }),
+  });
+
+  await handleDeviceCheckIn(updatedDevice);
+
+  // Rule evaluation must never fail an accepted telemetry batch
+  try {
+    await onDeviceStatusChanged(updatedDevice, device.status);
+    await onSensorReadings(updatedDevice, readings);
+  } catch (error) {
+    console.error(`Automation engine failed for device ${device.id}:`, error);
+  }
+
+  return { device: updatedDevice, readings };
+}
@@ -0,0 +1,169 @@
+/**
+ * TOTP Two-Factor Authentication
+ *
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 30 second step, 6 digits),
+ * compatible with Google Authenticator, Authy and 1Password. Each code is
+ * accepted once: the time step of the last accepted code is stored, and codes
+ * from it or an earlier step are refused. Also provides single-use recovery
+ * codes, which are stored only as SHA-256 hashes.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import type { User, UserTwoFactor } from "@shared/schema";
+import { getPlatformSettings } from "./platformSettings";
+import { storage } from "./storage";
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock skew
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "SmartHomeCloud";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character in TOTP secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateHotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Generate a new random 160-bit TOTP secret, base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Match a 6-digit code against a secret, allowing one step of clock drift.
+ * Returns the time step the code belongs to, or null if it doesn't match.
+ */
+export function matchTotp(secret: string, code: string, now: number = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const counter = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_ALLOWED_DRIFT_STEPS; drift <= TOTP_ALLOWED_DRIFT_STEPS; drift++) {
+    const expected = generateHotp(secret, counter + drift);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return counter + drift;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify a user's code and use it up, so the same code (or an older one still
+ * inside the drift window) can't be replayed.
+ */
+export async function verifyTotp(twoFactor: UserTwoFactor, code: string): Promise<boolean> {
+  const step = matchTotp(twoFactor.secret, code);
+  if (step === null || (twoFactor.lastUsedStep !== null && step <= twoFactor.lastUsedStep)) {
+    return false;
+  }
+  return await storage.claimTotpStep(twoFactor.userId, step);
+}
+
+/**
+ * Build the otpauth:// URI and a QR code image (data URL) for authenticator apps
+ */
+export async function buildEnrollmentQrCode(secret: string, accountName: string) {
+  const otpauthUrl =
+    `otpauth://totp/${encodeURIComponent(`${ISSUER}:${accountName}`)}` +
+    `?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+  return { otpauthUrl, qrCodeDataUrl };
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/-/g, "").toLowerCase()).digest("hex");
+}
+
+/**
+ * Generate a fresh set of recovery codes.
+ * Returns the plaintext codes (shown to the user once) and their hashes (persisted).
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Use up one of the user's recovery codes. The code is removed in the same
+ * update that checks it, so two requests can't both use it.
+ */
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  return await storage.claimRecoveryCode(userId, hashRecoveryCode(code.trim()));
+}
+
+/**
+ * Platform policy switch: require 2FA for staff accounts
+ */
+export function isStaffTwoFactorPolicyEnabled(): boolean {
+  return getPlatformSettings().requireStaffTwoFactor;
+}
+
+/**
+ * Whether this user must enroll in 2FA before using the platform.
+ * Only applies to local (email/password) accounts of staff roles; OAuth providers
+ * enforce their own second factor.
+ */
+export function isTwoFactorRequired(user: User): boolean {
+  const isStaff = user.role === "cloud_staff" || user.role === "iot_team";
+  return isStaffTwoFactorPolicyEnabled() && isStaff && !!user.password;
+}
@@ -0,0 +1,122 @@
+/**
+ * Zip Stream
+ *
+ * Writes a zip archive to a stream entry by entry, without holding entries in
+ * memory or seeking back: each entry is stored uncompressed (clips and images
+ * are compressed already) and its CRC and sizes follow it in a data descriptor.
+ * Archives and entries are limited to 4 GB (no ZIP64).
+ */
+
+import type { Readable, Writable } from "stream";
+import { crc32 } from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | (() => Readable); // Streams are opened only when the entry is written
+  modifiedAt?: Date;
+}
+
+const UTF8_AND_DATA_DESCRIPTOR = 0x0808; // General purpose flags: bits 11 and 3
+
+// MS-DOS date and time, the only timestamps plain zip entries have
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// Resolves once output can take more, and rejects if it closes first (a client
+// that went away) so the archive stops reading its sources
+function write(output: Writable, chunk: Buffer): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error("The output stream was closed"));
+  }
+  if (output.write(chunk)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      output.off("close", onClose);
+      resolve();
+    };
+    const onClose = () => {
+      output.off("drain", onDrain);
+      reject(new Error("The output stream was closed"));
+    };
+    output.once("drain", onDrain);
+    output.once("close", onClose);
+  });
+}
+
+/**
+ * Write the entries to output as a zip archive. Doesn't end output.
+ */
+export async function writeZip(output: Writable, entries: ZipEntry[]): Promise<void> {
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date());
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(UTF8_AND_DATA_DESCRIPTOR, 6);
+    header.writeUInt16LE(0, 8); // Stored
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (14-25) are left zero; the data descriptor carries them
+    header.writeUInt16LE(name.length, 26);
+    await write(output, Buffer.concat([header, name]));
+
+    let crc = 0;
+    let size = 0;
+    if (Buffer.isBuffer(entry.data)) {
+      crc = crc32(entry.data);
+      size = entry.data.length;
+      await write(output, entry.data);
+    } else {
+      for await (const chunk of entry.data()) {
+        const buffer = chunk as Buffer;
+        crc = crc32(buffer, crc);
+        size += buffer.length;
+        await write(output, buffer);
+      }
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc >>> 0, 4);
+    descriptor.writeUInt32LE(size, 8);
+    descriptor.writeUInt32LE(size, 12);
+    await write(output, descriptor);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // Version made by
+    record.writeUInt16LE(20, 6); // Version needed to extract
+    record.writeUInt16LE(UTF8_AND_DATA_DESCRIPTOR, 8);
+    record.writeUInt16LE(0, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(crc >>> 0, 16);
+    record.writeUInt32LE(size, 20);
+    record.writeUInt32LE(size, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42); // Where the entry's local header starts
+    central.push(record, name);
+
+    offset += header.length + name.length + size + descriptor.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  await write(output, Buffer.concat([directory, end]));
+}
@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+// Per-type device settings. A device's settings live in devices.config next to
+// the state it reports (locked, on, targetTemp, ...), which commands change and
+// these schemas leave alone. Each field's description is the label of its
+// input in the generated settings form, and its default is what a new device
+// starts with. Kept free of drizzle so the client can import it.
+
+export const DEVICE_TYPES = ["camera", "microphone", "motion_sensor", "thermostat", "lock", "light", "smoke_detector", "keypad"] as const;
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+const temperatureSchema = z.number().int().min(45).max(95); // °F, the range thermostats accept
+
+export const DEVICE_CONFIG_SCHEMAS = {
+  camera: z.object({
+    resolution: z.enum(["720p", "1080p", "1440p", "2160p"]).default("1080p").describe("Resolution"),
+    fps: z.number().int().min(1).max(60).default(30).describe("Frame rate (fps)"),
+    nightMode: z.enum(["auto", "on", "off"]).default("auto").describe("Night mode"),
+    motionDetection: z.boolean().default(true).describe("Motion detection"),
+  }),
+  microphone: z.object({
+    sensitivity: z.number().int().min(1).max(10).default(5).describe("Sensitivity (1-10)"),
+    noiseSuppression: z.boolean().default(true).describe("Noise suppression"),
+  }),
+  motion_sensor: z.object({
+    sensitivity: z.number().int().min(1).max(10).default(5).describe("Sensitivity (1-10)"),
+    cooldownSeconds: z.number().int().min(0).max(3600).default(30).describe("Cooldown between detections (seconds)"),
+  }),
+  thermostat: z.object({
+    minTemp: temperatureSchema.default(60).describe("Lowest setpoint (°F)"),
+    maxTemp: temperatureSchema.default(80).describe("Highest setpoint (°F)"),
+    schedule: z.array(z.object({
+      time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM (24-hour)").describe("Time"),
+      targetTemp: temperatureSchema.describe("Setpoint (°F)"),
+    }).strict()).max(12).default([]).describe("Daily schedule"),
+  }),
+  lock: z.object({
+    autoLockSeconds: z.number().int().min(0).max(3600).default(0).describe("Auto-lock after (seconds, 0 = off)"),
+  }),
+  light: z.object({
+    defaultBrightness: z.number().int().min(1).max(100).default(100).describe("Turn-on brightness (%)"),
+  }),
+  smoke_detector: z.object({
+    testIntervalDays: z.number().int().min(7).max(365).default(30).describe("Self-test interval (days)"),
+    alarmVolume: z.enum(["low", "medium", "high"]).default("high").describe("Alarm volume"),
+  }),
+  // Security keypad: the only device that may change its house's security mode
+  keypad: z.object({
+    keyBeep: z.boolean().default(true).describe("Beep on key press"),
+    backlightSeconds: z.number().int().min(0).max(60).default(10).describe("Backlight after a key press (seconds)"),
+  }),
+} satisfies Record<DeviceType, z.AnyZodObject>;
+
+export type DeviceSettings<T extends DeviceType = DeviceType> = z.infer<(typeof DEVICE_CONFIG_SCHEMAS)[T]>;
+
+// Rules spanning several fields, checked once the shape is valid
+const DEVICE_CONFIG_RULES: { [T in DeviceType]?: (settings: DeviceSettings<T>, ctx: z.RefinementCtx) => void } = {
+  thermostat: (settings, ctx) => {
+    if (settings.minTemp >= settings.maxTemp) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxTemp"], message: "Must be above the lowest setpoint" });
+    }
+    settings.schedule.forEach((entry, i) => {
+      if (entry.targetTemp < settings.minTemp || entry.targetTemp > settings.maxTemp) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["schedule", i, "targetTemp"],
+          message: `Must be between ${settings.minTemp} and ${settings.maxTemp}°F`,
+        });
+      }
+    });
+  },
+};
+
+/**
+ * The full settings schema for a device type: unknown keys are rejected,
+ * missing ones take their defaults.
+ */
+export function deviceConfigSchema(type: DeviceType) {
+  const rule = DEVICE_CONFIG_RULES[type] as ((settings: DeviceSettings, ctx: z.RefinementCtx) => void) | undefined;
+  return (DEVICE_CONFIG_SCHEMAS[type] as z.AnyZodObject)
+    .strict()
+    .superRefine((settings, ctx) => rule?.(settings as DeviceSettings, ctx));
+}
+
+/**
+ * The settings keys of a config document, without the device's reported state.
+ */
+export function pickDeviceSettings(type: DeviceType, config: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const keys = Object.keys(DEVICE_CONFIG_SCHEMAS[type].shape);
+  return Object.fromEntries(Object.entries(config || {}).filter(([key]) => keys.includes(key)));
+}
+
+/**
+ * State a device reports, without any of its type's settings keys: settings
+ * are only changed through validation, never by what a device reports.
+ */
+export function omitDeviceSettings(type: DeviceType, state: Record<string, unknown>): Record<string, unknown> {
+  const keys = Object.keys(DEVICE_CONFIG_SCHEMAS[type].shape);
+  return Object.fromEntries(Object.entries(state).filter(([key]) => !keys.includes(key)));
+}
+
+/**
+ * The settings a new device of this type starts with.
+ */
+export function defaultDeviceSettings<T extends DeviceType>(type: T): DeviceSettings<T> {
+  return DEVICE_CONFIG_SCHEMAS[type].parse({}) as DeviceSettings<T>;
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -9,10 +10,13 @@ import {
   integer,
   boolean,
   real,
+  doublePrecision,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { DEVICE_TYPES, deviceConfigSchema, type DeviceType } from "./deviceConfig";
 
 // ===== SESSION STORAGE =====
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -67,7 +71,44 @@ export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+// ===== USER TWO-FACTOR TABLE =====
+// Kept apart from users so TOTP secrets never ride along with user payloads
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret").notNull(), // Base32 TOTP secret
+  enabled: boolean("enabled").notNull().default(false), // False until the first code is verified
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of unused codes
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code; it and earlier ones can't be used again
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const verifyTwoFactorSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits").optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine((data) => data.code || data.recoveryCode, {
+  message: "A verification code or recovery code is required",
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+
 // ===== HOUSES TABLE =====
+// "UTC-05:00" style offsets, or an IANA zone name such as "America/New_York"
+const timezoneSchema = z.string().refine((value) => {
+  if (/^UTC[+-]\d{2}:\d{2}$/.test(value)) {
+    return true;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Must be a UTC offset like UTC-05:00 or an IANA timezone");
+
+export const HOUSE_MODES = ["disarmed", "home", "away", "vacation"] as const;
+
 export const houses = pgTable("houses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   ownerId: varchar("owner_id").references(() => users.id),
@@ -79,6 +120,7 @@ export const houses = pgTable("houses", {
   timezone: varchar("timezone").default("UTC-05:00"),
   latitude: real("latitude"),
   longitude: real("longitude"),
+  mode: varchar("mode", { enum: HOUSE_MODES }).notNull().default("disarmed"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -87,11 +129,213 @@ export const insertHouseSchema = createInsertSchema(houses).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  timezone: timezoneSchema.nullable().optional(),
 });
 
 export type InsertHouse = z.infer<typeof insertHouseSchema>;
 export type House = typeof houses.$inferSelect;
 
+// ===== HOUSE MEMBERS TABLE =====
+// houses.ownerId stays the primary owner; members share the house with their own role
+export const HOUSE_MEMBER_ROLES = ["owner", "resident", "guest"] as const;
+
+export type HouseMemberRole = typeof HOUSE_MEMBER_ROLES[number];
+export type HousePermission = "view" | "control" | "manage";
+
+// view: see devices, cameras and alerts; control: handle alerts and automation rules;
+// manage: invite and manage members
+export const HOUSE_ROLE_PERMISSIONS: Record<HouseMemberRole, HousePermission[]> = {
+  owner: ["view", "control", "manage"],
+  resident: ["view", "control"],
+  guest: ["view"],
+};
+
+export const houseMembers = pgTable("house_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role", { enum: HOUSE_MEMBER_ROLES }).notNull().default("resident"),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at"), // Temporary access (e.g. guests); null never expires
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_house_members_house_user").on(table.houseId, table.userId),
+  index("IDX_house_members_user").on(table.userId),
+]);
+
+export const updateHouseMemberSchema = z.object({
+  role: z.enum(HOUSE_MEMBER_ROLES).optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export type UpdateHouseMember = z.infer<typeof updateHouseMemberSchema>;
+export type HouseMember = typeof houseMembers.$inferSelect;
+export type HouseMemberWithUser = HouseMember & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName" | "profileImageUrl">;
+};
+
+// ===== HOUSE INVITATIONS TABLE =====
+// Invitations are addressed to an email and accepted by the user signed in with it
+export const houseInvitations = pgTable("house_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull(),
+  role: varchar("role", { enum: HOUSE_MEMBER_ROLES }).notNull().default("resident"),
+  accessExpiresAt: timestamp("access_expires_at"), // Becomes the member's expiresAt on accept
+  status: varchar("status", { enum: ["pending", "accepted", "declined", "revoked"] }).notNull().default("pending"),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(), // The invitation itself lapses after this
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_house_invitations_email").on(table.email),
+]);
+
+export const createHouseInvitationSchema = z.object({
+  email: z.string().email("Must be a valid email address").transform((email) => email.toLowerCase()),
+  role: z.enum(HOUSE_MEMBER_ROLES).default("resident"),
+  accessExpiresAt: z.coerce.date()
+    .refine((date) => date.getTime() > Date.now(), "Access expiry must be in the future")
+    .nullable()
+    .optional(),
+});
+
+export type CreateHouseInvitation = z.infer<typeof createHouseInvitationSchema>;
+export type HouseInvitation = typeof houseInvitations.$inferSelect;
+export type HouseInvitationWithHouse = HouseInvitation & { houseName: string };
+
+// ===== HOUSE SECURITY TABLE =====
+// Arming settings and state for a house's security mode (houses.mode). Arming
+// an armed mode takes effect once the exit delay is over (armedAt). While
+// armed, motion starts the entry delay: the intrusion alert it raises is held
+// in pendingEntryAlert and only raised if the house isn't disarmed by
+// entryDeadline.
+export const ARMED_HOUSE_MODES: House["mode"][] = ["away", "vacation"];
+
+export const houseSecurity = pgTable("house_security", {
+  houseId: varchar("house_id").primaryKey().references(() => houses.id, { onDelete: "cascade" }),
+  exitDelaySeconds: integer("exit_delay_seconds").notNull().default(60),
+  entryDelaySeconds: integer("entry_delay_seconds").notNull().default(30),
+  pinHash: varchar("pin_hash"), // bcrypt; disarming from a keypad needs the PIN
+  failedPinAttempts: integer("failed_pin_attempts").notNull().default(0),
+  pinLockedUntil: timestamp("pin_locked_until"),
+  armedAt: timestamp("armed_at"), // When the current armed mode took or takes effect
+  entryDeadline: timestamp("entry_deadline"),
+  pendingEntryAlert: jsonb("pending_entry_alert").$type<InsertAlert>(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Body of PATCH /api/houses/:id/security; a null pin removes it
+export const updateHouseSecuritySchema = z.object({
+  exitDelaySeconds: z.number().int().min(0).max(300),
+  entryDelaySeconds: z.number().int().min(0).max(300),
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4 to 8 digits").nullable(),
+}).partial();
+
+// Body of POST /api/houses/:id/mode
+export const setHouseModeSchema = z.object({
+  mode: z.enum(HOUSE_MODES),
+});
+
+// Body of POST /api/device/security/mode; the PIN is needed to disarm
+export const keypadModeSchema = z.object({
+  mode: z.enum(HOUSE_MODES),
+  pin: z.string().max(8).optional(),
+});
+
+export type HouseSecurity = typeof houseSecurity.$inferSelect;
+export type UpdateHouseSecurity = z.infer<typeof updateHouseSecuritySchema>;
+
+// GET /api/houses/:id/security
+export type HouseSecurityStatus = Pick<HouseSecurity, "exitDelaySeconds" | "entryDelaySeconds" | "entryDeadline"> & {
+  mode: House["mode"];
+  armed: boolean; // An armed mode whose exit delay is over
+  armingUntil: Date | null; // End of the exit delay while arming
+  hasPin: boolean;
+  pinLockedUntil: Date | null;
+};
+
+// ===== HOUSE MODE CHANGES TABLE =====
+// Every change of a house's security mode, from the app or a keypad
+export const houseModeChanges = pgTable("house_mode_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  fromMode: varchar("from_mode", { enum: HOUSE_MODES }).notNull(),
+  toMode: varchar("to_mode", { enum: HOUSE_MODES }).notNull(),
+  source: varchar("source", { enum: ["app", "keypad"] }).notNull(),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  deviceId: varchar("device_id").references(() => devices.id, { onDelete: "set null" }), // The keypad
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_house_mode_changes_house").on(table.houseId, table.createdAt),
+]);
+
+export type HouseModeChange = typeof houseModeChanges.$inferSelect;
+export type HouseModeChangeWithUser = HouseModeChange & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+};
+
+// ===== FLOORS TABLE =====
+// A level of a house, with an optional floor-plan image devices are placed on
+export const floors = pgTable("floors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // e.g. "Ground Floor", "Basement"
+  level: integer("level").notNull().default(0), // Orders floors; 0 is the ground floor
+  planPath: varchar("plan_path"), // Floor-plan image, relative to the floor plan store
+  planMimeType: varchar("plan_mime_type"),
+  planSizeBytes: integer("plan_size_bytes"),
+  planUpdatedAt: timestamp("plan_updated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_floors_house").on(table.houseId)]);
+
+export const insertFloorSchema = createInsertSchema(floors).pick({
+  houseId: true,
+  name: true,
+  level: true,
+}).extend({
+  name: z.string().trim().min(1, "Floor name is required").max(100),
+  level: z.number().int().min(-10).max(200).optional(),
+});
+
+export const updateFloorSchema = insertFloorSchema.omit({ houseId: true }).partial();
+
+export type InsertFloor = z.infer<typeof insertFloorSchema>;
+export type UpdateFloor = z.infer<typeof updateFloorSchema>;
+export type Floor = typeof floors.$inferSelect;
+
+// ===== ROOMS TABLE =====
+// Rooms of a house. Names are unique within a house whatever their case, so
+// "Living Room" and "living room" are the same room.
+export const rooms = pgTable("rooms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  floorId: varchar("floor_id").references(() => floors.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_rooms_house_name").on(table.houseId, sql`lower(${table.name})`),
+]);
+
+export const insertRoomSchema = createInsertSchema(rooms).pick({
+  houseId: true,
+  floorId: true,
+  name: true,
+}).extend({
+  name: z.string().trim().min(1, "Room name is required").max(100),
+});
+
+export const updateRoomSchema = insertRoomSchema.omit({ houseId: true }).partial();
+
+// How room names are stored; compared ignoring case
+export const normalizeRoomName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type UpdateRoom = z.infer<typeof updateRoomSchema>;
+export type Room = typeof rooms.$inferSelect;
+
 // ===== DEVICES TABLE =====
 export const devices = pgTable("devices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -99,27 +343,413 @@ export const devices = pgTable("devices", {
   serialNumber: varchar("serial_number").unique(),
   name: text("name").notNull(),
   type: varchar("type", { 
-    enum: ["camera", "microphone", "motion_sensor", "thermostat", "lock", "light", "smoke_detector"] 
+    enum: DEVICE_TYPES 
   }).notNull(),
-  room: text("room").notNull(),
+  room: text("room").notNull(), // Name of the device's room, kept in step with roomId by storage
+  roomId: varchar("room_id").references(() => rooms.id, { onDelete: "set null" }),
   status: varchar("status", { enum: ["online", "offline", "warning"] }).notNull().default("offline"),
   firmwareVersion: varchar("firmware_version"),
   batteryLevel: integer("battery_level"), // 0-100
   lastSeen: timestamp("last_seen"),
-  config: jsonb("config"), // Device-specific configuration
+  config: jsonb("config").$type<DeviceState>(), // Reported state: what the device last said it is doing
+  desiredState: jsonb("desired_state").$type<DeviceState>(), // What users and automation rules last asked for
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertDeviceSchema = createInsertSchema(devices).omit({
+// Devices are put in a room by its name; storage finds or creates the room
+const deviceFieldsSchema = createInsertSchema(devices).omit({
   id: true,
+  roomId: true,
+  desiredState: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// config must hold valid settings for the device's type (see shared/deviceConfig.ts);
+// missing settings take their defaults
+function withDeviceSettings<D extends { type: DeviceType; config?: DeviceState | null }>(device: D, ctx: z.RefinementCtx): D & { config: DeviceState } {
+  const result = deviceConfigSchema(device.type).safeParse(device.config ?? {});
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ["config", ...issue.path] }));
+    return z.NEVER;
+  }
+  return { ...device, config: result.data };
+}
+
+export const insertDeviceSchema = deviceFieldsSchema.transform(withDeviceSettings);
+
+// Body of PATCH /api/devices/:id. config holds settings to change; the route
+// checks them against the device's type together with its current settings
+// using deviceSettingsSchema.
+export const updateDeviceSchema = deviceFieldsSchema.partial();
+
+export const deviceSettingsSchema = z.object({
+  type: z.enum(DEVICE_TYPES),
+  config: z.record(z.unknown()).nullish(),
+}).transform(withDeviceSettings);
+
+// e.g. { locked: true }, { on: true, brightness: 60 }, { targetTemp: 68 }
+export type DeviceState = Record<string, unknown>;
 export type InsertDevice = z.infer<typeof insertDeviceSchema>;
+export type UpdateDevice = z.infer<typeof updateDeviceSchema>;
 export type Device = typeof devices.$inferSelect;
 
+// Bulk import and export. Exported files use these columns and can be edited
+// and imported again; id is ignored on import. config holds the device's
+// settings only, as JSON in CSV files.
+export const DEVICE_EXPORT_COLUMNS = [
+  "id",
+  "houseId",
+  "serialNumber",
+  "name",
+  "type",
+  "room",
+  "status",
+  "firmwareVersion",
+  "batteryLevel",
+  "lastSeen",
+  "config",
+] as const;
+
+// One imported row; CSV cells arrive as strings
+export const deviceImportRowSchema = deviceFieldsSchema.extend({
+  batteryLevel: z.coerce.number().int().min(0).max(100).nullish(),
+  lastSeen: z.coerce.date().nullish(),
+}).transform(withDeviceSettings);
+
+// Form fields sent with the file uploaded to POST /api/devices/import
+export const deviceImportOptionsSchema = z.object({
+  format: z.enum(["csv", "json"]).optional(), // Taken from the file name when omitted
+  dryRun: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+export type DeviceImportRowError = { row: number; field?: string; message: string };
+export type DeviceImportReport = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number; // 0 unless every row was valid and this wasn't a dry run
+  errors: DeviceImportRowError[];
+};
+
+// ===== DEVICE PLACEMENTS TABLE =====
+// Where a device sits on a floor plan, in percent of the image from its top left
+export const devicePlacements = pgTable("device_placements", {
+  deviceId: varchar("device_id").primaryKey().references(() => devices.id, { onDelete: "cascade" }),
+  floorId: varchar("floor_id").notNull().references(() => floors.id, { onDelete: "cascade" }),
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_device_placements_floor").on(table.floorId)]);
+
+// Body of PUT /api/devices/:id/placement
+export const devicePlacementSchema = z.object({
+  floorId: z.string(),
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+});
+
+export type DevicePlacementInput = z.infer<typeof devicePlacementSchema>;
+export type DevicePlacement = typeof devicePlacements.$inferSelect;
+
+// GET /api/houses/:id/floor-plan: everything needed to draw the house's floors
+export type HouseFloorPlan = {
+  floors: (Omit<Floor, "planPath"> & { hasPlan: boolean })[];
+  rooms: Room[];
+  devices: Pick<Device, "id" | "name" | "type" | "room" | "roomId" | "status">[];
+  placements: DevicePlacement[];
+};
+
+// ===== DEVICE CREDENTIALS TABLE =====
+// API keys devices use to authenticate as their serial number (only a hash is stored)
+export const deviceCredentials = pgTable("device_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  keyHash: varchar("key_hash").notNull().unique(), // SHA-256 of the API key
+  keyPrefix: varchar("key_prefix").notNull(), // First characters of the key, for identification in the UI
+  createdBy: varchar("created_by").references(() => users.id),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_device_credentials_device").on(table.deviceId)]);
+
+export type DeviceCredential = typeof deviceCredentials.$inferSelect;
+
+// ===== DEVICE REGISTRATIONS TABLE =====
+// Hardware pre-registered by staff so homeowners can add it themselves. Each
+// unit ships with a one-time claim code (only a hash is stored): a homeowner
+// claims it into a house (unclaimed → claimed, creating the device), then the
+// device checks in with the same code to receive its API key (→ provisioned).
+export const deviceRegistrations = pgTable("device_registrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serialNumber: varchar("serial_number").notNull().unique(),
+  type: varchar("type", {
+    enum: DEVICE_TYPES
+  }).notNull(),
+  model: text("model"),
+  firmwareVersion: varchar("firmware_version"),
+  claimCodeHash: varchar("claim_code_hash").notNull(), // SHA-256 of the normalized claim code
+  status: varchar("status", { enum: ["unclaimed", "claimed", "provisioned"] }).notNull().default("unclaimed"),
+  deviceId: varchar("device_id").references(() => devices.id, { onDelete: "set null" }),
+  claimedBy: varchar("claimed_by").references(() => users.id, { onDelete: "set null" }),
+  claimedAt: timestamp("claimed_at"),
+  provisionedAt: timestamp("provisioned_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeviceRegistrationSchema = createInsertSchema(deviceRegistrations).pick({
+  serialNumber: true,
+  type: true,
+  model: true,
+  firmwareVersion: true,
+}).extend({
+  serialNumber: z.string().trim().min(1, "Serial number is required").max(64),
+});
+
+// Body of POST /api/devices/claim
+export const claimDeviceSchema = z.object({
+  serialNumber: z.string().trim().min(1, "Serial number is required"),
+  claimCode: z.string().trim().min(1, "Claim code is required"),
+  houseId: z.string(),
+  room: z.string().trim().min(1, "Room is required"),
+  name: z.string().trim().max(100).optional(),
+});
+
+// Body of POST /api/device/provision, sent by the device on its first check-in
+export const deviceProvisionSchema = z.object({
+  serialNumber: z.string().trim().min(1),
+  claimCode: z.string().trim().min(1),
+});
+
+export type InsertDeviceRegistration = z.infer<typeof insertDeviceRegistrationSchema>;
+export type ClaimDevice = z.infer<typeof claimDeviceSchema>;
+export type DeviceRegistration = typeof deviceRegistrations.$inferSelect;
+
+// ===== DEVICE COMMANDS TABLE =====
+// Commands queued for a device to pull. Issuing one merges its effect into the
+// device's desiredState; the device acknowledges it once applied (or failed),
+// and its reported state (devices.config) is updated.
+const brightnessSchema = z.number().int().min(0).max(100);
+
+export const deviceCommandSchema = z.discriminatedUnion("command", [
+  z.object({ command: z.literal("lock") }),
+  z.object({ command: z.literal("unlock") }),
+  z.object({
+    command: z.literal("turn_on"),
+    params: z.object({ brightness: brightnessSchema.optional() }).strict().optional(),
+  }),
+  z.object({ command: z.literal("turn_off") }),
+  z.object({
+    command: z.literal("set_brightness"),
+    params: z.object({ brightness: brightnessSchema }).strict(),
+  }),
+  z.object({
+    command: z.literal("set_temperature"),
+    params: z.object({ targetTemp: z.number().min(45).max(95) }).strict(), // Setpoint in °F
+  }),
+  // recordingId names the recording the camera uploads its media to; a clip
+  // with preRollSeconds starts with that much of the camera's buffered video
+  z.object({
+    command: z.literal("start_recording"),
+    params: z.object({
+      recordingId: z.string(),
+      preRollSeconds: z.number().int().min(1).max(60).optional(),
+    }).strict().optional(),
+  }),
+  z.object({
+    command: z.literal("stop_recording"),
+    params: z.object({ recordingId: z.string() }).strict().optional(),
+  }),
+  z.object({
+    command: z.literal("capture_snapshot"),
+    params: z.object({ recordingId: z.string() }).strict().optional(),
+  }),
+]);
+
+export type DeviceCommandInput = z.infer<typeof deviceCommandSchema>;
+
+export const DEVICE_COMMAND_NAMES = [
+  "lock",
+  "unlock",
+  "turn_on",
+  "turn_off",
+  "set_brightness",
+  "set_temperature",
+  "start_recording",
+  "stop_recording",
+  "capture_snapshot",
+] as const satisfies readonly DeviceCommandInput["command"][];
+
+// Which commands each device type accepts
+export const DEVICE_TYPE_COMMANDS: Record<Device["type"], DeviceCommandInput["command"][]> = {
+  lock: ["lock", "unlock"],
+  light: ["turn_on", "turn_off", "set_brightness"],
+  thermostat: ["set_temperature"],
+  camera: ["start_recording", "stop_recording", "capture_snapshot"],
+  microphone: [],
+  motion_sensor: [],
+  smoke_detector: [],
+  keypad: [],
+};
+
+export const deviceCommands = pgTable("device_commands", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  command: varchar("command", { enum: DEVICE_COMMAND_NAMES }).notNull(),
+  params: jsonb("params").$type<Record<string, unknown>>(),
+  status: varchar("status", { enum: ["pending", "delivered", "acked", "failed", "expired"] }).notNull().default("pending"),
+  source: varchar("source", { enum: ["user", "automation"] }).notNull(),
+  issuedBy: varchar("issued_by").references(() => users.id, { onDelete: "set null" }),
+  automationRuleId: varchar("automation_rule_id").references(() => automationRules.id, { onDelete: "set null" }),
+  error: text("error"), // Reason the device gave for a failed command
+  expiresAt: timestamp("expires_at").notNull(),
+  deliveredAt: timestamp("delivered_at"),
+  completedAt: timestamp("completed_at"), // When it was acked, failed or expired
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_device_commands_device_status").on(table.deviceId, table.status),
+  index("IDX_device_commands_status_expires").on(table.status, table.expiresAt),
+]);
+
+// Body of POST /api/device/commands/:id/ack. state is the device's reported
+// state after applying the command; the command's own effect is assumed otherwise.
+export const deviceCommandAckSchema = z.object({
+  status: z.enum(["acked", "failed"]),
+  error: z.string().max(500).optional(),
+  state: z.record(z.unknown()).optional(),
+});
+
+export type DeviceCommandAck = z.infer<typeof deviceCommandAckSchema>;
+export type DeviceCommand = typeof deviceCommands.$inferSelect;
+export type InsertDeviceCommand = typeof deviceCommands.$inferInsert;
+
+// ===== FIRMWARE TABLES =====
+// Firmware releases per device type and the campaigns that roll them out.
+// A campaign offers its release to a growing share of its target devices,
+// one stage at a time (stages are cumulative percentages ending at 100), and
+// halts itself when too many of the devices offered the update fail.
+export const firmwareReleases = pgTable("firmware_releases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceType: varchar("device_type", {
+    enum: DEVICE_TYPES
+  }).notNull(),
+  version: varchar("version").notNull(),
+  checksum: varchar("checksum").notNull(), // SHA-256 of the image, hex
+  url: text("url").notNull(), // Where devices download the image
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_firmware_releases_type_version").on(table.deviceType, table.version),
+]);
+
+export const insertFirmwareReleaseSchema = createInsertSchema(firmwareReleases).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  version: z.string().trim().min(1).max(64),
+  checksum: z.string().regex(/^[a-f0-9]{64}$/i, "Checksum must be a SHA-256 hex digest").transform((value) => value.toLowerCase()),
+  url: z.string().url(),
+});
+
+export type InsertFirmwareRelease = z.infer<typeof insertFirmwareReleaseSchema>;
+export type FirmwareRelease = typeof firmwareReleases.$inferSelect;
+
+// Which of the release's device type a campaign targets; omitted filters match everything
+export const firmwareCampaignTargetSchema = z.object({
+  houseIds: z.array(z.string()).optional(),
+  deviceIds: z.array(z.string()).optional(),
+  fromVersions: z.array(z.string()).optional(), // Only devices currently on these versions
+});
+
+export type FirmwareCampaignTarget = z.infer<typeof firmwareCampaignTargetSchema>;
+
+export const firmwareCampaigns = pgTable("firmware_campaigns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  releaseId: varchar("release_id").notNull().references(() => firmwareReleases.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  target: jsonb("target").$type<FirmwareCampaignTarget>().notNull().default({}),
+  stages: jsonb("stages").$type<number[]>().notNull(), // e.g. [5, 25, 100]
+  currentStage: integer("current_stage").notNull().default(0), // Index into stages
+  stageStartedAt: timestamp("stage_started_at").notNull().defaultNow(),
+  stageSoakMinutes: integer("stage_soak_minutes").notNull().default(60), // Healthy time before the next stage
+  failureThresholdPercent: integer("failure_threshold_percent").notNull().default(10),
+  autoRollback: boolean("auto_rollback").notNull().default(true),
+  status: varchar("status", { enum: ["active", "paused", "halted", "completed", "cancelled"] }).notNull().default("active"),
+  haltReason: text("halt_reason"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertFirmwareCampaignSchema = z.object({
+  releaseId: z.string(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  target: firmwareCampaignTargetSchema.default({}),
+  stages: z.array(z.number().int().min(1).max(100))
+    .min(1)
+    .max(10)
+    .refine((stages) => stages.every((stage, i) => i === 0 || stage > stages[i - 1]), "Stages must increase")
+    .refine((stages) => stages[stages.length - 1] === 100, "The last stage must be 100%")
+    .default([100]),
+  stageSoakMinutes: z.number().int().min(0).max(10080).default(60),
+  failureThresholdPercent: z.number().int().min(0).max(100).default(10),
+  autoRollback: z.boolean().default(true),
+});
+
+export type InsertFirmwareCampaign = z.infer<typeof insertFirmwareCampaignSchema>;
+export type FirmwareCampaign = typeof firmwareCampaigns.$inferSelect;
+
+// One device's update within a campaign. "scheduled" devices belong to a later
+// stage; "rolling_back" devices have been told to reinstall their old version;
+// "cancelled" updates were never started before their campaign was cancelled.
+export const FIRMWARE_UPDATE_STATUSES = [
+  "scheduled",
+  "pending",
+  "downloading",
+  "installing",
+  "succeeded",
+  "failed",
+  "rolling_back",
+  "rolled_back",
+  "cancelled",
+] as const;
+
+export const firmwareUpdates = pgTable("firmware_updates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").notNull().references(() => firmwareCampaigns.id, { onDelete: "cascade" }),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  stage: integer("stage").notNull(),
+  fromVersion: varchar("from_version"),
+  status: varchar("status", { enum: FIRMWARE_UPDATE_STATUSES }).notNull().default("scheduled"),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_firmware_updates_campaign_device").on(table.campaignId, table.deviceId),
+  index("IDX_firmware_updates_device_status").on(table.deviceId, table.status),
+]);
+
+// Body of POST /api/device/firmware/:id/status
+export const firmwareStatusReportSchema = z.object({
+  status: z.enum(["downloading", "installing", "succeeded", "failed", "rolled_back"]),
+  error: z.string().max(500).optional(),
+});
+
+export type FirmwareStatusReport = z.infer<typeof firmwareStatusReportSchema>;
+export type FirmwareUpdate = typeof firmwareUpdates.$inferSelect;
+export type FirmwareUpdateWithDevice = FirmwareUpdate & { device: Pick<Device, "id" | "name" | "houseId" | "firmwareVersion"> };
+export type FirmwareUpdateCounts = Record<FirmwareUpdate["status"], number>;
+export type FirmwareCampaignWithProgress = FirmwareCampaign & {
+  release: Pick<FirmwareRelease, "id" | "deviceType" | "version">;
+  counts: FirmwareUpdateCounts;
+};
+
 // ===== ALERTS TABLE =====
 export const alerts = pgTable("alerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -150,40 +780,428 @@ export const alerts = pgTable("alerts", {
   acknowledgedAt: timestamp("acknowledged_at"),
   resolvedBy: varchar("resolved_by").references(() => users.id),
   resolvedAt: timestamp("resolved_at"),
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }), // Who is triaging it
+  // Repeats from the same device folded into this alert, and when the latest arrived
+  occurrenceCount: integer("occurrence_count").notNull().default(1),
+  lastOccurredAt: timestamp("last_occurred_at").defaultNow(),
+  incidentId: varchar("incident_id").references(() => incidents.id, { onDelete: "set null" }),
+  // Escalation policy in effect, how many of its steps have run, and when the next is due
+  escalationPolicyId: varchar("escalation_policy_id").references(() => escalationPolicies.id, { onDelete: "set null" }),
+  escalationStep: integer("escalation_step").notNull().default(0),
+  nextEscalationAt: timestamp("next_escalation_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_alerts_next_escalation").on(table.nextEscalationAt),
+  index("IDX_alerts_house_created").on(table.houseId, table.createdAt, table.id),
+  index("IDX_alerts_created").on(table.createdAt, table.id),
+  index("IDX_alerts_device_type").on(table.deviceId, table.type, table.lastOccurredAt),
+  index("IDX_alerts_incident").on(table.incidentId),
+  // Free-text search matches these with ILIKE; trigram indexes need the pg_trgm extension
+  index("IDX_alerts_title_trgm").using("gin", table.title.op("gin_trgm_ops")),
+  index("IDX_alerts_description_trgm").using("gin", table.description.op("gin_trgm_ops")),
+  index("IDX_alerts_location_trgm").using("gin", table.location.op("gin_trgm_ops")),
+]);
 
 export const insertAlertSchema = createInsertSchema(alerts).omit({
   id: true,
+  assigneeId: true,
+  occurrenceCount: true,
+  lastOccurredAt: true,
+  incidentId: true,
+  escalationPolicyId: true,
+  escalationStep: true,
+  nextEscalationAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// What a user may set when raising an alert through the API: it starts new,
+// and its triage state and AI details only come from the server
+export const createAlertSchema = insertAlertSchema.omit({
+  status: true,
+  acknowledgedBy: true,
+  acknowledgedAt: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  aiDetails: true,
+});
+
 export type InsertAlert = z.infer<typeof insertAlertSchema>;
 export type Alert = typeof alerts.$inferSelect;
 
+// Allowed status changes. Resolved and dismissed are final.
+export const ALERT_STATUS_TRANSITIONS: Record<Alert["status"], Alert["status"][]> = {
+  new: ["acknowledged", "resolved", "dismissed"],
+  acknowledged: ["resolved", "dismissed"],
+  resolved: [],
+  dismissed: [],
+};
+
+// Query parameters for GET /api/alerts. List filters take comma-separated values.
+function csvOf<T extends [string, ...string[]]>(values: T) {
+  return z.string()
+    .transform((value) => value.split(",").map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).min(1));
+}
+
+export const alertSearchSchema = z.object({
+  status: csvOf(alerts.status.enumValues).optional(),
+  severity: csvOf(alerts.severity.enumValues).optional(),
+  type: csvOf(alerts.type.enumValues).optional(),
+  houseId: z.string().optional(),
+  deviceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().min(1).max(200).optional(), // Matches title, description or location
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(), // nextCursor from the previous page
+});
+
+export type AlertSearch = z.infer<typeof alertSearchSchema>;
+export type AlertPage = { alerts: Alert[]; nextCursor: string | null };
+export type AlertSummary = { active: number; highSeverity: number; resolvedLast24h: number };
+
+// ===== ALERT ACTIVITY TABLE =====
+// History of what happened to an alert after it was raised: every status
+// change, comment, reassignment and escalation step, with who did it
+export const ALERT_ACTIVITY_TYPES = [
+  "status_changed",
+  "comment",
+  "assigned",
+  "escalated",
+  "escalation_stopped",
+] as const;
+
+export const alertActivity = pgTable("alert_activity", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alertId: varchar("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  type: varchar("type", { enum: ALERT_ACTIVITY_TYPES }).notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // Null for system actions
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_alert_activity_alert").on(table.alertId, table.createdAt),
+]);
+
+export type AlertActivity = typeof alertActivity.$inferSelect;
+export type InsertAlertActivity = typeof alertActivity.$inferInsert;
+export type AlertActivityWithActor = AlertActivity & {
+  actor: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+};
+
+export const alertCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000),
+});
+
+export const assignAlertSchema = z.object({
+  assigneeId: z.string().nullable(), // Null unassigns
+});
+
+// ===== ESCALATION POLICIES TABLE =====
+// Who to notify, and when, while an alert stays unacknowledged. Steps run in
+// order, each afterMinutes after the alert was raised. A house policy takes
+// precedence over a global one (houseId null) for the severities it covers.
+export const ESCALATION_TARGETS = ["owners", "residents", "all_members", "cloud_staff"] as const;
+
+export const escalationStepSchema = z.object({
+  afterMinutes: z.number().int().min(0).max(10080),
+  target: z.enum(ESCALATION_TARGETS),
+});
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").references(() => houses.id, { onDelete: "cascade" }), // Null = all houses
+  name: text("name").notNull(),
+  severities: jsonb("severities").$type<Array<"low" | "medium" | "high" | "critical">>().notNull(),
+  steps: jsonb("steps").$type<EscalationStep[]>().notNull(),
+  status: varchar("status", { enum: ["active", "inactive"] }).notNull().default("active"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const escalationStepsSchema = z.array(escalationStepSchema)
+  .min(1, "At least one step is required")
+  .max(10)
+  .refine(
+    (steps) => steps.every((step, i) => i === 0 || step.afterMinutes > steps[i - 1].afterMinutes),
+    "Each step must come later than the one before it",
+  );
+
+export const insertEscalationPolicySchema = createInsertSchema(escalationPolicies).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  houseId: z.string().nullable().optional(),
+  severities: z.array(z.enum(["low", "medium", "high", "critical"])).min(1).default(["critical"]),
+  steps: escalationStepsSchema,
+});
+
+export const updateEscalationPolicySchema = insertEscalationPolicySchema.omit({ houseId: true }).partial();
+
+export type InsertEscalationPolicy = z.infer<typeof insertEscalationPolicySchema>;
+export type UpdateEscalationPolicy = z.infer<typeof updateEscalationPolicySchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+
+// ===== INCIDENTS TABLE =====
+// Related alerts in one house raised close together, e.g. glass_break then
+// motion_detected then intrusion. Severity is the highest of its alerts.
+export const incidents = pgTable("incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  severity: varchar("severity", { enum: ["low", "medium", "high", "critical"] }).notNull(),
+  status: varchar("status", { enum: ["open", "resolved"] }).notNull().default("open"),
+  alertCount: integer("alert_count").notNull().default(0),
+  lastAlertAt: timestamp("last_alert_at").defaultNow(),
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_incidents_house_status").on(table.houseId, table.status),
+]);
+
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = typeof incidents.$inferInsert;
+export type IncidentWithAlerts = Incident & { alerts: Alert[] };
+
+// ===== NOTIFICATION TABLES =====
+export const NOTIFICATION_CHANNELS = ["email", "webhook", "in_app"] as const;
+export const NOTIFICATION_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type NotificationSeverity = typeof NOTIFICATION_SEVERITIES[number];
+
+// One row per user and channel; users without a row get the service defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  channel: varchar("channel", { enum: NOTIFICATION_CHANNELS }).notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  minSeverity: varchar("min_severity", { enum: NOTIFICATION_SEVERITIES }).notNull().default("high"),
+  target: text("target"), // Email address override, or webhook URL
+  secret: varchar("secret"), // Webhook HMAC signing secret
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_notification_preferences_user_channel").on(table.userId, table.channel),
+]);
+
+const webhookUrlSchema = z.string().url("Must be a valid URL").refine(
+  (url) => /^https?:\/\//i.test(url),
+  "Webhook URL must use http or https",
+);
+
+export const updateNotificationPreferencesSchema = z.object({
+  email: z.object({
+    enabled: z.boolean(),
+    minSeverity: z.enum(NOTIFICATION_SEVERITIES),
+    target: z.string().email("Must be a valid email address").nullable().optional(),
+  }).optional(),
+  webhook: z.object({
+    enabled: z.boolean(),
+    minSeverity: z.enum(NOTIFICATION_SEVERITIES),
+    target: webhookUrlSchema.nullable().optional(),
+    secret: z.string().min(16, "Signing secret must be at least 16 characters").nullable().optional(),
+  }).optional(),
+  in_app: z.object({
+    enabled: z.boolean(),
+    minSeverity: z.enum(NOTIFICATION_SEVERITIES),
+  }).optional(),
+});
+
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+// In-app inbox
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  houseId: varchar("house_id").references(() => houses.id, { onDelete: "cascade" }),
+  alertId: varchar("alert_id").references(() => alerts.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  severity: varchar("severity", { enum: NOTIFICATION_SEVERITIES }).notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_notifications_user_created").on(table.userId, table.createdAt),
+]);
+
+export type Notification = typeof notifications.$inferSelect;
+
+// What gets delivered; stored on each delivery so retries don't depend on the source still existing
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  severity: NotificationSeverity;
+  houseId?: string | null;
+  alertId?: string | null;
+  event: "alert" | "escalation" | "automation" | "privacy" | "test";
+}
+
+// Delivery log: one row per user, channel and notification, retried until sent or out of attempts
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  alertId: varchar("alert_id").references(() => alerts.id, { onDelete: "set null" }),
+  channel: varchar("channel", { enum: NOTIFICATION_CHANNELS }).notNull(),
+  target: text("target").notNull(),
+  payload: jsonb("payload").$type<NotificationPayload>().notNull(),
+  status: varchar("status", { enum: ["pending", "sent", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_notification_deliveries_status_next").on(table.status, table.nextAttemptAt),
+  index("IDX_notification_deliveries_user").on(table.userId, table.createdAt),
+]);
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = typeof notificationDeliveries.$inferInsert;
+
 // ===== AUTOMATION RULES TABLE =====
+// Rules are typed documents: one trigger, optional conditions, one or more actions.
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM (24h)");
+
+export const automationTriggerSchema = z.discriminatedUnion("type", [
+  // A sensor reading crosses a threshold, e.g. temperature > 30
+  z.object({
+    type: z.literal("sensor_threshold"),
+    deviceId: z.string().optional(), // Any device in the house when omitted
+    dataType: z.enum(["temperature", "motion", "audio_level", "video_frame", "power_consumption"]),
+    operator: z.enum(["gt", "gte", "lt", "lte", "eq"]),
+    value: z.number(),
+  }),
+  // An alert of a given type is raised in the house
+  z.object({
+    type: z.literal("alert"),
+    alertType: z.enum([
+      "motion_detected", "sound_detected", "glass_break", "fall_detected", "scream_detected",
+      "device_offline", "low_battery", "temperature_anomaly", "system_anomaly", "intrusion",
+    ]),
+    minSeverity: z.enum(["low", "medium", "high", "critical"]).optional(),
+    deviceId: z.string().optional(),
+  }),
+  // A device changes status, e.g. the front door lock goes offline
+  z.object({
+    type: z.literal("device_status"),
+    deviceId: z.string().optional(),
+    deviceType: z.enum(DEVICE_TYPES).optional(),
+    status: z.enum(["online", "offline", "warning"]),
+  }),
+  // A time of day in the house's timezone, optionally on specific weekdays (0 = Sunday)
+  z.object({
+    type: z.literal("schedule"),
+    time: clockTimeSchema,
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  }),
+]);
+
+export const automationConditionSchema = z.discriminatedUnion("type", [
+  // Only between start and end in the house's timezone (wraps past midnight when end < start)
+  z.object({
+    type: z.literal("time_window"),
+    start: clockTimeSchema,
+    end: clockTimeSchema,
+  }),
+  // Only when the house is in one of these modes
+  z.object({
+    type: z.literal("house_mode"),
+    modes: z.array(z.enum(["disarmed", "home", "away", "vacation"])).min(1),
+  }),
+]);
+
+export const automationActionSchema = z.discriminatedUnion("type", [
+  // Send a command to a device in the same house; command and params must
+  // satisfy deviceCommandSchema for the device's type
+  z.object({
+    type: z.literal("device_command"),
+    deviceId: z.string(),
+    command: z.enum(DEVICE_COMMAND_NAMES),
+    params: z.record(z.unknown()).optional(),
+  }),
+  // Raise an alert in the house
+  z.object({
+    type: z.literal("create_alert"),
+    alertType: z.enum([
+      "motion_detected", "sound_detected", "glass_break", "fall_detected", "scream_detected",
+      "device_offline", "low_battery", "temperature_anomaly", "system_anomaly", "intrusion",
+    ]),
+    severity: z.enum(["low", "medium", "high", "critical"]),
+    title: z.string().min(1),
+    description: z.string().optional(),
+  }),
+  // Notify the house's members
+  z.object({
+    type: z.literal("notify"),
+    message: z.string().min(1),
+    severity: z.enum(["low", "medium", "high", "critical"]).default("medium"),
+  }),
+]);
+
+export type AutomationTrigger = z.infer<typeof automationTriggerSchema>;
+export type AutomationCondition = z.infer<typeof automationConditionSchema>;
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+
 export const automationRules = pgTable("automation_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
-  trigger: text("trigger").notNull(), // e.g., "Motion in Yard", "Night time"
-  action: text("action").notNull(), // e.g., "Turn on Light", "Lock All Doors"
+  trigger: jsonb("trigger").$type<AutomationTrigger>().notNull(),
+  conditions: jsonb("conditions").$type<AutomationCondition[]>().notNull().default([]),
+  actions: jsonb("actions").$type<AutomationAction[]>().notNull(),
+  cooldownSeconds: integer("cooldown_seconds").notNull().default(60), // Minimum gap between firings
   status: varchar("status", { enum: ["active", "inactive"] }).notNull().default("active"),
+  lastTriggeredAt: timestamp("last_triggered_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertAutomationRuleSchema = createInsertSchema(automationRules).omit({
   id: true,
+  lastTriggeredAt: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  name: z.string().min(1, "Name is required"),
+  trigger: automationTriggerSchema,
+  conditions: z.array(automationConditionSchema).default([]),
+  actions: z.array(automationActionSchema).min(1, "At least one action is required"),
+  cooldownSeconds: z.number().int().min(0).max(86400).default(60),
 });
 
+export const updateAutomationRuleSchema = insertAutomationRuleSchema.omit({ houseId: true }).partial();
+
 export type InsertAutomationRule = z.infer<typeof insertAutomationRuleSchema>;
+export type UpdateAutomationRule = z.infer<typeof updateAutomationRuleSchema>;
 export type AutomationRule = typeof automationRules.$inferSelect;
 
+// Free-text rules from before rules were structured, kept as they were written
+// by `npm run db:migrate-automation-rules`. Read-only; nothing runs them.
+export const automationRulesLegacy = pgTable("automation_rules_legacy", {
+  id: varchar("id").primaryKey(),
+  houseId: varchar("house_id").notNull(),
+  name: text("name").notNull(),
+  trigger: text("trigger").notNull(),
+  action: text("action").notNull(),
+  status: varchar("status").notNull(),
+  createdAt: timestamp("created_at"),
+  archivedAt: timestamp("archived_at").notNull().defaultNow(),
+});
+
+export type AutomationRuleLegacy = typeof automationRulesLegacy.$inferSelect;
+
 // ===== SENSOR DATA TABLE =====
 export const sensorData = pgTable("sensor_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -194,10 +1212,118 @@ export const sensorData = pgTable("sensor_data", {
   value: real("value"),
   metadata: jsonb("metadata"), // Additional sensor-specific data
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_sensor_data_device_time").on(table.deviceId, table.timestamp),
+  index("IDX_sensor_data_device_type_time").on(table.deviceId, table.dataType, table.timestamp),
+]);
+
+export const insertSensorDataSchema = createInsertSchema(sensorData).omit({
+  id: true,
+});
+
+// How far ahead of the server's clock a reading's timestamp may be
+export const TELEMETRY_MAX_CLOCK_SKEW_MINUTES = 5;
+
+// Batch payload a device posts to /api/telemetry. Readings older than the
+// sensor_data retention horizon are refused by the telemetry service.
+export const telemetryReadingSchema = z.object({
+  dataType: z.enum(["temperature", "motion", "audio_level", "video_frame", "power_consumption"]),
+  value: z.number().finite().nullable().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  timestamp: z.coerce.date().refine(
+    (timestamp) => timestamp.getTime() <= Date.now() + TELEMETRY_MAX_CLOCK_SKEW_MINUTES * 60_000,
+    `Timestamp is more than ${TELEMETRY_MAX_CLOCK_SKEW_MINUTES} minutes in the future`,
+  ).optional(), // Defaults to the time the server receives the batch
 });
 
+export const telemetryBatchSchema = z.object({
+  status: z.enum(["online", "offline", "warning"]).optional(),
+  batteryLevel: z.number().int().min(0).max(100).optional(),
+  firmwareVersion: z.string().max(64).optional(),
+  state: z.record(z.unknown()).optional(), // Reported state, merged into devices.config
+  readings: z.array(telemetryReadingSchema).max(500, "At most 500 readings per batch").default([]),
+});
+
+export type InsertSensorData = z.infer<typeof insertSensorDataSchema>;
+export type TelemetryBatch = z.infer<typeof telemetryBatchSchema>;
 export type SensorData = typeof sensorData.$inferSelect;
 
+// Query parameters for GET /api/sensor-data. "raw" returns the readings
+// themselves; the others aggregate them into buckets of that size.
+export const SENSOR_BUCKETS = ["raw", "1m", "1h", "1d"] as const;
+
+// Longest time range each bucket size may cover, to keep responses bounded
+export const SENSOR_BUCKET_MAX_RANGE_HOURS: Record<(typeof SENSOR_BUCKETS)[number], number> = {
+  raw: 24,
+  "1m": 48,
+  "1h": 24 * 92,
+  "1d": 24 * 731,
+};
+
+export const sensorDataQuerySchema = z.object({
+  deviceId: z.string().optional(),
+  houseId: z.string().optional(),
+  dataType: z.enum(sensorData.dataType.enumValues).optional(), // All types when omitted
+  from: z.coerce.date(),
+  to: z.coerce.date().default(() => new Date()),
+  bucket: z.enum(SENSOR_BUCKETS).default("1h"),
+}).superRefine((query, ctx) => {
+  const hours = (query.to.getTime() - query.from.getTime()) / 3_600_000;
+  if (hours <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["from"], message: "from must be before to" });
+  } else if (hours > SENSOR_BUCKET_MAX_RANGE_HOURS[query.bucket]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["bucket"],
+      message: `A ${query.bucket} series can cover at most ${SENSOR_BUCKET_MAX_RANGE_HOURS[query.bucket]} hours`,
+    });
+  }
+});
+
+export type SensorDataQuery = z.infer<typeof sensorDataQuerySchema>;
+export type SensorReading = Pick<SensorData, "deviceId" | "dataType" | "value" | "timestamp">;
+// devices is how many distinct devices reported in the bucket
+export type SensorBucket = {
+  bucket: Date;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  count: number;
+  devices: number;
+};
+export type SensorSeries =
+  | { bucket: "raw"; points: SensorReading[] }
+  | { bucket: Exclude<SensorDataQuery["bucket"], "raw">; points: SensorBucket[] };
+
+// ===== SENSOR DATA ROLLUP TABLES =====
+// Per-device aggregates of raw readings, written by the retention job before it
+// deletes the raw rows (see retentionService). Sum and valueCount (readings with
+// a value) let buckets that were rolled up in more than one pass be merged.
+const sensorRollupColumns = () => ({
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  dataType: varchar("data_type", {
+    enum: ["temperature", "motion", "audio_level", "video_frame", "power_consumption"]
+  }).notNull(),
+  bucket: timestamp("bucket").notNull(), // Start of the hour/day, UTC
+  count: integer("count").notNull(),
+  valueCount: integer("value_count").notNull(),
+  sum: doublePrecision("sum"),
+  min: real("min"),
+  max: real("max"),
+});
+
+export const sensorDataHourly = pgTable("sensor_data_hourly", sensorRollupColumns(), (table) => [
+  primaryKey({ columns: [table.deviceId, table.dataType, table.bucket] }),
+  index("IDX_sensor_data_hourly_bucket").on(table.bucket),
+]);
+
+export const sensorDataDaily = pgTable("sensor_data_daily", sensorRollupColumns(), (table) => [
+  primaryKey({ columns: [table.deviceId, table.dataType, table.bucket] }),
+  index("IDX_sensor_data_daily_bucket").on(table.bucket),
+]);
+
+export type SensorRollup = typeof sensorDataHourly.$inferSelect;
+
 // ===== USER CONFIGURATION LOGS TABLE =====
 export const userConfigLogs = pgTable("user_config_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -210,6 +1336,112 @@ export const userConfigLogs = pgTable("user_config_logs", {
 
 export type UserConfigLog = typeof userConfigLogs.$inferSelect;
 
+// ===== PLATFORM SETTINGS TABLE =====
+// One row per setting key; platformSettingsSchema defines the keys, their types and defaults
+export const platformSettings = pgTable("platform_settings", {
+  key: varchar("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type PlatformSettingRow = typeof platformSettings.$inferSelect;
+
+export const PLATFORM_LOCALES = ["en-US", "en-GB", "es-ES", "fr-FR"] as const;
+
+export const platformSettingsSchema = z.object({
+  platformName: z.string().trim().min(1).max(100).default("SmartHomeCloud"),
+  defaultTimezone: timezoneSchema.default("UTC-05:00"),
+  defaultLocale: z.enum(PLATFORM_LOCALES).default("en-US"),
+  sessionTimeoutMinutes: z.number().int().min(5).max(43200).default(43200), // 30 days
+  dataRetentionEnabled: z.boolean().default(true),
+  requireStaffTwoFactor: z.boolean().default(false),
+  rateLimitingEnabled: z.boolean().default(false),
+  rateLimitPerMinute: z.number().int().min(10).max(10000).default(120),
+  auditLoggingEnabled: z.boolean().default(true),
+  crossTenantAnalytics: z.boolean().default(false),
+  storageQuotaGb: z.number().int().min(1).max(100000).default(100),
+});
+
+export const updatePlatformSettingsSchema = platformSettingsSchema
+  .partial()
+  .strict()
+  .refine((changes) => Object.keys(changes).length > 0, "No settings to update");
+
+export type PlatformSettings = z.infer<typeof platformSettingsSchema>;
+export type UpdatePlatformSettings = z.infer<typeof updatePlatformSettingsSchema>;
+
+// ===== DATA RETENTION TABLES =====
+// How long each table keeps its rows. Targets without a stored policy use the
+// defaults below. Alerts only age out once resolved or dismissed, and raw
+// sensor readings are rolled up into sensor_data_hourly/daily before deletion.
+export const RETENTION_TARGETS = [
+  "sensor_data",
+  "sensor_data_hourly",
+  "audio_detections",
+  "alerts",
+  "user_config_logs",
+] as const;
+
+export type RetentionTarget = (typeof RETENTION_TARGETS)[number];
+
+export const RETENTION_DEFAULT_DAYS: Record<RetentionTarget, number> = {
+  sensor_data: 30,
+  sensor_data_hourly: 365,
+  audio_detections: 90,
+  alerts: 180,
+  user_config_logs: 365,
+};
+
+export const retentionPolicies = pgTable("retention_policies", {
+  target: varchar("target", { enum: RETENTION_TARGETS }).primaryKey(),
+  retentionDays: integer("retention_days").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const updateRetentionPolicySchema = z.object({
+  retentionDays: z.number().int().min(1).max(3650).optional(),
+  enabled: z.boolean().optional(),
+}).refine((changes) => Object.keys(changes).length > 0, "No changes to apply");
+
+export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+export type UpdateRetentionPolicy = z.infer<typeof updateRetentionPolicySchema>;
+
+// What one run did (or, for a dry run, would do) to one target.
+// rows is the number of rows deleted; the rollup counts are buckets written.
+export type RetentionTargetResult = {
+  target: RetentionTarget;
+  retentionDays: number;
+  cutoff: string;
+  rows: number;
+  hourlyBuckets?: number;
+  dailyBuckets?: number;
+  incidents?: number; // Resolved incidents left without alerts
+};
+
+export const retentionRuns = pgTable("retention_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: varchar("trigger", { enum: ["scheduled", "manual"] }).notNull(),
+  dryRun: boolean("dry_run").notNull().default(false),
+  status: varchar("status", { enum: ["running", "completed", "failed"] }).notNull().default("running"),
+  results: jsonb("results").$type<RetentionTargetResult[]>().notNull().default([]),
+  error: text("error"),
+  startedBy: varchar("started_by").references(() => users.id, { onDelete: "set null" }), // Null for scheduled runs
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_retention_runs_started").on(table.startedAt),
+]);
+
+export const startRetentionRunSchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+export type InsertRetentionRun = typeof retentionRuns.$inferInsert;
+
 // ===== SURVEILLANCE FEEDS TABLE =====
 export const surveillanceFeeds = pgTable("surveillance_feeds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -222,6 +1454,158 @@ export const surveillanceFeeds = pgTable("surveillance_feeds", {
 
 export type SurveillanceFeed = typeof surveillanceFeeds.$inferSelect;
 
+// ===== RECORDINGS TABLE =====
+// Clips and snapshots captured by cameras. A clip is recording until it is
+// stopped, then pending until the camera uploads it; a snapshot is pending
+// from the start. The media itself lives in the recording store, at storagePath.
+// A camera has at most one clip recording at a time.
+export const RECORDING_TRIGGERS = ["manual", "alert", "schedule"] as const;
+
+export const recordings = pgTable("recordings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { enum: ["clip", "snapshot"] }).notNull(),
+  trigger: varchar("trigger", { enum: RECORDING_TRIGGERS }).notNull(),
+  status: varchar("status", { enum: ["recording", "pending", "available", "failed"] }).notNull(),
+  alertId: varchar("alert_id").references(() => alerts.id, { onDelete: "set null" }),
+  automationRuleId: varchar("automation_rule_id").references(() => automationRules.id, { onDelete: "set null" }),
+  requestedBy: varchar("requested_by").references(() => users.id, { onDelete: "set null" }),
+  commandId: varchar("command_id").references(() => deviceCommands.id, { onDelete: "set null" }), // Latest command sent for it
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  stopAt: timestamp("stop_at"), // Clips with a set length are stopped automatically
+  endedAt: timestamp("ended_at"),
+  sizeBytes: integer("size_bytes"),
+  mimeType: varchar("mime_type"),
+  storagePath: text("storage_path"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_recordings_device_started").on(table.deviceId, table.startedAt),
+  index("IDX_recordings_status").on(table.status),
+  uniqueIndex("UQ_recordings_device_recording").on(table.deviceId).where(sql`${table.status} = 'recording'`),
+]);
+
+// Query for GET /api/recordings
+export const recordingQuerySchema = z.object({
+  deviceId: z.string().optional(),
+  kind: z.enum(["clip", "snapshot"]).optional(),
+  status: z.enum(["recording", "pending", "available", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Body of POST /api/devices/:id/recordings. Without durationSeconds the clip
+// runs until it is stopped.
+export const startRecordingSchema = z.object({
+  durationSeconds: z.number().int().min(5).max(3600).optional(),
+});
+
+export type Recording = typeof recordings.$inferSelect;
+export type InsertRecording = typeof recordings.$inferInsert;
+export type RecordingQuery = z.infer<typeof recordingQuerySchema>;
+
+// ===== ALERT EVIDENCE TABLE =====
+// Recordings attached to an alert as evidence. A clip a camera was already
+// recording when the alert fired is attached to it as well.
+export const EVIDENCE_ALERT_TYPES: Alert["type"][] = ["intrusion", "motion_detected"];
+
+export const alertEvidence = pgTable("alert_evidence", {
+  alertId: varchar("alert_id").notNull().references(() => alerts.id, { onDelete: "cascade" }),
+  recordingId: varchar("recording_id").notNull().references(() => recordings.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.alertId, table.recordingId] }),
+]);
+
+export type AlertEvidenceRecording = Recording & { deviceName: string; room: string };
+
+// GET /api/alerts/:id/evidence
+export type AlertEvidence = {
+  recordings: AlertEvidenceRecording[];
+  audioDetections: AudioDetection[];
+};
+
+// ===== CAMERA PRIVACY TABLE =====
+// Per-camera privacy, one row per camera that has any. Masks are rectangles,
+// in percent of the frame, that the camera blanks in everything it streams and
+// records. While privacy mode is on, the camera's feed, recordings and
+// snapshots are blocked: it is on when turned on by hand, during any schedule
+// window (house timezone) and while the house is in one of houseModes.
+export const privacyMaskSchema = z.object({
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+  width: z.number().gt(0).max(100),
+  height: z.number().gt(0).max(100),
+}).refine((mask) => mask.x + mask.width <= 100 && mask.y + mask.height <= 100, "Mask must stay inside the frame");
+
+// Wraps past midnight when end < start; daysOfWeek (0 = Sunday) are the days it starts on
+export const privacyScheduleWindowSchema = z.object({
+  start: clockTimeSchema,
+  end: clockTimeSchema,
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+});
+
+export type PrivacyMask = z.infer<typeof privacyMaskSchema>;
+export type PrivacyScheduleWindow = z.infer<typeof privacyScheduleWindowSchema>;
+
+export const cameraPrivacy = pgTable("camera_privacy", {
+  deviceId: varchar("device_id").primaryKey().references(() => devices.id, { onDelete: "cascade" }),
+  masks: jsonb("masks").$type<PrivacyMask[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(false), // Privacy mode turned on by hand
+  schedule: jsonb("schedule").$type<PrivacyScheduleWindow[]>().notNull().default([]),
+  houseModes: jsonb("house_modes").$type<House["mode"][]>().notNull().default([]),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Body of PATCH /api/devices/:id/privacy; fields left out keep their values
+export const updateCameraPrivacySchema = z.object({
+  masks: z.array(privacyMaskSchema).max(8),
+  enabled: z.boolean(),
+  schedule: z.array(privacyScheduleWindowSchema).max(14),
+  houseModes: z.array(z.enum(HOUSE_MODES)),
+}).partial();
+
+export type CameraPrivacy = typeof cameraPrivacy.$inferSelect;
+export type UpdateCameraPrivacy = z.infer<typeof updateCameraPrivacySchema>;
+
+// GET /api/devices/:id/privacy: the settings and whether privacy mode is on now, and why
+export type CameraPrivacyStatus = Pick<CameraPrivacy, "masks" | "enabled" | "schedule" | "houseModes"> & {
+  active: boolean;
+  activeReason: "manual" | "schedule" | "house_mode" | null;
+};
+
+// ===== PRIVACY ACCESS LOG TABLE =====
+// Staff who opened a camera's feed while it was in privacy mode (break-glass), and why
+export const privacyAccessLogs = pgTable("privacy_access_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  houseId: varchar("house_id").notNull().references(() => houses.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  activeReason: varchar("active_reason", { enum: ["manual", "schedule", "house_mode"] }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_privacy_access_logs_device").on(table.deviceId, table.createdAt),
+]);
+
+// Body of POST /api/devices/:id/feed/break-glass
+export const breakGlassSchema = z.object({
+  reason: z.string().trim().min(10, "Give a reason of at least 10 characters").max(500),
+});
+
+export type PrivacyAccessLog = typeof privacyAccessLogs.$inferSelect;
+export type PrivacyAccessLogWithUser = PrivacyAccessLog & {
+  user: Pick<User, "id" | "email" | "firstName" | "lastName">;
+};
+
+// GET /api/devices/:id/feed: the masks are for overlaying on the stream
+export type CameraFeed = {
+  feed: SurveillanceFeed | null;
+  masks: PrivacyMask[];
+  breakGlass: boolean; // Opened past privacy mode
+};
+
 // ===== MAINTENANCE RECORDS TABLE =====
 export const maintenanceRecords = pgTable("maintenance_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -255,12 +1639,12 @@ export const audioDetections = pgTable("audio_detections", {
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size"),
   duration: real("duration"),
-  modelUsed: varchar("model_used", { enum: ["yamnet", "hubert", "both"] }).notNull().default("both"),
+  modelUsed: varchar("model_used", { enum: ["yamnet", "hubert", "both", "dsp"] }).notNull().default("dsp"),
   detectedClass: text("detected_class").notNull(), // e.g., "dog", "human scream", "glass breaking"
   confidence: real("confidence").notNull(), // 0.0 to 1.0
   predictions: jsonb("predictions"), // Full prediction results from models
   alertGenerated: boolean("alert_generated").notNull().default(false),
-  alertId: varchar("alert_id").references(() => alerts.id),
+  alertId: varchar("alert_id").references(() => alerts.id, { onDelete: "set null" }),
   processedAt: timestamp("processed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -277,8 +1661,10 @@ export type AudioDetection = typeof audioDetections.$inferSelect;
 // ===== RELATIONS =====
 export const usersRelations = relations(users, ({ many }) => ({
   houses: many(houses),
+  houseMemberships: many(houseMembers),
   acknowledgedAlerts: many(alerts, { relationName: "acknowledged_by" }),
   resolvedAlerts: many(alerts, { relationName: "resolved_by" }),
+  assignedAlerts: many(alerts, { relationName: "assignee" }),
 }));
 
 export const housesRelations = relations(houses, ({ one, many }) => ({
@@ -289,6 +1675,49 @@ export const housesRelations = relations(houses, ({ one, many }) => ({
   devices: many(devices),
   alerts: many(alerts),
   automationRules: many(automationRules),
+  members: many(houseMembers),
+  invitations: many(houseInvitations),
+  incidents: many(incidents),
+  floors: many(floors),
+  rooms: many(rooms),
+}));
+
+export const houseMembersRelations = relations(houseMembers, ({ one }) => ({
+  house: one(houses, {
+    fields: [houseMembers.houseId],
+    references: [houses.id],
+  }),
+  user: one(users, {
+    fields: [houseMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const houseInvitationsRelations = relations(houseInvitations, ({ one }) => ({
+  house: one(houses, {
+    fields: [houseInvitations.houseId],
+    references: [houses.id],
+  }),
+}));
+
+export const floorsRelations = relations(floors, ({ one, many }) => ({
+  house: one(houses, {
+    fields: [floors.houseId],
+    references: [houses.id],
+  }),
+  rooms: many(rooms),
+}));
+
+export const roomsRelations = relations(rooms, ({ one, many }) => ({
+  house: one(houses, {
+    fields: [rooms.houseId],
+    references: [houses.id],
+  }),
+  floor: one(floors, {
+    fields: [rooms.floorId],
+    references: [floors.id],
+  }),
+  devices: many(devices),
 }));
 
 export const devicesRelations = relations(devices, ({ one, many }) => ({
@@ -296,12 +1725,32 @@ export const devicesRelations = relations(devices, ({ one, many }) => ({
     fields: [devices.houseId],
     references: [houses.id],
   }),
+  roomRecord: one(rooms, {
+    fields: [devices.roomId],
+    references: [rooms.id],
+  }),
   alerts: many(alerts),
   sensorData: many(sensorData),
   surveillanceFeeds: many(surveillanceFeeds),
+  credentials: many(deviceCredentials),
+  commands: many(deviceCommands),
+}));
+
+export const deviceCredentialsRelations = relations(deviceCredentials, ({ one }) => ({
+  device: one(devices, {
+    fields: [deviceCredentials.deviceId],
+    references: [devices.id],
+  }),
+}));
+
+export const deviceCommandsRelations = relations(deviceCommands, ({ one }) => ({
+  device: one(devices, {
+    fields: [deviceCommands.deviceId],
+    references: [devices.id],
+  }),
 }));
 
-export const alertsRelations = relations(alerts, ({ one }) => ({
+export const alertsRelations = relations(alerts, ({ one, many }) => ({
   house: one(houses, {
     fields: [alerts.houseId],
     references: [houses.id],
@@ -320,6 +1769,46 @@ export const alertsRelations = relations(alerts, ({ one }) => ({
     references: [users.id],
     relationName: "resolved_by",
   }),
+  assignee: one(users, {
+    fields: [alerts.assigneeId],
+    references: [users.id],
+    relationName: "assignee",
+  }),
+  escalationPolicy: one(escalationPolicies, {
+    fields: [alerts.escalationPolicyId],
+    references: [escalationPolicies.id],
+  }),
+  incident: one(incidents, {
+    fields: [alerts.incidentId],
+    references: [incidents.id],
+  }),
+  activity: many(alertActivity),
+}));
+
+export const alertActivityRelations = relations(alertActivity, ({ one }) => ({
+  alert: one(alerts, {
+    fields: [alertActivity.alertId],
+    references: [alerts.id],
+  }),
+  actor: one(users, {
+    fields: [alertActivity.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const incidentsRelations = relations(incidents, ({ one, many }) => ({
+  house: one(houses, {
+    fields: [incidents.houseId],
+    references: [houses.id],
+  }),
+  alerts: many(alerts),
+}));
+
+export const escalationPoliciesRelations = relations(escalationPolicies, ({ one }) => ({
+  house: one(houses, {
+    fields: [escalationPolicies.houseId],
+    references: [houses.id],
+  }),
 }));
 
 export const automationRulesRelations = relations(automationRules, ({ one }) => ({